@@ -1,6 +1,7 @@
 import React, { memo } from 'react';
 import { Handle, Position } from 'reactflow';
 import { NodeResizer } from '@reactflow/node-resizer';
+import { DiffStatus } from './utils/diffOverlay';
 
 import '@reactflow/node-resizer/dist/style.css';
 import './DecisionNode.css';
@@ -9,6 +10,7 @@ interface DecisionNodeData {
   label: string;
   isAnd?: boolean;
   screenWidth?: number;
+  diffStatus?: DiffStatus;  // Compare overlay
 }
 
 interface DecisionNodeProps {
@@ -18,7 +20,7 @@ interface DecisionNodeProps {
 
 export default memo(({ data, selected }: DecisionNodeProps) => {
   return (
-    <div className={`decision-node${data.isAnd ? ' and-node' : ''}${selected ? ' selected' : ''}`}>
+    <div className={`decision-node${data.isAnd ? ' and-node' : ''}${selected ? ' selected' : ''}${data.diffStatus ? ` diff-${data.diffStatus}` : ''}`}>
       <NodeResizer
         isVisible={selected}
         keepAspectRatio={true}
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Paper,
+  IconButton,
+  Typography,
+  Box,
+  Tooltip,
+  Divider,
+  Button,
+  List,
+  ListItemButton,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  KeyboardArrowUp as PrevIcon,
+  KeyboardArrowDown as NextIcon,
+} from '@mui/icons-material';
+import { DiffItem, DIFF_COLORS } from './utils/diffOverlay';
+
+interface DiffPanelProps {
+  /** The file the current machine is compared with. */
+  filePath: string;
+  items: DiffItem[];
+  layoutChanges: number;
+  selectedKey: string | null;
+  onSelect: (item: DiffItem) => void;
+  onShowSummary: () => void;
+  onClose: () => void;
+}
+
+const SIGNS = { added: '+', removed: '−', renamed: '~', modified: '~' } as const;
+
+// Changes against another version, in the order of the structural diff.
+// Clicking a change (or stepping with the arrows) zooms the canvas to it.
+const DiffPanel: React.FC<DiffPanelProps> = ({ filePath, items, layoutChanges, selectedKey, onSelect, onShowSummary, onClose }) => {
+  const fileName = filePath.replace(/^.*[\\/]/, '');
+  const index = items.findIndex(i => i.key === selectedKey);
+  const step = (delta: number) => {
+    if (items.length === 0) return;
+    const next = index === -1 ? (delta > 0 ? 0 : items.length - 1) : (index + delta + items.length) % items.length;
+    onSelect(items[next]);
+  };
+  const count = (kind: DiffItem['kind']) => items.filter(i => i.kind === kind).length;
+
+  return (
+    <Paper
+      elevation={6}
+      square
+      sx={{ width: 340, flexShrink: 0, zIndex: 10, display: 'flex', flexDirection: 'column', minHeight: 0 }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, px: 1.5, py: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" noWrap sx={{ flexGrow: 1 }} title={filePath}>
+          Changes from {fileName}
+        </Typography>
+        <Tooltip title="Previous change">
+          <span>
+            <IconButton size="small" onClick={() => step(-1)} disabled={items.length === 0}><PrevIcon fontSize="small" /></IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Next change">
+          <span>
+            <IconButton size="small" onClick={() => step(1)} disabled={items.length === 0}><NextIcon fontSize="small" /></IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Stop comparing">
+          <IconButton size="small" onClick={onClose}><CloseIcon fontSize="small" /></IconButton>
+        </Tooltip>
+      </Box>
+      <Divider />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, px: 1.5, py: 0.5 }}>
+        <Typography variant="caption" sx={{ color: DIFF_COLORS.added }}>+{count('added')}</Typography>
+        <Typography variant="caption" sx={{ color: DIFF_COLORS.removed }}>−{count('removed')}</Typography>
+        <Typography variant="caption" sx={{ color: DIFF_COLORS.modified }}>~{count('modified') + count('renamed')}</Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+          {layoutChanges > 0 ? `${layoutChanges} layout only` : ''}
+        </Typography>
+        <Button size="small" onClick={onShowSummary}>Summary</Button>
+      </Box>
+      <Divider />
+      <List dense disablePadding sx={{ overflowY: 'auto', flexGrow: 1 }}>
+        {items.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 1.5 }}>No structural changes.</Typography>
+        )}
+        {items.map(item => (
+          <ListItemButton
+            key={item.key}
+            selected={item.key === selectedKey}
+            onClick={() => onSelect(item)}
+            sx={{ display: 'block', py: 0.25 }}
+          >
+            <Typography variant="body2" sx={{ fontSize: 12 }}>
+              <span style={{ color: DIFF_COLORS[item.kind], fontWeight: 'bold' }}>{SIGNS[item.kind]} </span>
+              {item.title}
+            </Typography>
+            {item.details.map(d => (
+              <Typography key={d} variant="caption" color="text.secondary" component="div" noWrap sx={{ pl: 1.5 }} title={d}>
+                {d}
+              </Typography>
+            ))}
+          </ListItemButton>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+export default DiffPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import {
+  Paper,
+  IconButton,
+  Typography,
+  Box,
+  Tooltip,
+  Divider,
+  List,
+  ListItemButton,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { HistoryEntry, MAX_STACK_SIZE } from './useUndoRedo';
+
+interface HistoryPanelProps {
+  history: { done: HistoryEntry[]; undone: HistoryEntry[] };
+  /** Undo (negative) or redo (positive) this many operations. */
+  onTravel: (steps: number) => void;
+  onClose: () => void;
+}
+
+const Row: React.FC<{ label: string; time?: number; selected: boolean; undone?: boolean; onClick: () => void }> = ({ label, time, selected, undone, onClick }) => (
+  <ListItemButton selected={selected} onClick={onClick} sx={{ py: 0.25, gap: 1, opacity: undone ? 0.5 : 1 }}>
+    <Typography variant="body2" noWrap sx={{ fontSize: 12, flexGrow: 1, fontStyle: undone ? 'italic' : undefined }} title={label}>
+      {label}
+    </Typography>
+    {time !== undefined && (
+      <Typography variant="caption" color="text.secondary" sx={{ flexShrink: 0 }}>
+        {new Date(time).toLocaleTimeString()}
+      </Typography>
+    )}
+  </ListItemButton>
+);
+
+// The undo history, oldest first. The current point is highlighted and undone
+// operations are dimmed below it; clicking a row undoes or redoes up to it.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onTravel, onClose }) => {
+  const { done, undone } = history;
+  return (
+    <Paper
+      elevation={6}
+      square
+      sx={{ width: 280, flexShrink: 0, zIndex: 10, display: 'flex', flexDirection: 'column', minHeight: 0 }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, px: 1.5, py: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+          History
+        </Typography>
+        <Tooltip title="Close">
+          <IconButton size="small" onClick={onClose}><CloseIcon fontSize="small" /></IconButton>
+        </Tooltip>
+      </Box>
+      <Divider />
+      <List dense disablePadding sx={{ overflowY: 'auto', flexGrow: 1 }}>
+        <Row
+          label={done.length === MAX_STACK_SIZE ? 'Earlier changes' : 'Beginning'}
+          selected={done.length === 0}
+          onClick={() => onTravel(-done.length)}
+        />
+        {done.map((entry, i) => (
+          <Row
+            key={`done-${i}`}
+            label={entry.label}
+            time={entry.time}
+            selected={i === done.length - 1}
+            onClick={() => onTravel(i + 1 - done.length)}
+          />
+        ))}
+        {undone.map((entry, i) => (
+          <Row
+            key={`undone-${i}`}
+            label={entry.label}
+            time={entry.time}
+            selected={false}
+            undone
+            onClick={() => onTravel(i + 1)}
+          />
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  Alert,
+} from '@mui/material';
+import { mergeModels, unresolvedConflicts, MergeConflict, MergeResolution } from './utils/modelMerge';
+import { DiffModel } from './utils/modelDiff';
+import { collectDiagnostics } from './utils/diagnostics';
+import type { MergeSession } from './hooks/useMerge';
+
+interface MergeDialogProps {
+  session: MergeSession | null;
+  onApply: (model: DiffModel) => void;
+  onClose: () => void;
+}
+
+const fileName = (filePath: string) => filePath.replace(/^.*[\\/]/, '');
+
+const Value: React.FC<{ label: string; value: string; chosen?: boolean }> = ({ label, value, chosen }) => (
+  <Box sx={{ display: 'flex', gap: 1, alignItems: 'baseline', opacity: chosen === false ? 0.6 : 1 }}>
+    <Typography variant="caption" color="text.secondary" sx={{ minWidth: 50 }}>{label}</Typography>
+    <Typography variant="caption" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontWeight: chosen ? 'bold' : undefined }}>
+      {value || '(none)'}
+    </Typography>
+  </Box>
+);
+
+const Conflict: React.FC<{
+  conflict: MergeConflict;
+  resolution: MergeResolution | undefined;
+  onResolve: (resolution: MergeResolution) => void;
+}> = ({ conflict, resolution, onResolve }) => {
+  const choice = typeof resolution === 'object' ? 'manual' : resolution ?? null;
+  return (
+    <Box sx={{ py: 1, borderBottom: 1, borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+        <Typography variant="body2" sx={{ flexGrow: 1 }}>
+          {conflict.title} <Typography component="span" variant="body2" color="text.secondary">({conflict.field})</Typography>
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={choice}
+          onChange={(_, value: 'ours' | 'theirs' | 'manual' | null) => {
+            if (value === 'manual') onResolve({ manual: conflict.ours });
+            else if (value) onResolve(value);
+          }}
+        >
+          <ToggleButton value="ours">Ours</ToggleButton>
+          <ToggleButton value="theirs">Theirs</ToggleButton>
+          {conflict.editable && <ToggleButton value="manual">Edit</ToggleButton>}
+        </ToggleButtonGroup>
+      </Box>
+      <Value label="base" value={conflict.base} />
+      <Value label="ours" value={conflict.ours} chosen={choice ? choice === 'ours' : undefined} />
+      <Value label="theirs" value={conflict.theirs} chosen={choice ? choice === 'theirs' : undefined} />
+      {typeof resolution === 'object' && (
+        <TextField
+          value={resolution.manual}
+          onChange={(e) => onResolve({ manual: e.target.value })}
+          multiline
+          fullWidth
+          size="small"
+          sx={{ mt: 0.5 }}
+          slotProps={{ htmlInput: { style: { fontFamily: 'monospace', fontSize: 12 } } }}
+        />
+      )}
+    </Box>
+  );
+};
+
+// Three-way merge of their version into the current machine. Changes made on
+// one side only are already merged; each conflicting field has to be taken
+// from ours or theirs, or edited, before the result replaces the machine.
+export const MergeDialog: React.FC<MergeDialogProps> = ({ session, onApply, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  useEffect(() => setResolutions({}), [session]);
+
+  const result = useMemo(
+    () => (session ? mergeModels(session.base, session.ours, session.theirs, resolutions) : null),
+    [session, resolutions],
+  );
+  const unresolved = result ? unresolvedConflicts(result, resolutions).length : 0;
+  const problems = useMemo(() => {
+    if (!result) return 0;
+    const { nodes, edges, machineProperties } = result.model;
+    return collectDiagnostics(nodes, edges, machineProperties).filter(d => d.severity === 'error').length;
+  }, [result]);
+
+  const resolveAll = (side: 'ours' | 'theirs') => {
+    if (!result) return;
+    setResolutions(Object.fromEntries(result.conflicts.map(c => [c.key, side])));
+  };
+
+  return (
+    <Dialog open={session !== null} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Merge {session ? fileName(session.theirsPath) : ''} into the current machine</DialogTitle>
+      <DialogContent dividers>
+        {session && result && (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                Base {fileName(session.basePath)}: {result.merged} change{result.merged === 1 ? '' : 's'} from theirs merged
+                automatically, {result.conflicts.length} conflict{result.conflicts.length === 1 ? '' : 's'}
+                {unresolved > 0 ? ` (${unresolved} unresolved)` : ''}.
+              </Typography>
+              {result.conflicts.length > 0 && (
+                <>
+                  <Button size="small" onClick={() => resolveAll('ours')}>All Ours</Button>
+                  <Button size="small" onClick={() => resolveAll('theirs')}>All Theirs</Button>
+                </>
+              )}
+            </Box>
+            {result.conflicts.map(c => (
+              <Conflict
+                key={c.key}
+                conflict={c}
+                resolution={resolutions[c.key]}
+                onResolve={(resolution) => setResolutions(prev => ({ ...prev, [c.key]: resolution }))}
+              />
+            ))}
+            {problems > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                The merged machine has {problems} error{problems === 1 ? '' : 's'}; they are listed in the Problems panel after merging.
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => result && onApply(result.model)} variant="contained" disabled={!result || unresolved > 0}>
+          Merge
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergeDialog;
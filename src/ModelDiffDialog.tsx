@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+} from '@mui/material';
+import { ModelDiff, FieldChange, formatDiff, isEmptyDiff } from './utils/modelDiff';
+import { DIFF_COLORS } from './utils/diffOverlay';
+
+interface ModelDiffDialogProps {
+  open: boolean;
+  /** The file the current machine is compared with (the older side). */
+  filePath: string | null;
+  diff: ModelDiff | null;
+  onClose: () => void;
+}
+
+const SIGNS = { added: '+', removed: '−', renamed: '~', modified: '~' } as const;
+
+const Fields: React.FC<{ fields: FieldChange[] }> = ({ fields }) => (
+  <>
+    {fields.map(f => (
+      <Box key={f.field} sx={{ pl: 3, display: 'flex', gap: 1, alignItems: 'baseline' }}>
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 70 }}>{f.field}</Typography>
+        <Typography variant="caption" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          <span style={{ color: DIFF_COLORS.removed, textDecoration: 'line-through' }}>{f.before || '(none)'}</span>
+          {' → '}
+          <span style={{ color: DIFF_COLORS.added }}>{f.after || '(none)'}</span>
+        </Typography>
+      </Box>
+    ))}
+  </>
+);
+
+const Change: React.FC<{ kind: keyof typeof SIGNS; title: string; note?: string; fields: FieldChange[] }> = ({ kind, title, note, fields }) => (
+  <Box sx={{ py: 0.5 }}>
+    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+      <span style={{ color: DIFF_COLORS[kind], fontWeight: 'bold' }}>{SIGNS[kind]} </span>
+      {title}
+      {note && <Typography component="span" variant="caption" color="text.secondary"> {note}</Typography>}
+    </Typography>
+    <Fields fields={fields} />
+  </Box>
+);
+
+export const ModelDiffDialog: React.FC<ModelDiffDialogProps> = ({ open, filePath, diff, onClose }) => {
+  const fileName = filePath ? filePath.replace(/^.*[\\/]/, '') : '';
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Changes from {fileName} to the current machine</DialogTitle>
+      <DialogContent dividers>
+        {diff && isEmptyDiff(diff) && (
+          <Typography variant="body2">No structural changes.</Typography>
+        )}
+        {diff && diff.states.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">States</Typography>
+            {diff.states.map(s => (
+              <Change key={`${s.kind} ${s.beforeId ?? ''} ${s.afterId ?? ''}`} kind={s.kind}
+                title={s.vertex === 'state' ? s.path : `${s.path} (${s.vertex})`}
+                note={s.oldPath ? `renamed from ${s.oldPath}` : undefined} fields={s.fields} />
+            ))}
+          </Box>
+        )}
+        {diff && diff.transitions.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">Transitions</Typography>
+            {diff.transitions.map(t => (
+              <Change key={`${t.kind} ${t.beforeId ?? ''} ${t.afterId ?? ''}`} kind={t.kind} title={t.path} fields={t.fields} />
+            ))}
+          </Box>
+        )}
+        {diff && diff.machine.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">Machine properties</Typography>
+            <Fields fields={diff.machine} />
+          </Box>
+        )}
+        {diff && diff.layoutChanges > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {diff.layoutChanges} layout-only change{diff.layoutChanges === 1 ? '' : 's'} (moved, resized or rerouted) not shown
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => diff && navigator.clipboard.writeText(formatDiff(diff))} disabled={!diff}>
+          Copy as Text
+        </Button>
+        <Button onClick={onClose} variant="contained" autoFocus>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ModelDiffDialog;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  IconButton,
+  Typography,
+  Box,
+  Tooltip,
+  Divider,
+  Button,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  ErrorOutline as ErrorIcon,
+  WarningAmber as WarningIcon,
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon,
+  VerticalSplit as DockRightIcon,
+  HorizontalSplit as DockBottomIcon,
+} from '@mui/icons-material';
+import { Diagnostic } from './utils/diagnostics';
+import { LintSeverity } from './utils/modelLint';
+
+export type ProblemsDock = 'bottom' | 'right';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  dock: ProblemsDock;
+  onNavigate: (diagnostic: Diagnostic) => void;
+  onQuickFix: (diagnostic: Diagnostic) => void;
+  onToggleDock: () => void;
+  onClose: () => void;
+}
+
+const SEVERITY_GROUPS: { severity: LintSeverity; title: string }[] = [
+  { severity: 'error', title: 'Errors' },
+  { severity: 'warning', title: 'Warnings' },
+];
+
+const cellSx = { py: 0.25, fontSize: 12 };
+
+// Live list of syntax, consistency and lint problems, grouped by severity.
+// Clicking a row selects and zooms to the offending state or transition;
+// problems with a known remedy get a quick-fix button.
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, dock, onNavigate, onQuickFix, onToggleDock, onClose }) => {
+  const [collapsed, setCollapsed] = useState<Set<LintSeverity>>(new Set());
+  const isRight = dock === 'right';
+
+  const toggleGroup = (severity: LintSeverity) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(severity)) next.delete(severity);
+      else next.add(severity);
+      return next;
+    });
+  };
+
+  const counts = {
+    error: diagnostics.filter(d => d.severity === 'error').length,
+    warning: diagnostics.filter(d => d.severity === 'warning').length,
+  };
+
+  return (
+    <Paper
+      elevation={6}
+      square
+      sx={isRight
+        ? { width: 360, flexShrink: 0, zIndex: 10, display: 'flex', flexDirection: 'column', minHeight: 0 }
+        : { flexShrink: 0, zIndex: 10 }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, px: 1.5, py: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+          Problems
+        </Typography>
+        <Divider orientation="vertical" flexItem />
+        <ErrorIcon sx={{ fontSize: 16, color: counts.error ? 'error.main' : 'text.disabled' }} />
+        <Typography variant="caption">{counts.error}</Typography>
+        <WarningIcon sx={{ fontSize: 16, color: counts.warning ? 'warning.main' : 'text.disabled' }} />
+        <Typography variant="caption">{counts.warning}</Typography>
+
+        <Box sx={{ flex: 1 }} />
+
+        <Tooltip title={isRight ? 'Dock at the bottom' : 'Dock on the right'}>
+          <IconButton size="small" onClick={onToggleDock}>
+            {isRight ? <DockBottomIcon fontSize="small" /> : <DockRightIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+        <IconButton size="small" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Divider />
+
+      {diagnostics.length === 0 ? (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', px: 1.5, py: 0.75 }}>
+          No problems found.
+        </Typography>
+      ) : (
+        <TableContainer sx={isRight ? { flex: 1, minHeight: 0 } : { maxHeight: 200 }}>
+          <Table size="small">
+            <TableBody>
+              {SEVERITY_GROUPS.filter(g => counts[g.severity] > 0).map(group => (
+                <React.Fragment key={group.severity}>
+                  <TableRow hover onClick={() => toggleGroup(group.severity)} sx={{ cursor: 'pointer' }}>
+                    <TableCell colSpan={isRight ? 3 : 5} sx={{ ...cellSx, fontWeight: 600, bgcolor: 'action.hover' }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {collapsed.has(group.severity)
+                          ? <ChevronRightIcon sx={{ fontSize: 16 }} />
+                          : <ExpandMoreIcon sx={{ fontSize: 16 }} />}
+                        {group.title} ({counts[group.severity]})
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                  {!collapsed.has(group.severity) && diagnostics
+                    .filter(d => d.severity === group.severity)
+                    .map((d, i) => (
+                      <TableRow
+                        key={i}
+                        hover
+                        onClick={() => onNavigate(d)}
+                        sx={{ cursor: d.nodeId || d.edgeId ? 'pointer' : 'default' }}
+                      >
+                        <TableCell sx={{ width: 24, py: 0.25, pr: 0, verticalAlign: 'top' }}>
+                          {d.severity === 'error'
+                            ? <ErrorIcon sx={{ fontSize: 16, color: 'error.main' }} />
+                            : <WarningIcon sx={{ fontSize: 16, color: 'warning.main' }} />}
+                        </TableCell>
+                        <TableCell sx={cellSx}>
+                          {d.message}
+                          {isRight && (
+                            <Typography variant="caption" component="div" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                              {d.path}{d.field ? ` · ${d.field}` : ''}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        {!isRight && (
+                          <>
+                            <TableCell sx={{ ...cellSx, fontFamily: 'monospace', color: 'text.secondary', whiteSpace: 'nowrap' }}>
+                              {d.path}
+                            </TableCell>
+                            <TableCell sx={{ ...cellSx, fontFamily: 'monospace', color: 'text.secondary', whiteSpace: 'nowrap' }}>
+                              {d.field ?? ''}
+                            </TableCell>
+                          </>
+                        )}
+                        <TableCell sx={{ ...cellSx, width: 1, whiteSpace: 'nowrap', textAlign: 'right' }}>
+                          {d.fix && (
+                            <Button
+                              size="small"
+                              sx={{ py: 0, fontSize: 11, textTransform: 'none' }}
+                              onClick={(e) => { e.stopPropagation(); onQuickFix(d); }}
+                            >
+                              {d.fix.label}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+};
+
+export default ProblemsPanel;
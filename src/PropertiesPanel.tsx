@@ -12,12 +12,20 @@ import {
   ListItemText,
   Tabs,
   Tab,
+  InputAdornment,
 } from '@mui/material';
 import OpenInFullIcon from '@mui/icons-material/OpenInFull';
 import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import ClearIcon from '@mui/icons-material/Clear';
 import { CodeEditorDialog } from './CodeEditorDialog';
 import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import { findShadowedEdges } from './utils/modelLint';
+import { triggerText } from './utils/transitionLabel';
+import { parseDelay, formatDelay } from './utils/timeout';
 
 
 interface Edge {
@@ -25,6 +33,8 @@ interface Edge {
   source: string;
   target: string;
   data?: {
+    after?: string;
+    event?: string;
     guard?: string;
     action?: string;
   };
@@ -65,6 +75,9 @@ interface PropertiesPanelProps {
   onNameFocused?: () => void;
   replaceVersion?: number;
   readOnly?: boolean;
+  /** Ask for an .smb file; resolves to the reference to store, or null if canceled */
+  onChooseSubmachine?: () => Promise<string | null>;
+  onOpenSubmachine?: (ref: string) => void;
 }
 
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
@@ -86,6 +99,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   onNameFocused,
   replaceVersion,
   readOnly = false,
+  onChooseSubmachine,
+  onOpenSubmachine,
 }) => {
   const [tempName, setTempName] = useState('');
   const [tempEntry, setTempEntry] = useState('');
@@ -98,6 +113,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const [tempShowDo, setTempShowDo] = useState(false);
   const [expandedField, setExpandedField] = useState<'entry' | 'exit' | 'do' | 'annotation' | 'guard' | 'action' | null>(null);
   const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [tempAfter, setTempAfter] = useState('');
+  const [tempEvent, setTempEvent] = useState('');
   const [tempGuard, setTempGuard] = useState('');
   const [tempAction, setTempAction] = useState('');
   const [activeTab, setActiveTab] = useState(0);
@@ -111,6 +128,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const tempExitRef = useRef(tempExit); tempExitRef.current = tempExit;
   const tempDoRef = useRef(tempDo); tempDoRef.current = tempDo;
   const tempAnnotationRef = useRef(tempAnnotation); tempAnnotationRef.current = tempAnnotation;
+  const tempAfterRef = useRef(tempAfter); tempAfterRef.current = tempAfter;
+  const tempEventRef = useRef(tempEvent); tempEventRef.current = tempEvent;
   const tempGuardRef = useRef(tempGuard); tempGuardRef.current = tempGuard;
   const tempActionRef = useRef(tempAction); tempActionRef.current = tempAction;
   // Refs to latest props/callbacks so effects can use them without stale closures
@@ -176,6 +195,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     return sourceNode?.type === 'decisionNode' ? sigilizePseudoRef(rel) : rel;
   }, [nodes, computeNodePathLocal]);
 
+  // Timeouts count from entering a state, so decision branches have none
+  const isStateSource = useCallback((edge: Edge): boolean =>
+    nodes.find(n => n.id === edge.source)?.type === 'stateNode',
+  [nodes]);
+
   // Resolve proxy node to its real target ID
   const resolveRealTargetId = useCallback((targetId: string): string => {
     const node = nodes.find(n => n.id === targetId);
@@ -284,6 +308,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         setTempAnnotation((selectedNode.data.annotation as string) || '');
       }
       if (selectedEdge) {
+        setTempAfter(selectedEdge.data?.after || '');
+        setTempEvent(selectedEdge.data?.event || '');
         setTempGuard(selectedEdge.data?.guard || '');
         setTempAction(selectedEdge.data?.action || '');
       }
@@ -291,7 +317,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   }, [replaceVersion, selectedNode, selectedEdge]);
 
   // Sync edge properties only when the edge ID changes (not on every edges-array reference change).
-  // Flush unsaved guard/action to the previous edge before switching.
+  // Flush unsaved timeout/event/guard/action to the previous edge before switching.
   const prevEdgeIdRef = useRef<string | null>(null);
   useEffect(() => {
     const newEdgeId = selectedEdge?.id || null;
@@ -302,6 +328,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     if (prevEdgeId) {
       const prevEdge = edgesRef.current.find(e => e.id === prevEdgeId);
       if (prevEdge) {
+        const after = tempAfterRef.current.trim();
+        if (after !== (prevEdge.data?.after || '') && (!after || parseDelay(after) !== null))
+          onEdgePropertyChangeRef.current(prevEdgeId, 'after', after && formatDelay(after));
+        if (tempEventRef.current !== (prevEdge.data?.event || ''))
+          onEdgePropertyChangeRef.current(prevEdgeId, 'event', tempEventRef.current);
         if (tempGuardRef.current !== (prevEdge.data?.guard || ''))
           onEdgePropertyChangeRef.current(prevEdgeId, 'guard', tempGuardRef.current);
         if (tempActionRef.current !== (prevEdge.data?.action || ''))
@@ -311,9 +342,13 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
 
     prevEdgeIdRef.current = newEdgeId;
     if (selectedEdge) {
+      setTempAfter(selectedEdge.data?.after || '');
+      setTempEvent(selectedEdge.data?.event || '');
       setTempGuard(selectedEdge.data?.guard || '');
       setTempAction(selectedEdge.data?.action || '');
     } else {
+      setTempAfter('');
+      setTempEvent('');
       setTempGuard('');
       setTempAction('');
     }
@@ -369,6 +404,12 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     }
   };
 
+  const handleChooseSubmachine = async () => {
+    if (!selectedNode || !onChooseSubmachine) return;
+    const ref = await onChooseSubmachine();
+    if (ref) onPropertyChange(selectedNode.id, 'submachine', ref);
+  };
+
   const handleEntryBlur = (currentVal: string) => {
     setTempEntry(currentVal);
     if (selectedNode && currentVal !== (selectedNode.data.entry as string)) {
@@ -426,6 +467,31 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   };
 
   // Edge property handlers
+  const handleAfterBlur = () => {
+    const edgeId = selectedCanvasEdge?.id || selectedEdgeId;
+    const current = selectedEdge?.data?.after || '';
+    const after = tempAfter.trim();
+    if (after && parseDelay(after) === null) {
+      // Not a delay, reset to the stored value
+      setTempAfter(current);
+      return;
+    }
+    const normalized = after && formatDelay(after);
+    setTempAfter(normalized);
+    if (edgeId && normalized !== current) {
+      onEdgePropertyChange(edgeId, 'after', normalized);
+    }
+  };
+
+  const handleEventBlur = () => {
+    const edgeId = selectedCanvasEdge?.id || selectedEdgeId;
+    const event = tempEvent.trim();
+    setTempEvent(event);
+    if (edgeId && event !== (selectedEdge?.data?.event || '')) {
+      onEdgePropertyChange(edgeId, 'event', event);
+    }
+  };
+
   const handleGuardBlur = (currentVal: string) => {
     setTempGuard(currentVal);
     const edgeId = selectedCanvasEdge?.id || selectedEdgeId;
@@ -573,6 +639,36 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             <NodeLink label={getTransitionTargetLabel(selectedCanvasEdge.source, selectedCanvasEdge.target)} nodeId={resolveRealTargetId(selectedCanvasEdge.target)} />
           </Typography>
 
+          {isStateSource(selectedCanvasEdge) && (
+            <TextField
+              label="After"
+              size="small"
+              fullWidth
+              value={tempAfter}
+              onChange={(e) => setTempAfter(e.target.value)}
+              onBlur={handleAfterBlur}
+              onKeyDown={handleNameKeyDown}
+              placeholder="Timeout, e.g. 0.3s or 300ms (optional)"
+              slotProps={{
+                input: { startAdornment: <InputAdornment position="start"><AccessTimeIcon sx={{ fontSize: 16 }} /></InputAdornment> },
+              }}
+              sx={{ mb: 1, bgcolor: 'background.paper' }}
+            />
+          )}
+
+          <TextField
+            label="Event"
+            size="small"
+            fullWidth
+            value={tempEvent}
+            onChange={(e) => setTempEvent(e.target.value)}
+            onBlur={handleEventBlur}
+            onKeyDown={handleNameKeyDown}
+            placeholder="Trigger event (optional)"
+            slotProps={{ htmlInput: { 'data-field-name': 'event', 'data-owner-id': selectedCanvasEdge.id, 'data-owner-kind': 'edge' } }}
+            sx={{ mb: 1, bgcolor: 'background.paper' }}
+          />
+
           <Box sx={{ position: 'relative', mb: 1 }}>
             <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.25 }}>Guard</Typography>
             <CodeEditor
@@ -652,6 +748,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   }
 
   const isDecision = selectedNode.type === 'decisionNode';
+  const submachine = (selectedNode.data.submachine as string | undefined) || '';
   const isProxy = selectedNode.type === 'proxyNode';
 
   if (isProxy) {
@@ -744,6 +841,39 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             </Box>
           </Box>
 
+          {/* A submachine stands for another file's machine, so it has no children of its own */}
+          {selectedNode.id !== '/' && selectedNode.type === 'stateNode' && (submachine || !nodes.some(n => n.parentId === selectedNode.id)) && (
+            <TextField
+              label="Submachine"
+              size="small"
+              fullWidth
+              value={submachine}
+              placeholder="None"
+              slotProps={{
+                input: {
+                  readOnly: true,
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton size="small" onClick={handleChooseSubmachine} title="Choose .smb file">
+                        <FolderOpenIcon fontSize="small" />
+                      </IconButton>
+                      {submachine && (
+                        <IconButton size="small" onClick={() => onOpenSubmachine?.(submachine)} title="Open submachine in a new window">
+                          <OpenInNewIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                      {submachine && (
+                        <IconButton size="small" onClick={() => onPropertyChange(selectedNode.id, 'submachine', undefined)} title="Remove reference">
+                          <ClearIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                    </InputAdornment>
+                  ),
+                },
+              }}
+            />
+          )}
+
           <Box sx={{ position: 'relative' }}>
             <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.25 }}>Entry</Typography>
             <CodeEditor
@@ -859,19 +989,9 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       {(isDecision || (activeTab === 1 && selectedNode.id !== '/')) && (
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 2 }}>
           {outgoingTransitions.length > 0 && (() => {
-            // Compute warning flags: transitions after a guardless one are unreachable
-            const warningFlags: boolean[] = [];
-            let seenGuardless = false;
-            for (const edge of outgoingTransitions) {
-              if (seenGuardless) {
-                warningFlags.push(true);
-              } else {
-                warningFlags.push(false);
-                if (!edge.data?.guard) {
-                  seenGuardless = true;
-                }
-              }
-            }
+            // Compute warning flags: transitions shadowed by an earlier guardless one are unreachable
+            const shadowed = findShadowedEdges(outgoingTransitions);
+            const warningFlags = outgoingTransitions.map(edge => shadowed.has(edge.id));
             return (
               <>
                 <Typography variant="caption" color="text.secondary">
@@ -892,7 +1012,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                     >
                       <ListItemText
                         primary={<NodeLink label={getTransitionTargetLabel(edge.source, edge.target)} nodeId={resolveRealTargetId(edge.target)} />}
-                        secondary={edge.data?.guard ? `[${edge.data.guard}]` : undefined}
+                        secondary={triggerText(edge.data) || undefined}
                         primaryTypographyProps={{
                           variant: 'body2',
                           ...(warningFlags[index] ? { sx: { color: '#e65100' } } : {}),
@@ -947,7 +1067,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   >
                     <ListItemText
                       primary={<NodeLink label={getTransitionSourceLabel(edge.source, edge.target)} nodeId={edge.source} />}
-                      secondary={edge.data?.guard ? `[${edge.data.guard}]` : undefined}
+                      secondary={triggerText(edge.data) || undefined}
                       primaryTypographyProps={{ variant: 'body2' }}
                       secondaryTypographyProps={{ variant: 'caption', sx: { fontFamily: 'monospace' } }}
                     />
@@ -972,6 +1092,36 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 <NodeLink label={getTransitionTargetLabel(selectedEdge.source, selectedEdge.target)} nodeId={resolveRealTargetId(selectedEdge.target)} />
               </Typography>
 
+              {isStateSource(selectedEdge) && (
+                <TextField
+                  label="After"
+                  size="small"
+                  fullWidth
+                  value={tempAfter}
+                  onChange={(e) => setTempAfter(e.target.value)}
+                  onBlur={handleAfterBlur}
+                  onKeyDown={handleNameKeyDown}
+                  placeholder="Timeout, e.g. 0.3s or 300ms (optional)"
+                  slotProps={{
+                    input: { startAdornment: <InputAdornment position="start"><AccessTimeIcon sx={{ fontSize: 16 }} /></InputAdornment> },
+                  }}
+                  sx={{ mb: 1, bgcolor: 'background.paper' }}
+                />
+              )}
+
+              <TextField
+                label="Event"
+                size="small"
+                fullWidth
+                value={tempEvent}
+                onChange={(e) => setTempEvent(e.target.value)}
+                onBlur={handleEventBlur}
+                onKeyDown={handleNameKeyDown}
+                placeholder="Trigger event (optional)"
+                slotProps={{ htmlInput: { 'data-field-name': 'event', 'data-owner-id': selectedEdge.id, 'data-owner-kind': 'edge' } }}
+                sx={{ mb: 1, bgcolor: 'background.paper' }}
+              />
+
               <Box sx={{ position: 'relative', mb: 1 }}>
                 <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.25 }}>Guard</Typography>
                 <CodeEditor
@@ -0,0 +1,49 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+} from '@mui/material';
+import type { RecoveredDocument } from './hooks/useRecovery';
+
+interface RecoveryDialogProps {
+  documents: RecoveredDocument[];
+  onRestore: (doc: RecoveredDocument) => void;
+  onDiscard: (doc: RecoveredDocument) => void;
+  onClose: () => void;
+}
+
+// Offered on launch for the unsaved work an earlier run did not get to save.
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ documents, onRestore, onDiscard, onClose }) => (
+  <Dialog open={documents.length > 0} onClose={onClose} maxWidth="sm" fullWidth>
+    <DialogTitle>Recover Unsaved Changes</DialogTitle>
+    <DialogContent dividers>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        The application did not close normally. These documents had changes that were not saved:
+      </Typography>
+      {documents.map(doc => (
+        <Box key={doc.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <Typography variant="body2" noWrap title={doc.filePath ?? undefined}>
+              {doc.filePath ? doc.filePath.replace(/^.*[\\/]/, '') : 'Untitled'}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Autosaved {new Date(doc.savedAt).toLocaleString()}
+            </Typography>
+          </Box>
+          <Button size="small" onClick={() => onDiscard(doc)}>Discard</Button>
+          <Button size="small" variant="contained" onClick={() => onRestore(doc)}>Restore</Button>
+        </Box>
+      ))}
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose}>Decide Later</Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default RecoveryDialog;
@@ -58,6 +58,7 @@ const FILTERABLE_FIELDS = [
   { name: 'exit',             group: 'State / Machine' },
   { name: 'do',               group: 'State / Machine' },
   { name: 'annotation',       group: 'State' },
+  { name: 'event',            group: 'Transition' },
   { name: 'guard',            group: 'Transition' },
   { name: 'action',           group: 'Transition' },
   { name: 'source',           group: 'Transition' },
@@ -14,7 +14,11 @@ import {
   Typography,
   Box,
   Checkbox,
+  Tabs,
+  Tab,
 } from '@mui/material';
+import ShortcutSettings from './ShortcutSettings';
+import { ShortcutBindings, resolveBindings, findConflicts } from './utils/shortcuts';
 
 export interface Settings {
   editorPreference: 'system' | 'builtin' | 'custom';
@@ -24,6 +28,9 @@ export interface Settings {
   defaultShowExit: boolean;
   defaultShowDo: boolean;
   defaultShowAnnotation: boolean;
+  restoreSession: boolean;
+  keepUndoHistory: boolean;
+  shortcuts: ShortcutBindings;
 }
 
 interface SettingsDialogProps {
@@ -40,6 +47,8 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
   onSave,
 }) => {
   const [tempSettings, setTempSettings] = useState<Settings>(settings);
+  const [activeTab, setActiveTab] = useState(0);
+  const hasShortcutConflicts = findConflicts(resolveBindings(tempSettings.shortcuts)).size > 0;
 
   useEffect(() => {
     if (open) {
@@ -56,142 +65,182 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
       <DialogTitle>Settings</DialogTitle>
       <DialogContent>
-        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
-          <FormControl component="fieldset">
-            <FormLabel component="legend">Code Editor</FormLabel>
-            <RadioGroup
-              value={tempSettings.editorPreference}
-              onChange={(e) =>
-                setTempSettings({
-                  ...tempSettings,
-                  editorPreference: e.target.value as Settings['editorPreference'],
-                })
-              }
-            >
-              <FormControlLabel
-                value="builtin"
-                control={<Radio size="small" />}
-                label="Built-in editor (dialog)"
-              />
-              <FormControlLabel
-                value="system"
-                control={<Radio size="small" />}
-                label="System default application"
-              />
-              <FormControlLabel
-                value="custom"
-                control={<Radio size="small" />}
-                label="Custom command"
-              />
-            </RadioGroup>
-          </FormControl>
+        <Tabs
+          value={activeTab}
+          onChange={(_, v) => setActiveTab(v)}
+          sx={{ borderBottom: 1, borderColor: 'divider', minHeight: 36, '& .MuiTab-root': { minHeight: 36, textTransform: 'none' } }}
+        >
+          <Tab label="General" />
+          <Tab label="Keyboard Shortcuts" />
+        </Tabs>
 
-          {tempSettings.editorPreference === 'custom' && (
-            <Box>
-              <TextField
-                label="Custom Editor Command"
-                fullWidth
-                size="small"
-                value={tempSettings.customEditorCommand}
+        {activeTab === 0 && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 2 }}>
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Code Editor</FormLabel>
+              <RadioGroup
+                value={tempSettings.editorPreference}
                 onChange={(e) =>
                   setTempSettings({
                     ...tempSettings,
-                    customEditorCommand: e.target.value,
+                    editorPreference: e.target.value as Settings['editorPreference'],
                   })
                 }
-                placeholder="code -w {file}"
-              />
-              <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                Use <code>{'{file}'}</code> as placeholder for the temporary file path.
-              </Typography>
-              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
-                Examples:
-              </Typography>
-              <Typography variant="caption" color="text.secondary" component="ul" sx={{ m: 0, pl: 2 }}>
-                <li><code>code -w {'{file}'}</code> - VS Code (wait for close)</li>
-                <li><code>subl -w {'{file}'}</code> - Sublime Text (wait for close)</li>
-                <li><code>vim {'{file}'}</code> - Vim in terminal</li>
-                <li><code>nano {'{file}'}</code> - Nano in terminal</li>
-                <li><code>open -a "TextEdit" -W {'{file}'}</code> - macOS TextEdit</li>
+              >
+                <FormControlLabel
+                  value="builtin"
+                  control={<Radio size="small" />}
+                  label="Built-in editor (dialog)"
+                />
+                <FormControlLabel
+                  value="system"
+                  control={<Radio size="small" />}
+                  label="System default application"
+                />
+                <FormControlLabel
+                  value="custom"
+                  control={<Radio size="small" />}
+                  label="Custom command"
+                />
+              </RadioGroup>
+            </FormControl>
+
+            {tempSettings.editorPreference === 'custom' && (
+              <Box>
+                <TextField
+                  label="Custom Editor Command"
+                  fullWidth
+                  size="small"
+                  value={tempSettings.customEditorCommand}
+                  onChange={(e) =>
+                    setTempSettings({
+                      ...tempSettings,
+                      customEditorCommand: e.target.value,
+                    })
+                  }
+                  placeholder="code -w {file}"
+                />
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+                  Use <code>{'{file}'}</code> as placeholder for the temporary file path.
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+                  Examples:
+                </Typography>
+                <Typography variant="caption" color="text.secondary" component="ul" sx={{ m: 0, pl: 2 }}>
+                  <li><code>code -w {'{file}'}</code> - VS Code (wait for close)</li>
+                  <li><code>subl -w {'{file}'}</code> - Sublime Text (wait for close)</li>
+                  <li><code>vim {'{file}'}</code> - Vim in terminal</li>
+                  <li><code>nano {'{file}'}</code> - Nano in terminal</li>
+                  <li><code>open -a "TextEdit" -W {'{file}'}</code> - macOS TextEdit</li>
+                </Typography>
+              </Box>
+            )}
+
+            {tempSettings.editorPreference === 'system' && (
+              <Typography variant="caption" color="text.secondary">
+                Opens the file with your system's default application for the file type.
+                A dialog will appear asking you to confirm when done editing.
               </Typography>
-            </Box>
-          )}
+            )}
 
-          {tempSettings.editorPreference === 'system' && (
-            <Typography variant="caption" color="text.secondary">
-              Opens the file with your system's default application for the file type.
-              A dialog will appear asking you to confirm when done editing.
-            </Typography>
-          )}
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Show in State (defaults for new states)</FormLabel>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0, mt: 0.5 }}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={tempSettings.defaultShowEntry}
+                      onChange={(e) => setTempSettings({ ...tempSettings, defaultShowEntry: e.target.checked })}
+                    />
+                  }
+                  label="Entry"
+                />
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={tempSettings.defaultShowExit}
+                      onChange={(e) => setTempSettings({ ...tempSettings, defaultShowExit: e.target.checked })}
+                    />
+                  }
+                  label="Exit"
+                />
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={tempSettings.defaultShowDo}
+                      onChange={(e) => setTempSettings({ ...tempSettings, defaultShowDo: e.target.checked })}
+                    />
+                  }
+                  label="Do"
+                />
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={tempSettings.defaultShowAnnotation}
+                      onChange={(e) => setTempSettings({ ...tempSettings, defaultShowAnnotation: e.target.checked })}
+                    />
+                  }
+                  label="Note"
+                />
+              </Box>
+            </FormControl>
 
-          <FormControl component="fieldset">
-            <FormLabel component="legend">Show in State (defaults for new states)</FormLabel>
-            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0, mt: 0.5 }}>
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    size="small"
-                    checked={tempSettings.defaultShowEntry}
-                    onChange={(e) => setTempSettings({ ...tempSettings, defaultShowEntry: e.target.checked })}
-                  />
-                }
-                label="Entry"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    size="small"
-                    checked={tempSettings.defaultShowExit}
-                    onChange={(e) => setTempSettings({ ...tempSettings, defaultShowExit: e.target.checked })}
-                  />
+            <TextField
+              label="Tab Width"
+              type="number"
+              size="small"
+              value={tempSettings.tabWidth}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1 && value <= 16) {
+                  setTempSettings({ ...tempSettings, tabWidth: value });
                 }
-                label="Exit"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    size="small"
-                    checked={tempSettings.defaultShowDo}
-                    onChange={(e) => setTempSettings({ ...tempSettings, defaultShowDo: e.target.checked })}
-                  />
-                }
-                label="Do"
-              />
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    size="small"
-                    checked={tempSettings.defaultShowAnnotation}
-                    onChange={(e) => setTempSettings({ ...tempSettings, defaultShowAnnotation: e.target.checked })}
-                  />
-                }
-                label="Note"
-              />
-            </Box>
-          </FormControl>
+              }}
+              slotProps={{
+                htmlInput: { min: 1, max: 16 },
+              }}
+              sx={{ width: 120 }}
+              helperText="Spaces per tab (1-16)"
+            />
 
-          <TextField
-            label="Tab Width"
-            type="number"
-            size="small"
-            value={tempSettings.tabWidth}
-            onChange={(e) => {
-              const value = parseInt(e.target.value, 10);
-              if (value >= 1 && value <= 16) {
-                setTempSettings({ ...tempSettings, tabWidth: value });
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={tempSettings.restoreSession}
+                  onChange={(e) => setTempSettings({ ...tempSettings, restoreSession: e.target.checked })}
+                />
               }
-            }}
-            slotProps={{
-              htmlInput: { min: 1, max: 16 },
-            }}
-            sx={{ width: 120 }}
-            helperText="Spaces per tab (1-16)"
-          />
-        </Box>
+              label="Reopen the previous session's windows on launch"
+            />
+
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={tempSettings.keepUndoHistory}
+                  onChange={(e) => setTempSettings({ ...tempSettings, keepUndoHistory: e.target.checked })}
+                />
+              }
+              label="Keep the undo history when saving (in a .history.json file next to the machine)"
+            />
+          </Box>
+        )}
+
+        {activeTab === 1 && (
+          <Box sx={{ mt: 2 }}>
+            <ShortcutSettings
+              shortcuts={tempSettings.shortcuts}
+              onChange={(shortcuts) => setTempSettings({ ...tempSettings, shortcuts })}
+            />
+          </Box>
+        )}
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose}>Cancel</Button>
-        <Button onClick={handleSave} variant="contained">
+        <Button onClick={handleSave} variant="contained" disabled={hasShortcutConflicts}>
           Save
         </Button>
       </DialogActions>
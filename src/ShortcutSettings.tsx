@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Clear as ClearIcon, RestartAlt as ResetIcon } from '@mui/icons-material';
+import {
+  ShortcutBindings,
+  ShortcutCommand,
+  ShortcutDefinition,
+  SHORTCUT_COMMANDS,
+  resolveBindings,
+  bindingFromEvent,
+  findConflicts,
+  isReservedBinding,
+  formatBinding,
+} from './utils/shortcuts';
+
+interface ShortcutSettingsProps {
+  // Only the bindings that differ from the defaults
+  shortcuts: ShortcutBindings;
+  onChange: (shortcuts: ShortcutBindings) => void;
+}
+
+const CATEGORIES: ShortcutDefinition['category'][] = ['File', 'Edit', 'Create', 'View'];
+
+const cellSx = { py: 0.25, fontSize: 13 };
+
+// Settings tab listing every command with its key. Clicking a key records the
+// next key press as its new binding; Escape cancels. Keys used by more than one
+// command are flagged, and the dialog can't be saved until they are resolved.
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ shortcuts, onChange }) => {
+  const [recording, setRecording] = useState<ShortcutCommand | null>(null);
+  const [rejected, setRejected] = useState<string | null>(null);
+  const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+  const bindings = resolveBindings(shortcuts);
+  const conflicts = findConflicts(bindings);
+
+  const bind = (command: ShortcutCommand, binding: string) => {
+    const next = { ...shortcuts };
+    if (binding === SHORTCUT_COMMANDS[command].defaultBinding) delete next[command];
+    else next[command] = binding;
+    onChange(next);
+  };
+
+  const handleKeyDown = (command: ShortcutCommand) => (event: React.KeyboardEvent) => {
+    if (recording !== command) return;
+    // Keep the key from the dialog (Escape closes it) and the canvas
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const binding = bindingFromEvent(event, isMac);
+    if (!binding) return;
+    if (isReservedBinding(binding)) {
+      setRejected(`${formatBinding(binding, isMac)} can't be bound`);
+      return;
+    }
+    setRejected(null);
+    setRecording(null);
+    bind(command, binding);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" color={rejected ? 'error' : 'text.secondary'} sx={{ flexGrow: 1 }}>
+          {rejected ?? 'Click a key and press the new combination. Escape cancels.'}
+        </Typography>
+        <Button size="small" onClick={() => onChange({})} disabled={Object.keys(shortcuts).length === 0}>
+          Reset all
+        </Button>
+      </Box>
+      <TableContainer sx={{ maxHeight: 420 }}>
+        <Table size="small">
+          <TableBody>
+            {CATEGORIES.map(category => (
+              <React.Fragment key={category}>
+                <TableRow>
+                  <TableCell colSpan={3} sx={{ ...cellSx, fontWeight: 600, bgcolor: 'action.hover' }}>
+                    {category}
+                  </TableCell>
+                </TableRow>
+                {(Object.entries(SHORTCUT_COMMANDS) as [ShortcutCommand, ShortcutDefinition][])
+                  .filter(([, def]) => def.category === category)
+                  .map(([command, def]) => {
+                    const others = conflicts.get(command);
+                    return (
+                      <TableRow key={command}>
+                        <TableCell sx={cellSx}>
+                          {def.label}
+                          {others && (
+                            <Typography variant="caption" component="div" color="error">
+                              Also bound to {others.map(c => SHORTCUT_COMMANDS[c].label).join(', ')}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell sx={{ ...cellSx, width: 150 }}>
+                          <Button
+                            size="small"
+                            variant={recording === command ? 'contained' : 'outlined'}
+                            color={others ? 'error' : 'primary'}
+                            onClick={() => { setRejected(null); setRecording(recording === command ? null : command); }}
+                            onKeyDown={handleKeyDown(command)}
+                            onBlur={() => { if (recording === command) setRecording(null); }}
+                            sx={{ textTransform: 'none', fontFamily: 'monospace', minWidth: 120 }}
+                          >
+                            {recording === command ? 'Press keys…' : formatBinding(bindings[command], isMac) || 'None'}
+                          </Button>
+                        </TableCell>
+                        <TableCell sx={{ ...cellSx, width: 64, whiteSpace: 'nowrap' }}>
+                          <Tooltip title="Remove the shortcut">
+                            <span>
+                              <IconButton size="small" onClick={() => bind(command, '')} disabled={!bindings[command]}>
+                                <ClearIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title={`Reset to ${formatBinding(def.defaultBinding, isMac)}`}>
+                            <span>
+                              <IconButton size="small" onClick={() => bind(command, def.defaultBinding)} disabled={!(command in shortcuts)}>
+                                <ResetIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ShortcutSettings;
@@ -2,6 +2,9 @@ import React, { memo, useContext } from 'react';
 import { Handle, Position } from 'reactflow';
 import { NodeResizer } from '@reactflow/node-resizer';
 import { AltKeyContext } from './contexts';
+import { coverageColor } from './utils/coverage';
+import { SubmachinePreview } from './utils/submachine';
+import { DIFF_COLORS, DiffStatus } from './utils/diffOverlay';
 
 import '@reactflow/node-resizer/dist/style.css';
 import './StateNode.css';
@@ -32,6 +35,11 @@ interface StateNodeData {
   isActive?: boolean;           // View mode: this state is an active leaf
   isAncestorActive?: boolean;   // View mode: this state is an ancestor of an active leaf
   activeTimerMs?: number;       // View mode: ms since this state became active
+  hasBreakpoint?: boolean;      // Debugger: pause when this state is entered
+  coverage?: { visits: number; dwellMs: number; heat: number };  // Coverage overlay
+  submachine?: string;                     // Path of the .smb file this state stands for
+  submachinePreview?: SubmachinePreview;   // Top-level states of that file, read-only
+  diffStatus?: DiffStatus;                 // Compare overlay: added, modified, or removed (a ghost from the other version)
 }
 
 interface StateNodeProps {
@@ -132,14 +140,19 @@ export default memo(({ data, selected }: StateNodeProps) => {
   const isActive = data.isActive;
   const isAncestorActive = data.isAncestorActive;
 
-  const borderColor = selected ? '#1976d2' : (isActive ? '#2e7d32' : (isOrthogonal ? '#0066cc' : (isCompound ? '#666' : '#1a192b')));
+  const diffStatus = data.diffStatus;
+  const borderColor = selected ? '#1976d2' : (diffStatus ? DIFF_COLORS[diffStatus] : (isActive ? '#2e7d32' : (isOrthogonal ? '#0066cc' : (isCompound ? '#666' : '#1a192b'))));
 
   // Determine background color based on active state
   let backgroundColor: string;
-  if (isActive) {
+  if (diffStatus === 'removed') {
+    backgroundColor = 'rgba(255, 235, 235, 0.5)';
+  } else if (isActive) {
     backgroundColor = 'rgba(200, 240, 200, 0.92)';
   } else if (isAncestorActive) {
     backgroundColor = 'rgba(220, 245, 220, 0.88)';
+  } else if (data.coverage) {
+    backgroundColor = coverageColor(data.coverage.visits, data.coverage.heat, isCompound ? 0.25 : 0.45);
   } else if (isOrthogonal) {
     backgroundColor = 'rgba(240, 248, 255, 0.9)';
   } else if (isCompound) {
@@ -156,13 +169,15 @@ export default memo(({ data, selected }: StateNodeProps) => {
     boxShadow = '0 0 0 2px #4caf50, 0 0 16px 6px rgba(76, 175, 80, 0.45)';
   } else if (isAncestorActive) {
     boxShadow = '0 0 0 1px rgba(76, 175, 80, 0.4)';
+  } else if (diffStatus) {
+    boxShadow = `0 0 0 1.5px ${DIFF_COLORS[diffStatus]}`;
   }
 
   const nodeStyle: React.CSSProperties = {
     position: 'relative',
     fontSize: `${fontSize}px`,
     borderWidth: (isOrthogonal || isCompound) ? '3px' : (isActive ? '2px' : `${borderWidth}px`),
-    borderStyle: (isOrthogonal || isCompound) ? 'double' : 'solid',
+    borderStyle: diffStatus === 'removed' ? 'dashed' : ((isOrthogonal || isCompound) ? 'double' : 'solid'),
     borderColor,
     borderRadius: `${borderRadius}px`,
     backgroundColor,
@@ -197,6 +212,8 @@ export default memo(({ data, selected }: StateNodeProps) => {
 
       {showLabel && <div style={labelStyle}>{data.label}</div>}
 
+      {data.hasBreakpoint && <div className="breakpoint-dot" title="Breakpoint" />}
+
       {data.hasProxy && (() => {
         const badgeDiameter = 16;
         const w = data.screenWidth ?? Infinity;
@@ -274,6 +291,32 @@ export default memo(({ data, selected }: StateNodeProps) => {
           ))}
         </div>
       )}
+      {showLabel && data.submachinePreview && sections.length === 0 && (() => {
+        const preview = data.submachinePreview;
+        // Room for the file name above the mini-diagram
+        const fileLine = 14;
+        const boxHeight = (data.screenHeight ?? 999) - labelAreaHeight - 10;
+        if ((data.screenWidth ?? 999) < 60 || boxHeight < fileLine + 8) return null;
+        return (
+          <div className="submachine-preview" style={{ top: labelAreaHeight + 4 }}>
+            <div className="submachine-file" style={preview.error ? { color: '#c62828' } : undefined}>
+              {preview.error ? `⚠ ${preview.fileName}: ${preview.error}` : `⧉ ${preview.fileName}`}
+            </div>
+            <div style={{ position: 'absolute', top: fileLine + 2, left: 4, right: 4, bottom: 4 }}>
+              {preview.states.map(s => (
+                <div key={s.label} className={`submachine-state${s.initial ? ' initial' : ''}`} style={{
+                  left: `${s.x * 100}%`,
+                  top: `${s.y * 100}%`,
+                  width: `${s.width * 100}%`,
+                  height: `${s.height * 100}%`,
+                }}>
+                  {s.label}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })()}
       {(isActive || isAncestorActive) && data.activeTimerMs != null && (data.screenWidth ?? 999) > 60 && (data.screenHeight ?? 999) > 30 && (() => {
         const totalSec = Math.floor(data.activeTimerMs / 1000);
         const min = Math.floor(totalSec / 60);
@@ -297,6 +340,23 @@ export default memo(({ data, selected }: StateNodeProps) => {
           </div>
         );
       })()}
+      {data.coverage && (data.screenWidth ?? 999) > 60 && (data.screenHeight ?? 999) > 30 && (
+        <div style={{
+          position: 'absolute',
+          bottom: 2,
+          left: 4,
+          fontSize: '10px',
+          fontFamily: '"Consolas", "Monaco", "Courier New", monospace',
+          color: data.coverage.visits === 0 ? '#c62828' : '#1b5e20',
+          backgroundColor: 'rgba(255,255,255,0.8)',
+          borderRadius: 3,
+          padding: '0 3px',
+          pointerEvents: 'none',
+          lineHeight: '14px',
+        }}>
+          {`${data.coverage.visits}\u00d7 ${(data.coverage.dwellMs / 1000).toFixed(1)}s`}
+        </div>
+      )}
     </div>
   );
 });
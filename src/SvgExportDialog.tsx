@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Checkbox,
+} from '@mui/material';
+import type { SvgOptions } from './utils/exportSvg';
+
+interface SvgExportDialogProps {
+  open: boolean;
+  /** Id and label of the selected state, if any, offered as the subtree to export. */
+  selection: { id: string; label: string } | null;
+  onClose: () => void;
+  onExport: (options: SvgOptions) => void;
+}
+
+export const SvgExportDialog: React.FC<SvgExportDialogProps> = ({
+  open,
+  selection,
+  onClose,
+  onExport,
+}) => {
+  const [scope, setScope] = useState<'machine' | 'selection'>('machine');
+  const [transparent, setTransparent] = useState(false);
+  const useSelection = scope === 'selection' && selection !== null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export as SVG</DialogTitle>
+      <DialogContent>
+        <RadioGroup value={useSelection ? 'selection' : 'machine'} onChange={(e) => setScope(e.target.value as 'machine' | 'selection')}>
+          <FormControlLabel value="machine" control={<Radio size="small" />} label="Whole machine" />
+          <FormControlLabel
+            value="selection"
+            control={<Radio size="small" />}
+            label={selection ? `Selected state "${selection.label}" and its contents` : 'Selected state (none selected)'}
+            disabled={!selection}
+          />
+        </RadioGroup>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />}
+          label="Transparent background"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => onExport({ rootId: useSelection ? selection.id : undefined, transparent })}
+          variant="contained"
+          autoFocus
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SvgExportDialog;
@@ -0,0 +1,152 @@
+import React from 'react';
+import {
+  Paper,
+  IconButton,
+  Typography,
+  Box,
+  Tooltip,
+  Divider,
+  Slider,
+  Button,
+} from '@mui/material';
+import {
+  NavigateBefore as PrevIcon,
+  NavigateNext as NextIcon,
+  Close as CloseIcon,
+  FiberManualRecord as RecordIcon,
+  DeleteOutline as ClearIcon,
+  Save as SaveIcon,
+  FolderOpen as OpenIcon,
+} from '@mui/icons-material';
+import { Trace, formatTraceTime } from './utils/trace';
+
+interface TracePanelProps {
+  trace: Trace | null;
+  scrubIndex: number | null;
+  isRecording: boolean;
+  onScrub: (index: number | null) => void;
+  onClear: () => void;
+  onSave: () => void;
+  onLoad: () => void;
+  onClose: () => void;
+}
+
+// Timeline under the canvas: scrub through a recorded or loaded trace to
+// replay the active-state highlighting. "Live" returns to the running plugin.
+const TracePanel: React.FC<TracePanelProps> = ({
+  trace, scrubIndex, isRecording, onScrub, onClear, onSave, onLoad, onClose,
+}) => {
+  const entries = trace?.entries ?? [];
+  const last = entries.length - 1;
+  const index = scrubIndex ?? last;
+  const entry = index >= 0 ? entries[index] : undefined;
+  const isLive = scrubIndex === null;
+
+  const step = (delta: number) => {
+    if (entries.length === 0) return;
+    onScrub(Math.max(0, Math.min(last, index + delta)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') { step(-1); e.preventDefault(); }
+    else if (e.key === 'ArrowRight') { step(1); e.preventDefault(); }
+    e.stopPropagation();
+  };
+
+  return (
+    <Paper elevation={6} square sx={{ flexShrink: 0, zIndex: 10 }} onKeyDown={handleKeyDown}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, px: 1.5, py: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+          Trace{trace?.smbFile ? ` — ${trace.smbFile}` : ''}
+        </Typography>
+        {isRecording && (
+          <Tooltip title="Recording View Mode updates">
+            <RecordIcon sx={{ fontSize: 12, color: 'error.main' }} />
+          </Tooltip>
+        )}
+
+        <Divider orientation="vertical" flexItem />
+
+        <Tooltip title="Previous step (←)">
+          <span>
+            <IconButton size="small" onClick={() => step(-1)} disabled={index <= 0}>
+              <PrevIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Slider
+          size="small"
+          min={0}
+          max={Math.max(0, last)}
+          step={1}
+          value={Math.max(0, index)}
+          disabled={entries.length === 0}
+          onChange={(_, v) => onScrub(v as number)}
+          valueLabelDisplay="auto"
+          valueLabelFormat={(v) => entries[v] ? formatTraceTime(entries[v].t) : ''}
+          sx={{ flex: 1, mx: 1 }}
+        />
+        <Tooltip title="Next step (→)">
+          <span>
+            <IconButton size="small" onClick={() => step(1)} disabled={index >= last}>
+              <NextIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="caption" sx={{ minWidth: 120, textAlign: 'center', fontFamily: 'monospace' }}>
+          {entry ? `${index + 1}/${entries.length} @ ${formatTraceTime(entry.t)}` : 'No entries'}
+        </Typography>
+        <Button
+          size="small"
+          variant={isLive ? 'contained' : 'outlined'}
+          color="success"
+          onClick={() => onScrub(null)}
+          disabled={!isRecording}
+          sx={{ minWidth: 0, px: 1, py: 0, fontSize: '0.75rem' }}
+        >
+          Live
+        </Button>
+
+        <Divider orientation="vertical" flexItem />
+
+        <Tooltip title="Save trace">
+          <span>
+            <IconButton size="small" onClick={onSave} disabled={entries.length === 0}>
+              <SaveIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={isRecording ? 'Exit View Mode to load a saved trace' : 'Load trace'}>
+          <span>
+            <IconButton size="small" onClick={onLoad} disabled={isRecording}>
+              <OpenIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Clear trace">
+          <span>
+            <IconButton size="small" onClick={onClear} disabled={!trace}>
+              <ClearIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <IconButton size="small" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ px: 1.5, pb: 0.75, display: 'flex', gap: 2, fontFamily: 'monospace', fontSize: 12, overflow: 'hidden' }}>
+        <Box sx={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {entry ? entry.activeStates.join(', ') || '(stopped)' : ''}
+        </Box>
+        {entry?.transitions && (
+          <Box sx={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', color: 'text.secondary' }}>
+            {entry.transitions.map(t => `${t.source} → ${t.target}`).join(', ')}
+          </Box>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default TracePanel;
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { runCli, findCliArgs, parseCliArgs, CliIO, CliReport, EXIT_OK, EXIT_INVALID, EXIT_USAGE } from './cli';
+import { convertFromYaml } from './yamlConverter';
+
+const VALID = `SM-builder-version: 0.6.0
+initial: Off
+states:
+  'Off':
+    transitions:
+      - to: 'On'
+        guard: ctx.pressed
+  'On':
+    transitions:
+      - to: 'Off'
+`;
+
+const MISSING_INITIAL = `SM-builder-version: 0.6.0
+initial: P
+states:
+  P:
+    states:
+      X: {}
+`;
+
+function memoryIO(files: Record<string, string>) {
+  const out = { stdout: '', stderr: '', files: { ...files } };
+  const io: CliIO = {
+    readFile: (p) => {
+      if (!(p in out.files)) throw new Error(`ENOENT: no such file '${p}'`);
+      return out.files[p];
+    },
+    writeFile: (p, content) => { out.files[p] = content; },
+    stdout: (text) => { out.stdout += text; },
+    stderr: (text) => { out.stderr += text; },
+  };
+  return { io, out };
+}
+
+describe('findCliArgs', () => {
+  it('finds the command after the executable and Electron arguments', () => {
+    expect(findCliArgs(['electron', '.', 'validate', 'a.smb', '--json'])).toEqual(['validate', 'a.smb', '--json']);
+    expect(findCliArgs(['sm-builder', 'a.smb'])).toBeNull();
+  });
+});
+
+describe('parseCliArgs', () => {
+  it('keeps option values out of the files', () => {
+    const parsed = parseCliArgs(['merge', 'base.smb', '--missing-version', 'legacy', 'ours.smb', 'theirs.smb', 'out.smb', '--gui']);
+    expect(parsed).toMatchObject({ command: 'merge', files: ['base.smb', 'ours.smb', 'theirs.smb', 'out.smb'] });
+  });
+
+  it('returns usage errors as a message', () => {
+    expect(parseCliArgs(['merge', 'base.smb'])).toBe('merge: needs base, ours and theirs');
+  });
+});
+
+describe('runCli', () => {
+  it('validates a clean file', () => {
+    const { io, out } = memoryIO({ 'a.smb': VALID });
+    expect(runCli(['validate', 'a.smb'], io)).toBe(EXIT_OK);
+    expect(out.stderr).toBe('');
+  });
+
+  it('reports errors as JSON with a non-zero exit code', () => {
+    const { io, out } = memoryIO({ 'a.smb': MISSING_INITIAL });
+    expect(runCli(['validate', 'a.smb', '--json'], io)).toBe(EXIT_INVALID);
+    const report = JSON.parse(out.stdout) as CliReport;
+    expect(report).toMatchObject({ command: 'validate', input: 'a.smb', ok: false });
+    expect(report.diagnostics).toContainEqual(expect.objectContaining({
+      source: 'lint', kind: 'missing_initial', severity: 'error', path: 'P',
+    }));
+  });
+
+  it('fails on warnings only with --strict', () => {
+    const withWarning = VALID + `  Lost: {}\n`;
+    const { io } = memoryIO({ 'a.smb': withWarning });
+    expect(runCli(['validate', 'a.smb'], io)).toBe(EXIT_OK);
+    expect(runCli(['validate', 'a.smb', '--strict'], io)).toBe(EXIT_INVALID);
+  });
+
+  it('reports unreadable input as a diagnostic', () => {
+    const { io, out } = memoryIO({});
+    expect(runCli(['validate', 'missing.smb', '--json'], io)).toBe(EXIT_INVALID);
+    expect((JSON.parse(out.stdout) as CliReport).diagnostics[0]).toMatchObject({ kind: 'unreadable_input', severity: 'error' });
+  });
+
+  it('rejects bad usage', () => {
+    const { io, out } = memoryIO({});
+    expect(runCli([], io)).toBe(EXIT_USAGE);
+    expect(runCli(['validate'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['render', 'a.smb', 'a.png'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['convert', 'a.smb', '--bogus'], io)).toBe(EXIT_USAGE);
+    expect(out.stderr).toContain('Unknown option');
+  });
+
+  it('converts to the current format, optionally without graphics', () => {
+    const { io, out } = memoryIO({ 'a.smb': VALID });
+    expect(runCli(['convert', 'a.smb', 'b.smb', '--no-graphics'], io)).toBe(EXIT_OK);
+    const converted = convertFromYaml(out.files['b.smb']);
+    expect(converted.nodes.map(n => n.data.label).sort()).toEqual(['Off', 'On']);
+    expect(out.files['b.smb']).not.toContain('graphics');
+  });
+
+  it('inlines submachines when asked and reports references it cannot follow', () => {
+    const main = VALID.replace("  'On':\n", "  'On':\n    submachine: lib/on.smb\n");
+    const { io, out } = memoryIO({ 'a.smb': main, 'lib/on.smb': VALID });
+    expect(runCli(['convert', 'a.smb', 'b.smb'], io)).toBe(EXIT_OK);
+    expect(out.files['b.smb']).toContain('submachine: lib/on.smb');
+    expect(runCli(['convert', 'a.smb', 'c.smb', '--inline-submachines'], io)).toBe(EXIT_OK);
+    const inlined = convertFromYaml(out.files['c.smb']);
+    expect(inlined.nodes.map(n => n.data.label).sort()).toEqual(['Off', 'Off', 'On', 'On']);
+
+    delete out.files['lib/on.smb'];
+    expect(runCli(['convert', 'a.smb', 'd.smb', '--inline-submachines', '--strict'], io)).toBe(EXIT_INVALID);
+    expect(out.stderr).toContain('could not be read');
+  });
+
+  it('round-trips through Phoenix YAML, writing to stdout', () => {
+    const { io, out } = memoryIO({ 'a.smb': VALID });
+    expect(runCli(['export-phoenix', 'a.smb', 'p.yaml'], io)).toBe(EXIT_OK);
+    expect(runCli(['import-phoenix', 'p.yaml'], io)).toBe(EXIT_OK);
+    const imported = convertFromYaml(out.stdout);
+    expect(imported.nodes.map(n => n.data.label)).toEqual(expect.arrayContaining(['Off', 'On']));
+  });
+
+  it('round-trips through SCXML', () => {
+    const { io, out } = memoryIO({ 'a.smb': VALID });
+    expect(runCli(['export-scxml', 'a.smb', 'a.scxml'], io)).toBe(EXIT_OK);
+    expect(out.files['a.scxml']).toContain('cond="ctx.pressed"');
+    expect(runCli(['import-scxml', 'a.scxml', 'b.smb'], io)).toBe(EXIT_OK);
+    const imported = convertFromYaml(out.files['b.smb']);
+    expect(imported.nodes.map(n => n.data.label).sort()).toEqual(['Off', 'On']);
+  });
+
+  it('lists structural changes between two files', () => {
+    const changed = VALID.replace('guard: ctx.pressed', 'guard: ctx.clicked');
+    const { io, out } = memoryIO({ 'a.smb': VALID, 'b.smb': changed });
+    expect(runCli(['diff', 'a.smb', 'b.smb'], io)).toBe(EXIT_OK);
+    expect(out.stdout).toBe('~ transition Off → On\n    guard: "ctx.pressed" → "ctx.clicked"\n');
+    expect(out.files['b.smb']).toBe(changed);
+    expect(runCli(['diff', 'a.smb'], io)).toBe(EXIT_USAGE);
+  });
+
+  it('merges three versions and refuses to write conflicts unless told which side wins', () => {
+    const ours = VALID.replace("  'On':\n", "  'On':\n    entry: light()\n");
+    const theirs = VALID.replace('guard: ctx.pressed', 'guard: ctx.clicked');
+    const { io, out } = memoryIO({ 'base.smb': VALID, 'ours.smb': ours, 'theirs.smb': theirs });
+    expect(runCli(['merge', 'base.smb', 'ours.smb', 'theirs.smb', 'merged.smb'], io)).toBe(EXIT_OK);
+    expect(out.files['merged.smb']).toContain('entry: light()');
+    expect(out.files['merged.smb']).toContain('guard: ctx.clicked');
+
+    out.files['ours.smb'] = VALID.replace('guard: ctx.pressed', 'guard: ctx.tapped');
+    delete out.files['merged.smb'];
+    expect(runCli(['merge', 'base.smb', 'ours.smb', 'theirs.smb', 'merged.smb'], io)).toBe(EXIT_INVALID);
+    expect(out.files['merged.smb']).toBeUndefined();
+    expect(out.stderr).toContain('transition Off → On (guard): changed on both sides');
+    expect(runCli(['merge', 'base.smb', 'ours.smb', 'theirs.smb', 'merged.smb', '--theirs'], io)).toBe(EXIT_OK);
+    expect(out.files['merged.smb']).toContain('guard: ctx.clicked');
+    expect(runCli(['merge', 'base.smb', 'ours.smb'], io)).toBe(EXIT_USAGE);
+  });
+
+  it('keeps stdout for the document when the JSON report is requested', () => {
+    const { io, out } = memoryIO({ 'a.smb': VALID });
+    expect(runCli(['render', 'a.smb', '--json'], io)).toBe(EXIT_OK);
+    expect(out.stdout.startsWith('<svg')).toBe(true);
+    expect(JSON.parse(out.stderr)).toMatchObject({ command: 'render', ok: true });
+  });
+});
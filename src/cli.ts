@@ -0,0 +1,279 @@
+import {
+  convertFromYaml,
+  convertToYaml,
+  convertToPhoenixYaml,
+  convertFromPhoenixYaml,
+  convertToScxml,
+  convertFromScxml,
+  MissingVersionPolicy,
+} from './yamlConverter';
+import { collectDiagnostics, Diagnostic } from './utils/diagnostics';
+import { renderSvg } from './utils/exportSvg';
+import { inlineSubmachines } from './utils/submachine';
+import { diffModels, formatDiff, ModelDiff } from './utils/modelDiff';
+import { mergeModels, MergeConflict, MergeSide } from './utils/modelMerge';
+
+// Headless entry point for CI: `sm-builder <command> <input> [output] [options]`.
+// File access and output go through CliIO so the commands can be tested
+// without touching the disk.
+
+export const CLI_COMMANDS = ['validate', 'convert', 'export-phoenix', 'import-phoenix', 'export-scxml', 'import-scxml', 'render', 'diff', 'merge'] as const;
+export type CliCommand = typeof CLI_COMMANDS[number];
+
+export const EXIT_OK = 0;
+/** The input has errors (or warnings with --strict), or could not be read. */
+export const EXIT_INVALID = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliIO {
+  readFile: (filePath: string) => string;
+  writeFile: (filePath: string, content: string) => void;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export type CliDiagnostic = Pick<Diagnostic, 'kind' | 'severity' | 'message' | 'path' | 'field'> & {
+  source: Diagnostic['source'] | 'input' | 'conversion' | 'merge';
+};
+
+export interface CliReport {
+  command: CliCommand;
+  input: string;
+  output?: string;
+  ok: boolean;
+  diagnostics: CliDiagnostic[];
+  /** diff: the structural changes from the first file to the second. */
+  diff?: ModelDiff;
+  /** merge: the conflicts between ours and theirs, resolved or not. */
+  conflicts?: MergeConflict[];
+}
+
+export interface CliOptions {
+  json: boolean;
+  strict: boolean;
+  force: boolean;
+  graphics: boolean;
+  inlineSubmachines: boolean;
+  missingVersion: MissingVersionPolicy;
+  /** merge: resolve every conflict with this side. */
+  prefer?: MergeSide;
+}
+
+export const CLI_USAGE = `Usage: sm-builder <command> <input> [output] [options]
+
+Commands:
+  validate <file.smb>                     Check syntax, ID consistency and semantics
+  convert <file.smb> [out.smb]            Rewrite in the current .smb format
+  export-phoenix <file.smb> [out.yaml]    Convert to Phoenix YAML
+  import-phoenix <file.yaml> [out.smb]    Convert Phoenix YAML to .smb
+  export-scxml <file.smb> [out.scxml]     Convert to SCXML
+  import-scxml <file.scxml> [out.smb]     Convert SCXML to .smb
+  render <file.smb> [out.svg]             Render the diagram as SVG
+  diff <old.smb> <new.smb>                List structural changes, ignoring layout
+  merge <base> <ours> <theirs> [out.smb]  Three-way merge by state path and transition
+
+Output goes to stdout when no output file is given.
+
+Options:
+  --json                      Print a JSON report (to stderr if the output goes to stdout)
+  --strict                    Treat warnings as errors
+  --force                     Convert even if code fields have syntax errors
+  --no-graphics               convert: drop layout information
+  --inline-submachines        convert, export, render: copy referenced .smb files in
+  --ours, --theirs            merge: resolve conflicts with that side instead of failing
+  --gui                       merge: resolve conflicts in the editor (git mergetool)
+  --missing-version <policy>  legacy|modern, for files without SM-builder-version
+
+Exit codes: 0 ok, 1 problems found, 2 usage error`;
+
+/**
+ * The CLI arguments in an Electron argv, starting at the command, or null if
+ * the app was started normally. Electron passes extra arguments in dev mode,
+ * so the command is looked up rather than expected at a fixed index.
+ */
+export function findCliArgs(argv: string[]): string[] | null {
+  const index = argv.findIndex((a, i) => i > 0 && (CLI_COMMANDS as readonly string[]).includes(a));
+  return index === -1 ? null : argv.slice(index);
+}
+
+/** The command, files and options of a CLI invocation, or a usage error message. */
+export function parseCliArgs(args: string[]): { command: CliCommand; files: string[]; options: CliOptions } | string {
+  const [command, ...rest] = args;
+  if (!(CLI_COMMANDS as readonly string[]).includes(command)) return `Unknown command '${command ?? ''}'`;
+  const options: CliOptions = { json: false, strict: false, force: false, graphics: true, inlineSubmachines: false, missingVersion: 'legacy' };
+  const files: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--json': options.json = true; break;
+      case '--strict': options.strict = true; break;
+      case '--force': options.force = true; break;
+      case '--no-graphics': options.graphics = false; break;
+      case '--inline-submachines': options.inlineSubmachines = true; break;
+      case '--ours': options.prefer = 'ours'; break;
+      case '--theirs': options.prefer = 'theirs'; break;
+      // Opening the editor is up to the app, before the CLI runs
+      case '--gui': break;
+      case '--missing-version': {
+        const policy = rest[++i];
+        if (policy !== 'legacy' && policy !== 'modern') return '--missing-version must be legacy or modern';
+        options.missingVersion = policy;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) return `Unknown option '${arg}'`;
+        files.push(arg);
+    }
+  }
+  const maxFiles = command === 'validate' ? 1 : command === 'merge' ? 4 : 2;
+  if (files.length === 0) return `${command}: missing input file`;
+  if (files.length > maxFiles) return `${command}: too many arguments`;
+  if (command === 'diff' && files.length < 2) return 'diff: missing second file';
+  if (command === 'merge' && files.length < 3) return 'merge: needs base, ours and theirs';
+  if (command === 'render' && files[1] && !files[1].toLowerCase().endsWith('.svg')) {
+    return 'render: only SVG output is supported';
+  }
+  return { command: command as CliCommand, files, options };
+}
+
+function fromDiagnostic(d: Diagnostic): CliDiagnostic {
+  return { source: d.source, kind: d.kind, severity: d.severity, message: d.message, path: d.path, field: d.field };
+}
+
+function errorDiagnostic(source: CliDiagnostic['source'], kind: string, message: string): CliDiagnostic {
+  return { source, kind, severity: 'error', message, path: '/' };
+}
+
+function lossyWarning(message: string): CliDiagnostic {
+  return { source: 'conversion', kind: 'lossy_conversion', severity: 'warning', message, path: '/' };
+}
+
+function formatDiagnostic(input: string, d: CliDiagnostic): string {
+  const where = d.field ? `${d.path} (${d.field})` : d.path;
+  return `${input}: ${d.severity}: ${where}: ${d.message}`;
+}
+
+// Run one command; returns the process exit code.
+export function runCli(args: string[], io: CliIO): number {
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    io.stdout(CLI_USAGE + '\n');
+    return args.length === 0 ? EXIT_USAGE : EXIT_OK;
+  }
+  const parsed = parseCliArgs(args);
+  if (typeof parsed === 'string') {
+    io.stderr(`${parsed}\n\n${CLI_USAGE}\n`);
+    return EXIT_USAGE;
+  }
+  const { command, options } = parsed;
+  const [input, second] = parsed.files;
+  // The second file of a diff is another input, as are the first three of a merge
+  const output = command === 'diff' ? undefined : command === 'merge' ? parsed.files[3] : second;
+  const diagnostics: CliDiagnostic[] = [];
+  let result: string | undefined;
+  let diff: ModelDiff | undefined;
+  let conflicts: MergeConflict[] | undefined;
+
+  try {
+    const content = io.readFile(input);
+    if (command === 'import-phoenix') {
+      const model = convertFromPhoenixYaml(content);
+      result = convertToYaml(model.nodes, model.edges, model.rootHistory, true, model.machineProperties);
+    } else if (command === 'import-scxml') {
+      const model = convertFromScxml(content);
+      result = convertToYaml(model.nodes, model.edges, model.rootHistory, true, model.machineProperties);
+      diagnostics.push(...model.warnings.map(lossyWarning));
+    } else if (command === 'diff') {
+      const newer = convertFromYaml(io.readFile(second), options.missingVersion);
+      diff = diffModels(convertFromYaml(content, options.missingVersion), newer);
+      if (!options.json) result = formatDiff(diff);
+    } else if (command === 'merge') {
+      const [base, ours, theirs] = parsed.files.slice(0, 3).map(f => convertFromYaml(io.readFile(f), options.missingVersion));
+      let merged = mergeModels(base, ours, theirs);
+      conflicts = merged.conflicts;
+      if (options.prefer) {
+        const side = options.prefer;
+        merged = mergeModels(base, ours, theirs, Object.fromEntries(conflicts.map(c => [c.key, side])));
+      } else {
+        for (const c of conflicts) {
+          diagnostics.push({
+            source: 'merge', kind: 'merge_conflict', severity: 'error', path: c.title, field: c.field,
+            message: `changed on both sides (ours: ${JSON.stringify(c.ours)}, theirs: ${JSON.stringify(c.theirs)})`,
+          });
+        }
+      }
+      if (!diagnostics.some(d => d.severity === 'error')) {
+        const model = merged.model;
+        // Merging code can still produce code that does not compile
+        for (const d of collectDiagnostics(model.nodes, model.edges, model.machineProperties).filter(d => d.source === 'syntax')) {
+          diagnostics.push({ ...fromDiagnostic(d), severity: options.force ? 'warning' : 'error' });
+        }
+        if (!diagnostics.some(d => d.severity === 'error')) {
+          result = convertToYaml(model.nodes, model.edges, !!model.rootHistory, true, model.machineProperties);
+        }
+      }
+    } else {
+      let model = convertFromYaml(content, options.missingVersion);
+      if (options.inlineSubmachines && command !== 'validate') {
+        const inlined = inlineSubmachines(model.nodes, model.edges, model.machineProperties, input, filePath => {
+          try {
+            return io.readFile(filePath);
+          } catch {
+            return null;
+          }
+        });
+        model = { ...model, nodes: inlined.nodes, edges: inlined.edges, machineProperties: inlined.machineProperties };
+        diagnostics.push(...inlined.warnings.map(lossyWarning));
+      }
+      if (command === 'validate') {
+        diagnostics.push(...collectDiagnostics(model.nodes, model.edges, model.machineProperties).map(fromDiagnostic));
+      } else if (command === 'render') {
+        result = renderSvg(model.nodes, model.edges, model.machineProperties);
+      } else {
+        // Same rule as saving in the editor: code with syntax errors is not
+        // written out unless explicitly asked for
+        const syntaxErrors = collectDiagnostics(model.nodes, model.edges, model.machineProperties)
+          .filter(d => d.source === 'syntax');
+        for (const d of syntaxErrors) {
+          diagnostics.push({ ...fromDiagnostic(d), severity: options.force ? 'warning' : 'error' });
+        }
+        if (syntaxErrors.length === 0 || options.force) {
+          if (command === 'convert') {
+            result = convertToYaml(model.nodes, model.edges, model.rootHistory, options.graphics, model.machineProperties);
+          } else if (command === 'export-scxml') {
+            const exported = convertToScxml(model.nodes, model.edges, model.rootHistory, model.machineProperties);
+            result = exported.scxml;
+            diagnostics.push(...exported.warnings.map(lossyWarning));
+          } else {
+            const exported = convertToPhoenixYaml(model.nodes, model.edges);
+            result = exported.yaml;
+            diagnostics.push(...exported.warnings.map(lossyWarning));
+          }
+        }
+      }
+    }
+  } catch (error) {
+    diagnostics.push(errorDiagnostic('input', 'unreadable_input', (error as Error).message));
+    result = undefined;
+  }
+
+  if (result !== undefined) {
+    try {
+      if (output) io.writeFile(output, result);
+      else io.stdout(result);
+    } catch (error) {
+      diagnostics.push(errorDiagnostic('input', 'write_failed', `Cannot write ${output}: ${(error as Error).message}`));
+    }
+  }
+
+  const failed = diagnostics.some(d => d.severity === 'error' || (options.strict && d.severity === 'warning'));
+  if (options.json) {
+    const report: CliReport = { command, input, output, ok: !failed, diagnostics, diff, conflicts };
+    const json = JSON.stringify(report, null, 2) + '\n';
+    // Keep stdout clean for the converted document
+    if (result !== undefined && !output) io.stderr(json);
+    else io.stdout(json);
+  } else {
+    for (const d of diagnostics) io.stderr(formatDiagnostic(input, d) + '\n');
+  }
+  return failed ? EXIT_INVALID : EXIT_OK;
+}
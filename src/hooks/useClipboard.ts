@@ -3,6 +3,7 @@ import { Node, Edge } from 'reactflow';
 import { getAllDescendants, generateUniqueNodeLabel, generateUniqueDecisionLabel } from '../utils/nodeUtils';
 import { getAbsoluteNodeBounds } from '../semanticZoom';
 import { getNextId, getNextProxyName } from '../utils/idCounters';
+import { describeNodes } from '../utils/undoLabels';
 
 const CLIPBOARD_MARKER = 'sm-gui-clipboard:';
 
@@ -12,7 +13,7 @@ export function useClipboard(
   setNodes: (updater: (nds: Node[]) => Node[]) => void,
   setEdges: (updater: (eds: Edge[]) => Edge[]) => void,
   setSelectedTreeItem: (id: string | null) => void,
-  saveSnapshot: () => void,
+  saveSnapshot: (label?: string) => void,
 ) {
 
   const handleCopy = useCallback(async () => {
@@ -193,7 +194,7 @@ export function useClipboard(
       };
     });
 
-    saveSnapshot();
+    saveSnapshot(`Paste ${describeNodes(newNodes)}`);
     setNodes((nds) => {
       const deselectedExistingNodes = nds.map(node => ({ ...node, selected: false }));
       return deselectedExistingNodes.concat(newNodes.map(node => ({...node, selected: true})));
@@ -336,7 +337,7 @@ export function useClipboard(
 
     const allDuplicatedEdges = internalEdges.concat(externalEdges);
 
-    saveSnapshot();
+    saveSnapshot(`Duplicate ${describeNodes(nodesToDuplicate)}`);
     setNodes((nds) => {
       const deselectedExistingNodes = nds.map(node => ({ ...node, selected: false }));
       return deselectedExistingNodes.concat(duplicatedNodes.map(node => ({...node, selected: true})));
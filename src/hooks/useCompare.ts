@@ -0,0 +1,53 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Node, Edge } from 'reactflow';
+import { convertFromYaml, MachineProperties } from '../yamlConverter';
+import { diffModels, DiffModel } from '../utils/modelDiff';
+import { buildDiffOverlay } from '../utils/diffOverlay';
+
+// "Compare with File...": the other version is loaded once and the diff and
+// its canvas overlay are recomputed as the current machine is edited. The
+// other file is the older side, so states only it has show as removed.
+export function useCompare(
+  nodes: Node[],
+  edges: Edge[],
+  rootHistory: boolean,
+  machineProperties: MachineProperties,
+  currentFilePath: string | null,
+) {
+  const [compared, setCompared] = useState<{ filePath: string; model: DiffModel } | null>(null);
+
+  // Also used for the version on disk when the open file changed outside the editor
+  const compareWithContent = useCallback((filePath: string, content: string) => {
+    try {
+      setCompared({ filePath, model: convertFromYaml(content) });
+    } catch (error) {
+      alert('Error parsing file: ' + (error as Error).message);
+    }
+  }, []);
+
+  const compareWithFile = useCallback(async () => {
+    const result = await window.fileAPI.openCompareFile(currentFilePath);
+    if (result.canceled) return;
+    if (!result.success || result.content === undefined || !result.filePath) {
+      alert('Error opening file: ' + result.error);
+      return;
+    }
+    compareWithContent(result.filePath, result.content);
+  }, [currentFilePath, compareWithContent]);
+
+  const { diff, overlay } = useMemo(() => {
+    if (!compared) return { diff: null, overlay: null };
+    const current = { nodes, edges, rootHistory, machineProperties };
+    const result = diffModels(compared.model, current);
+    return { diff: result, overlay: buildDiffOverlay(compared.model, current, result) };
+  }, [compared, nodes, edges, rootHistory, machineProperties]);
+
+  const closeCompare = useCallback(() => setCompared(null), []);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onCompareWithFile(compareWithFile);
+    return cleanup;
+  }, [compareWithFile]);
+
+  return { comparedFilePath: compared?.filePath ?? null, diff, overlay, compareWithFile, compareWithContent, closeCompare };
+}
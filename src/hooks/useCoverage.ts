@@ -0,0 +1,75 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { Node, Edge } from 'reactflow';
+import { Trace } from '../utils/trace';
+import {
+  Coverage,
+  CoverageTally,
+  emptyCoverage,
+  startTally,
+  tallyEntry,
+  mergeCoverage,
+  coverageOverlay,
+  coverageReport,
+} from '../utils/coverage';
+
+// Coverage accumulated over View Mode runs: the finished traces folded into
+// `base` plus the current trace from `from` onwards. The current trace is
+// tallied as it grows, only adding the entries recorded since the last look,
+// and only while the overlay is shown.
+export function useCoverage(
+  trace: Trace | null,
+  traceVersion: number,
+  nodes: Node[],
+  edges: Edge[],
+  currentFilePath: string | null,
+  isVisible: boolean,
+) {
+  const [base, setBase] = useState<Coverage>(emptyCoverage);
+  const [from, setFrom] = useState(0);
+  const tallyRef = useRef<{ trace: Trace | null; from: number; nodes: Node[]; edges: Edge[]; next: number; tally: CoverageTally } | null>(null);
+
+  const currentCoverage = useCallback(() => {
+    let current = tallyRef.current;
+    if (!current || current.trace !== trace || current.from !== from || current.nodes !== nodes || current.edges !== edges) {
+      current = { trace, from, nodes, edges, next: from, tally: startTally(nodes, edges) };
+      tallyRef.current = current;
+    }
+    const entries = trace?.entries ?? [];
+    for (; current.next < entries.length; current.next++) tallyEntry(current.tally, entries[current.next]);
+    return mergeCoverage(base, current.tally.coverage);
+    // traceVersion: the trace's entries grew
+  }, [trace, traceVersion, from, base, nodes, edges]);
+
+  const overlay = useMemo(
+    () => isVisible ? coverageOverlay(currentCoverage(), nodes, edges) : null,
+    [isVisible, currentCoverage, nodes, edges],
+  );
+
+  // Call before the current trace is replaced so its coverage is kept
+  const keepTrace = useCallback(() => {
+    setBase(currentCoverage());
+    setFrom(0);
+  }, [currentCoverage]);
+
+  const resetCoverage = useCallback(() => {
+    setBase(emptyCoverage());
+    setFrom(trace?.entries.length ?? 0);
+  }, [trace]);
+
+  // A new file starts from scratch, including the (cleared) trace
+  const clearCoverage = useCallback(() => {
+    setBase(emptyCoverage());
+    setFrom(0);
+  }, []);
+
+  const exportReport = useCallback(async () => {
+    const title = currentFilePath?.split('/').pop() || 'Untitled';
+    const report = coverageReport(currentCoverage(), nodes, edges, title);
+    const result = await window.fileAPI.saveCoverageReport(report, currentFilePath);
+    if (!result.success && !result.canceled) {
+      alert('Error saving coverage report: ' + result.error);
+    }
+  }, [currentCoverage, nodes, edges, currentFilePath]);
+
+  return { overlay, keepTrace, resetCoverage, clearCoverage, exportReport };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { Node } from 'reactflow';
+import { defaultMachineProperties } from '../yamlConverter';
+import { useDiagnostics } from './useDiagnostics';
+
+const state = (id: string, parentId?: string): Node => ({
+  id,
+  type: 'stateNode',
+  position: { x: 0, y: 0 },
+  data: { label: id },
+  ...(parentId ? { parentId } : {}),
+});
+
+// P has a child but no initial state
+const broken = [state('P'), state('X', 'P')];
+const fixed = [state('A')];
+const props = { ...defaultMachineProperties, initial: 'P' };
+
+describe('useDiagnostics', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('collects right away when enabled and debounces later changes', () => {
+    vi.useFakeTimers();
+    const { result, rerender } = renderHook(({ nodes, enabled }) => useDiagnostics(nodes, [], props, enabled), {
+      initialProps: { nodes: broken, enabled: true },
+    });
+    expect(result.current.some(d => d.kind === 'missing_initial')).toBe(true);
+
+    rerender({ nodes: fixed, enabled: true });
+    expect(result.current.some(d => d.kind === 'missing_initial')).toBe(true);
+    act(() => { vi.advanceTimersByTime(400); });
+    expect(result.current.some(d => d.kind === 'missing_initial')).toBe(false);
+  });
+
+  it('does not show stale problems when reopened', () => {
+    vi.useFakeTimers();
+    const { result, rerender } = renderHook(({ nodes, enabled }) => useDiagnostics(nodes, [], props, enabled), {
+      initialProps: { nodes: broken, enabled: true },
+    });
+    expect(result.current.some(d => d.kind === 'missing_initial')).toBe(true);
+
+    rerender({ nodes: broken, enabled: false });
+    rerender({ nodes: fixed, enabled: false });
+    rerender({ nodes: fixed, enabled: true });
+    expect(result.current.some(d => d.kind === 'missing_initial')).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { useState, useEffect, useRef } from 'react';
+import { Node, Edge } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { Diagnostic, collectDiagnostics } from '../utils/diagnostics';
+
+const DEBOUNCE_MS = 400;
+
+// Diagnostics for the Problems panel, re-collected shortly after the model
+// stops changing. Syntax checks parse every code field, so nothing runs
+// while the panel is closed or mid-drag. Opening the panel collects them
+// right away, so it never shows what was found before it was closed.
+export function useDiagnostics(
+  nodes: Node[],
+  edges: Edge[],
+  machineProperties: MachineProperties,
+  isEnabled: boolean,
+) {
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const wasEnabled = useRef(false);
+
+  useEffect(() => {
+    if (!isEnabled) {
+      wasEnabled.current = false;
+      return;
+    }
+    if (!wasEnabled.current) {
+      wasEnabled.current = true;
+      setDiagnostics(collectDiagnostics(nodes, edges, machineProperties));
+      return;
+    }
+    const timer = setTimeout(() => {
+      setDiagnostics(collectDiagnostics(nodes, edges, machineProperties));
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, machineProperties, isEnabled]);
+
+  return diagnostics;
+}
@@ -1,11 +1,12 @@
 import { useCallback } from 'react';
 import { Node, Edge, MarkerType } from 'reactflow';
 import { calculateBestHandles } from '../utils/handleUtils';
+import { describeEdge } from '../utils/undoLabels';
 
 export function useEdgeOperations(
   nodes: Node[],
   setEdges: (updater: (eds: Edge[]) => Edge[]) => void,
-  saveSnapshot: () => void,
+  saveSnapshot: (label?: string) => void,
 ) {
   const onConnect = useCallback(
     (params) => {
@@ -34,7 +35,7 @@ export function useEdgeOperations(
         if (node?.type === 'decisionNode') return;
       }
 
-      saveSnapshot();
+      saveSnapshot(`Add transition ${describeEdge({ id: '', source, target }, nodes)}`);
       setEdges((eds) => {
         const newEdge = {
           source,
@@ -72,7 +73,7 @@ export function useEdgeOperations(
       markerEnd: { type: MarkerType.ArrowClosed },
     };
 
-    saveSnapshot();
+    saveSnapshot(`Add transition ${describeEdge(newEdge, nodes)}`);
     setEdges((eds) => eds.map(e => ({ ...e, selected: false })).concat({ ...newEdge, selected: true }));
   }, [nodes, setEdges, saveSnapshot]);
 
@@ -101,7 +102,7 @@ export function useEdgeOperations(
         targetHandle = targetHandle.replace('-source', '-target');
       }
 
-      saveSnapshot();
+      saveSnapshot(`Reconnect transition ${describeEdge(newConnection, nodes)}`);
       setEdges((eds) =>
         eds.map((edge) => {
           if (edge.id === oldEdge.id) {
@@ -117,11 +118,11 @@ export function useEdgeOperations(
         })
       );
     },
-    [setEdges, saveSnapshot]
+    [nodes, setEdges, saveSnapshot]
   );
 
   const handleEdgePropertyChange = useCallback((edgeId: string, propertyName: string, newValue: unknown) => {
-    saveSnapshot();
+    saveSnapshot(`Change transition ${propertyName}`);
     setEdges((eds) => {
       const result = eds.map((edge) => {
         if (edge.id === edgeId) {
@@ -169,7 +170,7 @@ export function useEdgeOperations(
   }, [setEdges, saveSnapshot]);
 
   const handleReorderEdge = useCallback((edgeId: string, direction: 'up' | 'down') => {
-    saveSnapshot();
+    saveSnapshot(`Move transition ${direction} in priority`);
     setEdges((eds) => {
       const edgeIndex = eds.findIndex(e => e.id === edgeId);
       if (edgeIndex === -1) return eds;
@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface ExternalChange {
+  filePath: string;
+  content: string;
+}
+
+// Changes made to the open file outside the editor. A clean document is
+// reloaded right away; with unsaved changes the new content is held until
+// the user reloads or keeps their own version.
+export function useExternalChanges(
+  currentFilePath: string | null,
+  isDirty: boolean,
+  loadFromContent: (content: string, filePath: string | null) => Promise<void>,
+) {
+  const [pending, setPending] = useState<ExternalChange | null>(null);
+  const [reloadedPath, setReloadedPath] = useState<string | null>(null);
+  const dirty = useRef(isDirty);
+  dirty.current = isDirty;
+
+  useEffect(() => {
+    window.fileAPI.watchFile(currentFilePath);
+    setPending(null);
+  }, [currentFilePath]);
+
+  // Saving overwrote the file, so there is nothing left to decide
+  useEffect(() => {
+    if (!isDirty) setPending(null);
+  }, [isDirty]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onFileChangedExternally(async (change) => {
+      if (dirty.current) {
+        setPending(change);
+        return;
+      }
+      try {
+        await loadFromContent(change.content, change.filePath);
+        setReloadedPath(change.filePath);
+      } catch (error) {
+        // Most likely caught halfway through being written; the next change reloads it
+        console.error('Error reloading changed file:', error);
+      }
+    });
+    return cleanup;
+  }, [loadFromContent]);
+
+  const reloadExternal = useCallback(async () => {
+    if (!pending) return;
+    try {
+      await loadFromContent(pending.content, pending.filePath);
+      setPending(null);
+    } catch (error) {
+      alert('Error parsing file: ' + (error as Error).message);
+    }
+  }, [pending, loadFromContent]);
+
+  const keepMine = useCallback(() => setPending(null), []);
+  const clearReloaded = useCallback(() => setReloadedPath(null), []);
+
+  return { externalChange: pending, reloadedPath, reloadExternal, keepMine, clearReloaded };
+}
@@ -1,8 +1,11 @@
 import { useCallback, useEffect } from 'react';
 import { Node, Edge } from 'reactflow';
-import { convertToYaml, convertFromYaml, convertToPhoenixYaml, convertFromPhoenixYaml, detectSmbVersion, MachineProperties, MissingVersionPolicy, defaultMachineProperties } from '../yamlConverter';
+import { convertToYaml, convertFromYaml, convertToPhoenixYaml, convertFromPhoenixYaml, convertToScxml, convertFromScxml, detectSmbVersion, MachineProperties, MissingVersionPolicy, defaultMachineProperties } from '../yamlConverter';
 import { resetIdCounter, resetStateNameCounter, resetProxyNameCounter, resetDecisionNameCounter, resetAndNameCounter } from '../utils/idCounters';
 import { findSyntaxErrors } from '../utils/syntaxCheck';
+import { convertToPlantUml, convertToMermaid, StateDiagramFormat } from '../utils/exportStateDiagram';
+import { generateDocs, DocsFormat } from '../utils/exportDocs';
+import { inlineSubmachines, loadSubmachineFiles } from '../utils/submachine';
 
 function confirmDespiteErrors(locations: string[]): boolean {
   const header = locations.length === 1
@@ -12,6 +15,50 @@ function confirmDespiteErrors(locations: string[]): boolean {
   return window.confirm(`${header}\n\n${body}\n\nProceed anyway?`);
 }
 
+/** Read a submachine file through the main process; null when it cannot be read. */
+export async function readSubmachineFile(filePath: string): Promise<string | null> {
+  const result = await window.fileAPI.readSubmachine(filePath);
+  return result.success ? result.content ?? null : null;
+}
+
+// Continue id and default-name numbering after the highest ones in a loaded model
+export function resetNameCounters(nodes: Node[]) {
+  const maxId = nodes.reduce((max, node) => {
+    const match = node.id.match(/node_(\d+)/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  resetIdCounter(maxId + 1);
+  const maxStateNum = nodes.reduce((max, node) => {
+    const match = node.data.label.match(/^S(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  resetStateNameCounter(maxStateNum + 1);
+  const maxProxyNum = nodes.reduce((max, node) => {
+    if (node.type === 'proxyNode') {
+      const match = (node.data as unknown as { name: string }).name?.match(/^P(\d+)$/);
+      if (match) return Math.max(max, parseInt(match[1], 10));
+    }
+    return max;
+  }, 0);
+  resetProxyNameCounter(maxProxyNum + 1);
+  const maxDecisionNum = nodes.reduce((max, node) => {
+    if (node.type === 'decisionNode') {
+      const match = (node.data.label as string)?.match(/^D(\d+)$/);
+      if (match) return Math.max(max, parseInt(match[1], 10));
+    }
+    return max;
+  }, 0);
+  resetDecisionNameCounter(maxDecisionNum + 1);
+  const maxAndNum = nodes.reduce((max, node) => {
+    if (node.type === 'decisionNode') {
+      const match = (node.data.label as string)?.match(/^A(\d+)$/);
+      if (match) return Math.max(max, parseInt(match[1], 10));
+    }
+    return max;
+  }, 0);
+  resetAndNameCounter(maxAndNum + 1);
+}
+
 export function useFileOperations(
   nodes: Node[],
   edges: Edge[],
@@ -25,13 +72,14 @@ export function useFileOperations(
   setSelectedTreeItem: (id: string | null) => void,
   setCurrentFilePath: (path: string | null) => void,
   clearUndoRedo: () => void,
-  onSaved?: () => void,
-  onLoaded?: () => void,
+  onSaved?: (filePath: string, content: string) => void,
+  onLoaded?: (source?: { content: string; filePath: string | null }) => void,
   promptForVersionPolicy?: (filePath: string | null) => Promise<MissingVersionPolicy | null>,
 ) {
-  const handleSave = useCallback(async () => {
+  // Resolves to whether the machine was saved
+  const handleSave = useCallback(async (): Promise<boolean> => {
     const syntaxErrorLocations = findSyntaxErrors(nodes, edges, machineProperties);
-    if (syntaxErrorLocations.length > 0 && !confirmDespiteErrors(syntaxErrorLocations)) return;
+    if (syntaxErrorLocations.length > 0 && !confirmDespiteErrors(syntaxErrorLocations)) return false;
     const yamlContent = convertToYaml(nodes as Node<{ label: string; history: boolean; entry: string; exit: string; do: string }>[], edges, rootHistory, true, machineProperties);
     let result;
     if (currentFilePath) {
@@ -41,10 +89,11 @@ export function useFileOperations(
     }
     if (result.success && result.filePath) {
       setCurrentFilePath(result.filePath);
-      onSaved?.();
-    } else if (result.error) {
-      alert('Error saving file: ' + result.error);
+      onSaved?.(result.filePath, yamlContent);
+      return true;
     }
+    if (result.error) alert('Error saving file: ' + result.error);
+    return false;
   }, [nodes, edges, rootHistory, machineProperties, currentFilePath, setCurrentFilePath, onSaved]);
 
   const loadFromContent = useCallback(async (content: string, filePath: string | null) => {
@@ -60,43 +109,10 @@ export function useFileOperations(
     setRootHistory(loadedRootHistory);
     setMachineProperties(loadedMachineProperties);
     setSelectedTreeItem(null);
-    const maxId = loadedNodes.reduce((max, node) => {
-      const match = node.id.match(/node_(\d+)/);
-      return match ? Math.max(max, parseInt(match[1], 10)) : max;
-    }, 0);
-    resetIdCounter(maxId + 1);
-    const maxStateNum = loadedNodes.reduce((max, node) => {
-      const match = node.data.label.match(/^S(\d+)$/);
-      return match ? Math.max(max, parseInt(match[1], 10)) : max;
-    }, 0);
-    resetStateNameCounter(maxStateNum + 1);
-    const maxProxyNum = loadedNodes.reduce((max, node) => {
-      if (node.type === 'proxyNode') {
-        const match = (node.data as unknown as { name: string }).name?.match(/^P(\d+)$/);
-        if (match) return Math.max(max, parseInt(match[1], 10));
-      }
-      return max;
-    }, 0);
-    resetProxyNameCounter(maxProxyNum + 1);
-    const maxDecisionNum = loadedNodes.reduce((max, node) => {
-      if (node.type === 'decisionNode') {
-        const match = (node.data.label as string)?.match(/^D(\d+)$/);
-        if (match) return Math.max(max, parseInt(match[1], 10));
-      }
-      return max;
-    }, 0);
-    resetDecisionNameCounter(maxDecisionNum + 1);
-    const maxAndNum = loadedNodes.reduce((max, node) => {
-      if (node.type === 'decisionNode') {
-        const match = (node.data.label as string)?.match(/^A(\d+)$/);
-        if (match) return Math.max(max, parseInt(match[1], 10));
-      }
-      return max;
-    }, 0);
-    resetAndNameCounter(maxAndNum + 1);
+    resetNameCounters(loadedNodes);
     setCurrentFilePath(filePath);
     clearUndoRedo();
-    onLoaded?.();
+    onLoaded?.({ content, filePath });
   }, [setNodes, setEdges, setRootHistory, setMachineProperties, setSelectedTreeItem, setCurrentFilePath, clearUndoRedo, onLoaded, promptForVersionPolicy]);
 
   const handleOpen = useCallback(async () => {
@@ -144,7 +160,7 @@ export function useFileOperations(
     const result = await window.fileAPI.saveFile(yamlContent, defaultName);
     if (result.success && result.filePath) {
       setCurrentFilePath(result.filePath);
-      onSaved?.();
+      onSaved?.(result.filePath, yamlContent);
     } else if (result.error) {
       alert('Error saving file: ' + result.error);
     }
@@ -174,6 +190,53 @@ export function useFileOperations(
     }
   }, [nodes, edges, currentFilePath]);
 
+  const handleExportStateDiagram = useCallback(async (format: StateDiagramFormat) => {
+    const convert = format === 'plantuml' ? convertToPlantUml : convertToMermaid;
+    const { text, warnings } = convert(nodes, edges, rootHistory, machineProperties);
+    const extension = format === 'plantuml' ? '.puml' : '.mmd';
+
+    let defaultName = 'statemachine' + extension;
+    if (currentFilePath) {
+      defaultName = currentFilePath.replace(/\.(smb|yaml|yml)$/i, '') + extension;
+    }
+
+    const result = await window.fileAPI.saveFile(text, defaultName);
+    if (result.success) {
+      if (warnings.length > 0) {
+        const name = format === 'plantuml' ? 'PlantUML' : 'Mermaid';
+        alert(`Export to ${name} completed with warnings:\n\n` + warnings.join('\n'));
+      }
+    } else if (result.error) {
+      alert('Error exporting file: ' + result.error);
+    }
+  }, [nodes, edges, rootHistory, machineProperties, currentFilePath]);
+
+  const handleExportDocs = useCallback(async (format: DocsFormat) => {
+    const base = currentFilePath ? currentFilePath.replace(/\.(smb|yaml|yml)$/i, '') : 'statemachine';
+    const title = base.replace(/^.*[\\/]/, '');
+    const files = generateDocs(nodes, edges, machineProperties, title, format);
+    const result = await window.fileAPI.saveDocs(files, base + (format === 'html' ? '.html' : '.md'));
+    if (result.error) {
+      alert('Error exporting documentation: ' + result.error);
+    }
+  }, [nodes, edges, machineProperties, currentFilePath]);
+
+  // Saving keeps submachine references; this writes a copy that contains the referenced states
+  const handleExportInlined = useCallback(async () => {
+    const files = await loadSubmachineFiles(nodes, currentFilePath, readSubmachineFile);
+    const inlined = inlineSubmachines(nodes, edges, machineProperties, currentFilePath, p => files.get(p) ?? null);
+    const yamlContent = convertToYaml(inlined.nodes, inlined.edges, rootHistory, true, inlined.machineProperties);
+    const base = currentFilePath ? currentFilePath.replace(/\.(smb|yaml|yml)$/i, '') : 'statemachine';
+    const result = await window.fileAPI.saveFile(yamlContent, base + '-inlined.smb');
+    if (result.success) {
+      if (inlined.warnings.length > 0) {
+        alert('Inlining submachines completed with warnings:\n\n' + inlined.warnings.join('\n'));
+      }
+    } else if (result.error) {
+      alert('Error saving file: ' + result.error);
+    }
+  }, [nodes, edges, rootHistory, machineProperties, currentFilePath]);
+
   const handleImportPhoenix = useCallback(async () => {
     const result = await window.fileAPI.importPhoenix();
     if (result.success && result.content) {
@@ -223,6 +286,51 @@ export function useFileOperations(
     }
   }, [setNodes, setEdges, setRootHistory, setMachineProperties, setSelectedTreeItem, setCurrentFilePath, clearUndoRedo]);
 
+  const handleExportScxml = useCallback(async () => {
+    const syntaxErrorLocations = findSyntaxErrors(nodes, edges, machineProperties);
+    if (syntaxErrorLocations.length > 0 && !confirmDespiteErrors(syntaxErrorLocations)) return;
+    const { scxml, warnings } = convertToScxml(nodes, edges, rootHistory, machineProperties);
+
+    let defaultName = 'statemachine.scxml';
+    if (currentFilePath) {
+      defaultName = currentFilePath.replace(/\.(smb|yaml|yml)$/i, '') + '.scxml';
+    }
+
+    const result = await window.fileAPI.saveFile(scxml, defaultName);
+    if (result.success) {
+      if (warnings.length > 0) {
+        alert('Export to SCXML completed with warnings:\n\n' + warnings.join('\n'));
+      }
+    } else if (result.error) {
+      alert('Error exporting file: ' + result.error);
+    }
+  }, [nodes, edges, rootHistory, machineProperties, currentFilePath]);
+
+  const handleImportScxml = useCallback(async () => {
+    const result = await window.fileAPI.importScxml();
+    if (result.success && result.content) {
+      try {
+        const imported = convertFromScxml(result.content);
+        setNodes(imported.nodes);
+        setEdges(imported.edges);
+        setRootHistory(imported.rootHistory);
+        setMachineProperties(imported.machineProperties);
+        setSelectedTreeItem(null);
+        resetNameCounters(imported.nodes);
+        setCurrentFilePath(null); // SCXML file is not an .smb file
+        clearUndoRedo();
+        onLoaded?.();
+        if (imported.warnings.length > 0) {
+          alert('Import from SCXML completed with warnings:\n\n' + imported.warnings.join('\n'));
+        }
+      } catch (error) {
+        alert('Error parsing SCXML file: ' + (error as Error).message);
+      }
+    } else if (result.error) {
+      alert('Error opening file: ' + result.error);
+    }
+  }, [setNodes, setEdges, setRootHistory, setMachineProperties, setSelectedTreeItem, setCurrentFilePath, clearUndoRedo, onLoaded]);
+
   // On startup, check if the app was launched with a file (double-click or CLI arg)
   useEffect(() => {
     window.fileAPI.getStartupFile().then(async (result) => {
@@ -253,6 +361,21 @@ export function useFileOperations(
     return cleanup;
   }, [handleExportPhoenix]);
 
+  useEffect(() => {
+    const cleanup = window.fileAPI.onExportStateDiagram(handleExportStateDiagram);
+    return cleanup;
+  }, [handleExportStateDiagram]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onExportDocs(handleExportDocs);
+    return cleanup;
+  }, [handleExportDocs]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onExportInlined(handleExportInlined);
+    return cleanup;
+  }, [handleExportInlined]);
+
   useEffect(() => {
     const cleanup = window.fileAPI.onMenuOpen(handleOpen);
     return cleanup;
@@ -268,6 +391,16 @@ export function useFileOperations(
     return cleanup;
   }, [handleImportPhoenix]);
 
+  useEffect(() => {
+    const cleanup = window.fileAPI.onExportScxml(handleExportScxml);
+    return cleanup;
+  }, [handleExportScxml]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onImportScxml(handleImportScxml);
+    return cleanup;
+  }, [handleImportScxml]);
+
   const handleExportSourceCode = useCallback(async () => {
     if (!currentFilePath) {
       alert('Please save the file before exporting to source code.');
@@ -284,5 +417,5 @@ export function useFileOperations(
     return cleanup;
   }, [handleExportSourceCode]);
 
-  return { handleSave, handleOpen, handleNew, handleExportPhoenix, handleSaveAs, handleImportPhoenix };
+  return { handleSave, handleOpen, handleNew, loadFromContent, handleExportPhoenix, handleSaveAs, handleImportPhoenix, handleExportScxml, handleImportScxml, handleExportStateDiagram, handleExportDocs, handleExportInlined };
 }
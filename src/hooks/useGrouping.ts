@@ -1,11 +1,12 @@
 import { useCallback } from 'react';
 import { Node } from 'reactflow';
 import { getAbsoluteNodeBounds } from '../semanticZoom';
+import { countOf, nodeName } from '../utils/undoLabels';
 
 export function useGrouping(
   nodes: Node[],
   setNodes: (updater: (nds: Node[]) => Node[]) => void,
-  saveSnapshot: () => void,
+  saveSnapshot: (label?: string) => void,
 ) {
   const handleGroupStates = useCallback(() => {
     const selectedNode = nodes.find(n => n.selected);
@@ -45,7 +46,7 @@ export function useGrouping(
       return;
     }
 
-    saveSnapshot();
+    saveSnapshot(`Group ${countOf(nodesToGroup.length, 'state')} into ${nodeName(selectedNode)}`);
     setNodes((nds) =>
       nds.map((node) => {
         if (nodesToGroup.includes(node.id)) {
@@ -107,7 +108,7 @@ export function useGrouping(
       newPosition = { x: nodeBounds.x, y: nodeBounds.y };
     }
 
-    saveSnapshot();
+    saveSnapshot(`Move ${nodeName(node)} out of ${nodeName(parentNode)}`);
     setNodes((nds) =>
       nds.map((n) => {
         if (n.id === nodeId) {
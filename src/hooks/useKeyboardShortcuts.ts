@@ -1,22 +1,23 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { Edge, Node } from 'reactflow';
 import { calculateBestHandles } from '../utils/handleUtils';
+import { describeEdge } from '../utils/undoLabels';
+import { ShortcutCommand, SHORTCUT_COMMANDS, bindingFromEvent } from '../utils/shortcuts';
 
 interface KeyboardShortcutsParams {
+  // The user's key binding for each command (see utils/shortcuts)
+  bindings: Record<ShortcutCommand, string>;
+
   // Handlers
   handleCopy: () => Promise<void>;
   handlePaste: () => Promise<void>;
-  handleDuplicate: () => void;
   handleDuplicateWithExternalEdges: () => void;
   handleSave: () => void;
-  handleOpen: () => void;
-  handleUndo: () => void;
-  handleRedo: () => void;
   handleSemanticZoomToSelected: () => void;
   handleNavigateUp: () => void;
   handleGroupStates: () => void;
   handleUngroupState: (nodeId: string) => boolean;
-  saveSnapshot: () => void;
+  saveSnapshot: (label?: string) => void;
   handleCopyImage: () => Promise<void>;
   handleExportPdf: () => Promise<void>;
   toggleShowLabels: () => void;
@@ -62,10 +63,21 @@ interface KeyboardShortcutsParams {
   setMachineProperties: (updater: (prev: unknown) => unknown) => void;
 }
 
+/** Whether the user is typing in a text field, where keys keep their text editing meaning. */
+export function isTextInputFocused(): boolean {
+  const activeElement = document.activeElement;
+  return !!activeElement && (
+    activeElement.tagName === 'INPUT' ||
+    activeElement.tagName === 'TEXTAREA' ||
+    (activeElement as HTMLElement).isContentEditable
+  );
+}
+
 export function useKeyboardShortcuts(params: KeyboardShortcutsParams) {
   const {
-    handleCopy, handlePaste, handleDuplicate, handleDuplicateWithExternalEdges, handleSave, handleOpen,
-    handleUndo, handleRedo, handleSemanticZoomToSelected, handleNavigateUp,
+    bindings,
+    handleCopy, handlePaste, handleDuplicateWithExternalEdges, handleSave,
+    handleSemanticZoomToSelected, handleNavigateUp,
     handleGroupStates, handleUngroupState, saveSnapshot,
     handleCopyImage, handleExportPdf, toggleShowLabels,
     handleOpenSearch, handleCloseSearch,
@@ -81,20 +93,151 @@ export function useKeyboardShortcuts(params: KeyboardShortcutsParams) {
     setSelectedMarkerId, setEdges, setNodes, setRootHistory, setMachineProperties,
   } = params;
 
+  const commandByBinding = useMemo(() => {
+    const map = new Map<string, ShortcutCommand>();
+    for (const [command, binding] of Object.entries(bindings) as [ShortcutCommand, string][]) {
+      if (binding) map.set(binding, command);
+    }
+    return map;
+  }, [bindings]);
+
   useEffect(() => {
+    const runCommand = (command: ShortcutCommand) => {
+      switch (command) {
+        case 'addState':
+          setIsAddingNode(true);
+          break;
+        case 'addDecision':
+          setIsAddingDecision(true);
+          break;
+        case 'addAnd':
+          setIsAddingAnd(true);
+          break;
+        case 'addTransition': {
+          const selectedEdge = edges.find(e => e.selected);
+          if (selectedEdge) {
+            saveSnapshot(`Straighten transition ${describeEdge(selectedEdge, nodes)}`);
+            const { sourceHandle, targetHandle } = calculateBestHandles(selectedEdge.source, selectedEdge.target, nodes);
+            setEdges((eds) =>
+              eds.map((edge) => {
+                if (edge.id === selectedEdge.id) {
+                  return {
+                    ...edge,
+                    sourceHandle,
+                    targetHandle,
+                  };
+                }
+                return edge;
+              })
+            );
+          } else {
+            const selectedNode = nodes.find(n => n.selected);
+            if (selectedNode) {
+              setIsAddingTransition(true);
+              setTransitionSourceId(selectedNode.id);
+            }
+          }
+          break;
+        }
+        case 'retargetTransition': {
+          const selectedEdge = edges.find(e => e.selected);
+          if (selectedEdge) {
+            setIsRetargetingTransition(true);
+            setRetargetEdgeId(selectedEdge.id);
+          }
+          break;
+        }
+        case 'resourceTransition': {
+          const selectedEdge = edges.find(e => e.selected);
+          if (selectedEdge) {
+            setIsResourcingTransition(true);
+            setRetargetEdgeId(selectedEdge.id);
+          }
+          break;
+        }
+        case 'zoomToSelected':
+          handleSemanticZoomToSelected();
+          break;
+        case 'toggleLabels':
+          toggleShowLabels();
+          break;
+        case 'group':
+          handleGroupStates();
+          break;
+        case 'ungroup': {
+          const selectedNode = nodes.find(n => n.selected);
+          if (selectedNode && selectedNode.parentId) {
+            handleUngroupState(selectedNode.id);
+          }
+          setIsUngroupingMode(true);
+          console.log('Entered ungroup mode');
+          break;
+        }
+        case 'setInitial': {
+          const selectedNode = nodes.find(n => n.selected);
+          if (selectedNode) {
+            setIsSettingInitial(true);
+            setInitialTargetId(selectedNode.id);
+            if (selectedNode.parentId) {
+              console.log('Click on parent to place initial marker for:', selectedNode.data.label);
+            } else {
+              console.log('Click on canvas to place root initial marker for:', selectedNode.data.label);
+            }
+          }
+          break;
+        }
+        case 'addProxy': {
+          const selectedNode = nodes.find(n => n.selected);
+          if (selectedNode && selectedNode.type === 'stateNode') {
+            setIsAddingProxy(true);
+            setProxyTargetId(selectedNode.id);
+          } else {
+            const selectedEdge = edges.find(e => e.selected);
+            if (selectedEdge) {
+              setIsAddingProxy(true);
+              setProxyTargetId(selectedEdge.target);
+              setProxySourceEdgeId(selectedEdge.id);
+            }
+          }
+          break;
+        }
+        case 'addHistory':
+          setIsSettingHistory(true);
+          console.log('Click on a state to place history marker');
+          break;
+        case 'copy':
+          handleCopy();
+          break;
+        case 'copyImage':
+          handleCopyImage();
+          break;
+        case 'exportPdf':
+          handleExportPdf();
+          break;
+        case 'paste':
+          handlePaste();
+          break;
+        case 'duplicateWithEdges':
+          handleDuplicateWithExternalEdges();
+          break;
+        case 'save':
+          handleSave();
+          break;
+        case 'search':
+          handleOpenSearch();
+          break;
+      }
+    };
+
     const handleKeyDown = (event: KeyboardEvent) => {
-      const activeElement = document.activeElement;
-      const isInTextInput = activeElement && (
-        activeElement.tagName === 'INPUT' ||
-        activeElement.tagName === 'TEXTAREA' ||
-        (activeElement as HTMLElement).isContentEditable
-      );
+      const isInTextInput = isTextInputFocused();
 
       const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
-      const isModifierPressed = isMac ? event.metaKey : event.ctrlKey;
+      const binding = bindingFromEvent(event, isMac);
+      const command = binding ? commandByBinding.get(binding) : undefined;
 
-      // Ctrl/Cmd+F: open search panel (works even in text inputs)
-      if (isModifierPressed && event.key === 'f') {
+      // Search opens even from text inputs
+      if (command === 'search') {
         event.preventDefault();
         handleOpenSearch();
         return;
@@ -104,21 +247,15 @@ export function useKeyboardShortcuts(params: KeyboardShortcutsParams) {
         return;
       }
 
-      // View mode: only allow navigation keys and modifier combos
-      if (isViewMode) {
-        if (event.key === 'Escape' || event.key === 'z' || event.key === 'v') {
-          // fall through to normal handling
-        } else if (isModifierPressed) {
-          // allow Ctrl/Cmd combos (save, open, find, etc.)
-        } else {
-          return; // block all other keys
-        }
+      // View mode: only Escape and the commands that don't edit the machine
+      if (isViewMode && event.key !== 'Escape' && !(command && SHORTCUT_COMMANDS[command].inViewMode)) {
+        return;
       }
 
       // Delete selected history marker
       if ((event.key === 'Delete' || event.key === 'Backspace') && selectedMarkerId?.startsWith('history-marker-')) {
         event.preventDefault();
-        saveSnapshot();
+        saveSnapshot('Remove history');
         if (selectedMarkerId === 'history-marker-root') {
           setRootHistory(false);
           setMachineProperties(prev => {
@@ -140,190 +277,42 @@ export function useKeyboardShortcuts(params: KeyboardShortcutsParams) {
           }));
         }
         setSelectedMarkerId(null);
-      } else if (event.key === 's' && !isModifierPressed && !event.shiftKey) {
-        event.preventDefault();
-        setIsAddingNode(true);
-      } else if (event.key === 'd' && !isModifierPressed) {
-        event.preventDefault();
-        setIsAddingDecision(true);
-      } else if (event.key === 'a' && !isModifierPressed) {
-        event.preventDefault();
-        setIsAddingAnd(true);
-      } else if (event.key === 't' && !isModifierPressed) {
-        event.preventDefault();
-        const selectedEdge = edges.find(e => e.selected);
-        if (selectedEdge) {
-          saveSnapshot();
-          const { sourceHandle, targetHandle } = calculateBestHandles(selectedEdge.source, selectedEdge.target, nodes);
-          setEdges((eds) =>
-            eds.map((edge) => {
-              if (edge.id === selectedEdge.id) {
-                return {
-                  ...edge,
-                  sourceHandle,
-                  targetHandle,
-                };
-              }
-              return edge;
-            })
-          );
-        } else {
-          const selectedNode = nodes.find(n => n.selected);
-          if (selectedNode) {
-            setIsAddingTransition(true);
-            setTransitionSourceId(selectedNode.id);
-          }
-        }
-      } else if (event.key === 'T' && event.shiftKey && !isModifierPressed) {
-        event.preventDefault();
-        const selectedEdge = edges.find(e => e.selected);
-        if (selectedEdge) {
-          setIsRetargetingTransition(true);
-          setRetargetEdgeId(selectedEdge.id);
-        }
-      } else if (event.key === 'S' && event.shiftKey && !isModifierPressed) {
-        event.preventDefault();
-        const selectedEdge = edges.find(e => e.selected);
-        if (selectedEdge) {
-          setIsResourcingTransition(true);
-          setRetargetEdgeId(selectedEdge.id);
-        }
-      } else if (event.key === 'Escape' && isSearchOpen) {
-        event.preventDefault();
-        handleCloseSearch();
-      } else if (event.key === 'Escape' && isRetargetingTransition) {
-        event.preventDefault();
-        setIsRetargetingTransition(false);
-        setRetargetEdgeId(null);
-      } else if (event.key === 'Escape' && isResourcingTransition) {
-        event.preventDefault();
-        setIsResourcingTransition(false);
-        setRetargetEdgeId(null);
-      } else if (event.key === 'Escape' && isAddingDecision) {
-        event.preventDefault();
-        setIsAddingDecision(false);
-      } else if (event.key === 'Escape' && isAddingAnd) {
-        event.preventDefault();
-        setIsAddingAnd(false);
-      } else if (event.key === 'Escape' && isAddingTransition) {
-        event.preventDefault();
-        setIsAddingTransition(false);
-        setTransitionSourceId(null);
-      } else if (event.key === 'z' && !isModifierPressed) {
-        event.preventDefault();
-        handleSemanticZoomToSelected();
-      } else if (event.key === 'v' && !isModifierPressed) {
-        event.preventDefault();
-        toggleShowLabels();
-      } else if (event.key === 'g' && !isModifierPressed && !event.shiftKey) {
-        event.preventDefault();
-        handleGroupStates();
-      } else if (event.key === 'G' && event.shiftKey && !isModifierPressed) {
-        event.preventDefault();
-        const selectedNode = nodes.find(n => n.selected);
-        if (selectedNode && selectedNode.parentId) {
-          handleUngroupState(selectedNode.id);
-        }
-        setIsUngroupingMode(true);
-        console.log('Entered ungroup mode');
-      } else if (event.key === 'i' && !isModifierPressed) {
-        event.preventDefault();
-        const selectedNode = nodes.find(n => n.selected);
-        if (selectedNode) {
-          setIsSettingInitial(true);
-          setInitialTargetId(selectedNode.id);
-          if (selectedNode.parentId) {
-            console.log('Click on parent to place initial marker for:', selectedNode.data.label);
-          } else {
-            console.log('Click on canvas to place root initial marker for:', selectedNode.data.label);
-          }
-        }
-      } else if (event.key === 'p' && !isModifierPressed) {
-        event.preventDefault();
-        const selectedNode = nodes.find(n => n.selected);
-        if (selectedNode && selectedNode.type === 'stateNode') {
-          setIsAddingProxy(true);
-          setProxyTargetId(selectedNode.id);
-        } else {
-          const selectedEdge = edges.find(e => e.selected);
-          if (selectedEdge) {
-            setIsAddingProxy(true);
-            setProxyTargetId(selectedEdge.target);
-            setProxySourceEdgeId(selectedEdge.id);
-          }
-        }
-      } else if (event.key === 'Escape' && isAddingProxy) {
-        event.preventDefault();
-        setIsAddingProxy(false);
-        setProxyTargetId(null);
-        setProxySourceEdgeId(null);
-      } else if (event.key === 'h' && !isModifierPressed) {
-        event.preventDefault();
-        setIsSettingHistory(true);
-        console.log('Click on a state to place history marker');
-      } else if (event.key === 'Escape' && isSettingHistory) {
-        event.preventDefault();
-        setIsSettingHistory(false);
-      } else if (event.key === 'Escape' && isSettingInitial) {
-        event.preventDefault();
-        setIsSettingInitial(false);
-        setInitialTargetId(null);
-      } else if (event.key === 'Escape' && isUngroupingMode) {
-        event.preventDefault();
-        setIsUngroupingMode(false);
       } else if (event.key === 'Escape') {
+        // Cancel whatever is in progress, otherwise navigate up a level
         event.preventDefault();
-        handleNavigateUp();
-      } else if (isModifierPressed) {
-        if (event.key === 'z' || event.key === 'Z') {
-          event.preventDefault();
-          if (event.shiftKey) {
-            handleRedo();
-          } else {
-            handleUndo();
-          }
+        if (isSearchOpen) {
+          handleCloseSearch();
+        } else if (isRetargetingTransition) {
+          setIsRetargetingTransition(false);
+          setRetargetEdgeId(null);
+        } else if (isResourcingTransition) {
+          setIsResourcingTransition(false);
+          setRetargetEdgeId(null);
+        } else if (isAddingDecision) {
+          setIsAddingDecision(false);
+        } else if (isAddingAnd) {
+          setIsAddingAnd(false);
+        } else if (isAddingTransition) {
+          setIsAddingTransition(false);
+          setTransitionSourceId(null);
+        } else if (isAddingProxy) {
+          setIsAddingProxy(false);
+          setProxyTargetId(null);
+          setProxySourceEdgeId(null);
+        } else if (isSettingHistory) {
+          setIsSettingHistory(false);
+        } else if (isSettingInitial) {
+          setIsSettingInitial(false);
+          setInitialTargetId(null);
+        } else if (isUngroupingMode) {
+          setIsUngroupingMode(false);
         } else {
-          switch (event.key) {
-            case 'c':
-              event.preventDefault();
-              if (event.shiftKey) {
-                handleCopyImage();
-              } else {
-                handleCopy();
-              }
-              break;
-            case 'p':
-              event.preventDefault();
-              handleExportPdf();
-              break;
-            case 'v':
-              event.preventDefault();
-              handlePaste();
-              break;
-            case 'd':
-            case 'D':
-              event.preventDefault();
-              if (event.shiftKey) {
-                handleDuplicateWithExternalEdges();
-              } else {
-                handleDuplicate();
-              }
-              break;
-            case 's':
-              event.preventDefault();
-              if (!event.shiftKey) {
-                handleSave();
-              }
-              // Ctrl+Shift+S (Save As) handled by Electron menu accelerator
-              break;
-            case 'o':
-              event.preventDefault();
-              handleOpen();
-              break;
-            default:
-              break;
-          }
+          handleNavigateUp();
         }
+      } else if (command && !SHORTCUT_COMMANDS[command].menuOnly) {
+        // Menu commands are left to their menu accelerator
+        event.preventDefault();
+        runCommand(command);
       }
     };
 
@@ -332,9 +321,10 @@ export function useKeyboardShortcuts(params: KeyboardShortcutsParams) {
       document.removeEventListener('keydown', handleKeyDown);
     };
   }, [
-    handleCopy, handlePaste, handleDuplicate, handleDuplicateWithExternalEdges, handleSave, handleOpen,
+    commandByBinding,
+    handleCopy, handlePaste, handleDuplicateWithExternalEdges, handleSave,
     handleSemanticZoomToSelected, handleNavigateUp, handleGroupStates, handleUngroupState,
-    handleUndo, handleRedo, saveSnapshot, handleCopyImage, handleExportPdf, toggleShowLabels,
+    saveSnapshot, handleCopyImage, handleExportPdf, toggleShowLabels,
     handleOpenSearch, handleCloseSearch,
     setIsAddingNode, setIsAddingDecision, isAddingDecision, setIsAddingAnd, isAddingAnd,
     nodes, edges, isSearchOpen, isViewMode, isAddingTransition, isUngroupingMode, isSettingInitial, isSettingHistory, isAddingProxy,
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Node, Edge } from 'reactflow';
+import { convertFromYaml, MachineProperties } from '../yamlConverter';
+import { DiffModel } from '../utils/modelDiff';
+
+export interface MergeSession {
+  base: DiffModel;
+  ours: DiffModel;
+  theirs: DiffModel;
+  basePath: string;
+  theirsPath: string;
+}
+
+// "Merge with File..." merges their version into the current machine, which
+// is ours. Started as a git mergetool, ours is loaded from LOCAL first with
+// MERGED as the file path, so that saving writes the merge result.
+export function useMerge(
+  nodes: Node[],
+  edges: Edge[],
+  rootHistory: boolean,
+  machineProperties: MachineProperties,
+  currentFilePath: string | null,
+  loadFromContent: (content: string, filePath: string | null) => Promise<void>,
+) {
+  const [session, setSession] = useState<MergeSession | null>(null);
+
+  const mergeWithFile = useCallback(async () => {
+    const result = await window.fileAPI.openMergeFiles(currentFilePath);
+    if (result.canceled) return;
+    if (!result.success || !result.base || !result.theirs) {
+      alert('Error opening file: ' + result.error);
+      return;
+    }
+    try {
+      setSession({
+        base: convertFromYaml(result.base.content),
+        ours: { nodes, edges, rootHistory, machineProperties },
+        theirs: convertFromYaml(result.theirs.content),
+        basePath: result.base.filePath,
+        theirsPath: result.theirs.filePath,
+      });
+    } catch (error) {
+      alert('Error parsing file: ' + (error as Error).message);
+    }
+  }, [nodes, edges, rootHistory, machineProperties, currentFilePath]);
+
+  useEffect(() => {
+    window.fileAPI.getStartupMerge().then(async (startup) => {
+      if (!startup) return;
+      try {
+        await loadFromContent(startup.ours.content, startup.output);
+        setSession({
+          base: convertFromYaml(startup.base.content),
+          ours: convertFromYaml(startup.ours.content),
+          theirs: convertFromYaml(startup.theirs.content),
+          basePath: startup.base.filePath,
+          theirsPath: startup.theirs.filePath,
+        });
+      } catch (error) {
+        alert('Error parsing file: ' + (error as Error).message);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onMergeWithFile(mergeWithFile);
+    return cleanup;
+  }, [mergeWithFile]);
+
+  const closeMerge = useCallback(() => setSession(null), []);
+
+  return { mergeSession: session, mergeWithFile, closeMerge };
+}
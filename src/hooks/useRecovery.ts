@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Node, Edge } from 'reactflow';
+import { convertToYaml, MachineProperties } from '../yamlConverter';
+
+/** How often unsaved changes are written to the recovery directory. */
+export const AUTOSAVE_INTERVAL_MS = 30_000;
+
+export interface RecoveredDocument {
+  id: string;
+  filePath: string | null;
+  savedAt: number;
+  content: string;
+}
+
+// Autosave of unsaved changes, the Save prompt when a dirty window closes,
+// and restoring what an earlier run left behind. The main process owns the
+// recovery files; this keeps it informed of the dirty state and the model.
+export function useRecovery(
+  nodes: Node[],
+  edges: Edge[],
+  rootHistory: boolean,
+  machineProperties: MachineProperties,
+  currentFilePath: string | null,
+  isDirty: boolean,
+  setIsDirty: (dirty: boolean) => void,
+  loadFromContent: (content: string, filePath: string | null) => Promise<void>,
+  handleSave: () => Promise<boolean>,
+) {
+  const [recovered, setRecovered] = useState<RecoveredDocument[]>([]);
+  const model = useRef({ nodes, edges, rootHistory, machineProperties, currentFilePath });
+  model.current = { nodes, edges, rootHistory, machineProperties, currentFilePath };
+  const lastWritten = useRef<string | null>(null);
+  // Whether this window still shows the empty machine it started with
+  const pristine = useRef(true);
+  if (isDirty || currentFilePath) pristine.current = false;
+
+  useEffect(() => {
+    window.fileAPI.setDocumentDirty(isDirty);
+    if (!isDirty && lastWritten.current !== null) {
+      lastWritten.current = null;
+      window.fileAPI.clearRecovery();
+    }
+  }, [isDirty]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timer = setInterval(() => {
+      const { nodes, edges, rootHistory, machineProperties, currentFilePath } = model.current;
+      const content = convertToYaml(nodes, edges, rootHistory, true, machineProperties);
+      if (content === lastWritten.current) return;
+      lastWritten.current = content;
+      window.fileAPI.writeRecovery(content, currentFilePath).then(result => {
+        if (!result.success) console.error('Autosave failed:', result.error);
+      });
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isDirty]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onSaveAndClose(async () => {
+      if (await handleSave()) window.fileAPI.closeAfterSave();
+    });
+    return cleanup;
+  }, [handleSave]);
+
+  // A recovered document is unsaved work, so it opens dirty
+  const openRecovered = useCallback(async (content: string, filePath: string | null) => {
+    try {
+      await loadFromContent(content, filePath);
+      setIsDirty(true);
+    } catch (error) {
+      alert('Error restoring document: ' + (error as Error).message);
+    }
+  }, [loadFromContent, setIsDirty]);
+
+  useEffect(() => {
+    window.fileAPI.listRecovery().then(setRecovered);
+  }, []);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onOpenRecovered(data => openRecovered(data.content, data.filePath));
+    return cleanup;
+  }, [openRecovered]);
+
+  // The first document goes into this window if nothing has been done in it yet
+  const restoreRecovered = useCallback(async (doc: RecoveredDocument) => {
+    setRecovered(prev => prev.filter(d => d.id !== doc.id));
+    if (pristine.current) {
+      pristine.current = false;
+      await openRecovered(doc.content, doc.filePath);
+      window.fileAPI.discardRecovery(doc.id);
+    } else {
+      const result = await window.fileAPI.restoreRecoveryInNewWindow(doc.id);
+      if (!result.success) alert('Error restoring document: ' + result.error);
+    }
+  }, [openRecovered]);
+
+  const discardRecovered = useCallback((doc: RecoveredDocument) => {
+    setRecovered(prev => prev.filter(d => d.id !== doc.id));
+    window.fileAPI.discardRecovery(doc.id);
+  }, []);
+
+  // Documents not decided on are offered again on the next launch
+  const postponeRecovered = useCallback(() => setRecovered([]), []);
+
+  return { recovered, restoreRecovered, discardRecovered, postponeRecovered };
+}
@@ -49,7 +49,7 @@ export interface UseSearchReplaceParams {
   setNodes: (updater: (nds: Node[]) => Node[]) => void;
   setEdges: (updater: (eds: Edge[]) => Edge[]) => void;
   setMachineProperties: (updater: (prev: MachineProperties) => MachineProperties) => void;
-  saveSnapshot: () => void;
+  saveSnapshot: (label?: string) => void;
   selectNode: (nodeId: string) => void;
   selectEdge: (edgeId: string) => void;
   zoomToNode: (nodeId: string) => void;
@@ -59,7 +59,7 @@ export interface UseSearchReplaceParams {
 // Node fields to search
 const NODE_FIELDS = ['label', 'entry', 'exit', 'do', 'annotation'] as const;
 // Edge fields to search
-const EDGE_FIELDS = ['guard', 'action'] as const;
+const EDGE_FIELDS = ['event', 'guard', 'action'] as const;
 // Edge virtual path fields (derived, read-only in replace)
 const EDGE_PATH_FIELDS = ['source', 'target'] as const;
 
@@ -320,7 +320,7 @@ export function useSearchReplace(params: UseSearchReplaceParams) {
     if (matches.length === 0 || currentMatchIndex >= matches.length) return;
     const match = matches[currentMatchIndex];
 
-    saveSnapshot();
+    saveSnapshot(`Replace '${debouncedTerm}'`);
 
     if (match.ownerKind === 'node') {
       setNodes(nds => nds.map(n => {
@@ -348,13 +348,13 @@ export function useSearchReplace(params: UseSearchReplaceParams) {
     if (currentMatchIndex >= matches.length - 1) {
       setCurrentMatchIndex(0);
     }
-  }, [matches, currentMatchIndex, applyOneReplacement, saveSnapshot, setNodes, setEdges, setMachineProperties]);
+  }, [matches, currentMatchIndex, debouncedTerm, applyOneReplacement, saveSnapshot, setNodes, setEdges, setMachineProperties]);
 
   // Replace all matches
   const replaceAll = useCallback(() => {
     if (matches.length === 0) return;
 
-    saveSnapshot();
+    saveSnapshot(`Replace all '${debouncedTerm}'`);
 
     if (options.isRegex) {
       // Regex mode: apply global replace on each unique field
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { WindowSession } from '../preload';
+
+type SessionView = Omit<WindowSession, 'filePath'>;
+
+// How long the view has to stay put before it is reported
+const REPORT_DELAY_MS = 500;
+
+// Keeps the main process informed of the file and view of this window, which
+// it uses for File > Open Recent and to restore the session on the next
+// launch. A restored window gets its file and the view it was left in.
+export function useSession(
+  currentFilePath: string | null,
+  focusNodeId: string | null,
+  zoomLevel: number,
+  panOffset: { x: number; y: number },
+  loadFromContent: (content: string, filePath: string | null) => Promise<void>,
+) {
+  const restoredView = useRef<SessionView | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      window.fileAPI.setWindowSession({ filePath: currentFilePath, focusNodeId, zoomLevel, panOffset });
+    }, REPORT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentFilePath, focusNodeId, zoomLevel, panOffset]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onRestoreSessionWindow(async ({ content, filePath, focusNodeId, zoomLevel, panOffset }) => {
+      restoredView.current = { focusNodeId, zoomLevel, panOffset };
+      try {
+        await loadFromContent(content, filePath);
+      } catch (error) {
+        restoredView.current = null;
+        alert('Error parsing file: ' + (error as Error).message);
+      }
+    });
+    return cleanup;
+  }, [loadFromContent]);
+
+  // Used instead of zooming to fit once the restored file has loaded
+  const takeRestoredView = useCallback(() => {
+    const view = restoredView.current;
+    restoredView.current = null;
+    return view;
+  }, []);
+
+  return { takeRestoredView };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Node } from 'reactflow';
+import { resolveSubmachinePath, relativeSubmachinePath, submachinePreview, submachineRef, SubmachinePreview } from '../utils/submachine';
+import { readSubmachineFile } from './useFileOperations';
+
+// Previews of the files referenced by submachine states. Files are read again
+// when the references change and when the window regains focus, since a
+// submachine is typically edited in a window of its own.
+export function useSubmachines(nodes: Node[], currentFilePath: string | null) {
+  const [files, setFiles] = useState<Map<string, string | null>>(new Map());
+  const [generation, setGeneration] = useState(0);
+
+  // Resolved paths, joined so the effect below only reruns when they change
+  const pathsKey = useMemo(() => {
+    const paths = new Set<string>();
+    for (const node of nodes) {
+      const ref = submachineRef(node);
+      if (ref) paths.add(resolveSubmachinePath(currentFilePath, ref));
+    }
+    return [...paths].sort().join('\n');
+  }, [nodes, currentFilePath]);
+
+  useEffect(() => {
+    if (!pathsKey) return;
+    let canceled = false;
+    const paths = pathsKey.split('\n');
+    Promise.all(paths.map(readSubmachineFile)).then(contents => {
+      if (!canceled) setFiles(new Map(paths.map((p, i) => [p, contents[i]])));
+    });
+    return () => { canceled = true; };
+  }, [pathsKey, generation]);
+
+  useEffect(() => {
+    const onFocus = () => setGeneration(g => g + 1);
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, []);
+
+  const previews = useMemo(() => {
+    const result = new Map<string, SubmachinePreview>();
+    for (const node of nodes) {
+      const ref = submachineRef(node);
+      if (!ref) continue;
+      const path = resolveSubmachinePath(currentFilePath, ref);
+      // Not read yet: show the file name only
+      result.set(node.id, files.has(path)
+        ? submachinePreview(ref, files.get(path) ?? null)
+        : { fileName: ref.replace(/^.*[\\/]/, ''), states: [] });
+    }
+    return result;
+  }, [nodes, files, currentFilePath]);
+
+  const openSubmachine = useCallback(async (ref: string) => {
+    const result = await window.fileAPI.openSubmachine(resolveSubmachinePath(currentFilePath, ref));
+    if (!result.success) {
+      alert('Error opening submachine: ' + result.error);
+    }
+  }, [currentFilePath]);
+
+  /** Ask for a file and return the reference to store, or null if canceled. */
+  const chooseSubmachine = useCallback(async (): Promise<string | null> => {
+    const result = await window.fileAPI.chooseSubmachine(currentFilePath);
+    if (!result.success || !result.filePath) return null;
+    return relativeSubmachinePath(currentFilePath, result.filePath);
+  }, [currentFilePath]);
+
+  return { previews, openSubmachine, chooseSubmachine };
+}
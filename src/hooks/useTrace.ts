@@ -0,0 +1,88 @@
+import { useState, useCallback, useRef } from 'react';
+import type { TransitionRef } from '../preload';
+import { Trace, TraceEntry, serializeTrace, parseTrace } from '../utils/trace';
+
+// Records View Mode updates into a Trace and lets the timeline scrub through
+// it. `scrubIndex` is null while following the live state. Updates are
+// appended to the trace in place, as copying it each time would cost the
+// whole run; `traceVersion` changes with every entry instead.
+export function useTrace(currentFilePath: string | null) {
+  const [trace, setTraceState] = useState<Trace | null>(null);
+  const [traceVersion, setTraceVersion] = useState(0);
+  const [scrubIndex, setScrubIndex] = useState<number | null>(null);
+  const startRef = useRef(0);
+  const traceRef = useRef<Trace | null>(null);
+
+  const setTrace = useCallback((next: Trace | null) => {
+    traceRef.current = next;
+    setTraceState(next);
+  }, []);
+
+  const startRecording = useCallback((plugin?: string) => {
+    const now = Date.now();
+    startRef.current = now;
+    setTrace({
+      version: 1,
+      smbFile: currentFilePath?.split('/').pop(),
+      startedAt: new Date(now).toISOString(),
+      plugin,
+      entries: [],
+    });
+    setScrubIndex(null);
+  }, [currentFilePath, setTrace]);
+
+  const record = useCallback((activeStates: string[], transitions?: TransitionRef[]) => {
+    const entry: TraceEntry = transitions && transitions.length > 0
+      ? { t: Date.now() - startRef.current, activeStates, transitions }
+      : { t: Date.now() - startRef.current, activeStates };
+    if (!traceRef.current) return;
+    traceRef.current.entries.push(entry);
+    setTraceVersion(v => v + 1);
+  }, []);
+
+  const clearTrace = useCallback(() => {
+    setTrace(null);
+    setScrubIndex(null);
+  }, [setTrace]);
+
+  const saveTrace = useCallback(async () => {
+    if (!trace) return;
+    const result = await window.fileAPI.saveTrace(serializeTrace(trace), currentFilePath);
+    if (!result.success && !result.canceled) {
+      alert('Error saving trace: ' + result.error);
+    }
+  }, [trace, currentFilePath]);
+
+  // Load a trace for offline review; returns true when one was loaded.
+  const loadTrace = useCallback(async (): Promise<boolean> => {
+    const result = await window.fileAPI.openTrace(currentFilePath);
+    if (result.success && result.content) {
+      try {
+        const loaded = parseTrace(result.content);
+        setTrace(loaded);
+        setScrubIndex(loaded.entries.length > 0 ? 0 : null);
+        return true;
+      } catch (error) {
+        alert('Error parsing trace: ' + (error as Error).message);
+      }
+    } else if (!result.canceled) {
+      alert('Error opening trace: ' + result.error);
+    }
+    return false;
+  }, [currentFilePath, setTrace]);
+
+  const replayEntry = trace && scrubIndex !== null ? trace.entries[scrubIndex] ?? null : null;
+
+  return {
+    trace,
+    traceVersion,
+    scrubIndex,
+    setScrubIndex,
+    replayEntry,
+    startRecording,
+    record,
+    clearTrace,
+    saveTrace,
+    loadTrace,
+  };
+}
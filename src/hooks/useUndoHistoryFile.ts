@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import type { SavedHistory } from '../useUndoRedo';
+
+const HISTORY_FORMAT_VERSION = 2;
+
+// FNV-1a; only used to tell whether the file is still the one the history was saved with
+function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+// Keeps the undo history next to the machine file (machine.history.json) when
+// enabled in the settings. It is written on every save and read back when the
+// file is opened, unless the file has since been changed by something else.
+export function useUndoHistoryFile(
+  enabled: boolean,
+  exportHistory: () => SavedHistory,
+  importHistory: (saved: SavedHistory) => void,
+) {
+  const saveHistory = useCallback(async (filePath: string, content: string) => {
+    if (!enabled) return;
+    const data = { version: HISTORY_FORMAT_VERSION, fileHash: hashContent(content), ...exportHistory() };
+    const result = await window.fileAPI.writeUndoHistory(filePath, JSON.stringify(data));
+    if (!result.success) console.error('Error saving undo history:', result.error);
+  }, [enabled, exportHistory]);
+
+  const loadHistory = useCallback(async (filePath: string | null, content: string) => {
+    if (!enabled || !filePath) return;
+    const result = await window.fileAPI.readUndoHistory(filePath);
+    if (!result.success || !result.content) return;
+    try {
+      const data = JSON.parse(result.content);
+      if (data.version !== HISTORY_FORMAT_VERSION || data.fileHash !== hashContent(content)) return;
+      if (!Array.isArray(data.undo?.entries) || !Array.isArray(data.redo?.entries)) return;
+      importHistory({ undo: data.undo, redo: data.redo });
+    } catch (error) {
+      console.error('Error reading undo history:', error);
+    }
+  }, [enabled, importHistory]);
+
+  return { saveHistory, loadHistory };
+}
@@ -4,19 +4,26 @@ import fs from 'node:fs';
 import os from 'node:os';
 import { spawn } from 'node:child_process';
 import started from 'electron-squirrel-startup';
-import type { ViewPlugin, PluginCallbacks, PluginInfo } from './viewPlugin';
+import type { ViewPlugin, PluginCallbacks, PluginInfo, Breakpoints, TransitionRef } from './viewPlugin';
+import { findCliArgs, parseCliArgs, runCli } from './cli';
+import { orphanedRecoveryFiles, RECOVERY_HEARTBEAT_MS } from './utils/recovery';
+import { ShortcutBindings, ShortcutCommand, resolveBindings, toAccelerator } from './utils/shortcuts';
 
 // Settings types
 interface Settings {
   editorPreference: 'system' | 'builtin' | 'custom';
   customEditorCommand: string;
   tabWidth: number;
+  restoreSession: boolean;
+  shortcuts: ShortcutBindings;
 }
 
 const defaultSettings: Settings = {
   editorPreference: 'builtin',
   customEditorCommand: 'code -w {file}',
   tabWidth: 4,
+  restoreSession: false,
+  shortcuts: {},
 };
 
 const settingsPath = path.join(app.getPath('userData'), 'settings.json');
@@ -47,6 +54,29 @@ if (started) {
   app.quit();
 }
 
+// Headless CLI (`sm-builder validate file.smb`, ...): run the command and
+// exit before any window is created
+const cliArgs = findCliArgs(process.argv);
+// `merge ... --gui` (git mergetool): merge headless, and only open the editor
+// when there are conflicts to resolve
+const mergeInEditor = cliArgs?.[0] === 'merge' && cliArgs.includes('--gui');
+let pendingMerge: { files: string[] } | null = null;
+if (cliArgs) {
+  const exitCode = runCli(cliArgs, {
+    readFile: (filePath) => fs.readFileSync(path.resolve(filePath), 'utf-8'),
+    writeFile: (filePath, content) => fs.writeFileSync(path.resolve(filePath), content, 'utf-8'),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  });
+  const parsed = parseCliArgs(cliArgs);
+  const files = typeof parsed === 'string' ? [] : parsed.files;
+  if (mergeInEditor && exitCode !== 0 && files.length === 4) {
+    pendingMerge = { files: files.map(f => path.resolve(f)) };
+  } else {
+    app.exit(exitCode);
+  }
+}
+
 // On Linux, the XDG portal file chooser can silently fail on systems where
 // xdg-desktop-portal-gtk (or equivalent) is absent or misconfigured. Fall back
 // to the native GTK file chooser which works without a portal daemon.
@@ -82,7 +112,7 @@ app.on('open-file', (event, filePath) => {
 
 // CLI argument: file path passed on startup (packaged binary, dev mode with -- flags, etc.)
 // Also covers macOS when invoked directly (not via Finder double-click which uses open-file event)
-{
+if (!cliArgs) {
   const arg = process.argv.find(
     (a, i) => i > 0 && (a.endsWith('.smb') || a.endsWith('.yaml') || a.endsWith('.yml'))
   );
@@ -119,6 +149,12 @@ async function loadPluginRegistry(): Promise<Map<string, ViewPlugin>> {
   } catch (err) {
     console.warn('Failed to load smRunnerPlugin:', err);
   }
+  try {
+    const interpreter = await import('./plugins/interpreterPlugin');
+    pluginRegistry.set(interpreter.default.name, interpreter.default);
+  } catch (err) {
+    console.warn('Failed to load interpreterPlugin:', err);
+  }
   try {
     const mqttBridge = await import('./plugins/mqttBridgePlugin');
     pluginRegistry.set(mqttBridge.default.name, mqttBridge.default);
@@ -135,9 +171,14 @@ async function startPlugin(name: string, _config: Record<string, unknown>, mainW
   if (activePlugin) await activePlugin.stop();
 
   const callbacks: PluginCallbacks = {
-    onStateUpdate(activeStates: string[]) {
+    onStateUpdate(activeStates: string[], transitions?: TransitionRef[]) {
+      if (!mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('view-state-update', activeStates, transitions);
+      }
+    },
+    onPaused(reason: string) {
       if (!mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('view-state-update', activeStates);
+        mainWindow.webContents.send('view-paused', reason);
       }
     },
   };
@@ -146,6 +187,13 @@ async function startPlugin(name: string, _config: Record<string, unknown>, mainW
   activePlugin = plugin;
 }
 
+// Forward a debugger command to the active plugin, if it supports it.
+async function controlPlugin(command: 'pause' | 'step' | 'resume'): Promise<void> {
+  const method = activePlugin?.[command];
+  if (!activePlugin || !method) throw new Error(`The active plugin does not support ${command}`);
+  await method.call(activePlugin);
+}
+
 async function stopPlugin(): Promise<void> {
   if (activePlugin) {
     await activePlugin.stop();
@@ -153,7 +201,178 @@ async function stopPlugin(): Promise<void> {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Autosave and crash recovery
+// ---------------------------------------------------------------------------
+
+// Each window autosaves its unsaved machine to its own file in the recovery
+// directory, and the file is removed when the window closes. Files left there
+// by a process that is no longer running were lost in a crash and are offered
+// on the next launch; those of another open instance are left alone. Open
+// instances touch their files regularly to tell them apart after a reboot.
+const recoveryDir = path.join(app.getPath('userData'), 'recovery');
+const recoveryPath = (winId: number) => path.join(recoveryDir, `${process.pid}-${winId}.json`);
+const dirtyWindows = new Set<number>();
+// Recovery files from earlier runs, offered to the first window that asks
+let recoveryFiles: string[] | null = null;
+
+interface RecoveryEntry {
+  id: string;
+  filePath: string | null;
+  savedAt: number;
+  content: string;
+}
+
+function readRecovery(id: string): RecoveryEntry | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(recoveryDir, path.basename(id)), 'utf-8'));
+    return { id, filePath: data.filePath ?? null, savedAt: data.savedAt, content: data.content };
+  } catch (error) {
+    console.error('Error reading recovery file:', error);
+    return null;
+  }
+}
+
+// Heartbeat: mark this instance's recovery files as still in use
+function touchRecoveryFiles() {
+  const now = new Date();
+  for (const win of BrowserWindow.getAllWindows()) {
+    try {
+      if (fs.existsSync(recoveryPath(win.id))) fs.utimesSync(recoveryPath(win.id), now, now);
+    } catch (error) {
+      console.error('Error touching recovery file:', error);
+    }
+  }
+}
+
+function removeRecovery(filePath: string) {
+  try {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  } catch (error) {
+    console.error('Error removing recovery file:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Watching the open file for changes made outside the editor
+// ---------------------------------------------------------------------------
+
+// The directory is watched rather than the file, since editors and scripts
+// often replace a file instead of writing to it. A change is only reported
+// when the content differs from what was last read or written here, so the
+// editor's own saves do not count.
+interface FileWatch {
+  filePath: string;
+  known: string | null;
+  watcher?: fs.FSWatcher;
+  timer?: NodeJS.Timeout;
+}
+const fileWatches = new Map<number, FileWatch>();
+
+function unwatchFile(winId: number) {
+  const watch = fileWatches.get(winId);
+  if (!watch) return;
+  clearTimeout(watch.timer);
+  watch.watcher?.close();
+  fileWatches.delete(winId);
+}
+
+function noteFileWritten(filePath: string, content: string) {
+  const resolved = path.resolve(filePath);
+  for (const watch of fileWatches.values()) {
+    if (watch.filePath === resolved) watch.known = content;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Recently opened files and the session restored on the next launch
+// ---------------------------------------------------------------------------
+
+const MAX_RECENT_FILES = 10;
+const recentFilesPath = path.join(app.getPath('userData'), 'recent-files.json');
+const sessionPath = path.join(app.getPath('userData'), 'session.json');
+
+// What each window shows, as last reported by its renderer
+interface WindowSession {
+  filePath: string | null;
+  focusNodeId: string | null;
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+}
+const windowSessions = new Map<number, WindowSession>();
+let quitting = false;
+
+function loadRecentFiles(): string[] {
+  try {
+    if (fs.existsSync(recentFilesPath)) {
+      const data = JSON.parse(fs.readFileSync(recentFilesPath, 'utf-8'));
+      if (Array.isArray(data)) return data.filter((f): f is string => typeof f === 'string');
+    }
+  } catch (error) {
+    console.error('Error loading recent files:', error);
+  }
+  return [];
+}
+
+function saveRecentFiles(files: string[]): void {
+  try {
+    fs.writeFileSync(recentFilesPath, JSON.stringify(files, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving recent files:', error);
+  }
+}
+
+function addRecentFile(filePath: string) {
+  const resolved = path.resolve(filePath);
+  saveRecentFiles([resolved, ...loadRecentFiles().filter(f => f !== resolved)].slice(0, MAX_RECENT_FILES));
+  app.addRecentDocument(resolved);
+}
+
+// Only windows with a file are restored; unsaved work is left to recovery
+function saveSession() {
+  const windows = [...windowSessions.values()].filter(w => w.filePath);
+  try {
+    fs.writeFileSync(sessionPath, JSON.stringify({ windows }, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+}
+
+function loadSession(): (WindowSession & { filePath: string })[] {
+  try {
+    if (fs.existsSync(sessionPath)) {
+      const data = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+      if (Array.isArray(data.windows)) return data.windows.filter((w: WindowSession) => w.filePath && fs.existsSync(w.filePath));
+    }
+  } catch (error) {
+    console.error('Error loading session:', error);
+  }
+  return [];
+}
+
+// Open Recent reuses the focused window while it still shows an empty machine
+function openRecentFile(filePath: string) {
+  if (!fs.existsSync(filePath)) {
+    dialog.showMessageBox({ type: 'error', message: `${path.basename(filePath)} could not be found.`, detail: filePath });
+    saveRecentFiles(loadRecentFiles().filter(f => f !== filePath));
+    buildMenu();
+    return;
+  }
+  const focused = BrowserWindow.getFocusedWindow();
+  if (focused && !dirtyWindows.has(focused.id) && !windowSessions.get(focused.id)?.filePath) {
+    sendFileToRenderer(focused, filePath);
+    return;
+  }
+  const win = createWindow();
+  win.webContents.once('did-finish-load', () => {
+    sendFileToRenderer(win, filePath);
+  });
+}
+
 const createWindow = () => {
+  // The windows kept for the session are gone once a new one opens (macOS)
+  if (BrowserWindow.getAllWindows().length === 0) windowSessions.clear();
+
   // Create the browser window.
   const win = new BrowserWindow({
     width: 800,
@@ -177,7 +396,37 @@ const createWindow = () => {
     win.webContents.openDevTools();
   }
 
-  win.on('closed', () => buildMenu());
+  // Closing with unsaved changes asks first; Save closes once the renderer has saved
+  const winId = win.id;
+  win.on('close', (event) => {
+    if (!dirtyWindows.has(winId)) return;
+    const choice = dialog.showMessageBoxSync(win, {
+      type: 'warning',
+      buttons: ['Save', "Don't Save", 'Cancel'],
+      defaultId: 0,
+      cancelId: 2,
+      message: 'Do you want to save the changes you made?',
+      detail: "Your changes will be lost if you don't save them.",
+    });
+    if (choice === 1) {
+      dirtyWindows.delete(winId);
+      return;
+    }
+    event.preventDefault();
+    // Cancel also stops a quit in progress
+    quitting = false;
+    if (choice === 0) win.webContents.send('save-and-close');
+  });
+
+  // Windows closed while quitting, and the last window, stay in the session
+  win.on('closed', () => {
+    unwatchFile(winId);
+    dirtyWindows.delete(winId);
+    removeRecovery(recoveryPath(winId));
+    if (!quitting && BrowserWindow.getAllWindows().length > 0) windowSessions.delete(winId);
+    saveSession();
+    buildMenu();
+  });
   win.on('page-title-updated', () => buildMenu());
 
   buildMenu();
@@ -200,9 +449,17 @@ async function openFileInNewWindow() {
   });
 }
 
+// Menu accelerator from the user's key bindings. The renderer leaves these
+// commands to the menu, so the key press doesn't run them twice.
+function shortcutFor(command: ShortcutCommand, bindings: Record<ShortcutCommand, string>) {
+  return { accelerator: toAccelerator(bindings[command]) };
+}
+
 function buildMenu() {
   const allWindows = BrowserWindow.getAllWindows();
   const hasWindows = allWindows.length > 0;
+  const recentFiles = loadRecentFiles();
+  const bindings = resolveBindings(loadSettings().shortcuts);
 
   const template: Electron.MenuItemConstructorOptions[] = [
     ...(process.platform === 'darwin' ? [{
@@ -216,14 +473,14 @@ function buildMenu() {
       submenu: [
         {
           label: 'New',
-          accelerator: 'CmdOrCtrl+N',
+          ...shortcutFor('newWindow', bindings),
           click: () => {
             createWindow();
           },
         },
         {
           label: 'Open...',
-          accelerator: 'CmdOrCtrl+O',
+          ...shortcutFor('open', bindings),
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
             if (win) {
@@ -233,10 +490,29 @@ function buildMenu() {
             }
           },
         },
+        {
+          label: 'Open Recent',
+          submenu: [
+            ...recentFiles.map((filePath) => ({
+              label: filePath.replace(os.homedir(), '~'),
+              click: () => openRecentFile(filePath),
+            })),
+            ...(recentFiles.length > 0 ? [{ type: 'separator' as const }] : []),
+            {
+              label: 'Clear Recently Opened',
+              enabled: recentFiles.length > 0,
+              click: () => {
+                saveRecentFiles([]);
+                app.clearRecentDocuments();
+                buildMenu();
+              },
+            },
+          ],
+        },
         { type: 'separator' },
         {
           label: 'Save as...',
-          accelerator: 'CmdOrCtrl+Shift+S',
+          ...shortcutFor('saveAs', bindings),
           enabled: hasWindows,
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
@@ -245,10 +521,41 @@ function buildMenu() {
             }
           },
         },
+        {
+          label: 'Save a Copy with Submachines Inlined...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-inlined');
+            }
+          },
+        },
+        { type: 'separator' },
+        {
+          label: 'Compare with File...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('compare-with-file');
+            }
+          },
+        },
+        {
+          label: 'Merge with File...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('merge-with-file');
+            }
+          },
+        },
         { type: 'separator' },
         {
           label: 'Export to Phoenix',
-          accelerator: 'CmdOrCtrl+E',
+          ...shortcutFor('exportPhoenix', bindings),
           enabled: hasWindows,
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
@@ -257,6 +564,56 @@ function buildMenu() {
             }
           },
         },
+        {
+          label: 'Export as SVG...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-svg');
+            }
+          },
+        },
+        {
+          label: 'Export documentation (HTML)...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-docs', 'html');
+            }
+          },
+        },
+        {
+          label: 'Export documentation (Markdown)...',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-docs', 'markdown');
+            }
+          },
+        },
+        {
+          label: 'Export to PlantUML',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-state-diagram', 'plantuml');
+            }
+          },
+        },
+        {
+          label: 'Export to Mermaid',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-state-diagram', 'mermaid');
+            }
+          },
+        },
         {
           label: 'Import from Phoenix',
           click: () => {
@@ -266,6 +623,25 @@ function buildMenu() {
             }
           },
         },
+        {
+          label: 'Export to SCXML',
+          enabled: hasWindows,
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('export-scxml');
+            }
+          },
+        },
+        {
+          label: 'Import from SCXML',
+          click: () => {
+            const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+            if (win) {
+              win.webContents.send('import-scxml');
+            }
+          },
+        },
         { type: 'separator' },
         {
           label: 'Export to source code',
@@ -284,6 +660,7 @@ function buildMenu() {
       submenu: [
         {
           label: 'Undo',
+          ...shortcutFor('undo', bindings),
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
             win?.webContents.send('menu-undo');
@@ -291,6 +668,7 @@ function buildMenu() {
         },
         {
           label: 'Redo',
+          ...shortcutFor('redo', bindings),
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
             win?.webContents.send('menu-redo');
@@ -304,6 +682,7 @@ function buildMenu() {
         { type: 'separator' },
         {
           label: 'Duplicate',
+          ...shortcutFor('duplicate', bindings),
           click: () => {
             const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
             win?.webContents.send('menu-duplicate');
@@ -370,7 +749,40 @@ function buildMenu() {
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.on('ready', () => {
-  createWindow();
+  try {
+    recoveryFiles = fs.existsSync(recoveryDir)
+      ? orphanedRecoveryFiles(
+        fs.readdirSync(recoveryDir).map(name => ({ name, modifiedAt: fs.statSync(path.join(recoveryDir, name)).mtimeMs })),
+        process.pid,
+        Date.now(),
+      )
+      : [];
+  } catch (error) {
+    console.error('Error reading recovery directory:', error);
+    recoveryFiles = [];
+  }
+  setInterval(touchRecoveryFiles, RECOVERY_HEARTBEAT_MS);
+  // A file or merge given on launch opens on its own
+  const session = loadSettings().restoreSession && !pendingFileToOpen && !pendingMerge ? loadSession() : [];
+  if (session.length === 0) {
+    createWindow();
+    return;
+  }
+  for (const entry of session) {
+    const win = createWindow();
+    win.webContents.once('did-finish-load', () => {
+      try {
+        const content = fs.readFileSync(entry.filePath, 'utf-8');
+        win.webContents.send('restore-session-window', { ...entry, content });
+      } catch (error) {
+        console.error('Error reading file for session restore:', error);
+      }
+    });
+  }
+});
+
+app.on('before-quit', () => {
+  quitting = true;
 });
 
 // Quit when all windows are closed, except on macOS. There, it's common
@@ -395,11 +807,23 @@ app.on('activate', () => {
 // code. You can also put them in separate files and import them here.
 
 // IPC handlers for file operations
+const EXPORT_FILTERS: Record<string, Electron.FileFilter> = {
+  '.scxml': { name: 'SCXML Files', extensions: ['scxml'] },
+  '.puml': { name: 'PlantUML Files', extensions: ['puml'] },
+  '.mmd': { name: 'Mermaid Files', extensions: ['mmd'] },
+  '.svg': { name: 'SVG Images', extensions: ['svg'] },
+  '.html': { name: 'HTML Files', extensions: ['html'] },
+  '.md': { name: 'Markdown Files', extensions: ['md'] },
+};
+
 ipcMain.handle('save-file', async (event, content: string, defaultName: string) => {
   const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  // Exports offer their own file type first
+  const exportFilter = EXPORT_FILTERS[path.extname(defaultName).toLowerCase()];
   const { canceled, filePath } = await dialog.showSaveDialog(win, {
     defaultPath: defaultName,
     filters: [
+      ...(exportFilter ? [exportFilter] : []),
       { name: 'State Machine Builder Files', extensions: ['smb'] },
       { name: 'YAML Files', extensions: ['yaml', 'yml'] },
     ],
@@ -411,6 +835,35 @@ ipcMain.handle('save-file', async (event, content: string, defaultName: string)
 
   try {
     fs.writeFileSync(filePath, content, 'utf-8');
+    noteFileWritten(filePath, content);
+    return { success: true, filePath };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Documentation: the first file is the document, the others (diagrams) go
+// next to it at their relative paths
+ipcMain.handle('save-docs', async (event, files: { path: string; content: string }[], defaultName: string) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const exportFilter = EXPORT_FILTERS[path.extname(defaultName).toLowerCase()];
+  const { canceled, filePath } = await dialog.showSaveDialog(win, {
+    defaultPath: defaultName,
+    filters: exportFilter ? [exportFilter] : [],
+  });
+
+  if (canceled || !filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const [main, ...assets] = files;
+    fs.writeFileSync(filePath, main.content, 'utf-8');
+    for (const asset of assets) {
+      const assetPath = path.join(path.dirname(filePath), asset.path);
+      fs.mkdirSync(path.dirname(assetPath), { recursive: true });
+      fs.writeFileSync(assetPath, asset.content, 'utf-8');
+    }
     return { success: true, filePath };
   } catch (error) {
     return { success: false, error: (error as Error).message };
@@ -420,6 +873,7 @@ ipcMain.handle('save-file', async (event, content: string, defaultName: string)
 ipcMain.handle('save-file-direct', async (_event, content: string, filePath: string) => {
   try {
     fs.writeFileSync(filePath, content, 'utf-8');
+    noteFileWritten(filePath, content);
     return { success: true, filePath };
   } catch (error) {
     return { success: false, error: (error as Error).message };
@@ -467,6 +921,318 @@ ipcMain.handle('import-phoenix', async () => {
   }
 });
 
+ipcMain.handle('import-scxml', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    filters: [
+      { name: 'SCXML Files', extensions: ['scxml', 'xml'] },
+    ],
+    properties: ['openFile'],
+  });
+
+  if (canceled || filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const content = fs.readFileSync(filePaths[0], 'utf-8');
+    return { success: true, content, filePath: filePaths[0] };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Submachine files are read for their preview and for inlining; paths arrive resolved
+ipcMain.handle('read-submachine', async (_event, filePath: string) => {
+  try {
+    return { success: true, content: fs.readFileSync(filePath, 'utf-8'), filePath };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('choose-submachine', async (event, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+    defaultPath: smbPath ? path.dirname(smbPath) : undefined,
+    filters: [{ name: 'State Machine Builder Files', extensions: ['smb'] }],
+    properties: ['openFile'],
+  });
+
+  if (canceled || filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  return { success: true, filePath: filePaths[0] };
+});
+
+ipcMain.handle('open-submachine', async (_event, filePath: string) => {
+  if (!fs.existsSync(filePath)) {
+    return { success: false, error: `File not found: ${filePath}` };
+  }
+  const win = createWindow();
+  win.webContents.once('did-finish-load', () => {
+    sendFileToRenderer(win, filePath);
+  });
+  return { success: true };
+});
+
+// The other version for "Compare with File...", offered from the current file's folder
+ipcMain.handle('open-compare-file', async (event, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+    defaultPath: smbPath ? path.dirname(smbPath) : undefined,
+    filters: [
+      { name: 'State Machine Builder Files', extensions: ['smb'] },
+      { name: 'YAML Files', extensions: ['yaml', 'yml'] },
+    ],
+    properties: ['openFile'],
+  });
+
+  if (canceled || filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const content = fs.readFileSync(filePaths[0], 'utf-8');
+    return { success: true, content, filePath: filePaths[0] };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('watch-file', async (event, filePath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) return { success: false, error: 'No window' };
+  unwatchFile(win.id);
+  if (!filePath) return { success: true };
+
+  const resolved = path.resolve(filePath);
+  const read = () => {
+    try {
+      return fs.readFileSync(resolved, 'utf-8');
+    } catch {
+      return null;
+    }
+  };
+  const watch: FileWatch = { filePath: resolved, known: read() };
+  try {
+    watch.watcher = fs.watch(path.dirname(resolved), (_event, name) => {
+      if (name && name.toString() !== path.basename(resolved)) return;
+      // Writers often take several steps; report once they are done
+      clearTimeout(watch.timer);
+      watch.timer = setTimeout(() => {
+        const content = read();
+        // A file that is gone (or briefly missing while replaced) is not reported
+        if (content === null || content === watch.known) return;
+        watch.known = content;
+        if (!win.isDestroyed()) win.webContents.send('file-changed-externally', { filePath: resolved, content });
+      }, 300);
+    });
+    fileWatches.set(win.id, watch);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.on('set-window-session', (event, session: WindowSession) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) return;
+  const previous = windowSessions.get(win.id);
+  windowSessions.set(win.id, session);
+  if (session.filePath && session.filePath !== previous?.filePath) {
+    addRecentFile(session.filePath);
+    buildMenu();
+  }
+});
+
+ipcMain.on('set-document-dirty', (event, dirty: boolean) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) return;
+  if (dirty) dirtyWindows.add(win.id);
+  else dirtyWindows.delete(win.id);
+  win.setDocumentEdited(dirty);
+});
+
+// After Save from the close prompt
+ipcMain.on('close-after-save', (event) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) return;
+  dirtyWindows.delete(win.id);
+  win.close();
+});
+
+ipcMain.handle('write-recovery', async (event, content: string, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) return { success: false, error: 'No window' };
+  try {
+    fs.mkdirSync(recoveryDir, { recursive: true });
+    const data = { filePath: smbPath, savedAt: Date.now(), content };
+    fs.writeFileSync(recoveryPath(win.id), JSON.stringify(data), 'utf-8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('clear-recovery', async (event) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (win) removeRecovery(recoveryPath(win.id));
+  return { success: true };
+});
+
+ipcMain.handle('list-recovery', async () => {
+  const files = recoveryFiles ?? [];
+  recoveryFiles = [];
+  return files.map(readRecovery).filter((e): e is RecoveryEntry => e !== null)
+    .sort((a, b) => b.savedAt - a.savedAt);
+});
+
+ipcMain.handle('discard-recovery', async (_event, id: string) => {
+  removeRecovery(path.join(recoveryDir, path.basename(id)));
+  return { success: true };
+});
+
+ipcMain.handle('restore-recovery-in-new-window', async (_event, id: string) => {
+  const entry = readRecovery(id);
+  if (!entry) return { success: false, error: 'The recovered document could not be read' };
+  const win = createWindow();
+  win.webContents.once('did-finish-load', () => {
+    win.webContents.send('open-recovered', { content: entry.content, filePath: entry.filePath });
+  });
+  removeRecovery(path.join(recoveryDir, path.basename(id)));
+  return { success: true };
+});
+
+// Merge with File...: their version first, then the common ancestor
+ipcMain.handle('open-merge-files', async (event, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const choose = async (title: string, defaultPath: string | undefined) => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title,
+      defaultPath,
+      filters: [
+        { name: 'State Machine Builder Files', extensions: ['smb'] },
+        { name: 'YAML Files', extensions: ['yaml', 'yml'] },
+      ],
+      properties: ['openFile'],
+    });
+    return canceled || filePaths.length === 0 ? null : filePaths[0];
+  };
+
+  const theirsPath = await choose('Open Their Version', smbPath ? path.dirname(smbPath) : undefined);
+  if (!theirsPath) return { success: false, canceled: true };
+  const basePath = await choose('Open the Common Ancestor (Base)', path.dirname(theirsPath));
+  if (!basePath) return { success: false, canceled: true };
+
+  try {
+    return {
+      success: true,
+      base: { content: fs.readFileSync(basePath, 'utf-8'), filePath: basePath },
+      theirs: { content: fs.readFileSync(theirsPath, 'utf-8'), filePath: theirsPath },
+    };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Renderer calls this on startup to retrieve a merge started as a git mergetool
+ipcMain.handle('get-startup-merge', async () => {
+  if (!pendingMerge) return null;
+  const [base, ours, theirs, output] = pendingMerge.files;
+  pendingMerge = null;
+  try {
+    const read = (filePath: string) => ({ content: fs.readFileSync(filePath, 'utf-8'), filePath });
+    return { base: read(base), ours: read(ours), theirs: read(theirs), output };
+  } catch (error) {
+    return null;
+  }
+});
+
+// Traces and reports are stored next to the .smb file, e.g. <name>.trace.json
+function sidecarPath(smbPath: string | null, suffix: string): string {
+  if (!smbPath) return `untitled${suffix}`;
+  const base = path.basename(smbPath, path.extname(smbPath));
+  return path.join(path.dirname(smbPath), `${base}${suffix}`);
+}
+
+// The undo history kept next to the machine, written without asking
+ipcMain.handle('write-undo-history', async (_event, smbPath: string, content: string) => {
+  try {
+    fs.writeFileSync(sidecarPath(smbPath, '.history.json'), content, 'utf-8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('read-undo-history', async (_event, smbPath: string) => {
+  const historyPath = sidecarPath(smbPath, '.history.json');
+  try {
+    if (!fs.existsSync(historyPath)) return { success: true };
+    return { success: true, content: fs.readFileSync(historyPath, 'utf-8') };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('save-trace', async (event, content: string, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePath } = await dialog.showSaveDialog(win, {
+    defaultPath: sidecarPath(smbPath, '.trace.json'),
+    filters: [{ name: 'Trace Files', extensions: ['json'] }],
+  });
+
+  if (canceled || !filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return { success: true, filePath };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('save-coverage-report', async (event, content: string, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePath } = await dialog.showSaveDialog(win, {
+    defaultPath: sidecarPath(smbPath, '.coverage.md'),
+    filters: [{ name: 'Markdown Files', extensions: ['md'] }],
+  });
+
+  if (canceled || !filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return { success: true, filePath };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('open-trace', async (event, smbPath: string | null) => {
+  const win = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+    defaultPath: smbPath ? path.dirname(smbPath) : undefined,
+    filters: [{ name: 'Trace Files', extensions: ['json'] }],
+    properties: ['openFile'],
+  });
+
+  if (canceled || filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const content = fs.readFileSync(filePaths[0], 'utf-8');
+    return { success: true, content, filePath: filePaths[0] };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 // Settings IPC handlers
 ipcMain.handle('get-settings', async () => {
   return loadSettings();
@@ -474,6 +1240,8 @@ ipcMain.handle('get-settings', async () => {
 
 ipcMain.handle('save-settings', async (_event, settings: Settings) => {
   saveSettings(settings);
+  // Menu accelerators follow the key bindings
+  buildMenu();
   return { success: true };
 });
 
@@ -562,6 +1330,7 @@ ipcMain.handle('view-list-plugins', async (): Promise<PluginInfo[]> => {
   return Array.from(registry.values()).map((p) => ({
     name: p.name,
     configFields: p.configFields || [],
+    supportsDebug: !!(p.pause && p.step && p.resume),
   }));
 });
 
@@ -585,6 +1354,42 @@ ipcMain.handle('view-stop-plugin', async () => {
   }
 });
 
+ipcMain.handle('view-pause-plugin', async () => {
+  try {
+    await controlPlugin('pause');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('view-step-plugin', async () => {
+  try {
+    await controlPlugin('step');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('view-resume-plugin', async () => {
+  try {
+    await controlPlugin('resume');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('view-set-breakpoints', async (_event, breakpoints: Breakpoints) => {
+  try {
+    await activePlugin?.setBreakpoints?.(breakpoints);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 // External editor IPC handler
 ipcMain.handle('edit-in-external-editor', async (_event, content: string, language: string) => {
   const settings = loadSettings();
@@ -0,0 +1,73 @@
+/**
+ * Interpreter plugin for View Mode.
+ *
+ * Runs the model in-process with the built-in interpreter (smInterpreter.ts),
+ * so no external sm-compiler or esbuild is needed. The renderer passes the
+ * current model as `modelYaml`, which means unsaved edits are simulated too;
+ * when it is absent the saved file at `filePath` is used. Submachine
+ * references are inlined, relative to `filePath`, before running.
+ */
+
+import fs from 'node:fs';
+import type { ViewPlugin, PluginCallbacks, PluginConfigField, Breakpoints } from '../viewPlugin';
+import { convertFromYaml } from '../yamlConverter';
+import { createInterpreter } from './smInterpreter';
+import { inlineSubmachines } from '../utils/submachine';
+import { runTickLoop, TickLoop } from './smRunnerPlugin';
+
+let loop: TickLoop | null = null;
+
+const interpreterConfigFields: PluginConfigField[] = [
+  { key: 'tickInterval', label: 'Tick interval (ms)', type: 'number', default: 100 },
+];
+
+const interpreterPlugin: ViewPlugin = {
+  name: 'Interpreter',
+  configFields: interpreterConfigFields,
+
+  async start(callbacks: PluginCallbacks, config: Record<string, unknown>) {
+    const tickInterval = (config.tickInterval as number) || 100;
+    let content = config.modelYaml as string | undefined;
+    if (!content) {
+      const filePath = config.filePath as string;
+      if (!filePath) {
+        throw new Error('Interpreter requires a model or a saved .smb file path');
+      }
+      content = fs.readFileSync(filePath, 'utf-8');
+    }
+
+    const model = convertFromYaml(content);
+    const inlined = inlineSubmachines(model.nodes, model.edges, model.machineProperties, (config.filePath as string) || null, filePath => {
+      try {
+        return fs.readFileSync(filePath, 'utf-8');
+      } catch {
+        return null;
+      }
+    });
+    const sm = createInterpreter({ ...model, ...inlined });
+    loop = runTickLoop(sm, callbacks, tickInterval, sm.lastTransitions);
+  },
+
+  async stop() {
+    loop?.stop();
+    loop = null;
+  },
+
+  async pause() {
+    loop?.pause();
+  },
+
+  async step() {
+    loop?.step();
+  },
+
+  async resume() {
+    loop?.resume();
+  },
+
+  async setBreakpoints(breakpoints: Breakpoints) {
+    loop?.setBreakpoints(breakpoints);
+  },
+};
+
+export default interpreterPlugin;
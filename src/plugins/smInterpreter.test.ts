@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest';
+import { createInterpreter } from './smInterpreter';
+import { parseStateStr } from './smRunnerPlugin';
+import { convertFromYaml } from '../yamlConverter';
+
+function load(content: string) {
+  return createInterpreter(convertFromYaml(content));
+}
+
+function stepTo(sm: ReturnType<typeof load>, now: number) {
+  sm.ctx.now = now;
+  sm.tick();
+  return parseStateStr(sm.getStateStr());
+}
+
+describe('createInterpreter', () => {
+  it('runs the blink machine using time-in-state guards', () => {
+    const sm = load(`language: typescript
+initial: S1
+states:
+  S1:
+    transitions:
+      - to: S2
+        guard: time > 0.3
+  S2:
+    transitions:
+      - to: S1
+        guard: time > 0.2
+`);
+    expect(sm.isRunning()).toBe(true);
+    expect(parseStateStr(sm.getStateStr())).toEqual(['S1']);
+    expect(stepTo(sm, 0.2)).toEqual(['S1']);
+    expect(stepTo(sm, 0.4)).toEqual(['S2']);
+    expect(stepTo(sm, 0.7)).toEqual(['S1']);
+  });
+
+  it('fires timeout transitions measured from state entry', () => {
+    const sm = load(`initial: S1
+states:
+  S1:
+    transitions:
+      - to: S2
+        after: 0.3s
+  S2:
+    transitions:
+      - to: S1
+        after: 200ms
+        guard: ctx.back
+`);
+    expect(stepTo(sm, 0.2)).toEqual(['S1']);
+    expect(stepTo(sm, 0.3)).toEqual(['S2']);
+    expect(stepTo(sm, 0.6)).toEqual(['S2']);
+    sm.ctx.back = true;
+    expect(stepTo(sm, 0.7)).toEqual(['S1']);
+  });
+
+  it('waits for the event of an evented transition', () => {
+    const sm = load(`initial: Idle
+states:
+  Idle:
+    transitions:
+      - to: Running
+        event: start
+  Running:
+    transitions:
+      - to: Idle
+        event: stop
+`);
+    expect(stepTo(sm, 0.1)).toEqual(['Idle']);
+    expect(stepTo(sm, 0.2)).toEqual(['Idle']);
+    sm.ctx.raise('stop');
+    expect(stepTo(sm, 0.3)).toEqual(['Idle']);
+    // The unhandled event was dropped, not kept for later
+    sm.ctx.raise('start');
+    expect(stepTo(sm, 0.4)).toEqual(['Running']);
+    expect(stepTo(sm, 0.5)).toEqual(['Running']);
+  });
+
+  it('handles one queued event per tick, including events raised by actions', () => {
+    const sm = load(`initial: A
+states:
+  A:
+    transitions:
+      - to: B
+        event: go
+        action: ctx.raise('go')
+  B:
+    transitions:
+      - to: C
+        event: go
+  C: {}
+`);
+    sm.ctx.raise('go');
+    expect(stepTo(sm, 0.1)).toEqual(['B']);
+    expect(stepTo(sm, 0.2)).toEqual(['C']);
+  });
+
+  it('orders entry/exit/action hierarchically and runs context_init first', () => {
+    const sm = load(`initial: A
+context_init: ctx.log = []
+hooks:
+  transition: ctx.log.push('hook')
+states:
+  A:
+    initial: A1
+    entry: ctx.log.push('enter A')
+    exit: ctx.log.push('exit A')
+    states:
+      A1:
+        entry: ctx.log.push('enter A1')
+        exit: ctx.log.push('exit A1')
+        transitions:
+          - to: ../B
+            guard: ctx.go
+            action: ctx.log.push('action ' + t_src + ' -> ' + t_dst)
+  B:
+    initial: B1
+    entry: ctx.log.push('enter B')
+    states:
+      B1:
+        entry: ctx.log.push('enter B1')
+`);
+    expect(sm.ctx.log).toEqual(['enter A', 'enter A1']);
+    (sm.ctx.log as string[]).length = 0;
+    sm.ctx.go = true;
+    expect(stepTo(sm, 0.1)).toEqual(['B/B1']);
+    expect(sm.ctx.log).toEqual([
+      'hook', 'action A/A1 -> B', 'exit A1', 'exit A', 'enter B', 'enter B1',
+    ]);
+  });
+
+  it('keeps the parent active on drill-down and restores history', () => {
+    const sm = load(`initial: P
+states:
+  P:
+    initial: X
+    history: true
+    transitions:
+      - to: ./Y
+        guard: ctx.drill
+      - to: Q
+        guard: ctx.leave
+    states:
+      X: {}
+      Y: {}
+  Q:
+    transitions:
+      - to: P
+        guard: ctx.back
+`);
+    sm.ctx.drill = true;
+    expect(stepTo(sm, 0.1)).toEqual(['P/Y']);
+    sm.ctx.drill = false;
+    sm.ctx.leave = true;
+    expect(stepTo(sm, 0.2)).toEqual(['Q']);
+    sm.ctx.leave = false;
+    sm.ctx.back = true;
+    expect(stepTo(sm, 0.3)).toEqual(['P/Y']);
+  });
+
+  it('runs orthogonal regions independently and exposes in_state helpers', () => {
+    const sm = load(`initial: O
+states:
+  O:
+    orthogonal: true
+    transitions:
+      - to: Done
+        guard: ctx.in_state_O_A_a2() && ctx.in_state_O_B_b2()
+    states:
+      A:
+        initial: a1
+        states:
+          a1:
+            transitions:
+              - to: a2
+                guard: ctx.stepA
+          a2: {}
+      B:
+        initial: b1
+        states:
+          b1:
+            transitions:
+              - to: b2
+                guard: ctx.stepB
+          b2: {}
+  Done: {}
+`);
+    expect(parseStateStr(sm.getStateStr())).toEqual(['O/A/a1', 'O/B/b1']);
+    sm.ctx.stepA = true;
+    expect(stepTo(sm, 0.1)).toEqual(['O/A/a2', 'O/B/b1']);
+    sm.ctx.stepB = true;
+    expect(stepTo(sm, 0.2)).toEqual(['O/A/a2', 'O/B/b2']);
+    expect(stepTo(sm, 0.3)).toEqual(['Done']);
+  });
+
+  it('follows decision branches in order and does not fire without an enabled branch', () => {
+    const sm = load(`SM-builder-version: 0.6.0
+initial: Idle
+decisions:
+  D1:
+    - to: High
+      guard: ctx.value > 10
+    - to: Low
+      guard: ctx.value > 0
+states:
+  Idle:
+    transitions:
+      - to: '@D1'
+  High: {}
+  Low: {}
+`);
+    sm.ctx.value = 0;
+    expect(stepTo(sm, 0.1)).toEqual(['Idle']);
+    expect(sm.lastTransitions()).toEqual([]);
+    sm.ctx.value = 5;
+    expect(stepTo(sm, 0.2)).toEqual(['Low']);
+    expect(sm.lastTransitions()).toEqual([
+      { source: 'Idle', target: '@D1' },
+      { source: '@D1', target: 'Low' },
+    ]);
+  });
+
+  it('fires an AND only when every input is enabled', () => {
+    const sm = load(`SM-builder-version: 0.6.0
+initial: O
+ands:
+  A1:
+    - to: Joined
+states:
+  O:
+    orthogonal: true
+    states:
+      A:
+        initial: x
+        states:
+          x:
+            transitions:
+              - to: /@A1
+                guard: ctx.a
+      B:
+        initial: y
+        states:
+          y:
+            transitions:
+              - to: /@A1
+                guard: ctx.b
+  Joined: {}
+`);
+    sm.ctx.a = true;
+    expect(stepTo(sm, 0.1)).toEqual(['O/A/x', 'O/B/y']);
+    sm.ctx.b = true;
+    expect(stepTo(sm, 0.2)).toEqual(['Joined']);
+  });
+
+  it('reports snippet syntax errors with their location', () => {
+    expect(() => load(`initial: S
+states:
+  S:
+    entry: 'ctx.x = ('
+`)).toThrow(/entry of S/);
+  });
+
+  it('refuses timeouts it cannot read', () => {
+    expect(() => load(`initial: A
+states:
+  A:
+    transitions:
+      - to: B
+        after: abc
+  B: {}
+`)).toThrow("Invalid timeout 'abc' on A → B");
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * In-process interpreter for the .smb model.
+ *
+ * Executes the editor's node/edge graph directly, so View Mode can run a
+ * machine without the external sm-compiler + esbuild toolchain. The returned
+ * instance mimics the generated `StateMachine` (tick / isRunning /
+ * getStateStr / ctx) and can be driven by the same loop as smRunnerPlugin.
+ *
+ * Code snippets (guards, actions, entry/exit/do, hooks, context_init) are
+ * evaluated as JavaScript with `ctx`, `time`, `t_src` and `t_dst` in scope,
+ * mirroring the variables documented in the sm-builder manual. TypeScript-only
+ * syntax such as type annotations is not supported. Timeout (`after`)
+ * transitions fire once their source has been active for the delay.
+ *
+ * Events are queued with `ctx.raise(name)`, from snippets or from outside.
+ * Each tick takes the oldest queued event; a transition with an `event` is
+ * only enabled during the tick that handles that event, and the event is
+ * dropped if nothing takes it.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import type { MachineProperties } from '../yamlConverter';
+import type { TransitionRef } from '../viewPlugin';
+import type { StateMachineInstance } from './smRunnerPlugin';
+import { parseDelay } from '../utils/timeout';
+
+/** The model as returned by `convertFromYaml` (or held by the editor). */
+export interface InterpreterModel {
+  nodes: Node[];
+  edges: Edge[];
+  machineProperties: MachineProperties;
+  rootHistory?: boolean;
+}
+
+export interface InterpreterInstance extends StateMachineInstance {
+  ctx: StateMachineInstance['ctx'] & {
+    /** Queue an event; it is handled by a later tick. */
+    raise: (event: string) => void;
+  };
+  /** Every transition segment taken during the last tick, in order. */
+  lastTransitions(): TransitionRef[];
+}
+
+type Snippet = (ctx: StateMachineInstance['ctx'], time: number, tSrc: string, tDst: string) => unknown;
+
+interface StateDef {
+  id: string;
+  name: string;
+  path: string;            // absolute slash-separated path ('' for the root)
+  parent: StateDef | null;
+  children: StateDef[];    // child states in model order
+  initial: StateDef | null;
+  history: boolean;
+  orthogonal: boolean;
+  entry: Snippet | null;
+  exit: Snippet | null;
+  do: Snippet | null;
+  transitions: TransitionDef[]; // outgoing, in priority order
+}
+
+interface PseudoDef {
+  id: string;
+  path: string;            // e.g. "Parent/@D1", used in messages
+  isAnd: boolean;
+  branches: TransitionDef[];
+  inputs: TransitionDef[]; // incoming edges (only tracked for ANDs)
+}
+
+interface TransitionDef {
+  id: string;              // edge id
+  sourceId: string;
+  sourcePath: string;
+  targetId: string;        // proxies already resolved to their real target
+  targetPath: string;
+  after: number | null;    // timeout in seconds since the source was entered
+  event: string | null;    // only enabled while this event is being handled
+  guard: Snippet | null;
+  action: Snippet | null;
+}
+
+/** A fully resolved compound transition (through decisions/ands). */
+interface Firing {
+  sources: StateDef[];     // primary source first, then extra AND inputs
+  target: StateDef;
+  steps: TransitionDef[];  // every segment taken, in order
+}
+
+const ROOT_ID = '\u0000root';
+
+function compileSnippet(code: string | undefined, where: string, isExpression: boolean): Snippet | null {
+  const src = (code || '').trim();
+  if (!src) return null;
+  let fn: (...args: unknown[]) => unknown;
+  try {
+    fn = new Function('ctx', 'time', 't_src', 't_dst', isExpression ? `return (${src});` : src) as typeof fn;
+  } catch (err) {
+    throw new Error(`Syntax error in ${where}: ${(err as Error).message}`);
+  }
+  return (ctx, time, tSrc, tDst) => {
+    try {
+      return fn(ctx, time, tSrc, tDst);
+    } catch (err) {
+      throw new Error(`Error in ${where}: ${(err as Error).message}`);
+    }
+  };
+}
+
+/**
+ * Build a runnable machine from the model. Entry into the initial
+ * configuration happens immediately, like the generated constructor.
+ * Throws if any code snippet fails to parse.
+ */
+export function createInterpreter(model: InterpreterModel): InterpreterInstance {
+  const { nodes, edges, machineProperties: mp } = model;
+
+  const root: StateDef = {
+    id: ROOT_ID, name: '', path: '', parent: null, children: [],
+    initial: null, history: !!model.rootHistory, orthogonal: false,
+    entry: compileSnippet(mp.entry, 'machine entry', false),
+    exit: compileSnippet(mp.exit, 'machine exit', false),
+    do: compileSnippet(mp.do, 'machine do', false),
+    transitions: [],
+  };
+  const states = new Map<string, StateDef>([[ROOT_ID, root]]);
+  const pseudos = new Map<string, PseudoDef>();
+  const proxyTargets = new Map<string, string>();
+
+  // 1. Create state definitions, then link them (nodes are not guaranteed to
+  //    arrive parents-first).
+  for (const n of nodes) {
+    if (n.type === 'stateNode') {
+      states.set(n.id, {
+        id: n.id, name: n.data.label as string, path: '', parent: null, children: [],
+        initial: null, history: !!n.data.history, orthogonal: !!n.data.orthogonal,
+        entry: null, exit: null, do: null, transitions: [],
+      });
+    } else if (n.type === 'proxyNode') {
+      proxyTargets.set(n.id, n.data.targetId as string);
+    }
+  }
+  for (const n of nodes) {
+    const s = states.get(n.id);
+    if (!s || n.type !== 'stateNode') continue;
+    const parent = (n.parentId && states.get(n.parentId)) || root;
+    s.parent = parent;
+    parent.children.push(s);
+  }
+  const assignPaths = (s: StateDef) => {
+    for (const c of s.children) {
+      c.path = s === root ? c.name : `${s.path}/${c.name}`;
+      assignPaths(c);
+    }
+  };
+  assignPaths(root);
+
+  for (const n of nodes) {
+    const s = states.get(n.id);
+    if (s && n.type === 'stateNode') {
+      s.entry = compileSnippet(n.data.entry as string, `entry of ${s.path}`, false);
+      s.exit = compileSnippet(n.data.exit as string, `exit of ${s.path}`, false);
+      s.do = compileSnippet(n.data.do as string, `do of ${s.path}`, false);
+      s.initial = states.get(n.data.initial as string) ?? null;
+    } else if (n.type === 'decisionNode') {
+      const parent = (n.parentId && states.get(n.parentId)) || root;
+      const label = n.data.label as string;
+      pseudos.set(n.id, {
+        id: n.id,
+        path: parent === root ? `@${label}` : `${parent.path}/@${label}`,
+        isAnd: !!n.data.isAnd,
+        branches: [],
+        inputs: [],
+      });
+    }
+  }
+  root.initial = states.get(mp.initial ?? '') ?? null;
+
+  // 2. Transitions. Edge order is priority order, as in the file.
+  const vertexPath = (id: string) => states.get(id)?.path ?? pseudos.get(id)?.path ?? id;
+  for (const e of edges) {
+    const targetId = proxyTargets.get(e.target) ?? e.target;
+    if (targetId === ROOT_ID || (!states.has(targetId) && !pseudos.has(targetId))) continue;
+    const where = `${vertexPath(e.source)} → ${vertexPath(targetId)}`;
+    const after = parseDelay(e.data?.after);
+    // An unreadable delay must not turn into no delay at all
+    if (after === null && e.data?.after?.trim()) {
+      throw new Error(`Invalid timeout '${e.data.after.trim()}' on ${where}`);
+    }
+    const t: TransitionDef = {
+      id: e.id,
+      sourceId: e.source,
+      sourcePath: vertexPath(e.source),
+      targetId,
+      targetPath: vertexPath(targetId),
+      after,
+      event: e.data?.event?.trim() || null,
+      guard: compileSnippet(e.data?.guard, `guard of ${where}`, true),
+      action: compileSnippet(e.data?.action, `action of ${where}`, false),
+    };
+    const sourceState = states.get(e.source);
+    const sourcePseudo = pseudos.get(e.source);
+    if (sourceState && sourceState !== root) sourceState.transitions.push(t);
+    else if (sourcePseudo) sourcePseudo.branches.push(t);
+    else continue;
+    const targetPseudo = pseudos.get(targetId);
+    if (targetPseudo?.isAnd) targetPseudo.inputs.push(t);
+  }
+
+  const hookEntry = compileSnippet(mp.hooks?.entry, 'entry hook', false);
+  const hookExit = compileSnippet(mp.hooks?.exit, 'exit hook', false);
+  const hookDo = compileSnippet(mp.hooks?.do, 'do hook', false);
+  const hookTransition = compileSnippet(mp.hooks?.transition, 'transition hook', false);
+
+  // --- Runtime state ---
+  const pendingEvents: string[] = [];
+  let currentEvent: string | null = null;
+  const ctx: InterpreterInstance['ctx'] = {
+    now: 0,
+    raise: (event: string) => {
+      pendingEvents.push(event);
+    },
+  };
+  const active = new Set<string>();
+  const enteredAt = new Map<string, number>();
+  const entrySerial = new Map<string, number>();
+  const lastChild = new Map<string, string>(); // history: parent id -> last active child id
+  let taken: TransitionRef[] = [];
+  let serial = 0;
+
+  for (const s of states.values()) {
+    if (s === root) continue;
+    ctx[`in_state_${s.path.replace(/\//g, '_')}`] = () => active.has(s.id);
+  }
+
+  const timeIn = (s: StateDef) => ctx.now - (enteredAt.get(s.id) ?? ctx.now);
+  const run = (fn: Snippet | null, s: StateDef, tSrc = '', tDst = '') => {
+    if (fn) fn(ctx, timeIn(s), tSrc, tDst);
+  };
+  const guardHolds = (t: TransitionDef, s: StateDef) =>
+    (t.event === null || t.event === currentEvent) &&
+    (t.after === null || timeIn(s) >= t.after) &&
+    (!t.guard || !!t.guard(ctx, timeIn(s), s.path, t.targetPath));
+
+  const isAncestorOrSelf = (a: StateDef, s: StateDef) => {
+    for (let cur: StateDef | null = s; cur; cur = cur.parent) if (cur === a) return true;
+    return false;
+  };
+  const commonAncestor = (a: StateDef, b: StateDef) => {
+    let cur: StateDef | null = a;
+    while (cur && !isAncestorOrSelf(cur, b)) cur = cur.parent;
+    return cur ?? root;
+  };
+
+  function enterState(s: StateDef) {
+    active.add(s.id);
+    enteredAt.set(s.id, ctx.now);
+    entrySerial.set(s.id, ++serial);
+    if (s !== root) run(hookEntry, s);
+    run(s.entry, s);
+  }
+
+  // Default entry below `s`: all regions if orthogonal, otherwise the
+  // remembered child (history) or the initial child.
+  function enterChildren(s: StateDef) {
+    if (s.orthogonal) {
+      for (const c of s.children) enterDefault(c);
+      return;
+    }
+    const remembered = s.history ? states.get(lastChild.get(s.id) ?? '') : undefined;
+    const next = remembered ?? s.initial;
+    if (next) enterDefault(next);
+  }
+
+  function enterDefault(s: StateDef) {
+    enterState(s);
+    enterChildren(s);
+  }
+
+  // Exit innermost first, remembering the left child for history.
+  function exitState(s: StateDef) {
+    for (const c of s.children) if (active.has(c.id)) exitState(c);
+    run(s.exit, s);
+    if (s !== root) run(hookExit, s);
+    active.delete(s.id);
+    enteredAt.delete(s.id);
+    if (s.parent) lastChild.set(s.parent.id, s.id);
+  }
+
+  // Follow decisions/ands from `first` to a real target state. Returns null
+  // when no branch is enabled (the compound transition does not fire).
+  function resolve(primary: StateDef, first: TransitionDef): Firing | null {
+    const firing: Firing = { sources: [primary], target: root, steps: [] };
+    const visited = new Set<string>();
+    let t = first;
+    for (;;) {
+      firing.steps.push(t);
+      const target = states.get(t.targetId);
+      if (target) {
+        firing.target = target;
+        return firing;
+      }
+      const pseudo = pseudos.get(t.targetId) as PseudoDef;
+      if (visited.has(pseudo.id)) throw new Error(`Decision loop through ${pseudo.path}`);
+      visited.add(pseudo.id);
+      if (pseudo.isAnd) {
+        // An AND is enabled only when every other incoming edge is enabled too.
+        // Inputs fed from decisions are never considered enabled here.
+        for (const input of pseudo.inputs) {
+          if (input === t) continue;
+          const src = states.get(input.sourceId);
+          if (!src || !active.has(src.id) || !guardHolds(input, src)) return null;
+          if (!firing.sources.includes(src)) firing.sources.push(src);
+          firing.steps.push(input);
+        }
+      }
+      const branch = pseudo.branches.find(b => guardHolds(b, primary));
+      if (!branch) return null;
+      t = branch;
+    }
+  }
+
+  function fire({ sources, target, steps }: Firing) {
+    // Lateral and drill-down transitions keep the common ancestor active;
+    // self-transitions and moves up to an ancestor exit and re-enter it.
+    let domain = sources.reduce((acc, s) => commonAncestor(acc, s), target);
+    if (domain === target) domain = target.parent ?? root;
+
+    // Actions run before the source is exited (the Mealy aspect).
+    const primary = sources[0];
+    run(hookTransition, primary, primary.path, target.path);
+    for (const step of steps) run(step.action, primary, primary.path, target.path);
+    for (const step of steps) taken.push({ source: step.sourcePath, target: step.targetPath });
+
+    const involved = [...sources, target];
+    for (const c of domain.children) {
+      if (!active.has(c.id)) continue;
+      if (!domain.orthogonal || involved.some(s => isAncestorOrSelf(c, s))) exitState(c);
+    }
+
+    const chain: StateDef[] = [];
+    for (let s: StateDef | null = target; s && s !== domain; s = s.parent) chain.unshift(s);
+    for (const s of chain) enterState(s);
+    enterChildren(target);
+
+    // Regions not on the entry path start normally (implicit fork).
+    for (const container of [domain, ...chain]) {
+      if (!container.orthogonal) continue;
+      for (const c of container.children) if (!active.has(c.id)) enterDefault(c);
+    }
+  }
+
+  function runDo(s: StateDef) {
+    if (s !== root) run(hookDo, s);
+    run(s.do, s);
+    for (const c of s.children) if (active.has(c.id)) runDo(c);
+  }
+
+  // Outer transitions take priority; each orthogonal region may fire once
+  // per tick unless an earlier region left the orthogonal state.
+  function evaluate(s: StateDef): boolean {
+    for (const t of s.transitions) {
+      if (!guardHolds(t, s)) continue;
+      const firing = resolve(s, t);
+      if (firing) {
+        fire(firing);
+        return true;
+      }
+    }
+    const mySerial = entrySerial.get(s.id);
+    let fired = false;
+    for (const c of s.children) {
+      if (!active.has(s.id) || entrySerial.get(s.id) !== mySerial) break;
+      if (active.has(c.id) && evaluate(c)) {
+        fired = true;
+        if (!s.orthogonal) break;
+      }
+    }
+    return fired;
+  }
+
+  function describe(s: StateDef): string {
+    const activeChildren = s.children.filter(c => active.has(c.id));
+    if (activeChildren.length === 0) return s.name;
+    const inner = s.orthogonal
+      ? `[${activeChildren.map(describe).join(',')}]`
+      : describe(activeChildren[0]);
+    return s === root ? `/${inner}` : `${s.name}/${inner}`;
+  }
+
+  compileSnippet(mp.context_init, 'context_init', false)?.(ctx, 0, '', '');
+  enterDefault(root);
+
+  return {
+    ctx,
+    tick() {
+      taken = [];
+      currentEvent = pendingEvents.shift() ?? null;
+      runDo(root);
+      evaluate(root);
+      currentEvent = null;
+    },
+    isRunning() {
+      return true;
+    },
+    getStateStr() {
+      return describe(root);
+    },
+    lastTransitions() {
+      return taken;
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseStateStr, findEsbuild } from './smRunnerPlugin';
+import { parseStateStr, findEsbuild, findBreakpointHit, findTimeoutTransitions } from './smRunnerPlugin';
+import type { Breakpoints } from '../viewPlugin';
 import { execSync } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
@@ -46,6 +47,61 @@ describe('parseStateStr', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// findBreakpointHit unit tests
+// ---------------------------------------------------------------------------
+describe('findBreakpointHit', () => {
+  const none: Breakpoints = { states: [], transitions: [] };
+
+  it('returns null without breakpoints', () => {
+    expect(findBreakpointHit(none, ['A'], ['B'])).toBeNull();
+  });
+
+  it('hits a state breakpoint when the state (or a descendant) is entered', () => {
+    const bps: Breakpoints = { states: ['P'], transitions: [] };
+    expect(findBreakpointHit(bps, ['A'], ['P/x'])).toMatch(/entered P/);
+    expect(findBreakpointHit(bps, ['P/x'], ['P/y'])).toBeNull();
+  });
+
+  it('matches reported transitions exactly', () => {
+    const bps: Breakpoints = { states: [], transitions: [{ source: 'A', target: '@D1' }] };
+    expect(findBreakpointHit(bps, ['A'], ['B'], [{ source: 'A', target: '@D1' }, { source: '@D1', target: 'B' }]))
+      .toMatch(/A → @D1/);
+    expect(findBreakpointHit(bps, ['A'], ['C'], [{ source: 'A', target: 'C' }])).toBeNull();
+  });
+
+  it('infers state-to-state transitions from the state change', () => {
+    const bps: Breakpoints = { states: [], transitions: [{ source: 'A', target: 'B' }] };
+    expect(findBreakpointHit(bps, ['A'], ['B'])).not.toBeNull();
+    expect(findBreakpointHit(bps, ['A'], ['C'])).toBeNull();
+    expect(findBreakpointHit(bps, ['C'], ['B'])).toBeNull();
+  });
+});
+
+describe('findTimeoutTransitions', () => {
+  it('lists the transitions sm-compiler would take without waiting', () => {
+    const content = `initial: Idle
+states:
+  Idle:
+    transitions:
+      - to: Busy
+        event: go
+  Busy:
+    initial: Work
+    states:
+      Work:
+        transitions:
+          - to: ../Idle
+            after: 2s
+`;
+    expect(findTimeoutTransitions(content)).toEqual(['Busy/Work → Idle']);
+  });
+
+  it('finds none in a guard-driven machine', () => {
+    expect(findTimeoutTransitions('initial: A\nstates:\n  A:\n    transitions:\n      - to: B\n        guard: time > 1\n  B: {}\n')).toEqual([]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Integration test: compile blink.smb, transpile, load via eval, and tick
 // ---------------------------------------------------------------------------
@@ -6,14 +6,15 @@
  * StateMachine class, and runs a tick loop pushing state updates.
  */
 
-import type { ViewPlugin, PluginCallbacks, PluginConfigField } from '../viewPlugin';
+import type { ViewPlugin, PluginCallbacks, PluginConfigField, Breakpoints, TransitionRef } from '../viewPlugin';
 import { execSync } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { convertFromYaml } from '../yamlConverter';
+import { computeNodePath } from '../utils/nodeUtils';
 
-let timer: ReturnType<typeof setInterval> | null = null;
-let startTime = 0;
+let loop: TickLoop | null = null;
 
 /**
  * Parse the output of `getStateStr()` into an array of simple
@@ -183,6 +184,145 @@ export async function compileAndLoad(filePath: string): Promise<{
   }
 }
 
+const isActivePath = (activePaths: string[], p: string) =>
+  activePaths.some(a => a === p || a.startsWith(p + '/'));
+
+/**
+ * Decide whether a tick hit a breakpoint. `before`/`after` are the active
+ * paths (as from `parseStateStr`) around the tick. When the machine reports
+ * the transitions it took they are matched exactly; otherwise a transition
+ * breakpoint is inferred from its source being left or its target entered.
+ * Returns a human-readable reason, or null.
+ */
+export function findBreakpointHit(
+  breakpoints: Breakpoints,
+  before: string[],
+  after: string[],
+  taken?: TransitionRef[],
+): string | null {
+  const entered = (p: string) => !isActivePath(before, p) && isActivePath(after, p);
+  const left = (p: string) => isActivePath(before, p) && !isActivePath(after, p);
+
+  for (const bp of breakpoints.transitions) {
+    const hit = taken
+      ? taken.some(t => t.source === bp.source && t.target === bp.target)
+      : bp.target.split('/').pop()?.startsWith('@')
+        ? left(bp.source)
+        : isActivePath(before, bp.source) && (entered(bp.target) || (left(bp.source) && isActivePath(after, bp.target)));
+    if (hit) return `Breakpoint: transition ${bp.source} → ${bp.target}`;
+  }
+  for (const p of breakpoints.states) {
+    if (entered(p)) return `Breakpoint: entered ${p}`;
+  }
+  return null;
+}
+
+export interface TickLoop {
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  step(): void;
+  setBreakpoints(breakpoints: Breakpoints): void;
+}
+
+/**
+ * Drive a state machine instance on a timer, pushing state updates.
+ * Logical time (`ctx.now`) only advances while running, so a paused machine
+ * does not see time-based guards expire behind its back. A single step
+ * advances time by one tick interval.
+ * `lastTransitions`, when given, reports what the last tick took.
+ */
+export function runTickLoop(
+  sm: StateMachineInstance,
+  callbacks: PluginCallbacks,
+  tickInterval: number,
+  lastTransitions?: () => TransitionRef[],
+): TickLoop {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let paused = false;
+  let breakpoints: Breakpoints = { states: [], transitions: [] };
+  let lastWall = Date.now();
+
+  // Send initial state immediately
+  let lastStateStr = sm.getStateStr();
+  callbacks.onStateUpdate(parseStateStr(lastStateStr));
+
+  const halt = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const pauseWith = (reason: string) => {
+    paused = true;
+    callbacks.onPaused?.(reason);
+  };
+
+  const advance = (dt: number) => {
+    if (!sm.isRunning()) {
+      callbacks.onStateUpdate([]);
+      halt();
+      return;
+    }
+
+    const before = parseStateStr(lastStateStr);
+    sm.ctx.now = (sm.ctx.now || 0) + dt;
+    try {
+      sm.tick();
+    } catch (err) {
+      pauseWith(`Error: ${(err as Error).message}`);
+      return;
+    }
+
+    const currentStr = sm.getStateStr();
+    const after = parseStateStr(currentStr);
+    const taken = lastTransitions?.();
+    // Self-transitions leave the state string unchanged but are still reported
+    if (currentStr !== lastStateStr || (taken && taken.length > 0)) {
+      lastStateStr = currentStr;
+      callbacks.onStateUpdate(after, taken);
+    }
+    const hit = findBreakpointHit(breakpoints, before, after, taken);
+    if (hit) pauseWith(hit);
+  };
+
+  timer = setInterval(() => {
+    const now = Date.now();
+    const dt = (now - lastWall) / 1000;
+    lastWall = now;
+    if (!paused) advance(dt);
+  }, tickInterval);
+
+  return {
+    stop: halt,
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+    },
+    step() {
+      paused = true;
+      advance(tickInterval / 1000);
+    },
+    setBreakpoints(next: Breakpoints) {
+      breakpoints = next;
+    },
+  };
+}
+
+/**
+ * The timeout (`after`) transitions of an .smb file, as "Source → Target".
+ * sm-compiler ignores the delay and would take them on the next tick.
+ */
+export function findTimeoutTransitions(content: string): string[] {
+  const { nodes, edges } = convertFromYaml(content);
+  return edges
+    .filter(e => e.data?.after?.trim())
+    .map(e => `${computeNodePath(e.source, nodes)} → ${computeNodePath(e.target, nodes)}`);
+}
+
 const smRunnerConfigFields: PluginConfigField[] = [
   { key: 'tickInterval', label: 'Tick interval (ms)', type: 'number', default: 100 },
 ];
@@ -198,46 +338,37 @@ const smRunnerPlugin: ViewPlugin = {
     if (!filePath) {
       throw new Error('SM Runner requires a saved .smb file path');
     }
+    const timeouts = findTimeoutTransitions(fs.readFileSync(filePath, 'utf-8'));
+    if (timeouts.length > 0) {
+      throw new Error(`SM Runner does not support timeout (after) transitions; use the Interpreter instead:\n${timeouts.join('\n')}`);
+    }
 
     const { StateMachine } = await compileAndLoad(filePath);
 
     // Create state machine instance and run tick loop
     const sm = new StateMachine();
-    startTime = Date.now();
-    let lastStateStr = '';
-
-    // Send initial state immediately
-    const stateStr = sm.getStateStr();
-    lastStateStr = stateStr;
-    callbacks.onStateUpdate(parseStateStr(stateStr));
-
-    timer = setInterval(() => {
-      if (!sm.isRunning()) {
-        callbacks.onStateUpdate([]);
-        if (timer !== null) {
-          clearInterval(timer);
-          timer = null;
-        }
-        return;
-      }
-
-      // Update logical time (seconds elapsed)
-      sm.ctx.now = (Date.now() - startTime) / 1000;
-      sm.tick();
-
-      const currentStr = sm.getStateStr();
-      if (currentStr !== lastStateStr) {
-        lastStateStr = currentStr;
-        callbacks.onStateUpdate(parseStateStr(currentStr));
-      }
-    }, tickInterval);
+    loop = runTickLoop(sm, callbacks, tickInterval);
   },
 
   async stop() {
-    if (timer !== null) {
-      clearInterval(timer);
-      timer = null;
-    }
+    loop?.stop();
+    loop = null;
+  },
+
+  async pause() {
+    loop?.pause();
+  },
+
+  async step() {
+    loop?.step();
+  },
+
+  async resume() {
+    loop?.resume();
+  },
+
+  async setBreakpoints(breakpoints: Breakpoints) {
+    loop?.setBreakpoints(breakpoints);
   },
 };
 
@@ -2,6 +2,7 @@
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
 
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ShortcutBindings } from './utils/shortcuts';
 
 export interface FileAPI {
   saveFile: (content: string, defaultName: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
@@ -9,9 +10,16 @@ export interface FileAPI {
   openFile: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
   exportPdf: (fileName: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
   onExportPhoenix: (callback: () => void) => () => void;
+  onExportStateDiagram: (callback: (format: 'plantuml' | 'mermaid') => void) => () => void;
+  onExportSvg: (callback: () => void) => () => void;
+  onExportDocs: (callback: (format: 'html' | 'markdown') => void) => () => void;
+  saveDocs: (files: { path: string; content: string }[], defaultName: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
   onSaveAs: (callback: () => void) => () => void;
   importPhoenix: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
   onImportPhoenix: (callback: () => void) => () => void;
+  onExportScxml: (callback: () => void) => () => void;
+  importScxml: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+  onImportScxml: (callback: () => void) => () => void;
   getStartupFile: () => Promise<{ content: string; filePath: string } | null>;
   onOpenWithFile: (callback: (data: { content: string; filePath: string }) => void) => () => void;
   onExportSourceCode: (callback: () => void) => () => void;
@@ -22,12 +30,49 @@ export interface FileAPI {
   onMenuPaste: (callback: () => void) => () => void;
   onMenuDuplicate: (callback: () => void) => () => void;
   onMenuOpen: (callback: () => void) => () => void;
+  saveTrace: (content: string, smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  openTrace: (smbPath: string | null) => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+  saveCoverageReport: (content: string, smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  readSubmachine: (filePath: string) => Promise<{ success: boolean; content?: string; filePath?: string; error?: string }>;
+  chooseSubmachine: (smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  openSubmachine: (filePath: string) => Promise<{ success: boolean; error?: string }>;
+  onExportInlined: (callback: () => void) => () => void;
+  openCompareFile: (smbPath: string | null) => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+  onCompareWithFile: (callback: () => void) => () => void;
+  openMergeFiles: (smbPath: string | null) => Promise<{ success: boolean; base?: { content: string; filePath: string }; theirs?: { content: string; filePath: string }; canceled?: boolean; error?: string }>;
+  onMergeWithFile: (callback: () => void) => () => void;
+  watchFile: (filePath: string | null) => Promise<{ success: boolean; error?: string }>;
+  onFileChangedExternally: (callback: (data: { content: string; filePath: string }) => void) => () => void;
+  setDocumentDirty: (dirty: boolean) => void;
+  closeAfterSave: () => void;
+  onSaveAndClose: (callback: () => void) => () => void;
+  writeRecovery: (content: string, smbPath: string | null) => Promise<{ success: boolean; error?: string }>;
+  clearRecovery: () => Promise<{ success: boolean }>;
+  listRecovery: () => Promise<{ id: string; filePath: string | null; savedAt: number; content: string }[]>;
+  discardRecovery: (id: string) => Promise<{ success: boolean }>;
+  restoreRecoveryInNewWindow: (id: string) => Promise<{ success: boolean; error?: string }>;
+  onOpenRecovered: (callback: (data: { content: string; filePath: string | null }) => void) => () => void;
+  getStartupMerge: () => Promise<{ base: { content: string; filePath: string }; ours: { content: string; filePath: string }; theirs: { content: string; filePath: string }; output: string } | null>;
+  setWindowSession: (session: WindowSession) => void;
+  writeUndoHistory: (smbPath: string, content: string) => Promise<{ success: boolean; error?: string }>;
+  readUndoHistory: (smbPath: string) => Promise<{ success: boolean; content?: string; error?: string }>;
+  onRestoreSessionWindow: (callback: (data: WindowSession & { content: string; filePath: string }) => void) => () => void;
+}
+
+export interface WindowSession {
+  filePath: string | null;
+  focusNodeId: string | null;
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
 }
 
 export interface Settings {
   editorPreference: 'system' | 'builtin' | 'custom';
   customEditorCommand: string;
   tabWidth: number;
+  restoreSession: boolean;
+  keepUndoHistory: boolean;
+  shortcuts: ShortcutBindings;
 }
 
 export interface SettingsAPI {
@@ -46,13 +91,29 @@ export interface PluginConfigField {
 export interface PluginInfo {
   name: string;
   configFields: PluginConfigField[];
+  supportsDebug: boolean;
+}
+
+export interface TransitionRef {
+  source: string;
+  target: string;
+}
+
+export interface Breakpoints {
+  states: string[];
+  transitions: TransitionRef[];
 }
 
 export interface ViewAPI {
   listPlugins: () => Promise<PluginInfo[]>;
   startPlugin: (name: string, config: Record<string, unknown>) => Promise<{ success: boolean; error?: string }>;
   stopPlugin: () => Promise<{ success: boolean; error?: string }>;
-  onStateUpdate: (cb: (activeStates: string[]) => void) => () => void;
+  onStateUpdate: (cb: (activeStates: string[], transitions?: TransitionRef[]) => void) => () => void;
+  pausePlugin: () => Promise<{ success: boolean; error?: string }>;
+  stepPlugin: () => Promise<{ success: boolean; error?: string }>;
+  resumePlugin: () => Promise<{ success: boolean; error?: string }>;
+  setBreakpoints: (breakpoints: Breakpoints) => Promise<{ success: boolean; error?: string }>;
+  onPaused: (cb: (reason: string) => void) => () => void;
 }
 
 export interface EditorAPI {
@@ -76,6 +137,22 @@ contextBridge.exposeInMainWorld('fileAPI', {
     ipcRenderer.on('export-phoenix', handler);
     return () => { ipcRenderer.removeListener('export-phoenix', handler); };
   },
+  onExportStateDiagram: (callback: (format: 'plantuml' | 'mermaid') => void) => {
+    const handler = (_: unknown, format: 'plantuml' | 'mermaid') => callback(format);
+    ipcRenderer.on('export-state-diagram', handler);
+    return () => { ipcRenderer.removeListener('export-state-diagram', handler); };
+  },
+  onExportSvg: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('export-svg', handler);
+    return () => { ipcRenderer.removeListener('export-svg', handler); };
+  },
+  onExportDocs: (callback: (format: 'html' | 'markdown') => void) => {
+    const handler = (_: unknown, format: 'html' | 'markdown') => callback(format);
+    ipcRenderer.on('export-docs', handler);
+    return () => { ipcRenderer.removeListener('export-docs', handler); };
+  },
+  saveDocs: (files: { path: string; content: string }[], defaultName: string) => ipcRenderer.invoke('save-docs', files, defaultName),
   onSaveAs: (callback: () => void) => {
     const handler = () => callback();
     ipcRenderer.on('save-as', handler);
@@ -87,6 +164,17 @@ contextBridge.exposeInMainWorld('fileAPI', {
     ipcRenderer.on('import-phoenix', handler);
     return () => { ipcRenderer.removeListener('import-phoenix', handler); };
   },
+  onExportScxml: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('export-scxml', handler);
+    return () => { ipcRenderer.removeListener('export-scxml', handler); };
+  },
+  importScxml: () => ipcRenderer.invoke('import-scxml'),
+  onImportScxml: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('import-scxml', handler);
+    return () => { ipcRenderer.removeListener('import-scxml', handler); };
+  },
   getStartupFile: () => ipcRenderer.invoke('get-startup-file'),
   onOpenWithFile: (callback: (data: { content: string; filePath: string }) => void) => {
     const handler = (_: unknown, data: { content: string; filePath: string }) => callback(data);
@@ -129,6 +217,61 @@ contextBridge.exposeInMainWorld('fileAPI', {
     ipcRenderer.on('menu-open', handler);
     return () => { ipcRenderer.removeListener('menu-open', handler); };
   },
+  saveTrace: (content: string, smbPath: string | null) => ipcRenderer.invoke('save-trace', content, smbPath),
+  openTrace: (smbPath: string | null) => ipcRenderer.invoke('open-trace', smbPath),
+  saveCoverageReport: (content: string, smbPath: string | null) => ipcRenderer.invoke('save-coverage-report', content, smbPath),
+  readSubmachine: (filePath: string) => ipcRenderer.invoke('read-submachine', filePath),
+  chooseSubmachine: (smbPath: string | null) => ipcRenderer.invoke('choose-submachine', smbPath),
+  openSubmachine: (filePath: string) => ipcRenderer.invoke('open-submachine', filePath),
+  onExportInlined: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('export-inlined', handler);
+    return () => { ipcRenderer.removeListener('export-inlined', handler); };
+  },
+  openCompareFile: (smbPath: string | null) => ipcRenderer.invoke('open-compare-file', smbPath),
+  onCompareWithFile: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('compare-with-file', handler);
+    return () => { ipcRenderer.removeListener('compare-with-file', handler); };
+  },
+  openMergeFiles: (smbPath: string | null) => ipcRenderer.invoke('open-merge-files', smbPath),
+  onMergeWithFile: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('merge-with-file', handler);
+    return () => { ipcRenderer.removeListener('merge-with-file', handler); };
+  },
+  getStartupMerge: () => ipcRenderer.invoke('get-startup-merge'),
+  watchFile: (filePath: string | null) => ipcRenderer.invoke('watch-file', filePath),
+  onFileChangedExternally: (callback: (data: { content: string; filePath: string }) => void) => {
+    const handler = (_: unknown, data: { content: string; filePath: string }) => callback(data);
+    ipcRenderer.on('file-changed-externally', handler);
+    return () => { ipcRenderer.removeListener('file-changed-externally', handler); };
+  },
+  setDocumentDirty: (dirty: boolean) => ipcRenderer.send('set-document-dirty', dirty),
+  closeAfterSave: () => ipcRenderer.send('close-after-save'),
+  onSaveAndClose: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('save-and-close', handler);
+    return () => { ipcRenderer.removeListener('save-and-close', handler); };
+  },
+  writeRecovery: (content: string, smbPath: string | null) => ipcRenderer.invoke('write-recovery', content, smbPath),
+  clearRecovery: () => ipcRenderer.invoke('clear-recovery'),
+  listRecovery: () => ipcRenderer.invoke('list-recovery'),
+  discardRecovery: (id: string) => ipcRenderer.invoke('discard-recovery', id),
+  restoreRecoveryInNewWindow: (id: string) => ipcRenderer.invoke('restore-recovery-in-new-window', id),
+  onOpenRecovered: (callback: (data: { content: string; filePath: string | null }) => void) => {
+    const handler = (_: unknown, data: { content: string; filePath: string | null }) => callback(data);
+    ipcRenderer.on('open-recovered', handler);
+    return () => { ipcRenderer.removeListener('open-recovered', handler); };
+  },
+  setWindowSession: (session: WindowSession) => ipcRenderer.send('set-window-session', session),
+  writeUndoHistory: (smbPath: string, content: string) => ipcRenderer.invoke('write-undo-history', smbPath, content),
+  readUndoHistory: (smbPath: string) => ipcRenderer.invoke('read-undo-history', smbPath),
+  onRestoreSessionWindow: (callback: (data: WindowSession & { content: string; filePath: string }) => void) => {
+    const handler = (_: unknown, data: WindowSession & { content: string; filePath: string }) => callback(data);
+    ipcRenderer.on('restore-session-window', handler);
+    return () => { ipcRenderer.removeListener('restore-session-window', handler); };
+  },
 } as FileAPI);
 
 contextBridge.exposeInMainWorld('settingsAPI', {
@@ -144,9 +287,18 @@ contextBridge.exposeInMainWorld('viewAPI', {
   listPlugins: () => ipcRenderer.invoke('view-list-plugins'),
   startPlugin: (name: string, config: Record<string, unknown>) => ipcRenderer.invoke('view-start-plugin', name, config),
   stopPlugin: () => ipcRenderer.invoke('view-stop-plugin'),
-  onStateUpdate: (cb: (activeStates: string[]) => void) => {
-    const handler = (_: unknown, activeStates: string[]) => cb(activeStates);
+  onStateUpdate: (cb: (activeStates: string[], transitions?: TransitionRef[]) => void) => {
+    const handler = (_: unknown, activeStates: string[], transitions?: TransitionRef[]) => cb(activeStates, transitions);
     ipcRenderer.on('view-state-update', handler);
     return () => { ipcRenderer.removeListener('view-state-update', handler); };
   },
+  pausePlugin: () => ipcRenderer.invoke('view-pause-plugin'),
+  stepPlugin: () => ipcRenderer.invoke('view-step-plugin'),
+  resumePlugin: () => ipcRenderer.invoke('view-resume-plugin'),
+  setBreakpoints: (breakpoints: Breakpoints) => ipcRenderer.invoke('view-set-breakpoints', breakpoints),
+  onPaused: (cb: (reason: string) => void) => {
+    const handler = (_: unknown, reason: string) => cb(reason);
+    ipcRenderer.on('view-paused', handler);
+    return () => { ipcRenderer.removeListener('view-paused', handler); };
+  },
 } as ViewAPI);
@@ -36,12 +36,23 @@ import {
   Tune as TuneIcon,
   Undo as UndoIcon,
   Redo as RedoIcon,
+  History as HistoryIcon,
   Visibility as VisibilityIcon,
   VisibilityOff as VisibilityOffIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  SkipNext as SkipNextIcon,
+  Timeline as TimelineIcon,
+  Whatshot as WhatshotIcon,
+  Assessment as AssessmentIcon,
+  RestartAlt as RestartAltIcon,
+  FactCheck as FactCheckIcon,
+  AccountTree as AccountTreeIcon,
 } from '@mui/icons-material';
 
 import './index.css';
 import { useUndoRedo } from './useUndoRedo';
+import { countOf, nodeName, describeNodes, describeEdge } from './utils/undoLabels';
 import StateNode from './StateNode';
 import DecisionNode from './DecisionNode';
 import ProxyNode from './ProxyNode';
@@ -55,25 +66,55 @@ import { AltKeyContext } from './contexts';
 import MachinePropertiesDialog from './MachinePropertiesDialog';
 import SettingsDialog, { Settings } from './SettingsDialog';
 import VersionPromptDialog from './VersionPromptDialog';
+import SvgExportDialog from './SvgExportDialog';
+import ModelDiffDialog from './ModelDiffDialog';
+import DiffPanel from './DiffPanel';
+import HistoryPanel from './HistoryPanel';
+import MergeDialog from './MergeDialog';
+import RecoveryDialog from './RecoveryDialog';
+import type { DiffItem } from './utils/diffOverlay';
+import type { DiffModel } from './utils/modelDiff';
 import type { MissingVersionPolicy } from './yamlConverter';
-import { MachineProperties, defaultMachineProperties, computeProxyLabel } from './yamlConverter';
+import { MachineProperties, defaultMachineProperties, computeProxyLabel, convertToYaml } from './yamlConverter';
 import type { PluginInfo } from './preload';
 import {
   useSemanticZoomStore,
   getAbsoluteNodeBounds,
   SEMANTIC_ZOOM_CONFIG,
+  computeWorldLayout,
+  cullToViewport,
 } from './semanticZoom';
-import { calculateNodeDepth, isAncestorOf, buildTreeData, getAllDescendants, computeNodePath } from './utils/nodeUtils';
+import { calculateNodeDepth, isAncestorOf, buildTreeData, getAllDescendants, computeNodePath, buildNodeIndex } from './utils/nodeUtils';
 import { calculateBestHandles } from './utils/handleUtils';
+import { ShortcutCommand, resolveBindings, formatBinding } from './utils/shortcuts';
 import { getNextId, getNextStateName, getNextDecisionName, getNextAndName, getNextProxyName } from './utils/idCounters';
 import { useClipboard } from './hooks/useClipboard';
-import { useFileOperations } from './hooks/useFileOperations';
+import { useFileOperations, resetNameCounters } from './hooks/useFileOperations';
+import { useMerge } from './hooks/useMerge';
+import { useRecovery } from './hooks/useRecovery';
+import { useExternalChanges } from './hooks/useExternalChanges';
+import { useSession } from './hooks/useSession';
+import { useUndoHistoryFile } from './hooks/useUndoHistoryFile';
 import { useGrouping } from './hooks/useGrouping';
 import { useEdgeOperations } from './hooks/useEdgeOperations';
-import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useKeyboardShortcuts, isTextInputFocused } from './hooks/useKeyboardShortcuts';
 import { useSearchReplace } from './hooks/useSearchReplace';
 import SearchReplacePanel from './SearchReplacePanel';
+import TracePanel from './TracePanel';
+import ProblemsPanel, { ProblemsDock } from './ProblemsPanel';
+import { useTrace } from './hooks/useTrace';
+import { useCoverage } from './hooks/useCoverage';
+import { useSubmachines } from './hooks/useSubmachines';
+import { useCompare } from './hooks/useCompare';
+import { submachineRef } from './utils/submachine';
+import { useDiagnostics } from './hooks/useDiagnostics';
 import { copyImageToClipboard } from './utils/exportImage';
+import { renderSvg, SvgOptions } from './utils/exportSvg';
+import { toPluginBreakpoints } from './utils/breakpoints';
+import { edgeIdsForTransitions, activeSinceAt } from './utils/trace';
+import { findShadowedEdges } from './utils/modelLint';
+import { Diagnostic, applyQuickFix } from './utils/diagnostics';
+import { autoLayout } from './utils/autoLayout';
 
 const theme = createTheme({
   palette: {
@@ -105,6 +146,13 @@ declare global {
       openFile: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
       importPhoenix: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
       onImportPhoenix: (callback: () => void) => () => void;
+      onExportScxml: (callback: () => void) => () => void;
+      onExportStateDiagram: (callback: (format: 'plantuml' | 'mermaid') => void) => () => void;
+      onExportSvg: (callback: () => void) => () => void;
+      onExportDocs: (callback: (format: 'html' | 'markdown') => void) => () => void;
+      saveDocs: (files: { path: string; content: string }[], defaultName: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+      importScxml: () => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+      onImportScxml: (callback: () => void) => () => void;
       getStartupFile: () => Promise<{ content: string; filePath: string } | null>;
       onOpenWithFile: (callback: (data: { content: string; filePath: string }) => void) => () => void;
       onMenuUndo: (callback: () => void) => () => void;
@@ -113,6 +161,33 @@ declare global {
       onMenuPaste: (callback: () => void) => () => void;
       onMenuDuplicate: (callback: () => void) => () => void;
       onMenuOpen: (callback: () => void) => () => void;
+      saveTrace: (content: string, smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+      openTrace: (smbPath: string | null) => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+      saveCoverageReport: (content: string, smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+      readSubmachine: (filePath: string) => Promise<{ success: boolean; content?: string; filePath?: string; error?: string }>;
+      chooseSubmachine: (smbPath: string | null) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+      openSubmachine: (filePath: string) => Promise<{ success: boolean; error?: string }>;
+      onExportInlined: (callback: () => void) => () => void;
+      openCompareFile: (smbPath: string | null) => Promise<{ success: boolean; content?: string; filePath?: string; canceled?: boolean; error?: string }>;
+      onCompareWithFile: (callback: () => void) => () => void;
+      openMergeFiles: (smbPath: string | null) => Promise<{ success: boolean; base?: { content: string; filePath: string }; theirs?: { content: string; filePath: string }; canceled?: boolean; error?: string }>;
+      onMergeWithFile: (callback: () => void) => () => void;
+      watchFile: (filePath: string | null) => Promise<{ success: boolean; error?: string }>;
+      onFileChangedExternally: (callback: (data: { content: string; filePath: string }) => void) => () => void;
+      setDocumentDirty: (dirty: boolean) => void;
+      closeAfterSave: () => void;
+      onSaveAndClose: (callback: () => void) => () => void;
+      writeRecovery: (content: string, smbPath: string | null) => Promise<{ success: boolean; error?: string }>;
+      clearRecovery: () => Promise<{ success: boolean }>;
+      listRecovery: () => Promise<{ id: string; filePath: string | null; savedAt: number; content: string }[]>;
+      discardRecovery: (id: string) => Promise<{ success: boolean }>;
+      restoreRecoveryInNewWindow: (id: string) => Promise<{ success: boolean; error?: string }>;
+      onOpenRecovered: (callback: (data: { content: string; filePath: string | null }) => void) => () => void;
+      getStartupMerge: () => Promise<{ base: { content: string; filePath: string }; ours: { content: string; filePath: string }; theirs: { content: string; filePath: string }; output: string } | null>;
+      setWindowSession: (session: import('./preload').WindowSession) => void;
+      writeUndoHistory: (smbPath: string, content: string) => Promise<{ success: boolean; error?: string }>;
+      readUndoHistory: (smbPath: string) => Promise<{ success: boolean; content?: string; error?: string }>;
+      onRestoreSessionWindow: (callback: (data: import('./preload').WindowSession & { content: string; filePath: string }) => void) => () => void;
     };
     settingsAPI: {
       get: () => Promise<Settings>;
@@ -132,7 +207,12 @@ declare global {
       listPlugins: () => Promise<import('./preload').PluginInfo[]>;
       startPlugin: (name: string, config: Record<string, unknown>) => Promise<{ success: boolean; error?: string }>;
       stopPlugin: () => Promise<{ success: boolean; error?: string }>;
-      onStateUpdate: (cb: (activeStates: string[]) => void) => () => void;
+      onStateUpdate: (cb: (activeStates: string[], transitions?: import('./preload').TransitionRef[]) => void) => () => void;
+      pausePlugin: () => Promise<{ success: boolean; error?: string }>;
+      stepPlugin: () => Promise<{ success: boolean; error?: string }>;
+      resumePlugin: () => Promise<{ success: boolean; error?: string }>;
+      setBreakpoints: (breakpoints: import('./preload').Breakpoints) => Promise<{ success: boolean; error?: string }>;
+      onPaused: (cb: (reason: string) => void) => () => void;
     };
   }
 }
@@ -207,6 +287,8 @@ const App = () => {
     isAnimating,
     animationStartTime,
     setFocusNode,
+    setZoomLevel,
+    setPan,
     adjustZoom,
     adjustPan,
     startAnimation,
@@ -247,9 +329,10 @@ const App = () => {
   const [shouldZoomToFit, setShouldZoomToFit] = useState(false);
 
   // Undo/Redo
-  const { pushSnapshot, undo, redo, canUndo, canRedo, clear: clearUndoRedo } = useUndoRedo();
-  const saveSnapshot = useCallback(() => {
-    pushSnapshot({ nodes, edges, machineProperties, rootHistory });
+  const { pushSnapshot, undo, redo, travel, canUndo, canRedo, history, clear: clearUndoRedo, exportHistory, importHistory } = useUndoRedo();
+  // The label names the operation about to be made, e.g. "Delete 4 states"
+  const saveSnapshot = useCallback((label?: string) => {
+    pushSnapshot({ nodes, edges, machineProperties, rootHistory }, label);
     setIsDirty(true);
   }, [nodes, edges, machineProperties, rootHistory, pushSnapshot]);
   const dragStartSnapshot = useRef<{ nodes: typeof nodes; edges: typeof edges; machineProperties: typeof machineProperties; rootHistory: boolean } | null>(null);
@@ -274,12 +357,24 @@ const App = () => {
     }
   }, [nodes, edges, machineProperties, rootHistory, redo, setNodes, setEdges, setMachineProperties, setRootHistory]);
 
+  // Jump through several operations at once from the History panel
+  const handleTravel = useCallback((steps: number) => {
+    const snapshot = travel(steps, { nodes, edges, machineProperties, rootHistory });
+    if (snapshot) {
+      setNodes(snapshot.nodes);
+      setEdges(snapshot.edges);
+      setMachineProperties(snapshot.machineProperties);
+      setRootHistory(snapshot.rootHistory);
+    }
+  }, [nodes, edges, machineProperties, rootHistory, travel, setNodes, setEdges, setMachineProperties, setRootHistory]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
   // Track dragging marker position (for smooth visual feedback)
   const [draggingMarkerId, setDraggingMarkerId] = useState<string | null>(null);
   const [draggingMarkerPos, setDraggingMarkerPos] = useState<{ x: number; y: number } | null>(null);
   const [selectedMarkerId, setSelectedMarkerId] = useState<string | null>(null);
 
-  // Track viewport size
+  // Track viewport size (the canvas also resizes when the trace panel opens)
   useEffect(() => {
     const updateSize = () => {
       if (reactFlowWrapper.current) {
@@ -289,7 +384,12 @@ const App = () => {
     };
     updateSize();
     window.addEventListener('resize', updateSize);
-    return () => window.removeEventListener('resize', updateSize);
+    const observer = reactFlowWrapper.current ? new ResizeObserver(updateSize) : null;
+    if (observer && reactFlowWrapper.current) observer.observe(reactFlowWrapper.current);
+    return () => {
+      window.removeEventListener('resize', updateSize);
+      observer?.disconnect();
+    };
   }, []);
 
   // Sidebar resize drag handlers
@@ -315,7 +415,7 @@ const App = () => {
   // Load settings on mount
   useEffect(() => {
     window.settingsAPI.get().then((loadedSettings) => {
-      setSettings(loadedSettings);
+      setSettings(prev => ({ ...prev, ...loadedSettings }));
     }).catch((error) => {
       console.error('Error loading settings:', error);
     });
@@ -373,46 +473,103 @@ const App = () => {
   const [viewModeTick, setViewModeTick] = useState(0);
   const [viewModeError, setViewModeError] = useState<string | null>(null);
   const [availablePlugins, setAvailablePlugins] = useState<PluginInfo[]>([]);
+  // Debugger: breakpoints are state node ids and edge ids
+  const [breakpointIds, setBreakpointIds] = useState<Set<string>>(new Set());
+  const [isViewPaused, setIsViewPaused] = useState(false);
+  const [pauseReason, setPauseReason] = useState<string | null>(null);
+  const canDebug = isViewMode && !!availablePlugins.find(p => p.name === machineProperties.viewPlugin?.name)?.supportsDebug;
+  // Trace recording and timeline replay
+  const {
+    trace, traceVersion, scrubIndex, setScrubIndex, replayEntry,
+    startRecording, record, clearTrace, saveTrace, loadTrace,
+  } = useTrace(currentFilePath);
+  const [isTracePanelOpen, setIsTracePanelOpen] = useState(false);
+  // Coverage heatmap over all traces since the last reset
+  const [isCoverageVisible, setIsCoverageVisible] = useState(false);
+  const {
+    overlay: coverageOverlay, keepTrace, resetCoverage, clearCoverage, exportReport: exportCoverageReport,
+  } = useCoverage(trace, traceVersion, nodes, edges, currentFilePath, isCoverageVisible);
+  // Read-only previews of the files that submachine states refer to
+  const { previews: submachinePreviews, openSubmachine, chooseSubmachine } = useSubmachines(nodes, currentFilePath);
+  // Structural diff against another version of the machine, shown on the canvas
+  const { comparedFilePath, diff: compareDiff, overlay: diffOverlay, compareWithContent, closeCompare } = useCompare(
+    nodes, edges, rootHistory, machineProperties, currentFilePath,
+  );
+  const [selectedDiffKey, setSelectedDiffKey] = useState<string | null>(null);
+  const [isDiffSummaryOpen, setIsDiffSummaryOpen] = useState(false);
+  // While scrubbing, highlighting follows the trace instead of the plugin
+  const displayedStatePaths = replayEntry ? replayEntry.activeStates : activeStatePaths;
+
+  // Lookups by ID and parent, and the view-independent part of the layout
+  const nodeIndex = useMemo(() => buildNodeIndex(nodes), [nodes]);
+  const worldLayout = useMemo(() => computeWorldLayout(nodeIndex), [nodeIndex]);
 
   // Build a map from slash-separated path → node ID (memoized)
   const pathToNodeId = useMemo(() => {
     const map = new Map<string, string>();
     for (const node of nodes) {
       if (node.type === 'stateNode') {
-        const p = computeNodePath(node.id, nodes);
+        const p = computeNodePath(node.id, nodeIndex);
         map.set(p, node.id);
       }
     }
     return map;
-  }, [nodes]);
+  }, [nodes, nodeIndex]);
+
+  // States inside a submachine are not in the model; they show as the submachine state
+  const activePathToNodeId = useCallback((sp: string) => {
+    for (let p = sp; p; p = p.slice(0, Math.max(p.lastIndexOf('/'), 0))) {
+      const nodeId = pathToNodeId.get(p);
+      if (nodeId) return nodeId;
+    }
+    return undefined;
+  }, [pathToNodeId]);
 
   // Resolve active state paths to node IDs, including all ancestors
   const activeNodeIds = useMemo(() => {
     const ids = new Set<string>();
-    for (const sp of activeStatePaths) {
-      const nodeId = pathToNodeId.get(sp);
+    for (const sp of displayedStatePaths) {
+      const nodeId = activePathToNodeId(sp);
       if (nodeId) {
         ids.add(nodeId);
         // Walk parent chain to mark ancestors
-        let current = nodes.find(n => n.id === nodeId);
+        let current = nodeIndex.byId.get(nodeId);
         while (current?.parentId) {
           ids.add(current.parentId);
-          current = nodes.find(n => n.id === current!.parentId);
+          current = nodeIndex.byId.get(current.parentId);
         }
       }
     }
     return ids;
-  }, [activeStatePaths, pathToNodeId, nodes]);
+  }, [displayedStatePaths, activePathToNodeId, nodeIndex]);
 
   // Leaf active nodes (directly matched, not just ancestors)
   const leafActiveNodeIds = useMemo(() => {
     const ids = new Set<string>();
-    for (const sp of activeStatePaths) {
-      const nodeId = pathToNodeId.get(sp);
+    for (const sp of displayedStatePaths) {
+      const nodeId = activePathToNodeId(sp);
       if (nodeId) ids.add(nodeId);
     }
     return ids;
-  }, [activeStatePaths, pathToNodeId]);
+  }, [displayedStatePaths, activePathToNodeId]);
+
+  // Replay: when each highlighted state was entered, relative to the trace
+  const replayActiveSince = useMemo(() => {
+    if (!trace || scrubIndex === null) return null;
+    const byPath = activeSinceAt(trace.entries, scrubIndex);
+    const byId = new Map<string, number>();
+    for (const [p, t] of byPath) {
+      const nodeId = pathToNodeId.get(p);
+      if (nodeId) byId.set(nodeId, trace.entries[scrubIndex].t - t);
+    }
+    return byId;
+  }, [trace, scrubIndex, pathToNodeId]);
+
+  // Replay: edges of the transitions taken into the scrubbed entry
+  const replayEdgeIds = useMemo(
+    () => edgeIdsForTransitions(replayEntry?.transitions, nodes, edges),
+    [replayEntry, nodes, edges],
+  );
 
   // Track when nodes became active
   useEffect(() => {
@@ -442,12 +599,73 @@ const App = () => {
   // Listen for state updates from the plugin (IPC)
   useEffect(() => {
     if (!isViewMode) return;
-    const unsub = window.viewAPI.onStateUpdate((paths) => {
+    const unsub = window.viewAPI.onStateUpdate((paths, transitions) => {
       setActiveStatePaths(paths);
+      record(paths, transitions);
+    });
+    return unsub;
+  }, [isViewMode, record]);
+
+  // Listen for the plugin pausing itself (breakpoint hit or error)
+  useEffect(() => {
+    if (!isViewMode) return;
+    const unsub = window.viewAPI.onPaused((reason) => {
+      setIsViewPaused(true);
+      setPauseReason(reason);
     });
     return unsub;
   }, [isViewMode]);
 
+  // Keep the plugin's breakpoints in sync while viewing
+  useEffect(() => {
+    if (!canDebug) return;
+    window.viewAPI.setBreakpoints(toPluginBreakpoints(breakpointIds, nodes, edges));
+  }, [canDebug, breakpointIds, nodes, edges]);
+
+  const toggleBreakpoint = useCallback((id: string) => {
+    setBreakpointIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const handlePauseResume = useCallback(async () => {
+    if (isViewPaused) {
+      const result = await window.viewAPI.resumePlugin();
+      if (!result.success) { setViewModeError(result.error || 'Failed to resume'); return; }
+      setIsViewPaused(false);
+      setPauseReason(null);
+    } else {
+      const result = await window.viewAPI.pausePlugin();
+      if (!result.success) { setViewModeError(result.error || 'Failed to pause'); return; }
+      setIsViewPaused(true);
+    }
+  }, [isViewPaused]);
+
+  const handleStep = useCallback(async () => {
+    setPauseReason(null);
+    const result = await window.viewAPI.stepPlugin();
+    if (!result.success) { setViewModeError(result.error || 'Failed to step'); return; }
+    setIsViewPaused(true);
+  }, []);
+
+  // Clearing while viewing starts a fresh recording rather than stopping it.
+  // Either way the cleared trace still counts towards coverage.
+  const handleClearTrace = useCallback(() => {
+    keepTrace();
+    if (isViewMode) startRecording(machineProperties.viewPlugin?.name);
+    else clearTrace();
+  }, [isViewMode, machineProperties, startRecording, clearTrace, keepTrace]);
+
+  const handleLoadTrace = useCallback(async () => {
+    if (await loadTrace()) {
+      keepTrace();
+      setIsTracePanelOpen(true);
+    }
+  }, [loadTrace, keepTrace]);
+
   // Enter/exit view mode
   const handleToggleViewMode = useCallback(async () => {
     if (isViewMode) {
@@ -457,6 +675,8 @@ const App = () => {
       setActiveStatePaths([]);
       setActiveSince(new Map());
       setViewModeTick(0);
+      setIsViewPaused(false);
+      setPauseReason(null);
     } else {
       const vp = machineProperties.viewPlugin;
       if (!vp?.name) {
@@ -464,172 +684,64 @@ const App = () => {
         return;
       }
       setViewModeError(null);
-      const fullConfig: Record<string, unknown> = { ...vp.config, filePath: currentFilePath };
+      const fullConfig: Record<string, unknown> = {
+        ...vp.config,
+        filePath: currentFilePath,
+        // Live model for in-process plugins, so unsaved edits are simulated too
+        modelYaml: convertToYaml(nodes, edges, rootHistory, false, machineProperties),
+      };
+      // Enter view mode before starting so the state-update subscription is
+      // in place when the plugin reports its initial state
+      keepTrace();
+      startRecording(vp.name);
+      setIsViewMode(true);
       const result = await window.viewAPI.startPlugin(vp.name, fullConfig);
-      if (result.success) {
-        setIsViewMode(true);
-      } else {
+      if (!result.success) {
+        setIsViewMode(false);
+        clearTrace();
         setViewModeError(result.error || 'Failed to start plugin');
       }
     }
-  }, [isViewMode, machineProperties.viewPlugin, currentFilePath]);
-
-  // Transform nodes to screen coordinates based on semantic zoom
-  const transformedNodes = useMemo(() => {
-    // Compute DFS preorder order (matches state tree sidebar list order)
-    // Children inherit a higher z-index than their parent, and later siblings
-    // are drawn on top of earlier siblings' entire subtrees.
-    const dfsOrder = new Map<string, number>();
-    {
-      let counter = 0;
-      const childrenByParent = new Map<string | undefined, string[]>();
-      for (const node of nodes) {
-        const key = node.parentId;
-        if (!childrenByParent.has(key)) childrenByParent.set(key, []);
-        childrenByParent.get(key)!.push(node.id);
-      }
-      const visit = (parentId: string | undefined) => {
-        for (const id of (childrenByParent.get(parentId) || [])) {
-          dfsOrder.set(id, counter++);
-          visit(id);
-        }
-      };
-      visit(undefined);
-    }
+  }, [isViewMode, machineProperties, currentFilePath, nodes, edges, rootHistory, startRecording, clearTrace, keepTrace]);
 
-    // First pass: compute transforms and visibility for all nodes
-    const nodeTransforms = new Map<string, {
-      screenX: number;
-      screenY: number;
-      screenWidth: number;
-      screenHeight: number;
-      isTooSmall: boolean;
-      isTooLarge: boolean;
-      isOutside: boolean;
-      isSelected: boolean;
-      hasSelectedAncestor: boolean;
-    }>();
-
-    for (const node of nodes) {
-      const bounds = getAbsoluteNodeBounds(node.id, nodes);
-      if (!bounds) continue;
-
-      const screenX = bounds.x * effectiveScale + effectivePan.x;
-      const screenY = bounds.y * effectiveScale + effectivePan.y;
-      const screenWidth = bounds.width * effectiveScale;
-      const screenHeight = bounds.height * effectiveScale;
-
-      const isSelected = node.selected;
-      const hasSelectedAncestor = (() => {
-        let current = node;
-        while (current.parentId) {
-          const parent = nodes.find(n => n.id === current.parentId);
-          if (parent?.selected) return true;
-          current = parent;
-          if (!current) break;
-        }
-        return false;
-      })();
-
-      const isTooSmall = screenWidth < SEMANTIC_ZOOM_CONFIG.MIN_VISIBLE_SIZE ||
-                         screenHeight < SEMANTIC_ZOOM_CONFIG.MIN_VISIBLE_SIZE;
-      const isTooLarge = screenWidth > SEMANTIC_ZOOM_CONFIG.MAX_VISIBLE_SIZE ||
-                         screenHeight > SEMANTIC_ZOOM_CONFIG.MAX_VISIBLE_SIZE;
-      const isOutside = screenX + screenWidth < -SEMANTIC_ZOOM_CONFIG.VIEWPORT_MARGIN ||
-                        screenY + screenHeight < -SEMANTIC_ZOOM_CONFIG.VIEWPORT_MARGIN ||
-                        screenX > viewportSize.width + SEMANTIC_ZOOM_CONFIG.VIEWPORT_MARGIN ||
-                        screenY > viewportSize.height + SEMANTIC_ZOOM_CONFIG.VIEWPORT_MARGIN;
-
-      nodeTransforms.set(node.id, {
-        screenX, screenY, screenWidth, screenHeight,
-        isTooSmall, isTooLarge, isOutside,
-        isSelected, hasSelectedAncestor,
-      });
-    }
-
-    // Identify nodes that are "intrinsically visible" (in viewport, right size)
-    const intrinsicallyVisible = new Set<string>();
-    for (const [nodeId, t] of nodeTransforms) {
-      if (t.isSelected || t.hasSelectedAncestor || (!t.isTooSmall && !t.isTooLarge && !t.isOutside)) {
-        intrinsicallyVisible.add(nodeId);
-      }
-    }
-
-    // Find nodes outside viewport that have edges to intrinsically visible nodes
-    const connectedToVisible = new Set<string>();
-    for (const edge of edges) {
-      const sourceVisible = intrinsicallyVisible.has(edge.source);
-      const targetVisible = intrinsicallyVisible.has(edge.target);
-      // If one end is visible and the other is outside (but not too small/large), include it
-      if (sourceVisible && !targetVisible) {
-        const t = nodeTransforms.get(edge.target);
-        if (t && !t.isTooSmall && !t.isTooLarge) {
-          connectedToVisible.add(edge.target);
-        }
-      }
-      if (targetVisible && !sourceVisible) {
-        const t = nodeTransforms.get(edge.source);
-        if (t && !t.isTooSmall && !t.isTooLarge) {
-          connectedToVisible.add(edge.source);
-        }
-      }
-    }
-
-    // Compute minimum screen-space dimensions for each parent node based on children
-    const minScreenDims = new Map<string, { minWidth: number; minHeight: number }>();
-    const childPadding = 0;
-    for (const node of nodes) {
-      if (!node.parentId) continue;
-      const parentT = nodeTransforms.get(node.parentId);
-      const childT = nodeTransforms.get(node.id);
-      if (!parentT || !childT) continue;
-
-      // Child's right/bottom edge relative to parent's top-left
-      const childRight = (childT.screenX - parentT.screenX) + childT.screenWidth + childPadding;
-      const childBottom = (childT.screenY - parentT.screenY) + childT.screenHeight + childPadding;
-
-      const existing = minScreenDims.get(node.parentId);
-      if (existing) {
-        existing.minWidth = Math.max(existing.minWidth, childRight);
-        existing.minHeight = Math.max(existing.minHeight, childBottom);
-      } else {
-        minScreenDims.set(node.parentId, { minWidth: childRight, minHeight: childBottom });
-      }
-    }
-
-    // Compute set of state IDs that have at least one proxy node pointing to them
-    const proxyTargetIds = new Set<string>(
+  // Per-node flags that only change with the nodes, kept out of the per-view memo below
+  const nodeFlags = useMemo(() => ({
+    // States that at least one proxy node points to
+    proxyTargetIds: new Set<string>(
       nodes
         .filter(n => n.type === 'proxyNode')
         .map(n => (n.data as unknown as { targetId: string }).targetId)
-    );
-
-    // Compute set of state node IDs that have at least one child state/decision
-    const parentStateIds = new Set<string>(
+    ),
+    // States with at least one child state/decision
+    parentStateIds: new Set<string>(
       nodes
         .filter(n => n.parentId && (n.type === 'stateNode' || n.type === 'decisionNode'))
         .map(n => n.parentId!)
-    );
-
-    // Compute set of currently selected state/decision node IDs
-    const selectedNodeIds = new Set<string>(
-      nodes.filter(n => n.selected).map(n => n.id)
-    );
+    ),
+    selectedNodeIds: new Set<string>(nodes.filter(n => n.selected).map(n => n.id)),
+  }), [nodes]);
 
-    // Build result with all visible nodes
-    const result = nodes.map(node => {
-      const t = nodeTransforms.get(node.id);
-      if (!t) return null;
+  // Transform nodes to screen coordinates based on semantic zoom
+  const transformedNodes = useMemo(() => {
+    // DFS preorder (matches state tree sidebar list order): children get a
+    // higher z-index than their parent, and later siblings are drawn on top of
+    // earlier siblings' entire subtrees.
+    const dfsOrder = worldLayout.order;
+    const { proxyTargetIds, parentStateIds, selectedNodeIds } = nodeFlags;
 
-      const shouldInclude = intrinsicallyVisible.has(node.id) || connectedToVisible.has(node.id);
-      if (!shouldInclude) return null;
+    // Nodes in the viewport at a readable size, plus those connected to them
+    const shownTransforms = cullToViewport(worldLayout, edges, effectiveScale, effectivePan, viewportSize);
 
-      const mins = minScreenDims.get(node.id);
+    // Build result with all visible nodes
+    const result: typeof nodes = [];
+    for (const [nodeId, t] of shownTransforms) {
+      const node = nodeIndex.byId.get(nodeId)!;
+      const extent = worldLayout.childExtents.get(node.id);
       const dfsIdx = dfsOrder.get(node.id) ?? 0;
       const isDragging = draggingNodeId !== null &&
-        (node.id === draggingNodeId || isAncestorOf(draggingNodeId, node.id, nodes));
+        (node.id === draggingNodeId || isAncestorOf(draggingNodeId, node.id, nodeIndex));
 
-      return {
+      result.push({
         ...node,
         parentId: undefined,
         extent: undefined,
@@ -645,19 +757,22 @@ const App = () => {
           semanticScale: effectiveScale,
           screenWidth: t.screenWidth,
           screenHeight: t.screenHeight,
-          minWidth: mins?.minWidth,
-          minHeight: mins?.minHeight,
+          minWidth: extent && extent.width * effectiveScale,
+          minHeight: extent && extent.height * effectiveScale,
           hasProxy: node.type === 'stateNode' && proxyTargetIds.has(node.id),
           isCompound: node.type === 'stateNode' && parentStateIds.has(node.id),
+          submachinePreview: submachinePreviews.get(node.id),
           targetSelected: node.type === 'proxyNode' && selectedNodeIds.has((node.data as unknown as { targetId: string }).targetId),
-          ...(isViewMode && node.type === 'stateNode' && activeNodeIds.has(node.id) ? {
+          ...((isViewMode || replayActiveSince) && node.type === 'stateNode' && activeNodeIds.has(node.id) ? {
             isActive: leafActiveNodeIds.has(node.id),
             isAncestorActive: !leafActiveNodeIds.has(node.id),
-            activeTimerMs: activeSince.has(node.id) ? (Date.now() - activeSince.get(node.id)!) : 0,
+            activeTimerMs: replayActiveSince
+              ? (replayActiveSince.get(node.id) ?? 0)
+              : (activeSince.has(node.id) ? (Date.now() - activeSince.get(node.id)!) : 0),
           } : {}),
         },
-      };
-    }).filter(Boolean) as typeof nodes;
+      });
+    }
 
     // Sort by DFS preorder so DOM order matches tree order (z-index does the actual stacking)
     result.sort((a, b) => (dfsOrder.get(a.id) ?? 0) - (dfsOrder.get(b.id) ?? 0));
@@ -666,12 +781,12 @@ const App = () => {
     const initialMarkers: typeof nodes = [];
     for (const node of nodes) {
       if (node.data.initial && node.data.initialMarkerPos) {
-        const parentBounds = getAbsoluteNodeBounds(node.id, nodes);
+        const parentBounds = worldLayout.bounds.get(node.id);
         if (!parentBounds) continue;
 
         // Check if target state is visible (marker stays as long as target is visible)
         const targetId = node.data.initial as string;
-        const targetVisible = intrinsicallyVisible.has(targetId) || connectedToVisible.has(targetId);
+        const targetVisible = shownTransforms.has(targetId);
         if (!targetVisible) continue;
 
         // Calculate marker position in screen coordinates
@@ -686,7 +801,7 @@ const App = () => {
 
         // Fixed size marker (15px)
         const markerSize = 15;
-        const depth = calculateNodeDepth(node.id, nodes);
+        const depth = worldLayout.depth.get(node.id) ?? 0;
         const markerId = `initial-marker-${node.id}`;
         // Use dragging position if this marker is being dragged
         const markerPosition = (draggingMarkerId === markerId && draggingMarkerPos)
@@ -715,8 +830,8 @@ const App = () => {
     // Add root initial marker (for top-level states)
     if (machineProperties.initial && machineProperties.initialMarkerPos) {
       const targetId = machineProperties.initial;
-      const targetVisible = intrinsicallyVisible.has(targetId) || connectedToVisible.has(targetId);
-      const targetNode = nodes.find(n => n.id === targetId);
+      const targetVisible = shownTransforms.has(targetId);
+      const targetNode = nodeIndex.byId.get(targetId);
       if (targetNode && !targetNode.parentId && targetVisible) {
         // Calculate marker position in screen coordinates
         const markerWorldX = machineProperties.initialMarkerPos.x;
@@ -755,11 +870,11 @@ const App = () => {
     const historyMarkers: typeof nodes = [];
     for (const node of nodes) {
       if (node.data.history && node.data.historyMarkerPos) {
-        const stateBounds = getAbsoluteNodeBounds(node.id, nodes);
+        const stateBounds = worldLayout.bounds.get(node.id);
         if (!stateBounds) continue;
 
         // Check if this state is visible
-        const stateVisible = intrinsicallyVisible.has(node.id) || connectedToVisible.has(node.id);
+        const stateVisible = shownTransforms.has(node.id);
         if (!stateVisible) continue;
 
         const markerWorldX = stateBounds.x + (node.data.historyMarkerPos as { x: number; y: number }).x;
@@ -773,7 +888,7 @@ const App = () => {
         // Hide if too small (same rule as states)
         if (screenSize < SEMANTIC_ZOOM_CONFIG.MIN_VISIBLE_SIZE) continue;
 
-        const depth = calculateNodeDepth(node.id, nodes);
+        const depth = worldLayout.depth.get(node.id) ?? 0;
         const markerId = `history-marker-${node.id}`;
         const markerPosition = (draggingMarkerId === markerId && draggingMarkerPos)
           ? draggingMarkerPos
@@ -832,7 +947,7 @@ const App = () => {
     }
 
     return [...result, ...initialMarkers, ...historyMarkers];
-  }, [nodes, edges, effectiveScale, effectivePan, viewportSize, machineProperties, draggingMarkerId, draggingMarkerPos, selectedMarkerId, draggingNodeId, isViewMode, activeNodeIds, leafActiveNodeIds, activeSince, viewModeTick]);
+  }, [nodes, edges, nodeIndex, worldLayout, nodeFlags, effectiveScale, effectivePan, viewportSize, machineProperties, draggingMarkerId, draggingMarkerPos, selectedMarkerId, draggingNodeId, isViewMode, activeNodeIds, leafActiveNodeIds, activeSince, viewModeTick, replayActiveSince, submachinePreviews]);
 
   // Build a set of visible node IDs for edge filtering
   const visibleNodeIds = useMemo(() => {
@@ -850,10 +965,10 @@ const App = () => {
         // Check if this is an ancestor-descendant relationship (any level)
         // sourceIsAncestor: source is an ancestor of target (source is parent/grandparent/etc of target)
         // targetIsAncestor: target is an ancestor of source (target is parent/grandparent/etc of source)
-        const sourceIsAncestor = isAncestorOf(edge.source, edge.target, nodes);
-        const targetIsAncestor = isAncestorOf(edge.target, edge.source, nodes);
-        const sourceDepth = calculateNodeDepth(edge.source, nodes);
-        const targetDepth = calculateNodeDepth(edge.target, nodes);
+        const sourceIsAncestor = isAncestorOf(edge.source, edge.target, nodeIndex);
+        const targetIsAncestor = isAncestorOf(edge.target, edge.source, nodeIndex);
+        const sourceDepth = worldLayout.depth.get(edge.source) ?? 0;
+        const targetDepth = worldLayout.depth.get(edge.target) ?? 0;
 
         return {
           ...edge,
@@ -871,23 +986,7 @@ const App = () => {
       });
 
     // Compute warning flags: transitions after a guardless one from the same source are unreachable
-    const warningEdgeIds = new Set<string>();
-    const edgesBySource = new Map<string, typeof regularEdges>();
-    for (const edge of regularEdges) {
-      const list = edgesBySource.get(edge.source) || [];
-      list.push(edge);
-      edgesBySource.set(edge.source, list);
-    }
-    for (const siblings of edgesBySource.values()) {
-      let seenGuardless = false;
-      for (const edge of siblings) {
-        if (seenGuardless) {
-          warningEdgeIds.add(edge.id);
-        } else if (!edge.data?.guard) {
-          seenGuardless = true;
-        }
-      }
-    }
+    const warningEdgeIds = findShadowedEdges(regularEdges);
     // Apply warning flags
     for (let i = 0; i < regularEdges.length; i++) {
       if (warningEdgeIds.has(regularEdges[i].id)) {
@@ -906,13 +1005,13 @@ const App = () => {
         const targetId = node.data.initial as string;
 
         // Check if both marker and target are visible
-        const markerVisible = transformedNodes.some(n => n.id === markerId);
+        const markerVisible = visibleNodeIds.has(markerId);
         const targetVisible = visibleNodeIds.has(targetId);
 
         if (markerVisible && targetVisible) {
           // Determine best handle based on relative positions
-          const parentBounds = getAbsoluteNodeBounds(node.id, nodes);
-          const targetBounds = getAbsoluteNodeBounds(targetId, nodes);
+          const parentBounds = worldLayout.bounds.get(node.id);
+          const targetBounds = worldLayout.bounds.get(targetId);
           if (parentBounds && targetBounds) {
             const markerPos = node.data.initialMarkerPos as { x: number; y: number };
             const markerX = parentBounds.x + markerPos.x;
@@ -970,11 +1069,11 @@ const App = () => {
       const markerId = 'initial-marker-root';
       const targetId = machineProperties.initial;
 
-      const markerVisible = transformedNodes.some(n => n.id === markerId);
+      const markerVisible = visibleNodeIds.has(markerId);
       const targetVisible = visibleNodeIds.has(targetId);
 
       if (markerVisible && targetVisible) {
-        const targetBounds = getAbsoluteNodeBounds(targetId, nodes);
+        const targetBounds = worldLayout.bounds.get(targetId);
         if (targetBounds) {
           const markerX = machineProperties.initialMarkerPos.x;
           const markerY = machineProperties.initialMarkerPos.y;
@@ -1027,15 +1126,64 @@ const App = () => {
 
     const result = [...regularEdges, ...initialEdges];
     return result;
-  }, [edges, visibleNodeIds, effectiveScale, nodes, transformedNodes, machineProperties, isViewMode]);
+  }, [edges, visibleNodeIds, effectiveScale, nodes, nodeIndex, worldLayout, machineProperties, isViewMode]);
 
   const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
 
-  const displayEdges = useMemo(() =>
-    hoveredEdgeId
-      ? transformedEdges.map(e => e.id === hoveredEdgeId ? { ...e, data: { ...e.data, highlighted: true } } : e)
-      : transformedEdges,
-  [transformedEdges, hoveredEdgeId]);
+  // Removed states from a compared version, drawn as ghosts in screen coordinates
+  const ghostNodes = useMemo(() => (diffOverlay?.ghostNodes ?? []).map((ghost, i) => {
+    const width = (ghost.style?.width as number) * effectiveScale;
+    const height = (ghost.style?.height as number) * effectiveScale;
+    return {
+      ...ghost,
+      position: { x: ghost.position.x * effectiveScale + effectivePan.x, y: ghost.position.y * effectiveScale + effectivePan.y },
+      style: { ...ghost.style, width, height },
+      className: 'diff-ghost',
+      zIndex: 4000 + i,
+      selectable: false,
+      draggable: false,
+      connectable: false,
+      data: { ...ghost.data, semanticScale: effectiveScale, screenWidth: width, screenHeight: height },
+    };
+  }), [diffOverlay, effectiveScale, effectivePan]);
+
+  const displayEdges = useMemo(() => {
+    const edgesShown = hoveredEdgeId || breakpointIds.size > 0 || replayEdgeIds.size > 0 || coverageOverlay || diffOverlay
+      ? transformedEdges.map(e => {
+        const highlighted = e.id === hoveredEdgeId || replayEdgeIds.has(e.id);
+        const hasBreakpoint = breakpointIds.has(e.id);
+        const coverage = coverageOverlay?.edges.get(e.id);
+        const diffStatus = diffOverlay?.edges.get(e.id);
+        return highlighted || hasBreakpoint || coverage || diffStatus
+          ? { ...e, data: { ...e.data, highlighted, hasBreakpoint, coverage, diffStatus } } : e;
+      })
+      : transformedEdges;
+    if (!diffOverlay || diffOverlay.ghostEdges.length === 0) return edgesShown;
+    const ghostIds = new Set(ghostNodes.map(n => n.id));
+    const shown = (id: string) => visibleNodeIds.has(id) || ghostIds.has(id);
+    const ghostEdges = diffOverlay.ghostEdges
+      .filter(e => shown(e.source) && shown(e.target))
+      .map(e => ({
+        ...e,
+        type: 'spline',
+        className: 'diff-ghost',
+        selectable: false,
+        data: { ...e.data, effectiveScale },
+      }));
+    return [...edgesShown, ...ghostEdges];
+  }, [transformedEdges, hoveredEdgeId, breakpointIds, replayEdgeIds, coverageOverlay, diffOverlay, ghostNodes, visibleNodeIds, effectiveScale]);
+
+  const displayNodes = useMemo(() => {
+    const nodesShown = breakpointIds.size > 0 || coverageOverlay || diffOverlay
+      ? transformedNodes.map(n => {
+        const hasBreakpoint = breakpointIds.has(n.id);
+        const coverage = coverageOverlay?.nodes.get(n.id);
+        const diffStatus = diffOverlay?.nodes.get(n.id);
+        return hasBreakpoint || coverage || diffStatus ? { ...n, data: { ...n.data, hasBreakpoint, coverage, diffStatus } } : n;
+      })
+      : transformedNodes;
+    return ghostNodes.length > 0 ? [...nodesShown, ...ghostNodes] : nodesShown;
+  }, [transformedNodes, breakpointIds, coverageOverlay, diffOverlay, ghostNodes]);
 
   // Custom wheel handler for semantic zoom/pan (added manually to avoid passive listener)
   useEffect(() => {
@@ -1301,14 +1449,6 @@ const App = () => {
     }
   }, [nodes, viewportSize, setFocusNode, startAnimation]);
 
-  // Zoom to fit all nodes after a file is loaded
-  useEffect(() => {
-    if (shouldZoomToFit && nodes.length > 0) {
-      setShouldZoomToFit(false);
-      handleSemanticZoomToSelected();
-    }
-  }, [shouldZoomToFit, nodes, handleSemanticZoomToSelected]);
-
   // Navigate up one level (Escape key)
   const handleNavigateUp = useCallback(() => {
     if (!focusNodeId) return;
@@ -1412,8 +1552,17 @@ const App = () => {
     defaultShowExit: false,
     defaultShowDo: false,
     defaultShowAnnotation: false,
+    restoreSession: false,
+    keepUndoHistory: false,
+    shortcuts: {},
   });
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
+  const shortcutBindings = useMemo(() => resolveBindings(settings.shortcuts), [settings.shortcuts]);
+  const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+  const shortcutHint = (command: ShortcutCommand) => {
+    const binding = formatBinding(shortcutBindings[command], isMac);
+    return binding ? ` (${binding})` : '';
+  };
   const [versionPrompt, setVersionPrompt] = useState<{
     filePath: string | null;
     resolve: (choice: MissingVersionPolicy | null) => void;
@@ -1462,7 +1611,7 @@ const App = () => {
       style: { width: worldW, height: worldH },
       selected: true,
     };
-    saveSnapshot();
+    saveSnapshot(`Add state ${newNode.data.label}`);
     setNodes((nds) => nds.map((n) => ({ ...n, selected: false })).concat(newNode));
     setSelectedTreeItem(newNode.id);
     setIsAddingNode(false);
@@ -1499,14 +1648,15 @@ const App = () => {
     setFocusName(true);
   }, [handleDuplicateWithExternalEdgesBase]);
 
-  // Subscribe to Edit menu IPC commands from the native menu bar
+  // Subscribe to Edit menu IPC commands from the native menu bar. Their
+  // accelerators also fire while typing, where undo and redo apply to the text.
   useEffect(() => {
     const cleanups = [
-      window.fileAPI.onMenuUndo(handleUndo),
-      window.fileAPI.onMenuRedo(handleRedo),
+      window.fileAPI.onMenuUndo(() => (isTextInputFocused() ? document.execCommand('undo') : handleUndo())),
+      window.fileAPI.onMenuRedo(() => (isTextInputFocused() ? document.execCommand('redo') : handleRedo())),
       window.fileAPI.onMenuCopy(handleCopy),
       window.fileAPI.onMenuPaste(handlePaste),
-      window.fileAPI.onMenuDuplicate(handleDuplicate),
+      window.fileAPI.onMenuDuplicate(() => { if (!isTextInputFocused()) handleDuplicate(); }),
     ];
     return () => cleanups.forEach(c => c());
   }, [handleUndo, handleRedo, handleCopy, handlePaste, handleDuplicate]);
@@ -1531,16 +1681,61 @@ const App = () => {
 
 
 
-  const onSaved = useCallback(() => setIsDirty(false), []);
-  const onLoaded = useCallback(() => { setIsDirty(false); setShouldZoomToFit(true); }, []);
+  const { saveHistory, loadHistory } = useUndoHistoryFile(settings.keepUndoHistory, exportHistory, importHistory);
+  const onSaved = useCallback((filePath: string, content: string) => {
+    setIsDirty(false);
+    saveHistory(filePath, content);
+  }, [saveHistory]);
+  const onLoaded = useCallback((source?: { content: string; filePath: string | null }) => {
+    setIsDirty(false); setShouldZoomToFit(true); setBreakpointIds(new Set()); clearTrace(); clearCoverage();
+    if (source) loadHistory(source.filePath, source.content);
+  }, [clearTrace, clearCoverage, loadHistory]);
 
   // File operations
-  const { handleSave, handleOpen, handleNew } = useFileOperations(
+  const { handleSave, handleOpen, handleNew, loadFromContent } = useFileOperations(
     nodes, edges, rootHistory, machineProperties, currentFilePath,
     setNodes, setEdges, setRootHistory, setMachineProperties, setSelectedTreeItem, setCurrentFilePath, clearUndoRedo,
     onSaved, onLoaded, promptForVersionPolicy,
   );
 
+  const { recovered, restoreRecovered, discardRecovered, postponeRecovered } = useRecovery(
+    nodes, edges, rootHistory, machineProperties, currentFilePath, isDirty, setIsDirty, loadFromContent, handleSave,
+  );
+
+  const { externalChange, reloadedPath, reloadExternal, keepMine, clearReloaded } = useExternalChanges(
+    currentFilePath, isDirty, loadFromContent,
+  );
+
+  const { takeRestoredView } = useSession(currentFilePath, focusNodeId, zoomLevel, panOffset, loadFromContent);
+
+  // Zoom to fit all nodes after a file is loaded, or go back to where a
+  // restored window was left
+  useEffect(() => {
+    if (shouldZoomToFit && nodes.length > 0) {
+      setShouldZoomToFit(false);
+      const view = takeRestoredView();
+      if (view) {
+        setFocusNode(view.focusNodeId && nodes.some(n => n.id === view.focusNodeId) ? view.focusNodeId : null);
+        setZoomLevel(view.zoomLevel);
+        setPan(view.panOffset.x, view.panOffset.y);
+      } else {
+        handleSemanticZoomToSelected();
+      }
+    }
+  }, [shouldZoomToFit, nodes, handleSemanticZoomToSelected, takeRestoredView, setFocusNode, setZoomLevel, setPan]);
+
+  // Three-way merge; the result replaces the machine as one undoable edit
+  const { mergeSession, closeMerge } = useMerge(nodes, edges, rootHistory, machineProperties, currentFilePath, loadFromContent);
+  const applyMerge = useCallback((model: DiffModel) => {
+    saveSnapshot(mergeSession ? `Merge ${mergeSession.theirsPath.replace(/^.*[\\/]/, '')}` : 'Merge');
+    setNodes(model.nodes);
+    setEdges(model.edges);
+    setRootHistory(!!model.rootHistory);
+    setMachineProperties(model.machineProperties);
+    resetNameCounters(model.nodes);
+    closeMerge();
+  }, [mergeSession, saveSnapshot, setNodes, setEdges, setRootHistory, setMachineProperties, closeMerge]);
+
   const handleSaveWithFlash = useCallback(async () => {
     setSaveFlash(true);
     setTimeout(() => setSaveFlash(false), 200);
@@ -1554,7 +1749,8 @@ const App = () => {
       // Snapshot before node removal
       const hasRemove = changes.some(c => c.type === 'remove' && !c.id?.startsWith('initial-marker') && !c.id?.startsWith('history-marker'));
       if (hasRemove) {
-        saveSnapshot();
+        const removedIds = new Set(changes.filter((c: { type: string }) => c.type === 'remove').map((c: { id: string }) => c.id));
+        saveSnapshot(`Delete ${describeNodes(nodes.filter(n => removedIds.has(n.id)))}`);
         // Cascade delete: also remove all descendants of removed nodes
         const removeIds = new Set(changes.filter(c => c.type === 'remove').map(c => c.id));
         for (const id of removeIds) {
@@ -1616,7 +1812,7 @@ const App = () => {
         return true;
       });
       if (historyRemoves.length > 0) {
-        saveSnapshot();
+        saveSnapshot('Remove history');
         for (const markerId of historyRemoves) {
           if (markerId === 'history-marker-root') {
             setRootHistory(false);
@@ -1887,7 +2083,8 @@ const App = () => {
     (changes) => {
       const hasRemove = changes.some(c => c.type === 'remove' || c.type === 'reset');
       if (hasRemove) {
-        saveSnapshot();
+        const removed = edges.filter(e => changes.some((c: { type: string; id?: string }) => c.type === 'remove' && c.id === e.id));
+        saveSnapshot(removed.length === 1 ? `Delete transition ${describeEdge(removed[0], nodes)}` : `Delete ${countOf(removed.length, 'transition')}`);
       }
       onEdgesChange(changes);
       changes.forEach(change => {
@@ -1898,7 +2095,7 @@ const App = () => {
         }
       });
     },
-    [onEdgesChange, selectedTreeItem, saveSnapshot]
+    [onEdgesChange, selectedTreeItem, nodes, edges, saveSnapshot]
   );
 
   const handleTreeSelect = useCallback((itemId, itemType) => {
@@ -1947,7 +2144,8 @@ const App = () => {
   }, [setNodes, setEdges]);
 
   const handleTreeReorder = useCallback((draggedId: string, targetId: string, insertBefore: boolean) => {
-    saveSnapshot();
+    const dragged = nodes.find(n => n.id === draggedId);
+    saveSnapshot(`Reorder ${dragged ? nodeName(dragged) : 'state'}`);
     setNodes(prevNodes => {
       const dragged = prevNodes.find(n => n.id === draggedId);
       if (!dragged) return prevNodes;
@@ -1959,10 +2157,14 @@ const App = () => {
       return newNodes;
     });
     setIsDirty(true);
-  }, [saveSnapshot, setNodes, setIsDirty]);
+  }, [nodes, saveSnapshot, setNodes, setIsDirty]);
 
   const handlePropertyChange = useCallback((nodeId, propertyName, newValue) => {
-    saveSnapshot();
+    const changed = nodes.find(n => n.id === nodeId);
+    const name = nodeId === '/' ? 'machine' : changed ? nodeName(changed) : nodeId;
+    saveSnapshot(propertyName === 'label' && changed
+      ? `Rename ${name} → ${String(newValue).trim()}`
+      : `Change ${propertyName} of ${name}`);
     if (nodeId === '/') {
       if (propertyName === 'history') {
         setRootHistory(newValue);
@@ -2069,6 +2271,30 @@ const App = () => {
     }
   }, [viewportSize, currentFilePath]);
 
+  // SVG export is rendered from the model, so it does not depend on the current view
+  const [isSvgExportOpen, setIsSvgExportOpen] = useState(false);
+  const svgSelection = useMemo(() => {
+    const selected = nodes.filter(n => n.selected && n.type === 'stateNode');
+    return selected.length === 1 ? { id: selected[0].id, label: selected[0].data.label as string } : null;
+  }, [nodes]);
+
+  const handleExportSvg = useCallback(async (options: SvgOptions) => {
+    setIsSvgExportOpen(false);
+    const svg = renderSvg(nodes, edges, machineProperties, options);
+    const base = currentFilePath ? currentFilePath.replace(/\.(smb|yaml|yml)$/i, '') : 'statemachine';
+    const rootLabel = options.rootId ? nodes.find(n => n.id === options.rootId)?.data.label as string | undefined : undefined;
+    const suffix = rootLabel ? '-' + rootLabel.replace(/[^\w-]/g, '_') : '';
+    const result = await window.fileAPI.saveFile(svg, `${base}${suffix}.svg`);
+    if (result.error) {
+      alert('Error exporting SVG: ' + result.error);
+    }
+  }, [nodes, edges, machineProperties, currentFilePath]);
+
+  useEffect(() => {
+    const cleanup = window.fileAPI.onExportSvg(() => setIsSvgExportOpen(true));
+    return cleanup;
+  }, []);
+
   // Search & Replace
   const searchSelectNode = useCallback((nodeId: string) => {
     setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === nodeId })));
@@ -2132,6 +2358,52 @@ const App = () => {
     zoomToBounds({ x: minX, y: minY, width: maxX - minX, height: maxY - minY }, 'fit');
   }, [edges, nodes, zoomToBounds]);
 
+  const handleSelectDiffItem = useCallback((item: DiffItem) => {
+    setSelectedDiffKey(item.key);
+    if (item.bounds) zoomToBounds(item.bounds, item.title.startsWith('transition') ? 'fit' : 'fill30');
+  }, [zoomToBounds]);
+
+  // Model validation (Problems panel), kept up to date while it is open
+  const [isProblemsOpen, setIsProblemsOpen] = useState(false);
+  const [problemsDock, setProblemsDock] = useState<ProblemsDock>('bottom');
+  const diagnostics = useDiagnostics(nodes, edges, machineProperties, isProblemsOpen);
+
+  const handleNavigateToProblem = useCallback((problem: Diagnostic) => {
+    if (problem.nodeId) {
+      searchSelectNode(problem.nodeId);
+      searchZoomToNode(problem.nodeId);
+    } else if (problem.edgeId) {
+      searchSelectEdge(problem.edgeId);
+      searchZoomToEdge(problem.edgeId);
+    }
+  }, [searchSelectNode, searchZoomToNode, searchSelectEdge, searchZoomToEdge]);
+
+  const handleQuickFix = useCallback((problem: Diagnostic) => {
+    saveSnapshot(problem.fix?.label ?? 'Quick fix');
+    const fixed = applyQuickFix(problem, { nodes, edges, machineProperties });
+    setNodes(fixed.nodes);
+    setEdges(fixed.edges);
+    setMachineProperties(fixed.machineProperties);
+  }, [nodes, edges, machineProperties, saveSnapshot, setNodes, setEdges]);
+
+  // The composite state auto-layout applies to: the given one, else the single
+  // selected state if it has children; undefined means the whole machine
+  const selectedComposite = useMemo(() => {
+    const selected = nodes.filter(n => n.selected);
+    if (selected.length !== 1 || selected[0].type !== 'stateNode') return undefined;
+    return nodes.some(n => n.parentId === selected[0].id) ? selected[0].id : undefined;
+  }, [nodes]);
+
+  const handleAutoLayout = useCallback((rootId?: string) => {
+    const root = rootId ? nodes.find(n => n.id === rootId) : undefined;
+    saveSnapshot(root ? `Lay out ${nodeName(root)}` : 'Lay out machine');
+    const result = autoLayout(nodes, edges, machineProperties, rootId);
+    setNodes(result.nodes);
+    setEdges(result.edges);
+    setMachineProperties(result.machineProperties);
+    if (!rootId) setShouldZoomToFit(true);
+  }, [nodes, edges, machineProperties, saveSnapshot, setNodes, setEdges]);
+
   const search = useSearchReplace({
     nodes, edges, machineProperties,
     setNodes, setEdges,
@@ -2145,8 +2417,9 @@ const App = () => {
 
   // Keyboard shortcuts
   useKeyboardShortcuts({
-    handleCopy, handlePaste, handleDuplicate, handleDuplicateWithExternalEdges, handleSave: handleSaveWithFlash, handleOpen,
-    handleUndo, handleRedo, handleSemanticZoomToSelected, handleNavigateUp,
+    bindings: shortcutBindings,
+    handleCopy, handlePaste, handleDuplicateWithExternalEdges, handleSave: handleSaveWithFlash,
+    handleSemanticZoomToSelected, handleNavigateUp,
     handleGroupStates, handleUngroupState, saveSnapshot,
     handleCopyImage, handleExportPdf,
     handleOpenSearch: search.openSearch,
@@ -2203,7 +2476,7 @@ const App = () => {
       style: { width: stateWidth, height: stateHeight },
       selected: true,
     };
-    saveSnapshot();
+    saveSnapshot(`Add state ${newNode.data.label}`);
     setNodes((nds) => nds.map((n) => ({ ...n, selected: false })).concat(newNode));
     setSelectedTreeItem(newNode.id);
     setFocusName(true);
@@ -2220,7 +2493,7 @@ const App = () => {
       data: { label: getNextDecisionName() },
       style: { width: decisionSize, height: decisionSize },
     };
-    saveSnapshot();
+    saveSnapshot(`Add ${'isAnd' in newNode.data ? 'AND' : 'decision'} ${newNode.data.label}`);
     setNodes((nds) => nds.concat(newNode));
   }, [viewportSize, effectiveScale, saveSnapshot, setNodes]);
 
@@ -2235,7 +2508,7 @@ const App = () => {
       data: { label: getNextAndName(), isAnd: true },
       style: { width: decisionSize, height: decisionSize },
     };
-    saveSnapshot();
+    saveSnapshot(`Add ${'isAnd' in newNode.data ? 'AND' : 'decision'} ${newNode.data.label}`);
     setNodes((nds) => nds.concat(newNode));
   }, [viewportSize, effectiveScale, saveSnapshot, setNodes]);
 
@@ -2250,7 +2523,13 @@ const App = () => {
 
   const onNodeContextMenu = useCallback((event: React.MouseEvent, node: typeof nodes[0]) => {
     event.preventDefault();
-    if (isViewMode) return;
+    if (isViewMode) {
+      // Only breakpoints can be toggled while viewing
+      if (node.type === 'stateNode' && !node.id.startsWith('history-marker')) {
+        setContextMenu({ mouseX: event.clientX, mouseY: event.clientY, worldX: 0, worldY: 0, type: 'stateNode', nodeId: node.id, edgeId: null });
+      }
+      return;
+    }
     if (node.id.startsWith('initial-marker')) return;
     // Select the right-clicked node so Copy/Duplicate work on it
     if (!node.id.startsWith('history-marker')) {
@@ -2270,7 +2549,11 @@ const App = () => {
 
   const onEdgeContextMenu = useCallback((event: React.MouseEvent, edge: typeof edges[0]) => {
     event.preventDefault();
-    if (isViewMode) return;
+    if (edge.id.startsWith('initial-edge')) return;
+    if (isViewMode) {
+      setContextMenu({ mouseX: event.clientX, mouseY: event.clientY, worldX: 0, worldY: 0, type: 'edge', nodeId: null, edgeId: edge.id });
+      return;
+    }
     const world = screenToWorld(event.clientX, event.clientY);
     setContextMenu({ mouseX: event.clientX, mouseY: event.clientY, worldX: world.x, worldY: world.y, type: 'edge', nodeId: null, edgeId: edge.id });
   }, [screenToWorld, isViewMode]);
@@ -2299,7 +2582,7 @@ const App = () => {
           const markerSize = (viewportSize.width * 0.03) / effectiveScale;
 
           // Store in machineProperties
-          saveSnapshot();
+          saveSnapshot(`Set initial state ${nodeName(targetNode)}`);
           setMachineProperties(prev => ({
             ...prev,
             initial: initialTargetId,
@@ -2332,7 +2615,7 @@ const App = () => {
 
         const markerSize = (viewportSize.width * 0.03) / effectiveScale;
 
-        saveSnapshot();
+        saveSnapshot('Add history to machine');
         setRootHistory(true);
         setMachineProperties(prev => ({
           ...prev,
@@ -2368,12 +2651,13 @@ const App = () => {
         const proxyHeight = 40 / effectiveScale;
 
         const newProxyId = getNextId();
+        const proxyName = getNextProxyName();
         const newProxy = {
           id: newProxyId,
           type: 'proxyNode',
           position: { x: worldX, y: worldY },
           data: {
-            name: getNextProxyName(),
+            name: proxyName,
             targetId: proxyTargetId,
             targetPath,
             label: computeProxyLabel('', targetPath), // root-level: absolute path
@@ -2383,7 +2667,7 @@ const App = () => {
           selected: false,
         };
 
-        saveSnapshot();
+        saveSnapshot(`Add proxy ${proxyName}`);
         setNodes((nds) => [...nds, newProxy]);
         if (proxySourceEdgeId) {
           const sourceId = edges.find(e => e.id === proxySourceEdgeId)?.source ?? '';
@@ -2419,7 +2703,7 @@ const App = () => {
           data: { label: getNextDecisionName() },
           style: { width: decisionSize, height: decisionSize },
         };
-        saveSnapshot();
+        saveSnapshot(`Add ${'isAnd' in newNode.data ? 'AND' : 'decision'} ${newNode.data.label}`);
         setNodes((nds) => nds.concat(newNode));
         setIsAddingDecision(false);
       } else if (isAddingAnd) {
@@ -2441,7 +2725,7 @@ const App = () => {
           data: { label: getNextAndName(), isAnd: true },
           style: { width: decisionSize, height: decisionSize },
         };
-        saveSnapshot();
+        saveSnapshot(`Add ${'isAnd' in newNode.data ? 'AND' : 'decision'} ${newNode.data.label}`);
         setNodes((nds) => nds.concat(newNode));
         setIsAddingAnd(false);
       } else if (isAddingNode) {
@@ -2467,7 +2751,7 @@ const App = () => {
           style: { width: stateWidth, height: stateHeight },
           selected: true,
         };
-        saveSnapshot();
+        saveSnapshot(`Add state ${newNode.data.label}`);
         setNodes((nds) => nds.map((n) => ({ ...n, selected: false })).concat(newNode));
         setSelectedTreeItem(newNode.id);
         setIsAddingNode(false);
@@ -2514,7 +2798,11 @@ const App = () => {
       setDraggingNodeId(null);
       // Push the pre-drag snapshot for undo and mark dirty
       if (dragStartSnapshot.current) {
-        pushSnapshot(dragStartSnapshot.current);
+        const moved = nodes.filter(n => n.selected);
+        const label = node.id.startsWith('initial-marker') ? 'Move initial marker'
+          : node.id.startsWith('history-marker') ? 'Move history marker'
+          : `Move ${moved.length > 1 ? describeNodes(moved) : nodeName(node)}`;
+        pushSnapshot(dragStartSnapshot.current, label);
         dragStartSnapshot.current = null;
         setIsDirty(true);
       }
@@ -2624,7 +2912,7 @@ const App = () => {
 
       // Handle retargeting a transition (Shift+T)
       if (isRetargetingTransition && retargetEdgeId) {
-        saveSnapshot();
+        saveSnapshot(`Retarget transition to ${nodeName(node)}`);
         const { sourceHandle, targetHandle } = calculateBestHandles(
           edges.find(e => e.id === retargetEdgeId)?.source ?? '',
           node.id,
@@ -2646,7 +2934,7 @@ const App = () => {
       if (isResourcingTransition && retargetEdgeId) {
         // Proxy nodes cannot be sources
         if (node.type === 'proxyNode') return;
-        saveSnapshot();
+        saveSnapshot(`Move transition source to ${nodeName(node)}`);
         const { sourceHandle, targetHandle } = calculateBestHandles(
           node.id,
           edges.find(e => e.id === retargetEdgeId)?.target ?? '',
@@ -2687,7 +2975,7 @@ const App = () => {
             const markerSize = parentBounds.width * 0.03;
 
             // Update parent node with initial info
-            saveSnapshot();
+            saveSnapshot(`Set initial state ${nodeName(targetNode)}`);
             setNodes((nds) =>
               nds.map((n) => {
                 if (n.id === node.id) {
@@ -2731,7 +3019,7 @@ const App = () => {
           const relativeY = worldY - stateBounds.y;
           const markerSize = Math.min(stateBounds.width, stateBounds.height) * 0.15;
 
-          saveSnapshot();
+          saveSnapshot(`Add history to ${nodeName(node)}`);
           setNodes((nds) =>
             nds.map((n) => {
               if (n.id === node.id) {
@@ -2868,7 +3156,7 @@ const App = () => {
           style: { width: scaledNodeWidth, height: scaledNodeHeight },
           selected: true,
         };
-        saveSnapshot();
+        saveSnapshot(`Add state ${newNode.data.label}`);
         setNodes((nds) => nds.map((n) => ({ ...n, selected: false })).concat(newNode));
         setSelectedTreeItem(newNode.id);
         setIsAddingNode(false);
@@ -2923,7 +3211,7 @@ const App = () => {
           data: placingAnd ? { label: getNextAndName(), isAnd: true } : { label: getNextDecisionName() },
           style: { width: decisionSize, height: decisionSize },
         };
-        saveSnapshot();
+        saveSnapshot(`Add ${'isAnd' in newNode.data ? 'AND' : 'decision'} ${newNode.data.label}`);
         setNodes((nds) => nds.concat(newNode));
         if (placingAnd) setIsAddingAnd(false); else setIsAddingDecision(false);
         event.stopPropagation();
@@ -2971,6 +3259,7 @@ const App = () => {
 
         const parentPath = computeNodePath(node.id, nodes);
         const newProxyId = getNextId();
+        const proxyName = getNextProxyName();
         const newProxy = {
           id: newProxyId,
           type: 'proxyNode',
@@ -2978,7 +3267,7 @@ const App = () => {
           parentId: node.id,
           extent: 'parent',
           data: {
-            name: getNextProxyName(),
+            name: proxyName,
             targetId: proxyTargetId,
             targetPath,
             label: computeProxyLabel(parentPath, targetPath), // relative from parent context
@@ -2988,7 +3277,7 @@ const App = () => {
           selected: false,
         };
 
-        saveSnapshot();
+        saveSnapshot(`Add proxy ${proxyName}`);
         setNodes((nds) => [...nds, newProxy]);
         if (proxySourceEdgeId) {
           const sourceId = edges.find(e => e.id === proxySourceEdgeId)?.source ?? '';
@@ -3008,11 +3297,23 @@ const App = () => {
     [isAddingNode, isAddingDecision, isAddingAnd, isAddingProxy, proxyTargetId, proxySourceEdgeId, isAddingTransition, transitionSourceId, createTransition, isUngroupingMode, handleUngroupState, isSettingInitial, initialTargetId, isSettingHistory, isRetargetingTransition, isResourcingTransition, retargetEdgeId, setNodes, setEdges, setSelectedTreeItem, nodes, edges, effectiveScale, effectivePan, viewportSize, saveSnapshot]
   );
 
+  // Rendered under the canvas or beside it, depending on where it is docked
+  const problemsPanel = (
+    <ProblemsPanel
+      diagnostics={diagnostics}
+      dock={problemsDock}
+      onNavigate={handleNavigateToProblem}
+      onQuickFix={handleQuickFix}
+      onToggleDock={() => setProblemsDock(dock => dock === 'bottom' ? 'right' : 'bottom')}
+      onClose={() => setIsProblemsOpen(false)}
+    />
+  );
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh', width: '100vw' }}>
       <AppBar className="no-print" position="static" color="default" elevation={1}>
         <Toolbar variant="dense" sx={{ gap: 1 }}>
-          <Tooltip title="New (Cmd+N)">
+          <Tooltip title={`New${shortcutHint('newWindow')}`}>
             <span>
             <Button
               variant="outlined"
@@ -3025,7 +3326,7 @@ const App = () => {
             </Button>
             </span>
           </Tooltip>
-          <Tooltip title="Open (Cmd+O)">
+          <Tooltip title={`Open${shortcutHint('open')}`}>
             <span>
             <Button
               variant="outlined"
@@ -3038,7 +3339,7 @@ const App = () => {
             </Button>
             </span>
           </Tooltip>
-          <Tooltip title="Save (Cmd+S)">
+          <Tooltip title={`Save${shortcutHint('save')}`}>
             <Button
               variant="contained"
               size="small"
@@ -3054,7 +3355,7 @@ const App = () => {
             </Button>
           </Tooltip>
           <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
-          <Tooltip title="Undo (Ctrl+Z)">
+          <Tooltip title={`Undo${canUndo ? ` ${history.done[history.done.length - 1].label}` : ''}${shortcutHint('undo')}`}>
             <span>
               <Button
                 variant="outlined"
@@ -3067,7 +3368,7 @@ const App = () => {
               </Button>
             </span>
           </Tooltip>
-          <Tooltip title="Redo (Ctrl+Shift+Z)">
+          <Tooltip title={`Redo${canRedo ? ` ${history.undone[0].label}` : ''}${shortcutHint('redo')}`}>
             <span>
               <Button
                 variant="outlined"
@@ -3080,6 +3381,16 @@ const App = () => {
               </Button>
             </span>
           </Tooltip>
+          <Tooltip title={isHistoryOpen ? 'Hide history' : 'Show the undo history'}>
+            <Button
+              variant={isHistoryOpen ? 'contained' : 'outlined'}
+              size="small"
+              startIcon={<HistoryIcon />}
+              onClick={() => setIsHistoryOpen(open => !open)}
+            >
+              History
+            </Button>
+          </Tooltip>
           <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
           <Tooltip title="Machine Properties">
             <Button
@@ -3101,6 +3412,29 @@ const App = () => {
               Settings
             </Button>
           </Tooltip>
+          <Tooltip title={selectedComposite ? 'Auto-layout the children of the selected state' : 'Auto-layout the whole machine'}>
+            <span>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<AccountTreeIcon />}
+                onClick={() => handleAutoLayout(selectedComposite)}
+                disabled={isViewMode || nodes.length === 0}
+              >
+                Layout
+              </Button>
+            </span>
+          </Tooltip>
+          <Tooltip title={isProblemsOpen ? 'Hide problems' : 'Show syntax, consistency and semantic problems'}>
+            <Button
+              variant={isProblemsOpen ? 'contained' : 'outlined'}
+              size="small"
+              startIcon={<FactCheckIcon />}
+              onClick={() => setIsProblemsOpen(open => !open)}
+            >
+              Problems
+            </Button>
+          </Tooltip>
           <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
           <Tooltip title={isViewMode ? 'Exit View Mode' : !currentFilePath ? 'Save the file first to enter View Mode' : !machineProperties.viewPlugin?.name ? 'Configure a view plugin first' : 'Enter View Mode (live state visualization)'}>
             <span>
@@ -3116,8 +3450,88 @@ const App = () => {
               </Button>
             </span>
           </Tooltip>
-          <Typography variant="caption" color="text.secondary" sx={{ ml: 2 }}>
-            {isViewMode ? 'View Mode — editing disabled' : 'Cmd+S: Save | Cmd+Shift+S: Export | Cmd+O: Open'}
+          {canDebug && (
+            <>
+              <Tooltip title={isViewPaused ? 'Continue' : 'Pause'}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={isViewPaused ? <PlayArrowIcon /> : <PauseIcon />}
+                  onClick={handlePauseResume}
+                  sx={{ ml: 1 }}
+                >
+                  {isViewPaused ? 'Continue' : 'Pause'}
+                </Button>
+              </Tooltip>
+              <Tooltip title="Run a single tick">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<SkipNextIcon />}
+                  onClick={handleStep}
+                  sx={{ ml: 1 }}
+                >
+                  Step
+                </Button>
+              </Tooltip>
+            </>
+          )}
+          <Tooltip title={isTracePanelOpen ? 'Hide trace timeline' : 'Show trace timeline'}>
+            <Button
+              variant={isTracePanelOpen ? 'contained' : 'outlined'}
+              size="small"
+              startIcon={<TimelineIcon />}
+              onClick={() => setIsTracePanelOpen(open => !open)}
+              color="inherit"
+              sx={{ ml: 1 }}
+            >
+              Trace
+            </Button>
+          </Tooltip>
+          <Tooltip title={isCoverageVisible ? 'Hide coverage heatmap' : 'Color states and transitions by how often they were reached'}>
+            <Button
+              variant={isCoverageVisible ? 'contained' : 'outlined'}
+              size="small"
+              startIcon={<WhatshotIcon />}
+              onClick={() => setIsCoverageVisible(v => !v)}
+              color="inherit"
+              sx={{ ml: 1 }}
+            >
+              Coverage
+            </Button>
+          </Tooltip>
+          {isCoverageVisible && (
+            <>
+              <Tooltip title="Export coverage report (unvisited states and transitions)">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<AssessmentIcon />}
+                  onClick={exportCoverageReport}
+                  color="inherit"
+                  sx={{ ml: 1 }}
+                >
+                  Report
+                </Button>
+              </Tooltip>
+              <Tooltip title="Reset coverage">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<RestartAltIcon />}
+                  onClick={resetCoverage}
+                  color="inherit"
+                  sx={{ ml: 1 }}
+                >
+                  Reset
+                </Button>
+              </Tooltip>
+            </>
+          )}
+          <Typography variant="caption" color={pauseReason ? 'error' : 'text.secondary'} sx={{ ml: 2 }}>
+            {isViewMode
+              ? (pauseReason ?? (isViewPaused ? 'Paused' : 'View Mode — editing disabled'))
+              : 'Cmd+S: Save | Cmd+Shift+S: Export | Cmd+O: Open'}
           </Typography>
         </Toolbar>
       </AppBar>
@@ -3171,6 +3585,8 @@ const App = () => {
               onNameFocused={() => setFocusName(false)}
               replaceVersion={search.replaceVersion}
               readOnly={isViewMode}
+              onChooseSubmachine={chooseSubmachine}
+              onOpenSubmachine={openSubmachine}
             />
           </Box>
 
@@ -3195,315 +3611,374 @@ const App = () => {
           />
         </Paper>
 
-        <Box
-          ref={reactFlowWrapper}
-          className={isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair' : isUngroupingMode ? 'ungroup-cursor' : ''}
-          sx={{
-            flexGrow: 1,
-            position: 'relative',
-            cursor: isUngroupingMode ? 'n-resize' : (isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair' : isSpaceHeld ? 'grab' : 'default'),
-            '& *': {
-              cursor: isUngroupingMode ? 'n-resize !important' : (isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair !important' : isSpaceHeld ? 'grab !important' : undefined),
-            },
-          }}
-          onMouseDown={handlePaneMouseDown}
-          onMouseMove={handlePaneMouseMove}
-          onMouseUp={handlePaneMouseUp}
-          onMouseLeave={cancelNodeCreateDrag}
-        >
-          {nodeCreateDragRect && (
-            <div
-              style={{
-                position: 'absolute',
-                left: nodeCreateDragRect.x,
-                top: nodeCreateDragRect.y,
-                width: nodeCreateDragRect.w,
-                height: nodeCreateDragRect.h,
-                border: '2px dashed #1976d2',
-                background: 'rgba(25, 118, 210, 0.08)',
-                pointerEvents: 'none',
-                zIndex: 1000,
-                boxSizing: 'border-box',
-              }}
-            />
-          )}
-          <Menu
-            open={!!contextMenu}
-            onClose={closeContextMenu}
-            anchorReference="anchorPosition"
-            anchorPosition={contextMenu ? { top: contextMenu.mouseY, left: contextMenu.mouseX } : undefined}
+        <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+          <Box
+            ref={reactFlowWrapper}
+            className={isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair' : isUngroupingMode ? 'ungroup-cursor' : ''}
+            sx={{
+              flexGrow: 1,
+              minHeight: 0,
+              position: 'relative',
+              cursor: isUngroupingMode ? 'n-resize' : (isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair' : isSpaceHeld ? 'grab' : 'default'),
+              '& *': {
+                cursor: isUngroupingMode ? 'n-resize !important' : (isAddingNode || isAddingDecision || isAddingAnd || isAddingProxy || isAddingTransition || isSettingInitial || isSettingHistory || isRetargetingTransition || isResourcingTransition ? 'crosshair !important' : isSpaceHeld ? 'grab !important' : undefined),
+              },
+            }}
+            onMouseDown={handlePaneMouseDown}
+            onMouseMove={handlePaneMouseMove}
+            onMouseUp={handlePaneMouseUp}
+            onMouseLeave={cancelNodeCreateDrag}
           >
-            {contextMenu?.type === 'pane' && (() => {
-              const { worldX, worldY } = contextMenu;
-              return [
-                <MenuItem key="add-state" onClick={() => { closeContextMenu(); createStateAtWorld(worldX, worldY); }}>
-                  <ListItemText>Add State</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>S</Typography>
-                </MenuItem>,
-                <MenuItem key="add-decision" onClick={() => { closeContextMenu(); createDecisionAtWorld(worldX, worldY); }}>
-                  <ListItemText>Add Decision</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>D</Typography>
-                </MenuItem>,
-                <MenuItem key="add-and" onClick={() => { closeContextMenu(); createAndAtWorld(worldX, worldY); }}>
-                  <ListItemText>Add And</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>A</Typography>
-                </MenuItem>,
-                <Divider key="div" />,
-                <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste({ x: worldX, y: worldY }); }}>
-                  <ListItemText>Paste</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
-                </MenuItem>,
-              ];
-            })()}
-            {contextMenu?.type === 'stateNode' && (() => {
-              const nodeId = contextMenu.nodeId!;
-              const ctxNode = nodes.find(n => n.id === nodeId);
-              const hasChildren = nodes.some(n => n.parentId === nodeId);
-              const hasParent = !!ctxNode?.parentId;
-              const parentBounds = getAbsoluteNodeBounds(nodeId, nodes);
-              const relX = parentBounds ? contextMenu.worldX - parentBounds.x : contextMenu.worldX;
-              const relY = parentBounds ? contextMenu.worldY - parentBounds.y : contextMenu.worldY;
-              return [
-                <MenuItem key="add-child" onClick={() => { closeContextMenu(); createStateAtWorld(relX, relY, nodeId); }}>
-                  <ListItemText>Add Child State</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>S</Typography>
-                </MenuItem>,
-                <MenuItem key="add-decision" onClick={() => { closeContextMenu(); createDecisionAtWorld(relX, relY, nodeId); }}>
-                  <ListItemText>Add Decision</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>D</Typography>
-                </MenuItem>,
-                <MenuItem key="add-and" onClick={() => { closeContextMenu(); createAndAtWorld(relX, relY, nodeId); }}>
-                  <ListItemText>Add And</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>A</Typography>
-                </MenuItem>,
-                <Divider key="div1" />,
-                <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
-                  <ListItemText>Copy</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
-                </MenuItem>,
-                <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
-                  <ListItemText>Paste</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
-                </MenuItem>,
-                <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
-                  <ListItemText>Duplicate</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
-                </MenuItem>,
-                <Divider key="div2" />,
-                <MenuItem key="start-trans" onClick={() => { closeContextMenu(); setIsAddingTransition(true); setTransitionSourceId(nodeId); }}>
-                  <ListItemText>Start Transition</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
-                </MenuItem>,
-                <MenuItem key="set-initial" onClick={() => { closeContextMenu(); setIsSettingInitial(true); setInitialTargetId(nodeId); }}>
-                  <ListItemText>Set as Initial</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>I</Typography>
-                </MenuItem>,
-                <MenuItem key="create-proxy" onClick={() => { closeContextMenu(); setIsAddingProxy(true); setProxyTargetId(nodeId); }}>
-                  <ListItemText>Create Proxy</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>P</Typography>
-                </MenuItem>,
-                <MenuItem key="history" onClick={() => { closeContextMenu(); setIsSettingHistory(true); }}>
-                  <ListItemText>History Marker</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>H</Typography>
-                </MenuItem>,
-                <Divider key="div3" />,
-                <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
-                  <ListItemText>Zoom to Fit</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
-                </MenuItem>,
-                hasChildren ? <MenuItem key="group" onClick={() => { closeContextMenu(); setNodes(nds => nds.map(n => ({ ...n, selected: n.id === nodeId }))); handleGroupStates(); }}>
-                  <ListItemText>Group Children</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>G</Typography>
-                </MenuItem> : null,
-                hasParent ? <MenuItem key="ungroup" onClick={() => { closeContextMenu(); handleUngroupState(nodeId); }}>
-                  <ListItemText>Ungroup</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧G</Typography>
-                </MenuItem> : null,
-                <Divider key="div4" />,
-                <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
-                  <ListItemText>Delete</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
-                </MenuItem>,
-              ];
-            })()}
-            {contextMenu?.type === 'decisionNode' && (() => {
-              const nodeId = contextMenu.nodeId!;
-              return [
-                <MenuItem key="start-trans" onClick={() => { closeContextMenu(); setIsAddingTransition(true); setTransitionSourceId(nodeId); }}>
-                  <ListItemText>Start Transition</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
-                </MenuItem>,
-                <Divider key="div1" />,
-                <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
-                  <ListItemText>Copy</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
-                </MenuItem>,
-                <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
-                  <ListItemText>Paste</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
-                </MenuItem>,
-                <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
-                  <ListItemText>Duplicate</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
-                </MenuItem>,
-                <Divider key="div2" />,
-                <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
-                  <ListItemText>Zoom to Fit</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
-                </MenuItem>,
-                <Divider key="div3" />,
-                <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
-                  <ListItemText>Delete</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
-                </MenuItem>,
-              ];
-            })()}
-            {contextMenu?.type === 'proxyNode' && (() => {
-              const nodeId = contextMenu.nodeId!;
-              return [
-                <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
-                  <ListItemText>Copy</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
-                </MenuItem>,
-                <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
-                  <ListItemText>Paste</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
-                </MenuItem>,
-                <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
-                  <ListItemText>Duplicate</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
-                </MenuItem>,
-                <Divider key="div1" />,
-                <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
-                  <ListItemText>Zoom to Fit</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
-                </MenuItem>,
-                <Divider key="div2" />,
-                <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
-                  <ListItemText>Delete</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
-                </MenuItem>,
-              ];
-            })()}
-            {contextMenu?.type === 'edge' && (() => {
-              const edgeId = contextMenu.edgeId!;
-              const ctxEdge = edges.find(e => e.id === edgeId);
-              return [
-                <MenuItem key="recompute" onClick={() => {
-                  closeContextMenu();
-                  if (!ctxEdge) return;
-                  const { sourceHandle, targetHandle } = calculateBestHandles(ctxEdge.source, ctxEdge.target, nodes);
-                  setEdges(eds => eds.map(e => e.id === edgeId ? { ...e, sourceHandle, targetHandle, data: { ...e.data, controlPoints: [] } } : e));
-                }}>
-                  <ListItemText>Recompute Handles</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
-                </MenuItem>,
-                <MenuItem key="retarget" onClick={() => { closeContextMenu(); setIsRetargetingTransition(true); setRetargetEdgeId(edgeId); }}>
-                  <ListItemText>Retarget…</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧T</Typography>
-                </MenuItem>,
-                <MenuItem key="resource" onClick={() => { closeContextMenu(); setIsResourcingTransition(true); setRetargetEdgeId(edgeId); }}>
-                  <ListItemText>Re-source…</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧S</Typography>
-                </MenuItem>,
-                <MenuItem key="create-proxy" onClick={() => {
-                  closeContextMenu();
-                  if (!ctxEdge) return;
-                  setIsAddingProxy(true);
-                  setProxyTargetId(ctxEdge.target);
-                  setProxySourceEdgeId(edgeId);
-                }}>
-                  <ListItemText>Create Proxy of Target</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>P</Typography>
-                </MenuItem>,
-                <Divider key="div" />,
-                <MenuItem key="delete" onClick={() => { closeContextMenu(); onEdgesChangeWithSelection([{ type: 'remove', id: edgeId }]); }}>
-                  <ListItemText>Delete</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
-                </MenuItem>,
-              ];
-            })()}
-            {contextMenu?.type === 'historyMarker' && (() => {
-              const nodeId = contextMenu.nodeId!;
-              return (
-                <MenuItem onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
-                  <ListItemText>Delete</ListItemText>
-                  <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
-                </MenuItem>
-              );
-            })()}
-          </Menu>
-          <SearchReplacePanel
-            isOpen={search.isOpen}
-            searchTerm={search.searchTerm}
-            setSearchTerm={search.setSearchTerm}
-            replaceTerm={search.replaceTerm}
-            setReplaceTerm={search.setReplaceTerm}
-            options={search.options}
-            setOptions={search.setOptions}
-            matchCount={search.matches.length}
-            currentMatchIndex={search.currentMatchIndex}
-            scopeLabel={search.scopeLabel}
-            matchDisplays={search.matchDisplays}
-            regexError={search.regexError}
-            onClose={search.closeSearch}
-            onNext={search.goToNext}
-            onPrev={search.goToPrev}
-            onReplace={search.replaceCurrent}
-            onReplaceAll={search.replaceAll}
-            onNavigateToMatch={search.navigateToMatchByIndex}
-          />
-          <AltKeyContext.Provider value={altHeld}>
-          <LabelsVisibleProvider value={showLabels}>
-          <EdgesProvider value={setEdges}>
-            <ReactFlow
-              nodes={transformedNodes}
-              edges={displayEdges}
-              onNodesChange={onNodesChangeWithSelection}
-              onEdgesChange={onEdgesChangeWithSelection}
-              onConnect={onConnect}
-              onReconnect={onReconnect}
-              onPaneClick={onPaneClick}
-              onPaneContextMenu={onPaneContextMenu}
-              onNodeClick={onNodeClick}
-              onNodeContextMenu={onNodeContextMenu}
-              onEdgeContextMenu={onEdgeContextMenu}
-              onNodeDragStart={onNodeDragStart}
-              onNodeDrag={onNodeDrag}
-              onNodeDragStop={onNodeDragStop}
-              nodeTypes={nodeTypes}
-              edgeTypes={edgeTypes}
-              isValidConnection={isValidConnection}
-              connectionRadius={40}
-              connectionMode={ConnectionMode.Loose}
-              edgesUpdatable={false}
-              reconnectRadius={20}
-              minZoom={1}
-              maxZoom={1}
-              zoomOnScroll={false}
-              zoomOnPinch={false}
-              zoomOnDoubleClick={false}
-              panOnDrag={false}
-              panOnScroll={false}
-              autoPanOnNodeDrag={false}
-              autoPanOnConnect={false}
-              elevateNodesOnSelect={false}
-              nodesDraggable={!isAddingNode && !isViewMode}
-              nodesConnectable={!isViewMode}
-              deleteKeyCode={isViewMode ? [] : ['Backspace', 'Delete']}
-              proOptions={{ hideAttribution: true }}
+            {nodeCreateDragRect && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: nodeCreateDragRect.x,
+                  top: nodeCreateDragRect.y,
+                  width: nodeCreateDragRect.w,
+                  height: nodeCreateDragRect.h,
+                  border: '2px dashed #1976d2',
+                  background: 'rgba(25, 118, 210, 0.08)',
+                  pointerEvents: 'none',
+                  zIndex: 1000,
+                  boxSizing: 'border-box',
+                }}
+              />
+            )}
+            <Menu
+              open={!!contextMenu}
+              onClose={closeContextMenu}
+              anchorReference="anchorPosition"
+              anchorPosition={contextMenu ? { top: contextMenu.mouseY, left: contextMenu.mouseX } : undefined}
+            >
+              {contextMenu?.type === 'pane' && (() => {
+                const { worldX, worldY } = contextMenu;
+                return [
+                  <MenuItem key="add-state" onClick={() => { closeContextMenu(); createStateAtWorld(worldX, worldY); }}>
+                    <ListItemText>Add State</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>S</Typography>
+                  </MenuItem>,
+                  <MenuItem key="add-decision" onClick={() => { closeContextMenu(); createDecisionAtWorld(worldX, worldY); }}>
+                    <ListItemText>Add Decision</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>D</Typography>
+                  </MenuItem>,
+                  <MenuItem key="add-and" onClick={() => { closeContextMenu(); createAndAtWorld(worldX, worldY); }}>
+                    <ListItemText>Add And</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>A</Typography>
+                  </MenuItem>,
+                  <Divider key="div" />,
+                  <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste({ x: worldX, y: worldY }); }}>
+                    <ListItemText>Paste</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
+                  </MenuItem>,
+                  nodes.length > 0 ? <MenuItem key="auto-layout" onClick={() => { closeContextMenu(); handleAutoLayout(); }}>
+                    <ListItemText>Auto-layout Machine</ListItemText>
+                  </MenuItem> : null,
+                ];
+              })()}
+              {isViewMode && (contextMenu?.type === 'stateNode' || contextMenu?.type === 'edge') && (() => {
+                const id = (contextMenu.nodeId ?? contextMenu.edgeId)!;
+                return (
+                  <MenuItem onClick={() => { closeContextMenu(); toggleBreakpoint(id); }}>
+                    <ListItemText>{breakpointIds.has(id) ? 'Remove Breakpoint' : 'Add Breakpoint'}</ListItemText>
+                  </MenuItem>
+                );
+              })()}
+              {!isViewMode && contextMenu?.type === 'stateNode' && (() => {
+                const nodeId = contextMenu.nodeId!;
+                const ctxNode = nodes.find(n => n.id === nodeId);
+                const hasChildren = nodes.some(n => n.parentId === nodeId);
+                const hasParent = !!ctxNode?.parentId;
+                const submachine = ctxNode && submachineRef(ctxNode);
+                const parentBounds = getAbsoluteNodeBounds(nodeId, nodes);
+                const relX = parentBounds ? contextMenu.worldX - parentBounds.x : contextMenu.worldX;
+                const relY = parentBounds ? contextMenu.worldY - parentBounds.y : contextMenu.worldY;
+                return [
+                  <MenuItem key="add-child" onClick={() => { closeContextMenu(); createStateAtWorld(relX, relY, nodeId); }}>
+                    <ListItemText>Add Child State</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>S</Typography>
+                  </MenuItem>,
+                  <MenuItem key="add-decision" onClick={() => { closeContextMenu(); createDecisionAtWorld(relX, relY, nodeId); }}>
+                    <ListItemText>Add Decision</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>D</Typography>
+                  </MenuItem>,
+                  <MenuItem key="add-and" onClick={() => { closeContextMenu(); createAndAtWorld(relX, relY, nodeId); }}>
+                    <ListItemText>Add And</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>A</Typography>
+                  </MenuItem>,
+                  <Divider key="div1" />,
+                  <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
+                    <ListItemText>Copy</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
+                  </MenuItem>,
+                  <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
+                    <ListItemText>Paste</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
+                  </MenuItem>,
+                  <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
+                    <ListItemText>Duplicate</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
+                  </MenuItem>,
+                  <Divider key="div2" />,
+                  <MenuItem key="start-trans" onClick={() => { closeContextMenu(); setIsAddingTransition(true); setTransitionSourceId(nodeId); }}>
+                    <ListItemText>Start Transition</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
+                  </MenuItem>,
+                  <MenuItem key="set-initial" onClick={() => { closeContextMenu(); setIsSettingInitial(true); setInitialTargetId(nodeId); }}>
+                    <ListItemText>Set as Initial</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>I</Typography>
+                  </MenuItem>,
+                  <MenuItem key="create-proxy" onClick={() => { closeContextMenu(); setIsAddingProxy(true); setProxyTargetId(nodeId); }}>
+                    <ListItemText>Create Proxy</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>P</Typography>
+                  </MenuItem>,
+                  <MenuItem key="history" onClick={() => { closeContextMenu(); setIsSettingHistory(true); }}>
+                    <ListItemText>History Marker</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>H</Typography>
+                  </MenuItem>,
+                  <MenuItem key="breakpoint" onClick={() => { closeContextMenu(); toggleBreakpoint(nodeId); }}>
+                    <ListItemText>{breakpointIds.has(nodeId) ? 'Remove Breakpoint' : 'Add Breakpoint'}</ListItemText>
+                  </MenuItem>,
+                  submachine ? <MenuItem key="open-submachine" onClick={() => { closeContextMenu(); openSubmachine(submachine); }}>
+                    <ListItemText>Open Submachine</ListItemText>
+                  </MenuItem> : null,
+                  <Divider key="div3" />,
+                  <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
+                    <ListItemText>Zoom to Fit</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
+                  </MenuItem>,
+                  hasChildren ? <MenuItem key="group" onClick={() => { closeContextMenu(); setNodes(nds => nds.map(n => ({ ...n, selected: n.id === nodeId }))); handleGroupStates(); }}>
+                    <ListItemText>Group Children</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>G</Typography>
+                  </MenuItem> : null,
+                  hasParent ? <MenuItem key="ungroup" onClick={() => { closeContextMenu(); handleUngroupState(nodeId); }}>
+                    <ListItemText>Ungroup</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧G</Typography>
+                  </MenuItem> : null,
+                  hasChildren ? <MenuItem key="auto-layout" onClick={() => { closeContextMenu(); handleAutoLayout(nodeId); }}>
+                    <ListItemText>Auto-layout Children</ListItemText>
+                  </MenuItem> : null,
+                  <Divider key="div4" />,
+                  <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
+                    <ListItemText>Delete</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
+                  </MenuItem>,
+                ];
+              })()}
+              {contextMenu?.type === 'decisionNode' && (() => {
+                const nodeId = contextMenu.nodeId!;
+                return [
+                  <MenuItem key="start-trans" onClick={() => { closeContextMenu(); setIsAddingTransition(true); setTransitionSourceId(nodeId); }}>
+                    <ListItemText>Start Transition</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
+                  </MenuItem>,
+                  <Divider key="div1" />,
+                  <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
+                    <ListItemText>Copy</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
+                  </MenuItem>,
+                  <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
+                    <ListItemText>Paste</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
+                  </MenuItem>,
+                  <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
+                    <ListItemText>Duplicate</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
+                  </MenuItem>,
+                  <Divider key="div2" />,
+                  <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
+                    <ListItemText>Zoom to Fit</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
+                  </MenuItem>,
+                  <Divider key="div3" />,
+                  <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
+                    <ListItemText>Delete</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
+                  </MenuItem>,
+                ];
+              })()}
+              {contextMenu?.type === 'proxyNode' && (() => {
+                const nodeId = contextMenu.nodeId!;
+                return [
+                  <MenuItem key="copy" onClick={() => { closeContextMenu(); handleCopy(); }}>
+                    <ListItemText>Copy</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘C</Typography>
+                  </MenuItem>,
+                  <MenuItem key="paste" onClick={() => { closeContextMenu(); handlePaste(); }}>
+                    <ListItemText>Paste</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘V</Typography>
+                  </MenuItem>,
+                  <MenuItem key="duplicate" onClick={() => { closeContextMenu(); handleDuplicate(); }}>
+                    <ListItemText>Duplicate</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⌘D</Typography>
+                  </MenuItem>,
+                  <Divider key="div1" />,
+                  <MenuItem key="zoom" onClick={() => { closeContextMenu(); zoomToNodeId(nodeId); }}>
+                    <ListItemText>Zoom to Fit</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Z</Typography>
+                  </MenuItem>,
+                  <Divider key="div2" />,
+                  <MenuItem key="delete" onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
+                    <ListItemText>Delete</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
+                  </MenuItem>,
+                ];
+              })()}
+              {!isViewMode && contextMenu?.type === 'edge' && (() => {
+                const edgeId = contextMenu.edgeId!;
+                const ctxEdge = edges.find(e => e.id === edgeId);
+                return [
+                  <MenuItem key="recompute" onClick={() => {
+                    closeContextMenu();
+                    if (!ctxEdge) return;
+                    const { sourceHandle, targetHandle } = calculateBestHandles(ctxEdge.source, ctxEdge.target, nodes);
+                    setEdges(eds => eds.map(e => e.id === edgeId ? { ...e, sourceHandle, targetHandle, data: { ...e.data, controlPoints: [] } } : e));
+                  }}>
+                    <ListItemText>Recompute Handles</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>T</Typography>
+                  </MenuItem>,
+                  <MenuItem key="retarget" onClick={() => { closeContextMenu(); setIsRetargetingTransition(true); setRetargetEdgeId(edgeId); }}>
+                    <ListItemText>Retarget…</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧T</Typography>
+                  </MenuItem>,
+                  <MenuItem key="resource" onClick={() => { closeContextMenu(); setIsResourcingTransition(true); setRetargetEdgeId(edgeId); }}>
+                    <ListItemText>Re-source…</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>⇧S</Typography>
+                  </MenuItem>,
+                  <MenuItem key="create-proxy" onClick={() => {
+                    closeContextMenu();
+                    if (!ctxEdge) return;
+                    setIsAddingProxy(true);
+                    setProxyTargetId(ctxEdge.target);
+                    setProxySourceEdgeId(edgeId);
+                  }}>
+                    <ListItemText>Create Proxy of Target</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>P</Typography>
+                  </MenuItem>,
+                  <MenuItem key="breakpoint" onClick={() => { closeContextMenu(); toggleBreakpoint(edgeId); }}>
+                    <ListItemText>{breakpointIds.has(edgeId) ? 'Remove Breakpoint' : 'Add Breakpoint'}</ListItemText>
+                  </MenuItem>,
+                  <Divider key="div" />,
+                  <MenuItem key="delete" onClick={() => { closeContextMenu(); onEdgesChangeWithSelection([{ type: 'remove', id: edgeId }]); }}>
+                    <ListItemText>Delete</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
+                  </MenuItem>,
+                ];
+              })()}
+              {contextMenu?.type === 'historyMarker' && (() => {
+                const nodeId = contextMenu.nodeId!;
+                return (
+                  <MenuItem onClick={() => { closeContextMenu(); onNodesChangeWithSelection([{ type: 'remove', id: nodeId }]); }}>
+                    <ListItemText>Delete</ListItemText>
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 2, fontFamily: 'monospace' }}>Del</Typography>
+                  </MenuItem>
+                );
+              })()}
+            </Menu>
+            <SearchReplacePanel
+              isOpen={search.isOpen}
+              searchTerm={search.searchTerm}
+              setSearchTerm={search.setSearchTerm}
+              replaceTerm={search.replaceTerm}
+              setReplaceTerm={search.setReplaceTerm}
+              options={search.options}
+              setOptions={search.setOptions}
+              matchCount={search.matches.length}
+              currentMatchIndex={search.currentMatchIndex}
+              scopeLabel={search.scopeLabel}
+              matchDisplays={search.matchDisplays}
+              regexError={search.regexError}
+              onClose={search.closeSearch}
+              onNext={search.goToNext}
+              onPrev={search.goToPrev}
+              onReplace={search.replaceCurrent}
+              onReplaceAll={search.replaceAll}
+              onNavigateToMatch={search.navigateToMatchByIndex}
+            />
+            <AltKeyContext.Provider value={altHeld}>
+            <LabelsVisibleProvider value={showLabels}>
+            <EdgesProvider value={setEdges}>
+              <ReactFlow
+                nodes={displayNodes}
+                edges={displayEdges}
+                onNodesChange={onNodesChangeWithSelection}
+                onEdgesChange={onEdgesChangeWithSelection}
+                onConnect={onConnect}
+                onReconnect={onReconnect}
+                onPaneClick={onPaneClick}
+                onPaneContextMenu={onPaneContextMenu}
+                onNodeClick={onNodeClick}
+                onNodeContextMenu={onNodeContextMenu}
+                onEdgeContextMenu={onEdgeContextMenu}
+                onNodeDragStart={onNodeDragStart}
+                onNodeDrag={onNodeDrag}
+                onNodeDragStop={onNodeDragStop}
+                nodeTypes={nodeTypes}
+                edgeTypes={edgeTypes}
+                isValidConnection={isValidConnection}
+                connectionRadius={40}
+                connectionMode={ConnectionMode.Loose}
+                edgesUpdatable={false}
+                reconnectRadius={20}
+                minZoom={1}
+                maxZoom={1}
+                zoomOnScroll={false}
+                zoomOnPinch={false}
+                zoomOnDoubleClick={false}
+                panOnDrag={false}
+                panOnScroll={false}
+                autoPanOnNodeDrag={false}
+                autoPanOnConnect={false}
+                elevateNodesOnSelect={false}
+                nodesDraggable={!isAddingNode && !isViewMode}
+                nodesConnectable={!isViewMode}
+                deleteKeyCode={isViewMode ? [] : ['Backspace', 'Delete']}
+                proOptions={{ hideAttribution: true }}
+              />
+            </EdgesProvider>
+            </LabelsVisibleProvider>
+            </AltKeyContext.Provider>
+          </Box>
+          {isProblemsOpen && problemsDock === 'bottom' && problemsPanel}
+          {isTracePanelOpen && (
+            <TracePanel
+              trace={trace}
+              scrubIndex={scrubIndex}
+              isRecording={isViewMode}
+              onScrub={setScrubIndex}
+              onClear={handleClearTrace}
+              onSave={saveTrace}
+              onLoad={handleLoadTrace}
+              onClose={() => { setIsTracePanelOpen(false); setScrubIndex(null); }}
             />
-          </EdgesProvider>
-          </LabelsVisibleProvider>
-          </AltKeyContext.Provider>
+          )}
         </Box>
+        {isProblemsOpen && problemsDock === 'right' && problemsPanel}
+        {comparedFilePath && diffOverlay && compareDiff && (
+          <DiffPanel
+            filePath={comparedFilePath}
+            items={diffOverlay.items}
+            layoutChanges={compareDiff.layoutChanges}
+            selectedKey={selectedDiffKey}
+            onSelect={handleSelectDiffItem}
+            onShowSummary={() => setIsDiffSummaryOpen(true)}
+            onClose={() => { closeCompare(); setSelectedDiffKey(null); }}
+          />
+        )}
+        {isHistoryOpen && (
+          <HistoryPanel
+            history={history}
+            onTravel={(steps) => { if (!isViewMode) handleTravel(steps); }}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
       </Box>
 
       <MachinePropertiesDialog
         open={machinePropertiesDialogOpen}
         onClose={() => setMachinePropertiesDialogOpen(false)}
         machineProperties={machineProperties}
-        onSave={(props) => { saveSnapshot(); setMachineProperties(props); }}
+        onSave={(props) => { saveSnapshot('Change machine properties'); setMachineProperties(props); }}
         tabWidth={settings.tabWidth}
         availablePlugins={availablePlugins}
       />
@@ -3520,6 +3995,13 @@ const App = () => {
         }}
       />
 
+      <SvgExportDialog
+        open={isSvgExportOpen}
+        selection={svgSelection}
+        onClose={() => setIsSvgExportOpen(false)}
+        onExport={handleExportSvg}
+      />
+
       <VersionPromptDialog
         open={versionPrompt !== null}
         filePath={versionPrompt?.filePath ?? null}
@@ -3530,6 +4012,43 @@ const App = () => {
         }}
       />
 
+      <RecoveryDialog documents={recovered} onRestore={restoreRecovered} onDiscard={discardRecovered} onClose={postponeRecovered} />
+      <MergeDialog session={mergeSession} onApply={applyMerge} onClose={closeMerge} />
+      <ModelDiffDialog
+        open={isDiffSummaryOpen && comparedFilePath !== null}
+        filePath={comparedFilePath}
+        diff={compareDiff}
+        onClose={() => setIsDiffSummaryOpen(false)}
+      />
+
+      <Snackbar open={externalChange !== null} anchorOrigin={{ vertical: 'top', horizontal: 'center' }}>
+        <Alert
+          severity="warning"
+          variant="filled"
+          action={
+            <>
+              <Button color="inherit" size="small" onClick={reloadExternal}>Reload</Button>
+              <Button color="inherit" size="small" onClick={keepMine}>Keep Mine</Button>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => externalChange && compareWithContent(externalChange.filePath, externalChange.content)}
+              >
+                Show Differences
+              </Button>
+            </>
+          }
+        >
+          {externalChange?.filePath.replace(/^.*[\\/]/, '')} was changed outside the editor, and you have unsaved changes.
+        </Alert>
+      </Snackbar>
+      <Snackbar
+        open={reloadedPath !== null}
+        autoHideDuration={4000}
+        onClose={clearReloaded}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        message={`Reloaded ${reloadedPath?.replace(/^.*[\\/]/, '') ?? ''}, which was changed outside the editor`}
+      />
       <Snackbar
         open={viewModeError !== null}
         autoHideDuration={12000}
@@ -0,0 +1,23 @@
+import { bench, describe } from 'vitest';
+import { computeWorldLayout, cullToViewport } from './semanticZoom';
+import { buildNodeIndex } from './utils/nodeUtils';
+import { generateLargeModel } from './test/largeModel';
+
+const VIEWPORT = { width: 1600, height: 1000 };
+
+// A frame has 16 ms; culling should take well under a millisecond of that
+describe('rendering a large machine', () => {
+  const { nodes, edges } = generateLargeModel({ states: 2000, transitions: 5000 });
+  const layout = computeWorldLayout(buildNodeIndex(nodes));
+  let frame = 0;
+
+  bench('lay out 2000 states', () => {
+    computeWorldLayout(buildNodeIndex(nodes));
+  });
+
+  bench('cull 2000 states and 5000 transitions for one frame of panning and zooming', () => {
+    const scale = 0.2 + (frame % 30) * 0.05;
+    cullToViewport(layout, edges, scale, { x: -(frame % 120) * 40, y: -(frame % 120) * 15 }, VIEWPORT);
+    frame++;
+  });
+});
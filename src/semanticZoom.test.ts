@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import {
+  computeWorldLayout,
+  cullToViewport,
+  getAbsoluteNodeBounds,
+  getAncestorIds,
+  calculateSemanticTransform,
+  calculateNodeVisibility,
+} from './semanticZoom';
+import { buildNodeIndex, calculateNodeDepth } from './utils/nodeUtils';
+import { generateLargeModel } from './test/largeModel';
+
+const VIEWPORT = { width: 1600, height: 1000 };
+
+// The per-node computation the renderer used to do, one hierarchy walk per node
+function naiveCull(nodes: Node[], edges: Edge[], scale: number, pan: { x: number; y: number }) {
+  const visibility = new Map(nodes.map(n => [
+    n.id,
+    calculateNodeVisibility(calculateSemanticTransform(n.id, nodes, null, scale, pan, VIEWPORT)!, VIEWPORT),
+  ]));
+  const readable = (id: string) => {
+    const v = visibility.get(id);
+    return !!v && (v.visible || v.cullingReason === 'outside-viewport');
+  };
+  const selected = new Set(nodes.filter(n => n.selected).map(n => n.id));
+  const shown = new Set(nodes
+    .filter(n => visibility.get(n.id)!.visible || selected.has(n.id) || getAncestorIds(n.id, nodes).some(a => selected.has(a)))
+    .map(n => n.id));
+  const connected = new Set<string>();
+  for (const e of edges) {
+    if (shown.has(e.source) && !shown.has(e.target) && readable(e.target)) connected.add(e.target);
+    if (shown.has(e.target) && !shown.has(e.source) && readable(e.source)) connected.add(e.source);
+  }
+  return new Set([...shown, ...connected]);
+}
+
+describe('computeWorldLayout', () => {
+  const { nodes } = generateLargeModel({ states: 300, transitions: 0 });
+  const layout = computeWorldLayout(buildNodeIndex(nodes));
+
+  it('matches the absolute bounds and depth found by walking the parents', () => {
+    for (const node of nodes) {
+      expect(layout.bounds.get(node.id)).toEqual(getAbsoluteNodeBounds(node.id, nodes));
+      expect(layout.depth.get(node.id)).toBe(calculateNodeDepth(node.id, nodes));
+    }
+  });
+
+  it('orders nodes depth first, parents before their children', () => {
+    for (const node of nodes) {
+      if (node.parentId) expect(layout.order.get(node.parentId)).toBeLessThan(layout.order.get(node.id)!);
+    }
+    expect(layout.order.size).toBe(nodes.length);
+  });
+
+  it('measures how far the children reach inside their parent', () => {
+    // The first top-level state is full, its last child at (1450, 550) sized 300×400
+    expect(layout.childExtents.get('node_1')).toEqual({ width: 1750, height: 950 });
+    expect(layout.childExtents.has('node_3')).toBe(false);
+  });
+
+  it('includes everything inside a selected state', () => {
+    const selected = nodes.map(n => n.id === 'node_2' ? { ...n, selected: true } : n);
+    const { selectedSubtrees } = computeWorldLayout(buildNodeIndex(selected));
+    expect([...selectedSubtrees].sort()).toEqual(['node_10', 'node_11', 'node_12', 'node_2', 'node_3', 'node_4', 'node_5', 'node_6', 'node_7', 'node_8', 'node_9']);
+  });
+});
+
+describe('cullToViewport', () => {
+  const model = generateLargeModel({ states: 500, transitions: 1200 });
+  const nodes = model.nodes.map(n => n.id === 'node_150' ? { ...n, selected: true } : n);
+  const layout = computeWorldLayout(buildNodeIndex(nodes));
+
+  it.each([
+    ['overview', 0.05, { x: 20, y: 20 }],
+    ['partly outside', 0.5, { x: -3000, y: -200 }],
+    ['close up', 4, { x: -1000, y: -1500 }],
+  ])('shows the same nodes as checking them one by one (%s)', (_, scale, pan) => {
+    const shown = cullToViewport(layout, model.edges, scale, pan, VIEWPORT);
+    expect(new Set(shown.keys())).toEqual(naiveCull(nodes, model.edges, scale, pan));
+  });
+
+  it('returns screen rectangles', () => {
+    const shown = cullToViewport(layout, [], 0.5, { x: 100, y: 50 }, VIEWPORT);
+    expect(shown.get('node_1')).toEqual({ screenX: 100, screenY: 50, screenWidth: 900, screenHeight: 500, effectiveScale: 0.5 });
+  });
+});
+
+describe('culling a large machine', () => {
+  const { nodes, edges } = generateLargeModel({ states: 2000, transitions: 5000 });
+  const layout = computeWorldLayout(buildNodeIndex(nodes));
+
+  // Timing is measured in semanticZoom.bench.ts
+  it('leaves out most of the machine while panning and zooming', () => {
+    const frames = 120;
+    let shownTotal = 0;
+    for (let i = 0; i < frames; i++) {
+      const scale = 0.2 + (i % 30) * 0.05;
+      shownTotal += cullToViewport(layout, edges, scale, { x: -i * 40, y: -i * 15 }, VIEWPORT).size;
+    }
+    // Most of the machine is off-screen or too small to draw
+    expect(shownTotal / frames).toBeLessThan(nodes.length / 2);
+  });
+});
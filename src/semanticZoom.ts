@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import { Node } from 'reactflow';
+import { Node, Edge } from 'reactflow';
+import { NodeIndex, NodeLookup, findNode } from './utils/nodeUtils';
 
 // Configuration constants
 export const SEMANTIC_ZOOM_CONFIG = {
@@ -135,12 +136,19 @@ export interface NodeTransform {
   effectiveScale: number;
 }
 
+function nodeSize(node: Node): { width: number; height: number } {
+  return {
+    width: (node.style?.width as number) || node.width || 150,
+    height: (node.style?.height as number) || node.height || 50,
+  };
+}
+
 // Calculate absolute position of a node by traversing up the parent chain
 export function getAbsoluteNodeBounds(
   nodeId: string,
-  nodesArray: Node[]
+  nodesArray: NodeLookup
 ): { x: number; y: number; width: number; height: number } | null {
-  const node = nodesArray.find(n => n.id === nodeId);
+  const node = findNode(nodesArray, nodeId);
   if (!node) return null;
 
   let absoluteX = node.position.x;
@@ -148,32 +156,145 @@ export function getAbsoluteNodeBounds(
   let currentNode = node;
 
   while (currentNode.parentId) {
-    const parent = nodesArray.find(n => n.id === currentNode.parentId);
+    const parent = findNode(nodesArray, currentNode.parentId);
     if (!parent) break;
     absoluteX += parent.position.x;
     absoluteY += parent.position.y;
     currentNode = parent;
   }
 
-  const width = (node.style?.width as number) || node.width || 150;
-  const height = (node.style?.height as number) || node.height || 50;
-
-  return { x: absoluteX, y: absoluteY, width, height };
+  return { x: absoluteX, y: absoluteY, ...nodeSize(node) };
 }
 
 // Get all ancestor node IDs for a given node
-export function getAncestorIds(nodeId: string, nodesArray: Node[]): string[] {
+export function getAncestorIds(nodeId: string, nodesArray: NodeLookup): string[] {
   const ancestors: string[] = [];
-  let current = nodesArray.find(n => n.id === nodeId);
+  let current = findNode(nodesArray, nodeId);
 
   while (current?.parentId) {
     ancestors.push(current.parentId);
-    current = nodesArray.find(n => n.id === current!.parentId);
+    current = findNode(nodesArray, current.parentId);
   }
 
   return ancestors;
 }
 
+// Everything about the node layout that does not depend on the view. It only
+// changes with the nodes, so panning and zooming is left with arithmetic per
+// node (see cullToViewport) instead of walking the hierarchy for each of them.
+export interface WorldLayout {
+  index: NodeIndex;
+  bounds: Map<string, { x: number; y: number; width: number; height: number }>;
+  depth: Map<string, number>;
+  // DFS preorder, matching the state tree; nodes outside the hierarchy are absent
+  order: Map<string, number>;
+  // Selected nodes and everything inside them
+  selectedSubtrees: Set<string>;
+  // How far the children of each parent reach from its top-left corner
+  childExtents: Map<string, { width: number; height: number }>;
+}
+
+export function computeWorldLayout(index: NodeIndex): WorldLayout {
+  const bounds: WorldLayout['bounds'] = new Map();
+  const depth = new Map<string, number>();
+  const selectedSubtrees = new Set<string>();
+
+  const place = (node: Node) => {
+    if (bounds.has(node.id)) return;
+    const parent = node.parentId ? index.byId.get(node.parentId) : undefined;
+    let x = node.position.x;
+    let y = node.position.y;
+    if (parent) {
+      place(parent);
+      const parentBounds = bounds.get(parent.id)!;
+      x += parentBounds.x;
+      y += parentBounds.y;
+      if (selectedSubtrees.has(parent.id)) selectedSubtrees.add(node.id);
+    }
+    bounds.set(node.id, { x, y, ...nodeSize(node) });
+    depth.set(node.id, parent ? depth.get(parent.id)! + 1 : 0);
+    if (node.selected) selectedSubtrees.add(node.id);
+  };
+  for (const node of index.byId.values()) place(node);
+
+  const order = new Map<string, number>();
+  const visit = (parentId: string | undefined) => {
+    for (const child of index.children.get(parentId) ?? []) {
+      order.set(child.id, order.size);
+      visit(child.id);
+    }
+  };
+  visit(undefined);
+
+  const childExtents: WorldLayout['childExtents'] = new Map();
+  for (const [nodeId, own] of bounds) {
+    const parentId = index.byId.get(nodeId)?.parentId;
+    const parentBounds = parentId ? bounds.get(parentId) : undefined;
+    if (!parentId || !parentBounds) continue;
+    const width = own.x - parentBounds.x + own.width;
+    const height = own.y - parentBounds.y + own.height;
+    const extent = childExtents.get(parentId);
+    if (extent) {
+      extent.width = Math.max(extent.width, width);
+      extent.height = Math.max(extent.height, height);
+    } else {
+      childExtents.set(parentId, { width, height });
+    }
+  }
+
+  return { index, bounds, depth, order, selectedSubtrees, childExtents };
+}
+
+// Screen rectangles of the nodes worth rendering at this view: those of a
+// readable size inside the viewport, anything selected or inside a selection,
+// and the off-screen nodes that transitions from the visible ones lead to (so
+// those transitions can still be drawn).
+export function cullToViewport(
+  layout: WorldLayout,
+  edges: Edge[],
+  scale: number,
+  pan: { x: number; y: number },
+  viewportSize: { width: number; height: number },
+  config = SEMANTIC_ZOOM_CONFIG
+): Map<string, NodeTransform> {
+  const { MIN_VISIBLE_SIZE, MAX_VISIBLE_SIZE, VIEWPORT_MARGIN } = config;
+  const transforms = new Map<string, NodeTransform>();
+  const readable = new Set<string>();
+  const shown = new Map<string, NodeTransform>();
+
+  for (const [nodeId, b] of layout.bounds) {
+    const t: NodeTransform = {
+      screenX: b.x * scale + pan.x,
+      screenY: b.y * scale + pan.y,
+      screenWidth: b.width * scale,
+      screenHeight: b.height * scale,
+      effectiveScale: scale,
+    };
+    transforms.set(nodeId, t);
+
+    const isReadable = t.screenWidth >= MIN_VISIBLE_SIZE && t.screenHeight >= MIN_VISIBLE_SIZE &&
+                       t.screenWidth <= MAX_VISIBLE_SIZE && t.screenHeight <= MAX_VISIBLE_SIZE;
+    if (isReadable) readable.add(nodeId);
+    const isOutside = t.screenX + t.screenWidth < -VIEWPORT_MARGIN ||
+                      t.screenY + t.screenHeight < -VIEWPORT_MARGIN ||
+                      t.screenX > viewportSize.width + VIEWPORT_MARGIN ||
+                      t.screenY > viewportSize.height + VIEWPORT_MARGIN;
+    if (layout.selectedSubtrees.has(nodeId) || (isReadable && !isOutside)) shown.set(nodeId, t);
+  }
+
+  const connected = new Map<string, NodeTransform>();
+  for (const edge of edges) {
+    const sourceShown = shown.has(edge.source);
+    if (sourceShown === shown.has(edge.target)) continue;
+    const other = sourceShown ? edge.target : edge.source;
+    const t = transforms.get(other);
+    if (t && readable.has(other)) connected.set(other, t);
+  }
+  for (const [nodeId, t] of connected) shown.set(nodeId, t);
+
+  return shown;
+}
+
 // Calculate the semantic transform for a node
 export function calculateSemanticTransform(
   nodeId: string,
@@ -0,0 +1,60 @@
+// Synthetic machines for scaling tests and benchmarks.
+import { Node, Edge } from 'reactflow';
+
+// Small deterministic PRNG (mulberry32), so every run gets the same model
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A machine of `states` states three levels deep: a grid of top-level states,
+ * each holding up to ten states that hold up to ten leaves each, and
+ * `transitions` transitions between states picked at random.
+ */
+export function generateLargeModel({ states = 2000, transitions = 5000, seed = 1 } = {}): { nodes: Node[]; edges: Edge[] } {
+  const nodes: Node[] = [];
+  const add = (parentId: string | undefined, x: number, y: number, width: number, height: number) => {
+    const id = `node_${nodes.length + 1}`;
+    nodes.push({
+      id,
+      type: 'stateNode',
+      position: { x, y },
+      style: { width, height },
+      data: { label: `S${nodes.length + 1}` },
+      ...(parentId ? { parentId } : {}),
+    });
+    return id;
+  };
+
+  for (let top = 0; nodes.length < states; top++) {
+    const topId = add(undefined, (top % 10) * 2000, Math.floor(top / 10) * 1200, 1800, 1000);
+    for (let c = 0; c < 10 && nodes.length < states; c++) {
+      const childId = add(topId, 50 + (c % 5) * 350, 100 + Math.floor(c / 5) * 450, 300, 400);
+      for (let g = 0; g < 10 && nodes.length < states; g++) {
+        add(childId, 20 + (g % 2) * 140, 60 + Math.floor(g / 2) * 65, 120, 50);
+      }
+    }
+  }
+
+  const next = random(seed);
+  const pick = () => nodes[Math.floor(next() * nodes.length)].id;
+  const edges: Edge[] = [];
+  for (let i = 0; i < transitions; i++) {
+    edges.push({
+      id: `e${i + 1}`,
+      source: pick(),
+      target: pick(),
+      type: 'spline',
+      data: { event: `ev${i % 7}` },
+    });
+  }
+
+  return { nodes, edges };
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { Node } from 'reactflow';
-import { useUndoRedo, sortParentsFirst, Snapshot } from './useUndoRedo';
+import { useUndoRedo, sortParentsFirst, Snapshot, MAX_STACK_SIZE } from './useUndoRedo';
 import { defaultMachineProperties } from './yamlConverter';
 
 // ---------------------------------------------------------------------------
@@ -152,22 +152,22 @@ describe('useUndoRedo', () => {
     expect(restored!.nodes[0].data.label).toBe('Original');
   });
 
-  it('caps the undo stack at 50 entries', () => {
+  it(`caps the undo stack at ${MAX_STACK_SIZE} entries`, () => {
     const { result } = renderHook(() => useUndoRedo());
     act(() => {
-      for (let i = 0; i < 55; i++) {
+      for (let i = 0; i < MAX_STACK_SIZE + 5; i++) {
         result.current.pushSnapshot(makeSnapshot([`s${i}`]));
       }
     });
-    // Pop all 50 entries
+    // Pop every entry there is
     const labels: string[] = [];
     act(() => {
-      for (let i = 0; i < 50; i++) {
+      for (let i = 0; i < MAX_STACK_SIZE + 5; i++) {
         const s = result.current.undo(makeSnapshot());
         if (s) labels.push(s.nodes[0]?.data.label ?? '');
       }
     });
-    expect(labels).toHaveLength(50);
+    expect(labels).toHaveLength(MAX_STACK_SIZE);
     // The oldest 5 snapshots (s0–s4) were evicted; s5 is the oldest available
     expect(labels[labels.length - 1]).toBe('s5');
   });
@@ -180,3 +180,153 @@ describe('useUndoRedo', () => {
     expect(result.current.canRedo).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// useUndoRedo — labeled history
+// ---------------------------------------------------------------------------
+
+describe('useUndoRedo history', () => {
+  it('lists done and undone operations by label', () => {
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => { result.current.pushSnapshot(makeSnapshot(['A']), 'Add state S1'); });
+    act(() => { result.current.pushSnapshot(makeSnapshot(['A', 'B']), 'Rename S1 → Idle'); });
+    act(() => { result.current.pushSnapshot(makeSnapshot(['Idle', 'B']), 'Delete 2 states'); });
+    act(() => { result.current.undo(makeSnapshot()); });
+
+    expect(result.current.history.done.map(e => e.label)).toEqual(['Add state S1', 'Rename S1 → Idle']);
+    expect(result.current.history.undone.map(e => e.label)).toEqual(['Delete 2 states']);
+  });
+
+  it('labels unlabeled snapshots as an edit', () => {
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => { result.current.pushSnapshot(makeSnapshot(['A'])); });
+    expect(result.current.history.done[0].label).toBe('Edit');
+  });
+
+  it('keeps the label when an operation is undone and redone', () => {
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => { result.current.pushSnapshot(makeSnapshot(['A']), 'Move S1'); });
+    act(() => { result.current.undo(makeSnapshot(['B'])); });
+    act(() => { result.current.redo(makeSnapshot(['A'])); });
+    expect(result.current.history.done.map(e => e.label)).toEqual(['Move S1']);
+    expect(result.current.history.undone).toEqual([]);
+  });
+
+  it('travels several steps back and forward at once', () => {
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => {
+      result.current.pushSnapshot(makeSnapshot(['s0']), 'op1');
+      result.current.pushSnapshot(makeSnapshot(['s1']), 'op2');
+      result.current.pushSnapshot(makeSnapshot(['s2']), 'op3');
+    });
+
+    let state: Snapshot | null = null;
+    act(() => { state = result.current.travel(-3, makeSnapshot(['s3'])); });
+    expect(state!.nodes[0].data.label).toBe('s0');
+    expect(result.current.history.undone.map(e => e.label)).toEqual(['op1', 'op2', 'op3']);
+
+    act(() => { state = result.current.travel(2, makeSnapshot(['s0'])); });
+    expect(state!.nodes[0].data.label).toBe('s2');
+    expect(result.current.history.done.map(e => e.label)).toEqual(['op1', 'op2']);
+
+    act(() => { state = result.current.redo(makeSnapshot(['s2'])); });
+    expect(state!.nodes[0].data.label).toBe('s3');
+  });
+
+  it('restores both stacks from an exported history', () => {
+    const first = renderHook(() => useUndoRedo());
+    act(() => {
+      first.result.current.pushSnapshot(makeSnapshot(['A']), 'op1');
+      first.result.current.pushSnapshot(makeSnapshot(['B']), 'op2');
+    });
+    act(() => { first.result.current.undo(makeSnapshot(['C'])); });
+    const saved = JSON.parse(JSON.stringify(first.result.current.exportHistory()));
+
+    const second = renderHook(() => useUndoRedo());
+    act(() => { second.result.current.importHistory(saved); });
+    expect(second.result.current.canUndo).toBe(true);
+    expect(second.result.current.canRedo).toBe(true);
+
+    let state: Snapshot | null = null;
+    act(() => { state = second.result.current.redo(makeSnapshot(['B'])); });
+    expect(state!.nodes[0].data.label).toBe('C');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useUndoRedo — states stored as patches
+// ---------------------------------------------------------------------------
+
+describe('useUndoRedo patches', () => {
+  // A machine edited step by step: renames, additions, removals, moves and reorders
+  function editHistory(steps: number): Snapshot[] {
+    const states: Snapshot[] = [];
+    let nodes = [makeNode('root'), makeNode('a', 'root'), makeNode('b')];
+    let rootHistory = false;
+    for (let i = 0; i < steps; i++) {
+      states.push({ nodes, edges: [], machineProperties: { ...defaultMachineProperties, entry: `step ${Math.floor(i / 10)}` }, rootHistory });
+      switch (i % 5) {
+        case 0: nodes = [...nodes, makeNode(`n${i}`, i % 2 ? 'root' : undefined)]; break;
+        case 1: nodes = nodes.map((n, k) => (k === i % nodes.length ? { ...n, data: { ...n.data, label: `L${i}` } } : n)); break;
+        case 2: nodes = nodes.map((n, k) => (k === i % nodes.length ? { ...n, position: { x: i, y: -i } } : n)); break;
+        case 3: nodes = [...nodes.slice(1), nodes[0]]; break;
+        case 4: nodes = nodes.filter((_, k) => k !== 3); rootHistory = !rootHistory; break;
+      }
+    }
+    states.push({ nodes, edges: [], machineProperties: { ...defaultMachineProperties, entry: 'last' }, rootHistory });
+    return states;
+  }
+
+  const byId = (snapshot: Snapshot) => ({
+    ...snapshot,
+    nodes: [...snapshot.nodes].sort((a, b) => a.id.localeCompare(b.id)),
+  });
+
+  it('restores every state of a long history, both ways', () => {
+    const states = editHistory(300);
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => {
+      for (const state of states.slice(0, -1)) result.current.pushSnapshot(state);
+    });
+
+    let current = states[states.length - 1];
+    for (let i = states.length - 2; i >= 0; i--) {
+      act(() => { current = result.current.undo(current)!; });
+      expect(byId(current)).toEqual(byId(states[i]));
+    }
+    for (let i = 1; i < states.length; i++) {
+      act(() => { current = result.current.redo(current)!; });
+      expect(byId(current)).toEqual(byId(states[i]));
+    }
+  });
+
+  it('returns parents before their children', () => {
+    const states = editHistory(40);
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => {
+      for (const state of states.slice(0, -1)) result.current.pushSnapshot(state);
+    });
+    let restored: Snapshot | null = null;
+    act(() => { restored = result.current.travel(-40, states[40]); });
+    const ids = restored!.nodes.map(n => n.id);
+    expect(ids.indexOf('root')).toBeLessThan(ids.indexOf('a'));
+  });
+
+  it('shares the nodes an edit did not touch', () => {
+    const before = makeSnapshot(['A', 'B', 'C']);
+    const after = { ...before, nodes: before.nodes.map(n => (n.id === 'B' ? { ...n, data: { label: 'B2' } } : n)) };
+    const { result } = renderHook(() => useUndoRedo());
+    act(() => {
+      result.current.pushSnapshot(before);
+      result.current.pushSnapshot(after);
+    });
+
+    let second: Snapshot | null = null;
+    let first: Snapshot | null = null;
+    act(() => { second = result.current.undo(makeSnapshot(['current'])); });
+    act(() => { first = result.current.undo(second!); });
+    expect(first!.nodes[0]).toBe(second!.nodes[0]);
+    expect(first!.nodes[1]).not.toBe(second!.nodes[1]);
+    expect(first!.nodes[1].data.label).toBe('B');
+  });
+});
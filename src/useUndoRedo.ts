@@ -9,7 +9,38 @@ export type Snapshot = {
   rootHistory: boolean;
 };
 
-const MAX_STACK_SIZE = 50;
+/** What the History panel shows for one undoable operation. */
+export type HistoryEntry = {
+  label: string;
+  time: number;
+};
+
+// Changes that turn one state into another: the nodes or edges that were
+// added or replaced, the ids removed and, when it changed, the new order.
+type ListPatch<T> = { set: T[]; remove: string[]; order?: string[] };
+type Patch = {
+  nodes?: ListPatch<Node>;
+  edges?: ListPatch<Edge>;
+  machineProperties?: MachineProperties;
+  rootHistory?: boolean;
+};
+
+// A stack of states where only the top one is kept in full; each state below
+// it is stored as the patch that turns the state above it back into it. The
+// entries describe the operations, bottom first.
+type DeltaStack = {
+  top: Snapshot | null;
+  below: Patch[];
+  entries: HistoryEntry[];
+};
+
+/** Both stacks, as written to and read from the history sidecar file. */
+export type SavedHistory = {
+  undo: DeltaStack;
+  redo: DeltaStack;
+};
+
+export const MAX_STACK_SIZE = 5000;
 
 // ReactFlow requires parent nodes to appear before their children in the array.
 // Without this, restoring a snapshot can silently break parent-child relationships.
@@ -40,78 +71,196 @@ export function sortParentsFirst(nodes: Node[]): Node[] {
   return result;
 }
 
-function deepCopySnapshot(snapshot: Snapshot): Snapshot {
+const copyNode = (n: Node): Node => ({
+  ...n,
+  position: { ...n.position },
+  data: { ...n.data },
+  style: n.style ? { ...n.style } : undefined,
+});
+
+const copyEdge = (e: Edge): Edge => ({
+  ...e,
+  data: e.data ? {
+    ...e.data,
+    controlPoints: e.data.controlPoints ? [...e.data.controlPoints.map(cp => ({ ...cp }))] : [],
+  } : undefined,
+});
+
+const copyMachineProperties = (mp: MachineProperties): MachineProperties => ({
+  ...mp,
+  hooks: { ...mp.hooks },
+  initialMarkerPos: mp.initialMarkerPos ? { ...mp.initialMarkerPos } : undefined,
+  historyMarkerPos: mp.historyMarkerPos ? { ...mp.historyMarkerPos } : undefined,
+});
+
+// Structural equality; keys holding undefined count as absent
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(ra), ...Object.keys(rb)])) {
+    if (!sameValue(ra[key], rb[key])) return false;
+  }
+  return true;
+}
+
+// Copy a list into the history, reusing the copies of the base state for
+// items that did not change. The state is never mutated in place, so states
+// in the history can share those copies.
+function shareList<T extends { id: string }>(items: T[], base: T[] | undefined, copy: (item: T) => T): T[] {
+  const baseById = new Map(base?.map(item => [item.id, item]));
+  return items.map(item => {
+    const previous = baseById.get(item.id);
+    return previous && sameValue(previous, item) ? previous : copy(item);
+  });
+}
+
+function shareSnapshot(snapshot: Snapshot, base: Snapshot | null): Snapshot {
   return {
-    nodes: snapshot.nodes.map(n => ({
-      ...n,
-      position: { ...n.position },
-      data: { ...n.data },
-      style: n.style ? { ...n.style } : undefined,
-    })),
-    edges: snapshot.edges.map(e => ({
-      ...e,
-      data: e.data ? {
-        ...e.data,
-        controlPoints: e.data.controlPoints ? [...e.data.controlPoints.map(cp => ({ ...cp }))] : [],
-      } : undefined,
-    })),
-    machineProperties: {
-      ...snapshot.machineProperties,
-      hooks: { ...snapshot.machineProperties.hooks },
-      initialMarkerPos: snapshot.machineProperties.initialMarkerPos
-        ? { ...snapshot.machineProperties.initialMarkerPos }
-        : undefined,
-      historyMarkerPos: snapshot.machineProperties.historyMarkerPos
-        ? { ...snapshot.machineProperties.historyMarkerPos }
-        : undefined,
-    },
+    nodes: shareList(snapshot.nodes, base?.nodes, copyNode),
+    edges: shareList(snapshot.edges, base?.edges, copyEdge),
+    machineProperties: base && sameValue(base.machineProperties, snapshot.machineProperties)
+      ? base.machineProperties
+      : copyMachineProperties(snapshot.machineProperties),
     rootHistory: snapshot.rootHistory,
   };
 }
 
+// Both lists hold shared copies, so an unchanged item is the same object
+function diffList<T extends { id: string }>(from: T[], to: T[]): ListPatch<T> | undefined {
+  const fromById = new Map(from.map(item => [item.id, item]));
+  const toIds = new Set(to.map(item => item.id));
+  const set = to.filter(item => fromById.get(item.id) !== item);
+  const remove = from.filter(item => !toIds.has(item.id)).map(item => item.id);
+  // The order only needs storing when applyList would not arrive at it
+  const expected = from.filter(item => toIds.has(item.id)).map(item => item.id)
+    .concat(set.filter(item => !fromById.has(item.id)).map(item => item.id));
+  const sameOrder = expected.length === to.length && expected.every((id, i) => id === to[i].id);
+  if (set.length === 0 && remove.length === 0 && sameOrder) return undefined;
+  return sameOrder ? { set, remove } : { set, remove, order: to.map(item => item.id) };
+}
+
+function applyList<T extends { id: string }>(from: T[], patch: ListPatch<T> | undefined): T[] {
+  if (!patch) return from;
+  const replaced = new Map(patch.set.map(item => [item.id, item]));
+  const removed = new Set(patch.remove);
+  const fromIds = new Set(from.map(item => item.id));
+  const result = from.filter(item => !removed.has(item.id)).map(item => replaced.get(item.id) ?? item)
+    .concat(patch.set.filter(item => !fromIds.has(item.id)));
+  if (!patch.order) return result;
+  const byId = new Map(result.map(item => [item.id, item]));
+  return patch.order.map(id => byId.get(id)!);
+}
+
+function diffSnapshots(from: Snapshot, to: Snapshot): Patch {
+  const patch: Patch = {};
+  const nodes = diffList(from.nodes, to.nodes);
+  const edges = diffList(from.edges, to.edges);
+  if (nodes) patch.nodes = nodes;
+  if (edges) patch.edges = edges;
+  if (from.machineProperties !== to.machineProperties) patch.machineProperties = to.machineProperties;
+  if (from.rootHistory !== to.rootHistory) patch.rootHistory = to.rootHistory;
+  return patch;
+}
+
+function applyPatch(from: Snapshot, patch: Patch): Snapshot {
+  return {
+    nodes: applyList(from.nodes, patch.nodes),
+    edges: applyList(from.edges, patch.edges),
+    machineProperties: patch.machineProperties ?? from.machineProperties,
+    rootHistory: patch.rootHistory ?? from.rootHistory,
+  };
+}
+
+const emptyStack = (): DeltaStack => ({ top: null, below: [], entries: [] });
+
+function pushState(stack: DeltaStack, state: Snapshot, entry: HistoryEntry) {
+  if (stack.top) stack.below.push(diffSnapshots(state, stack.top));
+  stack.top = state;
+  stack.entries.push(entry);
+  if (stack.entries.length > MAX_STACK_SIZE) {
+    stack.entries.shift();
+    stack.below.shift();
+  }
+}
+
+function popState(stack: DeltaStack): { state: Snapshot; entry: HistoryEntry } | null {
+  if (!stack.top) return null;
+  const state = stack.top;
+  const patch = stack.below.pop();
+  stack.top = patch ? applyPatch(state, patch) : null;
+  return { state, entry: stack.entries.pop()! };
+}
+
 export function useUndoRedo() {
-  const undoStack = useRef<Snapshot[]>([]);
-  const redoStack = useRef<Snapshot[]>([]);
+  const undoStack = useRef<DeltaStack>(emptyStack());
+  const redoStack = useRef<DeltaStack>(emptyStack());
+  // The state last recorded or restored, which the next one is shared against
+  const latest = useRef<Snapshot | null>(null);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
+  // Operations done (oldest first) and undone (next to redo first)
+  const [history, setHistory] = useState<{ done: HistoryEntry[]; undone: HistoryEntry[] }>({ done: [], undone: [] });
 
   const updateFlags = useCallback(() => {
-    setCanUndo(undoStack.current.length > 0);
-    setCanRedo(redoStack.current.length > 0);
+    setCanUndo(undoStack.current.entries.length > 0);
+    setCanRedo(redoStack.current.entries.length > 0);
+    setHistory({
+      done: [...undoStack.current.entries],
+      undone: [...redoStack.current.entries].reverse(),
+    });
   }, []);
 
-  const pushSnapshot = useCallback((snapshot: Snapshot) => {
-    undoStack.current.push(deepCopySnapshot(snapshot));
-    if (undoStack.current.length > MAX_STACK_SIZE) {
-      undoStack.current.shift();
-    }
-    redoStack.current = [];
+  const record = useCallback((snapshot: Snapshot) => {
+    latest.current = shareSnapshot(snapshot, latest.current);
+    return latest.current;
+  }, []);
+
+  const pushSnapshot = useCallback((snapshot: Snapshot, label = 'Edit') => {
+    pushState(undoStack.current, record(snapshot), { label, time: Date.now() });
+    redoStack.current = emptyStack();
     updateFlags();
-  }, [updateFlags]);
+  }, [record, updateFlags]);
 
-  const undo = useCallback((currentState: Snapshot): Snapshot | null => {
-    if (undoStack.current.length === 0) return null;
-    const previous = undoStack.current.pop()!;
-    redoStack.current.push(deepCopySnapshot(currentState));
+  // Undoes (negative) or redoes (positive) up to |steps| operations at once
+  const travel = useCallback((steps: number, currentState: Snapshot): Snapshot | null => {
+    const [from, to] = steps < 0 ? [undoStack.current, redoStack.current] : [redoStack.current, undoStack.current];
+    let current: Snapshot | null = null;
+    for (let i = 0; i < Math.abs(steps); i++) {
+      const popped = popState(from);
+      if (!popped) break;
+      pushState(to, current ?? record(currentState), popped.entry);
+      current = popped.state;
+    }
+    if (!current) return null;
+    latest.current = current;
     updateFlags();
-    previous.nodes = sortParentsFirst(previous.nodes);
-    return previous;
-  }, [updateFlags]);
+    return { ...current, nodes: sortParentsFirst(current.nodes) };
+  }, [record, updateFlags]);
+
+  const undo = useCallback((currentState: Snapshot) => travel(-1, currentState), [travel]);
+  const redo = useCallback((currentState: Snapshot) => travel(1, currentState), [travel]);
 
-  const redo = useCallback((currentState: Snapshot): Snapshot | null => {
-    if (redoStack.current.length === 0) return null;
-    const next = redoStack.current.pop()!;
-    undoStack.current.push(deepCopySnapshot(currentState));
+  const clear = useCallback(() => {
+    undoStack.current = emptyStack();
+    redoStack.current = emptyStack();
+    latest.current = null;
     updateFlags();
-    next.nodes = sortParentsFirst(next.nodes);
-    return next;
   }, [updateFlags]);
 
-  const clear = useCallback(() => {
-    undoStack.current = [];
-    redoStack.current = [];
+  const exportHistory = useCallback((): SavedHistory => ({
+    undo: undoStack.current,
+    redo: redoStack.current,
+  }), []);
+
+  const importHistory = useCallback((saved: SavedHistory) => {
+    undoStack.current = saved.undo;
+    redoStack.current = saved.redo;
+    latest.current = null;
     updateFlags();
   }, [updateFlags]);
 
-  return { pushSnapshot, undo, redo, canUndo, canRedo, clear };
+  return { pushSnapshot, undo, redo, travel, canUndo, canRedo, history, clear, exportHistory, importHistory };
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from 'reactflow';
+import { convertFromYaml } from '../yamlConverter';
+import { autoLayout } from './autoLayout';
+
+const MACHINE = `SM-builder-version: 0.6.0
+initial: A
+states:
+  A:
+    initial: A1
+    history: true
+    states:
+      A1:
+        transitions:
+          - to: A2
+      A2:
+        transitions:
+          - to: ../B
+  B:
+    transitions:
+      - to: A
+`;
+
+function byLabel(nodes: Node[], label: string): Node {
+  return nodes.find(n => n.data.label === label) as Node;
+}
+
+function overlaps(a: Node, b: Node): boolean {
+  const aw = a.style?.width as number, ah = a.style?.height as number;
+  const bw = b.style?.width as number, bh = b.style?.height as number;
+  return a.position.x < b.position.x + bw && b.position.x < a.position.x + aw
+    && a.position.y < b.position.y + bh && b.position.y < a.position.y + ah;
+}
+
+describe('autoLayout', () => {
+  it('lays out every level and sizes parents to fit their children', () => {
+    const { nodes, edges, machineProperties } = convertFromYaml(MACHINE);
+    const result = autoLayout(nodes, edges, machineProperties);
+    const a = byLabel(result.nodes, 'A');
+    const a1 = byLabel(result.nodes, 'A1');
+    const a2 = byLabel(result.nodes, 'A2');
+
+    expect(overlaps(a, byLabel(result.nodes, 'B'))).toBe(false);
+    expect(overlaps(a1, a2)).toBe(false);
+    for (const child of [a1, a2]) {
+      expect(child.position.x).toBeGreaterThanOrEqual(0);
+      expect(child.position.y).toBeGreaterThanOrEqual(0);
+      expect(child.position.x + (child.style?.width as number)).toBeLessThanOrEqual(a.style?.width as number);
+      expect(child.position.y + (child.style?.height as number)).toBeLessThanOrEqual(a.style?.height as number);
+    }
+    expect(a.data.initialMarkerPos).toBeDefined();
+    expect(a.data.historyMarkerPos.x).toBeLessThan(a.style?.width as number);
+    expect(result.machineProperties.initialMarkerPos).toBeDefined();
+    expect(result.edges.every(e => e.data?.controlPoints?.length === 0)).toBe(true);
+  });
+
+  it('lays out only the inside of the given composite state', () => {
+    const { nodes, edges, machineProperties } = convertFromYaml(MACHINE);
+    const bent = edges.map(e => ({ ...e, data: { ...e.data, controlPoints: [{ x: 5, y: 5 }] } }));
+    const a = byLabel(nodes, 'A');
+    const result = autoLayout(nodes, bent, machineProperties, a.id);
+
+    expect(byLabel(result.nodes, 'A').position).toEqual(a.position);
+    expect(byLabel(result.nodes, 'B')).toBe(byLabel(nodes, 'B'));
+    expect(result.machineProperties).toBe(machineProperties);
+    const inner = result.edges.find(e => e.source === byLabel(nodes, 'A1').id);
+    const outer = result.edges.find(e => e.source === byLabel(nodes, 'B').id);
+    expect(inner?.data.controlPoints).toEqual([]);
+    expect(outer?.data.controlPoints).toEqual([{ x: 5, y: 5 }]);
+  });
+});
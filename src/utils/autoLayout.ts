@@ -0,0 +1,157 @@
+import dagre from '@dagrejs/dagre';
+import { Node, Edge } from 'reactflow';
+import type { MachineProperties } from '../yamlConverter';
+import { calculateBestHandles } from './handleUtils';
+
+// Space between a composite state's border and its children; the top leaves
+// room for the state name.
+const PARENT_PADDING = { top: 35, left: 20, right: 20, bottom: 20 };
+const INITIAL_MARKER_SIZE = 15;
+const INITIAL_MARKER_KEY = '\u0000initial';
+
+export interface LayoutResult {
+  nodes: Node[];
+  edges: Edge[];
+  machineProperties: MachineProperties;
+}
+
+type Size = { width: number; height: number };
+
+function sizeOf(node: Node): Size {
+  return {
+    width: (node.style?.width as number) || node.width || 150,
+    height: (node.style?.height as number) || node.height || 50,
+  };
+}
+
+/**
+ * Lay out every level of the hierarchy with dagre, innermost levels first so
+ * each composite state is sized to fit its laid-out children. Transitions
+ * crossing levels pull on the ancestors they connect at each level. Initial
+ * markers get a place left of their state, edges lose their control points
+ * and get new handles.
+ *
+ * With `rootId`, only the inside of that composite state is laid out; the
+ * state keeps its position and is resized to fit, and only transitions
+ * within it are straightened.
+ */
+export function autoLayout(nodes: Node[], edges: Edge[], machineProperties: MachineProperties, rootId?: string): LayoutResult {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const sizes = new Map(nodes.map(n => [n.id, sizeOf(n)]));
+  const positions = new Map<string, { x: number; y: number }>();
+  const markerPositions = new Map<string | undefined, { x: number; y: number }>();
+
+  const children = new Map<string | undefined, Node[]>();
+  for (const node of nodes) {
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  }
+
+  const depth = (id: string | undefined): number => {
+    let d = 0;
+    for (let n = id ? byId.get(id) : undefined; n; n = n.parentId ? byId.get(n.parentId) : undefined) d++;
+    return d;
+  };
+
+  // The ancestor-or-self of `id` that sits directly in `container`
+  const childIn = (id: string, container: string | undefined): string | null => {
+    for (let n = byId.get(id); n; n = n.parentId ? byId.get(n.parentId) : undefined) {
+      if (n.parentId === container) return n.id;
+    }
+    return null;
+  };
+
+  const inScope = (id: string): boolean => rootId === undefined || childIn(id, rootId) !== null || id === rootId;
+  const regularEdges = edges.filter(e => !e.id.startsWith('initial-edge'));
+  const containers = [...children.keys()]
+    .filter(c => rootId === undefined || (c !== undefined && inScope(c)))
+    .sort((a, b) => depth(b) - depth(a));
+
+  for (const container of containers) {
+    const kids = children.get(container) || [];
+    const g = new dagre.graphlib.Graph();
+    g.setGraph({ rankdir: 'LR', ranksep: 80, nodesep: 40 });
+    g.setDefaultEdgeLabel(() => ({}));
+    for (const kid of kids) g.setNode(kid.id, sizes.get(kid.id) as Size);
+
+    const initial = container ? byId.get(container)?.data?.initial : machineProperties.initial;
+    if (initial && kids.some(k => k.id === initial)) {
+      g.setNode(INITIAL_MARKER_KEY, { width: INITIAL_MARKER_SIZE, height: INITIAL_MARKER_SIZE });
+      g.setEdge(INITIAL_MARKER_KEY, initial);
+    }
+    for (const edge of regularEdges) {
+      const from = childIn(edge.source, container);
+      const to = childIn(edge.target, container);
+      if (from && to && from !== to) g.setEdge(from, to);
+    }
+    dagre.layout(g);
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const key of g.nodes()) {
+      const n = g.node(key);
+      minX = Math.min(minX, n.x - n.width / 2);
+      minY = Math.min(minY, n.y - n.height / 2);
+      maxX = Math.max(maxX, n.x + n.width / 2);
+      maxY = Math.max(maxY, n.y + n.height / 2);
+    }
+    // Children are positioned relative to their parent; the top level starts at the origin
+    const dx = (container ? PARENT_PADDING.left : 0) - minX;
+    const dy = (container ? PARENT_PADDING.top : 0) - minY;
+    for (const key of g.nodes()) {
+      const n = g.node(key);
+      if (key === INITIAL_MARKER_KEY) {
+        markerPositions.set(container, { x: n.x + dx, y: n.y + dy });
+      } else {
+        positions.set(key, { x: n.x - n.width / 2 + dx, y: n.y - n.height / 2 + dy });
+      }
+    }
+    if (container) {
+      sizes.set(container, {
+        width: maxX - minX + PARENT_PADDING.left + PARENT_PADDING.right,
+        height: maxY - minY + PARENT_PADDING.top + PARENT_PADDING.bottom,
+      });
+    }
+  }
+
+  const laidOut = nodes.map(node => {
+    if (!inScope(node.id)) return node;
+    const size = sizes.get(node.id) as Size;
+    const data = { ...node.data };
+    const marker = markerPositions.get(node.id);
+    if (marker) data.initialMarkerPos = marker;
+    if (data.history && children.has(node.id)) {
+      // History marker in the top-right corner
+      const markerSize = Math.min(size.width, size.height) * 0.15;
+      data.historyMarkerSize = markerSize;
+      data.historyMarkerPos = { x: size.width - markerSize * 0.75, y: markerSize * 0.75 };
+    }
+    return {
+      ...node,
+      position: positions.get(node.id) ?? node.position,
+      style: { ...node.style, width: size.width, height: size.height },
+      data,
+    };
+  });
+
+  const laidOutEdges = edges.map(edge => {
+    const sourceIn = inScope(edge.source);
+    const targetIn = inScope(edge.target);
+    if (!sourceIn && !targetIn) return edge;
+    // Transitions leaving the laid-out state keep their shape, but get new handles
+    const data = sourceIn && targetIn ? { ...edge.data, controlPoints: [] } : edge.data;
+    if (edge.source === edge.target) return { ...edge, data };
+    const { sourceHandle, targetHandle } = calculateBestHandles(edge.source, edge.target, laidOut);
+    return { ...edge, sourceHandle, targetHandle, data };
+  });
+
+  let layoutProperties = machineProperties;
+  const rootMarker = markerPositions.get(undefined);
+  if (rootMarker) layoutProperties = { ...layoutProperties, initialMarkerPos: rootMarker };
+  if (rootId === undefined && machineProperties.historyMarkerPos) {
+    // Root history marker to the right of the top level
+    const right = Math.max(0, ...laidOut.filter(n => !n.parentId).map(n => n.position.x + (n.style.width as number)));
+    layoutProperties = { ...layoutProperties, historyMarkerPos: { x: right + 40, y: 0 } };
+  }
+  return { nodes: laidOut, edges: laidOutEdges, machineProperties: layoutProperties };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { vertexPath, toPluginBreakpoints } from './breakpoints';
+
+function makeNode(id: string, label: string, type = 'stateNode', parentId?: string, extra: Record<string, unknown> = {}): Node {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label, ...extra },
+    ...(parentId ? { parentId } : {}),
+  };
+}
+
+const nodes: Node[] = [
+  makeNode('p', 'P'),
+  makeNode('a', 'A', 'stateNode', 'p'),
+  makeNode('b', 'B', 'stateNode', 'p'),
+  makeNode('d', 'D1', 'decisionNode', 'p'),
+  makeNode('rd', 'D2', 'decisionNode'),
+  makeNode('px', 'proxy', 'proxyNode', undefined, { targetId: 'b' }),
+];
+
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'a', target: 'd' },
+  { id: 'e3', source: 'p', target: 'px' },
+];
+
+describe('vertexPath', () => {
+  it('returns the absolute path of a state', () => {
+    expect(vertexPath('a', nodes)).toBe('P/A');
+  });
+
+  it('puts the pseudo-state sigil on decisions', () => {
+    expect(vertexPath('d', nodes)).toBe('P/@D1');
+    expect(vertexPath('rd', nodes)).toBe('@D2');
+  });
+
+  it('resolves proxies to their target state', () => {
+    expect(vertexPath('px', nodes)).toBe('P/B');
+  });
+});
+
+describe('toPluginBreakpoints', () => {
+  it('splits ids into state and transition breakpoints', () => {
+    expect(toPluginBreakpoints(new Set(['a', 'e2', 'e3', 'gone']), nodes, edges)).toEqual({
+      states: ['P/A'],
+      transitions: [
+        { source: 'P/A', target: 'P/@D1' },
+        { source: 'P', target: 'P/B' },
+      ],
+    });
+  });
+});
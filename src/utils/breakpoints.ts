@@ -0,0 +1,34 @@
+import { Node, Edge } from 'reactflow';
+import { sigilizePseudoRef } from '../yamlConverter';
+import type { Breakpoints } from '../preload';
+import { computeNodePath } from './nodeUtils';
+
+// Path of a transition endpoint as view plugins report it: states by their
+// absolute path, decisions/ands with the `@` sigil on the last segment, and
+// proxies by the state they stand in for.
+export function vertexPath(nodeId: string, nodes: Node[]): string {
+  const node = nodes.find(n => n.id === nodeId);
+  if (!node) return '';
+  if (node.type === 'proxyNode') {
+    return computeNodePath((node.data as { targetId: string }).targetId, nodes);
+  }
+  const p = computeNodePath(nodeId, nodes);
+  return node.type === 'decisionNode' ? sigilizePseudoRef(p) : p;
+}
+
+// Convert the editor's breakpoint set (state node ids and edge ids) into the
+// path-based form sent to plugins. Ids that no longer exist are skipped.
+export function toPluginBreakpoints(breakpointIds: Set<string>, nodes: Node[], edges: Edge[]): Breakpoints {
+  const result: Breakpoints = { states: [], transitions: [] };
+  for (const node of nodes) {
+    if (node.type === 'stateNode' && breakpointIds.has(node.id)) {
+      result.states.push(computeNodePath(node.id, nodes));
+    }
+  }
+  for (const edge of edges) {
+    if (breakpointIds.has(edge.id)) {
+      result.transitions.push({ source: vertexPath(edge.source, nodes), target: vertexPath(edge.target, nodes) });
+    }
+  }
+  return result;
+}
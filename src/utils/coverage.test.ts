@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { traceCoverage, startTally, tallyEntry, mergeCoverage, coverageOverlay, coverageReport } from './coverage';
+
+function makeNode(id: string, label: string, type = 'stateNode', parentId?: string): Node {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label },
+    ...(parentId ? { parentId } : {}),
+  };
+}
+
+const nodes: Node[] = [
+  makeNode('p', 'P'),
+  makeNode('a', 'A', 'stateNode', 'p'),
+  makeNode('b', 'B', 'stateNode', 'p'),
+  makeNode('c', 'C'),
+];
+
+const edges: Edge[] = [
+  { id: 'initial-edge-p', source: 'p', target: 'a' },
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'a' },
+  { id: 'e3', source: 'p', target: 'c' },
+];
+
+describe('traceCoverage', () => {
+  it('counts visits, dwell time and reported transitions', () => {
+    const coverage = traceCoverage([
+      { t: 0, activeStates: ['P/A'] },
+      { t: 100, activeStates: ['P/B'], transitions: [{ source: 'P/A', target: 'P/B' }] },
+      { t: 300, activeStates: ['P/A'], transitions: [{ source: 'P/B', target: 'P/A' }] },
+      { t: 350, activeStates: ['P/A'], transitions: [{ source: 'P/A', target: 'P/A' }] },
+      { t: 400, activeStates: [] },
+    ], nodes, edges);
+    expect(coverage.states).toEqual({
+      'P': { visits: 1, dwellMs: 400 },
+      'P/A': { visits: 3, dwellMs: 200 },
+      'P/B': { visits: 1, dwellMs: 200 },
+    });
+    expect(coverage.transitions).toEqual({ 'P/A -> P/B': 1, 'P/B -> P/A': 1, 'P/A -> P/A': 1 });
+  });
+
+  it('re-enters the active children of a composite state on a self-transition', () => {
+    const coverage = traceCoverage([
+      { t: 0, activeStates: ['P/A'] },
+      { t: 10, activeStates: ['P/A'], transitions: [{ source: 'P', target: 'P' }] },
+      { t: 20, activeStates: ['P/A'], transitions: [{ source: 'P/A', target: 'P' }] },
+    ], nodes, edges);
+    expect(coverage.states['P'].visits).toBe(3);
+    expect(coverage.states['P/A'].visits).toBe(3);
+  });
+
+  it('counts a state entered through a decision', () => {
+    const coverage = traceCoverage([
+      { t: 0, activeStates: ['P/A'] },
+      { t: 10, activeStates: ['C'], transitions: [{ source: 'P/A', target: '@D1' }] },
+    ], nodes, edges);
+    expect(coverage.states['C'].visits).toBe(1);
+    expect(coverage.states['P'].visits).toBe(1);
+  });
+
+  it('infers state-to-state transitions when the plugin does not report them', () => {
+    const coverage = traceCoverage([
+      { t: 0, activeStates: ['P/A'] },
+      { t: 10, activeStates: ['P/B'] },
+      { t: 20, activeStates: ['C'] },
+    ], nodes, edges);
+    expect(coverage.transitions).toEqual({ 'P/A -> P/B': 1, 'P -> C': 1 });
+  });
+});
+
+describe('startTally and tallyEntry', () => {
+  it('match the coverage of the trace so far after every entry', () => {
+    const entries = [
+      { t: 0, activeStates: ['P/A'] },
+      { t: 10, activeStates: ['P/B'] },
+      { t: 25, activeStates: ['P/A'], transitions: [{ source: 'P/B', target: 'P/A' }] },
+      { t: 40, activeStates: ['C'] },
+    ];
+    const tally = startTally(nodes, edges);
+    entries.forEach((entry, i) => {
+      tallyEntry(tally, entry);
+      expect(tally.coverage).toEqual(traceCoverage(entries.slice(0, i + 1), nodes, edges));
+    });
+  });
+});
+
+describe('coverageOverlay and coverageReport', () => {
+  const first = traceCoverage([
+    { t: 0, activeStates: ['P/A'] },
+    { t: 10, activeStates: ['P/B'], transitions: [{ source: 'P/A', target: 'P/B' }] },
+  ], nodes, edges);
+  const second = traceCoverage([{ t: 0, activeStates: ['P/A'] }], nodes, edges);
+  const coverage = mergeCoverage(first, second);
+
+  it('maps merged coverage onto node and edge ids', () => {
+    const overlay = coverageOverlay(coverage, nodes, edges);
+    expect(overlay.nodes.get('a')).toMatchObject({ visits: 2, dwellMs: 10, heat: 1 });
+    expect(overlay.nodes.get('c')).toMatchObject({ visits: 0, heat: 0 });
+    expect(overlay.edges.get('e1')).toEqual({ count: 1, heat: 1 });
+    expect(overlay.edges.has('initial-edge-p')).toBe(false);
+  });
+
+  it('lists unvisited states and transitions by path', () => {
+    const report = coverageReport(coverage, nodes, edges, 'test.smb');
+    expect(report).toContain('- States visited: 3/4 (75%)');
+    expect(report).toContain('## Unvisited states\n\n- C\n');
+    expect(report).toContain('## Transitions never taken\n\n- P -> C\n- P/B -> P/A\n');
+    expect(report).toContain('| P/A | 2 | 0.010 s |');
+  });
+});
@@ -0,0 +1,210 @@
+import { Node, Edge } from 'reactflow';
+import type { TransitionRef } from '../preload';
+import { TraceEntry, formatTraceTime } from './trace';
+import { vertexPath } from './breakpoints';
+import { computeNodePath } from './nodeUtils';
+
+// Coverage is keyed by path rather than node id so it survives edits and
+// can be accumulated across several View Mode runs.
+export interface StateCoverage {
+  visits: number;
+  dwellMs: number;
+}
+
+export interface Coverage {
+  /** Per state path (ancestors included): entries and total time active. */
+  states: Record<string, StateCoverage>;
+  /** Per transition (see transitionKey): number of times taken. */
+  transitions: Record<string, number>;
+}
+
+/** Per-element coverage for the canvas overlay. `heat` is 0..1. */
+export interface CoverageOverlay {
+  nodes: Map<string, StateCoverage & { heat: number }>;
+  edges: Map<string, { count: number; heat: number }>;
+}
+
+export function emptyCoverage(): Coverage {
+  return { states: {}, transitions: {} };
+}
+
+export function transitionKey(t: TransitionRef): string {
+  return `${t.source} -> ${t.target}`;
+}
+
+// Edges as path-based transitions, skipping the synthetic initial edges.
+function edgeTransitions(nodes: Node[], edges: Edge[]): { id: string; ref: TransitionRef }[] {
+  return edges
+    .filter(e => !e.id.startsWith('initial-edge'))
+    .map(e => ({ id: e.id, ref: { source: vertexPath(e.source, nodes), target: vertexPath(e.target, nodes) } }));
+}
+
+// All paths implied by a set of active leaves, ancestors included.
+function withAncestors(activeStates: string[]): Set<string> {
+  const result = new Set<string>();
+  for (const leaf of activeStates) {
+    const parts = leaf.split('/');
+    for (let depth = 1; depth <= parts.length; depth++) {
+      result.add(parts.slice(0, depth).join('/'));
+    }
+  }
+  return result;
+}
+
+// Plugins that do not report transitions (e.g. the MQTT bridge) only give
+// state sets; guess the state-to-state edges that explain the change: source
+// active before, target newly entered.
+function inferTransitions(before: Set<string>, after: Set<string>, candidates: TransitionRef[]): TransitionRef[] {
+  return candidates.filter(t => before.has(t.source) && after.has(t.target) && !before.has(t.target));
+}
+
+// The active paths a step entered again or for the first time: everything
+// under each transition's target, so a self-transition on a composite state
+// re-enters its active children too. A transition to a decision or other
+// pseudo state ends in whatever states it made newly active.
+function enteredPaths(taken: TransitionRef[], before: Set<string>, after: Set<string>): Set<string> {
+  const result = new Set([...after].filter(p => !before.has(p)));
+  for (const t of taken) {
+    if (t.target.split('/').pop()?.startsWith('@')) continue;
+    for (const p of after) {
+      if (p === t.target || p.startsWith(t.target + '/')) result.add(p);
+    }
+  }
+  return result;
+}
+
+/** Coverage of a trace that is still growing, extended one entry at a time. */
+export interface CoverageTally {
+  coverage: Coverage;
+  candidates: TransitionRef[];
+  prev: Set<string>;
+  lastT: number | null;
+}
+
+export function startTally(nodes: Node[], edges: Edge[]): CoverageTally {
+  return { coverage: emptyCoverage(), candidates: edgeTransitions(nodes, edges).map(e => e.ref), prev: new Set(), lastT: null };
+}
+
+// Add the next trace entry. Dwell time for an entry lasts until the next
+// entry, so the previous entry's states are credited now and the latest
+// entry contributes nothing yet.
+export function tallyEntry(tally: CoverageTally, entry: TraceEntry): void {
+  const { coverage } = tally;
+  if (tally.lastT !== null) {
+    const dt = entry.t - tally.lastT;
+    for (const p of tally.prev) coverage.states[p].dwellMs += dt;
+  }
+  const active = withAncestors(entry.activeStates);
+  const taken = entry.transitions ?? (tally.lastT !== null ? inferTransitions(tally.prev, active, tally.candidates) : []);
+  const entered = enteredPaths(taken, tally.prev, active);
+  for (const p of active) {
+    const s = coverage.states[p] ?? (coverage.states[p] = { visits: 0, dwellMs: 0 });
+    if (entered.has(p)) s.visits++;
+  }
+  for (const t of taken) {
+    const key = transitionKey(t);
+    coverage.transitions[key] = (coverage.transitions[key] ?? 0) + 1;
+  }
+  tally.prev = active;
+  tally.lastT = entry.t;
+}
+
+// Accumulate coverage from a recorded trace.
+export function traceCoverage(entries: TraceEntry[], nodes: Node[], edges: Edge[]): Coverage {
+  const tally = startTally(nodes, edges);
+  for (const entry of entries) tallyEntry(tally, entry);
+  return tally.coverage;
+}
+
+export function mergeCoverage(a: Coverage, b: Coverage): Coverage {
+  const result: Coverage = {
+    states: Object.fromEntries(Object.entries(a.states).map(([p, s]) => [p, { ...s }])),
+    transitions: { ...a.transitions },
+  };
+  for (const [p, s] of Object.entries(b.states)) {
+    const r = result.states[p] ?? (result.states[p] = { visits: 0, dwellMs: 0 });
+    r.visits += s.visits;
+    r.dwellMs += s.dwellMs;
+  }
+  for (const [k, n] of Object.entries(b.transitions)) {
+    result.transitions[k] = (result.transitions[k] ?? 0) + n;
+  }
+  return result;
+}
+
+// Log-scaled so a state that is visited once still shows up clearly next to
+// one that is visited thousands of times.
+function heat(n: number, max: number): number {
+  return n > 0 && max > 0 ? Math.log1p(n) / Math.log1p(max) : 0;
+}
+
+// Map path-based coverage onto the current model's state nodes and edges.
+export function coverageOverlay(coverage: Coverage, nodes: Node[], edges: Edge[]): CoverageOverlay {
+  const overlay: CoverageOverlay = { nodes: new Map(), edges: new Map() };
+  const states = nodes.filter(n => n.type === 'stateNode');
+  const maxVisits = Math.max(0, ...Object.values(coverage.states).map(s => s.visits));
+  for (const node of states) {
+    const s = coverage.states[computeNodePath(node.id, nodes)] ?? { visits: 0, dwellMs: 0 };
+    overlay.nodes.set(node.id, { ...s, heat: heat(s.visits, maxVisits) });
+  }
+  const maxCount = Math.max(0, ...Object.values(coverage.transitions));
+  for (const { id, ref } of edgeTransitions(nodes, edges)) {
+    const count = coverage.transitions[transitionKey(ref)] ?? 0;
+    overlay.edges.set(id, { count, heat: heat(count, maxCount) });
+  }
+  return overlay;
+}
+
+// Fill color for a coverage level: red when never reached, then green
+// getting darker with use.
+export function coverageColor(count: number, level: number, alpha = 1): string {
+  if (count === 0) return `rgba(229, 57, 53, ${alpha})`;
+  const lightness = Math.round(85 - level * 45);
+  return `hsla(122, 45%, ${lightness}%, ${alpha})`;
+}
+
+function percent(part: number, total: number): string {
+  return total === 0 ? '-' : `${Math.round((part / total) * 100)}%`;
+}
+
+// Markdown coverage report: summary, then the states and transitions that
+// were never reached, then per-state visit counts and dwell times.
+export function coverageReport(coverage: Coverage, nodes: Node[], edges: Edge[], title = 'State machine'): string {
+  const overlay = coverageOverlay(coverage, nodes, edges);
+  const rows = [...overlay.nodes].map(([id, c]) => ({ path: computeNodePath(id, nodes), ...c }));
+  const byPath = (a: string, b: string) => a.localeCompare(b);
+  rows.sort((a, b) => byPath(a.path, b.path));
+
+  const unvisited = rows.filter(r => r.visits === 0).map(r => r.path);
+  const transitions = edgeTransitions(nodes, edges);
+  const unfired = transitions
+    .filter(t => (overlay.edges.get(t.id)?.count ?? 0) === 0)
+    .map(t => transitionKey(t.ref))
+    .sort(byPath);
+
+  const stateTotal = overlay.nodes.size;
+  const edgeTotal = transitions.length;
+  const lines: string[] = [
+    `# Coverage report: ${title}`,
+    '',
+    `- States visited: ${stateTotal - unvisited.length}/${stateTotal} (${percent(stateTotal - unvisited.length, stateTotal)})`,
+    `- Transitions taken: ${edgeTotal - unfired.length}/${edgeTotal} (${percent(edgeTotal - unfired.length, edgeTotal)})`,
+    '',
+    '## Unvisited states',
+    '',
+    ...(unvisited.length ? unvisited.map(p => `- ${p}`) : ['None']),
+    '',
+    '## Transitions never taken',
+    '',
+    ...(unfired.length ? unfired.map(k => `- ${k}`) : ['None']),
+    '',
+    '## Visits and dwell time',
+    '',
+    '| State | Visits | Dwell |',
+    '| --- | ---: | ---: |',
+  ];
+  for (const r of rows) {
+    lines.push(`| ${r.path} | ${r.visits} | ${formatTraceTime(r.dwellMs)} |`);
+  }
+  return lines.join('\n') + '\n';
+}
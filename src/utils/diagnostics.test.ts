@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { convertFromYaml, defaultMachineProperties } from '../yamlConverter';
+import { collectDiagnostics, applyQuickFix, Diagnostic, ModelState } from './diagnostics';
+
+function load(content: string): ModelState {
+  const { nodes, edges, machineProperties } = convertFromYaml(content);
+  return { nodes, edges, machineProperties };
+}
+
+function diagnose(model: ModelState) {
+  return collectDiagnostics(model.nodes, model.edges, model.machineProperties);
+}
+
+describe('collectDiagnostics', () => {
+  it('combines consistency and lint results, errors first', () => {
+    const model = load(`initial: A
+states:
+  A:
+    history: true
+`);
+    model.edges.push({ id: 'dangling', source: 'gone', target: model.nodes[0].id });
+    const diagnostics = diagnose(model);
+    expect(diagnostics.map(d => [d.source, d.severity, d.path])).toEqual([
+      ['consistency', 'error', 'gone → A'],
+      ['lint', 'warning', 'A'],
+    ]);
+  });
+});
+
+describe('applyQuickFix', () => {
+  it('sets the first child as initial', () => {
+    const model = load(`initial: P
+states:
+  P:
+    states:
+      X: {}
+      Y: {}
+`);
+    const [d] = diagnose(model);
+    expect(d.fix?.kind).toBe('set_first_child_initial');
+    const fixed = applyQuickFix(d, model);
+    const p = fixed.nodes.find(n => n.data.label === 'P') as Node;
+    const x = fixed.nodes.find(n => n.data.label === 'X') as Node;
+    expect(p.data.initial).toBe(x.id);
+    expect(p.data.initialMarkerPos).toBeDefined();
+    expect(diagnose(fixed).some(x => x.kind === 'missing_initial')).toBe(false);
+  });
+
+  it('sets the root initial', () => {
+    const model = load(`states:
+  A: {}
+`);
+    const fixed = applyQuickFix(diagnose(model)[0], model);
+    expect(fixed.machineProperties.initial).toBe(model.nodes[0].id);
+  });
+
+  it('removes a proxy whose target is gone together with its edges', () => {
+    const nodes: Node[] = [
+      { id: 'a', type: 'stateNode', position: { x: 0, y: 0 }, data: { label: 'A' } },
+      { id: 'px', type: 'proxyNode', position: { x: 0, y: 0 }, data: { label: 'B', targetId: 'b' } },
+    ];
+    const edges: Edge[] = [{ id: 'e1', source: 'a', target: 'px' }];
+    const model = { nodes, edges, machineProperties: { ...defaultMachineProperties, initial: 'a' } };
+    const d = diagnose(model).find(x => x.kind === 'broken_proxy_target') as Diagnostic;
+    expect(d.fix?.kind).toBe('remove_dangling_proxy');
+    const fixed = applyQuickFix(d, model);
+    expect(fixed.nodes.map(n => n.id)).toEqual(['a']);
+    expect(fixed.edges).toEqual([]);
+  });
+
+  it('adds a guardless branch after the last decision branch', () => {
+    const model = load(`SM-builder-version: 0.6.0
+initial: Idle
+decisions:
+  D1:
+    - to: A
+      guard: ctx.x
+states:
+  Idle:
+    transitions:
+      - to: '@D1'
+  A: {}
+`);
+    const d = diagnose(model).find(x => x.kind === 'decision_without_else') as Diagnostic;
+    const fixed = applyQuickFix(d, model);
+    const idle = fixed.nodes.find(n => n.data.label === 'Idle') as Node;
+    const added = fixed.edges.filter(e => !model.edges.includes(e));
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({ source: d.nodeId, target: idle.id, data: { label: '' } });
+    expect(diagnose(fixed).some(x => x.kind === 'decision_without_else')).toBe(false);
+  });
+
+  it('points the else branch at the initial state rather than back where it came from, and selects it', () => {
+    const model = load(`SM-builder-version: 0.6.0
+initial: Idle
+decisions:
+  D1:
+    - to: A
+      guard: ctx.x
+states:
+  Idle:
+    transitions:
+      - to: Busy
+  Busy:
+    transitions:
+      - to: '@D1'
+  A: {}
+`);
+    const d = diagnose(model).find(x => x.kind === 'decision_without_else') as Diagnostic;
+    const fixed = applyQuickFix(d, model);
+    const idle = fixed.nodes.find(n => n.data.label === 'Idle') as Node;
+    const added = fixed.edges.find(e => !model.edges.includes(e) && e.source === d.nodeId) as Edge;
+    expect(added).toMatchObject({ target: idle.id, selected: true });
+    const branchIndex = fixed.edges.findIndex(e => e.source === d.nodeId);
+    expect(fixed.edges.indexOf(added)).toBe(branchIndex + 1);
+  });
+
+  it('appends the else branch of a decision without branches', () => {
+    const model = load(`SM-builder-version: 0.6.0
+initial: Idle
+decisions:
+  D1: []
+states:
+  Idle:
+    transitions:
+      - to: '@D1'
+`);
+    const decision = model.nodes.find(n => n.type === 'decisionNode') as Node;
+    const d: Diagnostic = {
+      source: 'lint', kind: 'decision_without_else', severity: 'warning', message: '', path: 'D1',
+      nodeId: decision.id, fix: { kind: 'add_else_branch', label: 'Add else branch' },
+    };
+    const fixed = applyQuickFix(d, model);
+    expect(fixed.edges.slice(0, model.edges.length)).toEqual(model.edges);
+    expect(fixed.edges[fixed.edges.length - 1]).toMatchObject({ source: d.nodeId, selected: true });
+  });
+});
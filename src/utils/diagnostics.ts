@@ -0,0 +1,176 @@
+import { Node, Edge, MarkerType } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { getAbsoluteNodeBounds } from '../semanticZoom';
+import { computeNodePath } from './nodeUtils';
+import { calculateBestHandles } from './handleUtils';
+import { vertexPath } from './breakpoints';
+import { findSyntaxErrorLocations } from './syntaxCheck';
+import { checkModelConsistency } from './modelConsistency';
+import { lintModel, LintSeverity } from './modelLint';
+
+export type QuickFixKind = 'set_first_child_initial' | 'remove_dangling_proxy' | 'add_else_branch';
+
+export interface Diagnostic {
+  source: 'syntax' | 'consistency' | 'lint';
+  kind: string;
+  severity: LintSeverity;
+  message: string;
+  /** State path, "source → target" for transitions, or "/" for the machine. */
+  path: string;
+  /** Code field for syntax errors, e.g. "entry" or "guard". */
+  field?: string;
+  nodeId?: string;
+  edgeId?: string;
+  fix?: { kind: QuickFixKind; label: string };
+}
+
+export interface ModelState {
+  nodes: Node[];
+  edges: Edge[];
+  machineProperties: MachineProperties;
+}
+
+function ownerPath(nodeId: string | undefined, edgeId: string | undefined, nodes: Node[], edges: Edge[]): string {
+  if (nodeId) return computeNodePath(nodeId, nodes) || nodeId;
+  const edge = edgeId ? edges.find(e => e.id === edgeId) : undefined;
+  if (edge) return `${vertexPath(edge.source, nodes) || edge.source} → ${vertexPath(edge.target, nodes) || edge.target}`;
+  return '/';
+}
+
+function quickFixFor(kind: string, nodeId: string | undefined, nodes: Node[]): Diagnostic['fix'] {
+  switch (kind) {
+    case 'missing_initial': {
+      const first = nodes.find(n => n.type === 'stateNode' && n.parentId === nodeId);
+      return first ? { kind: 'set_first_child_initial', label: `Set '${first.data.label}' as initial` } : undefined;
+    }
+    case 'broken_proxy':
+    case 'broken_proxy_target':
+      return { kind: 'remove_dangling_proxy', label: 'Remove proxy' };
+    case 'decision_without_else':
+      return { kind: 'add_else_branch', label: 'Add else branch' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Everything that is wrong with the model: code syntax errors, broken ID
+ * references and semantic lint problems, errors first.
+ */
+export function collectDiagnostics(nodes: Node[], edges: Edge[], machineProperties: MachineProperties): Diagnostic[] {
+  const result: Diagnostic[] = [];
+
+  for (const loc of findSyntaxErrorLocations(nodes, edges, machineProperties)) {
+    result.push({
+      source: 'syntax', kind: 'syntax_error', severity: 'error',
+      message: `Syntax error in ${loc.field}`,
+      path: loc.nodeId || loc.edgeId ? ownerPath(loc.nodeId, loc.edgeId, nodes, edges) : '/',
+      field: loc.field, nodeId: loc.nodeId, edgeId: loc.edgeId,
+    });
+  }
+
+  for (const err of checkModelConsistency(nodes, edges)) {
+    result.push({
+      source: 'consistency', kind: err.kind, severity: 'error',
+      message: err.message,
+      path: ownerPath(err.nodeId, err.edgeId, nodes, edges),
+      nodeId: err.nodeId, edgeId: err.edgeId,
+      fix: quickFixFor(err.kind, err.nodeId, nodes),
+    });
+  }
+
+  for (const p of lintModel(nodes, edges, machineProperties)) {
+    result.push({
+      source: 'lint', kind: p.kind, severity: p.severity,
+      message: p.message, path: p.path,
+      nodeId: p.nodeId, edgeId: p.edgeId,
+      fix: quickFixFor(p.kind, p.nodeId, nodes),
+    });
+  }
+
+  return [...result.filter(d => d.severity === 'error'), ...result.filter(d => d.severity === 'warning')];
+}
+
+// Initial marker just left of the chosen child, as if placed by hand.
+function markerNear(childId: string, nodes: Node[], relativeTo?: string) {
+  const child = getAbsoluteNodeBounds(childId, nodes);
+  const parent = relativeTo ? getAbsoluteNodeBounds(relativeTo, nodes) : null;
+  if (!child) return {};
+  const origin = parent ? { x: parent.x, y: parent.y } : { x: 0, y: 0 };
+  const size = (parent ? parent.width : child.width) * 0.03;
+  return {
+    pos: { x: child.x - origin.x - 4 * size, y: child.y - origin.y + child.height / 2 },
+    size,
+  };
+}
+
+/** Apply the diagnostic's quick-fix and return the updated model. */
+export function applyQuickFix(diagnostic: Diagnostic, model: ModelState): ModelState {
+  const { nodes, edges, machineProperties } = model;
+  switch (diagnostic.fix?.kind) {
+    case 'set_first_child_initial': {
+      const parentId = diagnostic.nodeId;
+      const first = nodes.find(n => n.type === 'stateNode' && n.parentId === parentId);
+      if (!first) return model;
+      const marker = markerNear(first.id, nodes, parentId);
+      if (!parentId) {
+        return {
+          ...model,
+          machineProperties: {
+            ...machineProperties,
+            initial: first.id,
+            initialMarkerPos: marker.pos,
+            initialMarkerSize: marker.size,
+          },
+        };
+      }
+      return {
+        ...model,
+        nodes: nodes.map(n => n.id === parentId
+          ? { ...n, data: { ...n.data, initial: first.id, initialMarkerPos: marker.pos, initialMarkerSize: marker.size } }
+          : n),
+      };
+    }
+    case 'remove_dangling_proxy': {
+      const proxyId = diagnostic.nodeId;
+      return {
+        ...model,
+        nodes: nodes.filter(n => n.id !== proxyId),
+        edges: edges.filter(e => e.source !== proxyId && e.target !== proxyId),
+      };
+    }
+    case 'add_else_branch': {
+      // Default the else branch to the initial state of the decision's parent,
+      // and select it for the user to retarget.
+      const decisionId = diagnostic.nodeId as string;
+      const parentId = nodes.find(n => n.id === decisionId)?.parentId;
+      const initialId = parentId ? nodes.find(n => n.id === parentId)?.data.initial : machineProperties.initial;
+      const target = nodes.find(n => n.id === initialId && n.type === 'stateNode')
+        ?? nodes.find(n => n.type === 'stateNode' && n.parentId === parentId);
+      if (!target) return model;
+      const { sourceHandle, targetHandle } = calculateBestHandles(decisionId, target.id, nodes);
+      const elseEdge: Edge = {
+        id: `e${decisionId}-${target.id}-${Date.now()}`,
+        source: decisionId,
+        target: target.id,
+        sourceHandle,
+        targetHandle,
+        type: 'spline',
+        data: { controlPoints: [], label: '' },
+        markerEnd: { type: MarkerType.ArrowClosed },
+        selected: true,
+      };
+      const deselected = edges.map(e => (e.selected ? { ...e, selected: false } : e));
+      // Branches are evaluated in order, so the else goes after the last one
+      const branches = edges.filter(e => e.source === decisionId);
+      const insertAt = branches.length > 0 ? edges.lastIndexOf(branches[branches.length - 1]) + 1 : edges.length;
+      return {
+        ...model,
+        nodes: nodes.map(n => (n.selected ? { ...n, selected: false } : n)),
+        edges: [...deselected.slice(0, insertAt), elseEdge, ...deselected.slice(insertAt)],
+      };
+    }
+    default:
+      return model;
+  }
+}
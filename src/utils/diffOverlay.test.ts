@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml } from '../yamlConverter';
+import { diffModels } from './modelDiff';
+import { buildDiffOverlay } from './diffOverlay';
+
+const BEFORE = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    graphics: { x: 0, 'y': 0, width: 100, height: 50 }
+    transitions:
+      - to: Running
+        guard: ctx.go
+  Running:
+    graphics: { x: 200, 'y': 0, width: 300, height: 200 }
+    initial: Fast
+    states:
+      Fast:
+        graphics: { x: 20, 'y': 40, width: 80, height: 40 }
+        transitions:
+          - to: Slow
+      Slow:
+        graphics: { x: 150, 'y': 40, width: 80, height: 40 }
+`;
+
+// Running moved 100 to the right, Slow removed, Idle → Running changed, Done added
+const AFTER = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    graphics: { x: 0, 'y': 0, width: 100, height: 50 }
+    transitions:
+      - to: Running
+        guard: ctx.start
+  Running:
+    graphics: { x: 300, 'y': 0, width: 300, height: 200 }
+    initial: Fast
+    states:
+      Fast:
+        graphics: { x: 20, 'y': 40, width: 80, height: 40 }
+  Done:
+    graphics: { x: 0, 'y': 300, width: 100, height: 50 }
+`;
+
+describe('buildDiffOverlay', () => {
+  const before = convertFromYaml(BEFORE);
+  const after = convertFromYaml(AFTER);
+  const overlay = buildDiffOverlay(before, after, diffModels(before, after));
+  const idOf = (label: string) => after.nodes.find(n => n.data.label === label)!.id;
+
+  it('colors current states and transitions by change', () => {
+    expect([...overlay.nodes]).toEqual([[idOf('Done'), 'added']]);
+    expect([...overlay.edges.values()]).toEqual(['modified']);
+  });
+
+  it('places removed states inside their moved parent and links removed transitions to them', () => {
+    expect(overlay.ghostNodes).toHaveLength(1);
+    const ghost = overlay.ghostNodes[0];
+    expect(ghost.data.label).toBe('Slow');
+    expect(ghost.parentId).toBeUndefined();
+    expect(ghost.position).toEqual({ x: 450, y: 40 });
+    expect(overlay.ghostEdges).toEqual([
+      expect.objectContaining({ source: idOf('Fast'), target: ghost.id }),
+    ]);
+  });
+
+  it('lists every change with the bounds to zoom to', () => {
+    expect(overlay.items.map(i => `${i.kind} ${i.title}`)).toEqual([
+      'added state Done',
+      'removed state Running/Slow',
+      'modified transition Idle → Running',
+      'removed transition Running/Fast → Running/Slow',
+    ]);
+    expect(overlay.items[2].details).toEqual(['guard: "ctx.go" → "ctx.start"']);
+    expect(overlay.items[3].bounds).toEqual({ x: 320, y: 40, width: 210, height: 40 });
+  });
+});
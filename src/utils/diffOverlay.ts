@@ -0,0 +1,168 @@
+import { Node, Edge } from 'reactflow';
+import { getAbsoluteNodeBounds } from '../semanticZoom';
+import { DiffModel, ModelDiff, matchVertices, resolveProxy, describeField } from './modelDiff';
+
+// Canvas side of a comparison: which of the current states and transitions
+// changed, and "ghosts" for what only the other version has. Ghosts are
+// placed relative to their closest ancestor that still exists, so a removed
+// child shows inside its parent even if the parent has moved since.
+
+export type DiffStatus = 'added' | 'removed' | 'modified';
+
+export const DIFF_COLORS = { added: '#2e7d32', removed: '#c62828', renamed: '#ed6c02', modified: '#ed6c02' } as const;
+
+type Bounds = { x: number; y: number; width: number; height: number };
+
+export interface DiffItem {
+  key: string;
+  kind: 'added' | 'removed' | 'renamed' | 'modified';
+  /** What changed, e.g. "state Running/Fast" or "transition Idle → Running". */
+  title: string;
+  details: string[];
+  /** Absolute bounds to zoom to; none for machine properties. */
+  bounds?: Bounds;
+}
+
+export interface DiffOverlay {
+  nodes: Map<string, DiffStatus>;
+  edges: Map<string, DiffStatus>;
+  /** Removed states and pseudo-states, parentless and at absolute positions. Ids are prefixed with `ghost:`. */
+  ghostNodes: Node[];
+  /** Removed transitions, between current nodes or ghosts. */
+  ghostEdges: Edge[];
+  items: DiffItem[];
+}
+
+export const ghostId = (beforeId: string) => `ghost:${beforeId}`;
+
+function union(a: Bounds | undefined, b: Bounds | undefined): Bounds | undefined {
+  if (!a || !b) return a ?? b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x, y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+export function buildDiffOverlay(before: DiffModel, after: DiffModel, diff: ModelDiff): DiffOverlay {
+  const matches = matchVertices(before, after);
+  const counterpart = new Map([...matches].map(([a, b]) => [b, a]));
+  const beforeById = new Map(before.nodes.map(n => [n.id, n]));
+  const overlay: DiffOverlay = { nodes: new Map(), edges: new Map(), ghostNodes: [], ghostEdges: [], items: [] };
+
+  // Where a removed vertex goes on the current canvas
+  const ghostBounds = new Map<string, Bounds>();
+  const placeGhost = (id: string): Bounds | undefined => {
+    const own = getAbsoluteNodeBounds(id, before.nodes);
+    if (!own) return undefined;
+    for (let a = beforeById.get(id)?.parentId; a; a = beforeById.get(a)?.parentId) {
+      const current = counterpart.get(a);
+      if (!current) continue;
+      const then = getAbsoluteNodeBounds(a, before.nodes);
+      const now = getAbsoluteNodeBounds(current, after.nodes);
+      if (!then || !now) break;
+      return { ...own, x: own.x - then.x + now.x, y: own.y - then.y + now.y };
+    }
+    return own;
+  };
+  const depthOf = (id: string) => {
+    let depth = 0;
+    for (let p = beforeById.get(id)?.parentId; p; p = beforeById.get(p)?.parentId) depth++;
+    return depth;
+  };
+
+  for (const change of diff.states) {
+    let bounds: Bounds | undefined;
+    if (change.kind === 'removed') {
+      const old = beforeById.get(change.beforeId!)!;
+      bounds = placeGhost(old.id);
+      if (bounds) {
+        ghostBounds.set(old.id, bounds);
+        overlay.ghostNodes.push({
+          ...old,
+          id: ghostId(old.id),
+          parentId: undefined,
+          position: { x: bounds.x, y: bounds.y },
+          style: { ...old.style, width: bounds.width, height: bounds.height },
+          selected: false,
+          data: { ...old.data, diffStatus: 'removed', depth: depthOf(old.id) },
+        });
+      }
+    } else {
+      overlay.nodes.set(change.afterId!, change.kind === 'added' ? 'added' : 'modified');
+      bounds = getAbsoluteNodeBounds(change.afterId!, after.nodes) ?? undefined;
+    }
+    overlay.items.push({
+      key: `state ${change.beforeId ?? ''} ${change.afterId ?? ''}`,
+      kind: change.kind,
+      title: `${change.vertex} ${change.path}`,
+      details: [
+        ...(change.oldPath ? [`renamed from ${change.oldPath}`] : []),
+        ...change.fields.map(describeField),
+      ],
+      bounds,
+    });
+  }
+
+  // Endpoints of a removed transition on the current canvas
+  const beforeEdgesById = new Map(before.edges.map(e => [e.id, e]));
+  const endpoint = (id: string) => {
+    const resolved = resolveProxy(id, beforeById);
+    const current = counterpart.get(resolved);
+    if (current) return { id: current, bounds: getAbsoluteNodeBounds(current, after.nodes) ?? undefined };
+    const bounds = ghostBounds.get(resolved);
+    return bounds ? { id: ghostId(resolved), bounds } : undefined;
+  };
+
+  for (const change of diff.transitions) {
+    let bounds: Bounds | undefined;
+    if (change.kind === 'removed') {
+      const old = beforeEdgesById.get(change.beforeId!)!;
+      const source = endpoint(old.source);
+      const target = endpoint(old.target);
+      bounds = union(source?.bounds, target?.bounds);
+      if (source && target) {
+        overlay.ghostEdges.push({
+          ...old,
+          id: ghostId(old.id),
+          source: source.id,
+          target: target.id,
+          selected: false,
+          // The old routing does not fit the current positions
+          data: { ...old.data, controlPoints: undefined, diffStatus: 'removed' },
+        });
+      }
+    } else {
+      overlay.edges.set(change.afterId!, change.kind);
+      const edge = after.edges.find(e => e.id === change.afterId);
+      if (edge) {
+        bounds = union(
+          getAbsoluteNodeBounds(edge.source, after.nodes) ?? undefined,
+          getAbsoluteNodeBounds(edge.target, after.nodes) ?? undefined,
+        );
+      }
+    }
+    overlay.items.push({
+      key: `transition ${change.beforeId ?? ''} ${change.afterId ?? ''}`,
+      kind: change.kind,
+      title: `transition ${change.path}`,
+      details: change.fields.map(describeField),
+      bounds,
+    });
+  }
+
+  if (diff.machine.length > 0) {
+    overlay.items.push({
+      key: 'machine',
+      kind: 'modified',
+      title: 'machine properties',
+      details: diff.machine.map(describeField),
+    });
+  }
+
+  // Outer ghosts first, so that nested ones are drawn on top
+  overlay.ghostNodes.sort((a, b) => (a.data.depth as number) - (b.data.depth as number));
+  return overlay;
+}
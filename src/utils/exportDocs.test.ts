@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml } from '../yamlConverter';
+import { generateDocs } from './exportDocs';
+
+const MACHINE = `SM-builder-version: 0.6.0
+context: |
+  count: int
+hooks:
+  transition: log(src, dst)
+initial: Idle
+states:
+  Idle:
+    entry: lamp.off()
+    annotation: Waiting for input
+    transitions:
+      - to: Busy
+        guard: ctx.go | ctx.force
+        action: ctx.count++
+  Busy:
+    initial: Work
+    history: true
+    states:
+      Work:
+        transitions:
+          - to: ../../Idle
+`;
+
+function docs(format: 'html' | 'markdown') {
+  const { nodes, edges, machineProperties } = convertFromYaml(MACHINE);
+  return generateDocs(nodes, edges, machineProperties, 'lamp', format);
+}
+
+describe('generateDocs', () => {
+  it('writes one self-contained HTML page with a section per composite state', () => {
+    const files = docs('html');
+    expect(files).toHaveLength(1);
+    const html = files[0].content;
+    expect(html).toContain('<h1>lamp</h1>');
+    expect(html).toContain('<h3>Context</h3>');
+    expect(html).toContain('<pre class="block">log(src, dst)</pre>');
+    expect(html).toContain('<section id="machine">');
+    expect(html).toContain('<section id="state-Busy">');
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    expect(html).toContain('<a href="#state-Busy">Busy</a>');
+    expect(html).toContain('<pre>lamp.off()</pre>');
+    expect(html).toContain('<td>Waiting for input</td>');
+    // Targets are relative to the source, as in the .smb file
+    expect(html).toContain('<code>/Idle</code>');
+    expect(html).toContain('History: re-entering resumes');
+  });
+
+  it('writes Markdown with the diagrams as separate SVG files', () => {
+    const [main, ...diagrams] = docs('markdown');
+    expect(main.path).toBe('');
+    expect(diagrams.map(d => d.path)).toEqual(['lamp-diagrams/machine.svg', 'lamp-diagrams/state-Busy.svg']);
+    expect(diagrams[0].content.startsWith('<svg')).toBe(true);
+    const md = main.content;
+    expect(md).toContain('## Busy');
+    expect(md).toContain('![Busy](lamp-diagrams/state-Busy.svg)');
+    expect(md).toContain('| Idle | <code>ctx.go &#124; ctx.force</code> | <code>ctx.count++</code> | <code>Busy</code> |');
+    expect(md).toContain('| [Busy](#state-Busy) | composite |');
+  });
+
+  it('adds an Event column only where transitions have events', () => {
+    const { nodes, edges, machineProperties } = convertFromYaml(MACHINE.replace('      - to: Busy\n', '      - to: Busy\n        event: press\n'));
+    const [main] = generateDocs(nodes, edges, machineProperties, 'lamp', 'markdown');
+    expect(main.content).toContain('| From | Event | Guard | Action | Target |');
+    expect(main.content).toContain('| Idle | <code>press</code> | <code>ctx.go &#124; ctx.force</code> |');
+    // Busy's own transitions have no events
+    expect(main.content).toContain('| From | Guard | Action | Target |');
+  });
+});
@@ -0,0 +1,309 @@
+import { Node, Edge } from 'reactflow';
+import { MachineProperties, computeRelativePath, sigilizePseudoRef } from '../yamlConverter';
+import { computeNodePath } from './nodeUtils';
+import { renderSvg } from './exportSvg';
+import { escapeXml } from './xml';
+import { triggerText } from './transitionLabel';
+
+// Design documentation for reviewers without the editor: one section for the
+// machine and one per composite state, each with its diagram, a table of the
+// child states and a table of their outgoing transitions. HTML is a single
+// file with inline SVG; Markdown refers to SVG files in a folder beside it.
+
+export type DocsFormat = 'html' | 'markdown';
+
+export interface DocsFile {
+  /** Relative to the main document; the main document itself comes first with an empty path. */
+  path: string;
+  content: string;
+}
+
+interface ChildRow {
+  name: string;
+  kind: string;
+  anchor?: string;
+  entry: string;
+  exit: string;
+  do: string;
+  annotation: string;
+}
+
+interface TransitionRow {
+  from: string;
+  event: string;
+  guard: string;
+  action: string;
+  target: string;
+}
+
+interface Section {
+  title: string;
+  anchor: string;
+  notes: string[];
+  svg: string;
+  children: ChildRow[];
+  transitions: TransitionRow[];
+}
+
+function slug(text: string): string {
+  return text.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'state';
+}
+
+function kindOf(node: Node, hasChildren: boolean): string {
+  if (node.type === 'decisionNode') return node.data.isAnd ? 'and' : 'decision';
+  if (node.data.orthogonal) return 'orthogonal';
+  return hasChildren ? 'composite' : 'state';
+}
+
+function buildSections(nodes: Node[], edges: Edge[], machineProperties: MachineProperties): Section[] {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const vertices = nodes.filter(n => n.type !== 'proxyNode');
+  const paths = new Map(vertices.map(n => [n.id, computeNodePath(n.id, nodes)]));
+  const children = new Map<string | undefined, Node[]>();
+  for (const node of vertices) {
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  }
+  const anchorOf = (id: string) => `state-${slug(paths.get(id) as string)}`;
+
+  // Targets are written as in the .smb file, relative to the source
+  const targetText = (source: Node, edge: Edge): string => {
+    const target = nodeMap.get(edge.target);
+    const targetId = target?.type === 'proxyNode' ? (target.data as { targetId: string }).targetId : edge.target;
+    const targetPath = paths.get(targetId);
+    if (!targetPath) return '(missing)';
+    const relative = computeRelativePath(paths.get(source.id) as string, targetPath);
+    return nodeMap.get(targetId)?.type === 'decisionNode' ? sigilizePseudoRef(relative) : relative;
+  };
+
+  const section = (container: Node | undefined): Section => {
+    const kids = children.get(container?.id) || [];
+    const notes: string[] = [];
+    const initial = container ? container.data.initial as string | undefined : machineProperties.initial;
+    if (container?.data.orthogonal) notes.push('Orthogonal: the child states are regions that are active at the same time.');
+    else if (initial && paths.has(initial)) notes.push(`Initial state: ${nodeMap.get(initial)?.data.label}`);
+    if (container?.data.history) notes.push('History: re-entering resumes the child state that was last active.');
+    if (container?.data.annotation?.trim()) notes.push(container.data.annotation.trim());
+
+    return {
+      title: container ? paths.get(container.id) as string : 'Machine',
+      anchor: container ? anchorOf(container.id) : 'machine',
+      notes,
+      svg: renderSvg(nodes, edges, machineProperties, { rootId: container?.id }),
+      children: kids.map(kid => {
+        const hasChildren = children.has(kid.id);
+        return {
+          name: kid.data.label as string,
+          kind: kindOf(kid, hasChildren),
+          anchor: hasChildren ? anchorOf(kid.id) : undefined,
+          entry: kid.data.entry ?? '',
+          exit: kid.data.exit ?? '',
+          do: kid.data.do ?? '',
+          annotation: kid.data.annotation ?? '',
+        };
+      }),
+      // Edge order is priority order
+      transitions: kids.flatMap(kid => edges
+        .filter(e => e.source === kid.id && !e.id.startsWith('initial-edge'))
+        .map(e => ({
+          from: kid.data.label as string,
+          // A timeout is a time event, as in UML
+          event: triggerText({ after: e.data?.after, event: e.data?.event }),
+          guard: e.data?.guard ?? '',
+          action: e.data?.action ?? '',
+          target: targetText(kid, e),
+        }))),
+    };
+  };
+
+  // Parents come before their children in the model, so sections follow the hierarchy
+  return [section(undefined), ...vertices.filter(n => children.has(n.id)).map(section)];
+}
+
+// The Event column is only shown when some transition in the section has one
+const hasEvents = (rows: TransitionRow[]) => rows.some(t => t.event.trim());
+
+function transitionHeaders(rows: TransitionRow[]): string[] {
+  return hasEvents(rows)
+    ? ['From', 'Event', 'Guard', 'Action', 'Target']
+    : ['From', 'Guard', 'Action', 'Target'];
+}
+
+function withEvent(rows: TransitionRow[], cells: string[], event: string): string[] {
+  return hasEvents(rows) ? [cells[0], event, ...cells.slice(1)] : cells;
+}
+
+function machineCode(machineProperties: MachineProperties): [string, string][] {
+  const fields: [string, string][] = [
+    ['Includes', machineProperties.includes],
+    ['Context', machineProperties.context],
+    ['Context initialization', machineProperties.context_init],
+    ['Entry', machineProperties.entry],
+    ['Exit', machineProperties.exit],
+    ['Do', machineProperties.do],
+    ['Entry hook', machineProperties.hooks.entry],
+    ['Exit hook', machineProperties.hooks.exit],
+    ['Do hook', machineProperties.hooks.do],
+    ['Transition hook', machineProperties.hooks.transition],
+  ];
+  return fields.filter(([, code]) => code?.trim());
+}
+
+// --- HTML ---
+
+const HTML_STYLE = `body { font-family: sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+pre { margin: 0; font-size: 12px; }
+pre.block { background: #f8f8f8; padding: 8px; border: 1px solid #eee; }
+.diagram svg { max-width: 100%; height: auto; }
+section { margin-bottom: 3em; }`;
+
+function htmlCode(code: string): string {
+  return code.trim() ? `<pre>${escapeXml(code)}</pre>` : '';
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  return [
+    '<table>',
+    `<tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>`,
+    ...rows.map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`),
+    '</table>',
+  ].join('\n');
+}
+
+function renderHtml(title: string, sections: Section[], machineProperties: MachineProperties): string {
+  const parts: string[] = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeXml(title)}</h1>`,
+  ];
+
+  const code = machineCode(machineProperties);
+  if (machineProperties.language || code.length > 0) {
+    parts.push('<section>', '<h2>Machine properties</h2>');
+    if (machineProperties.language) parts.push(`<p>Language: <code>${escapeXml(machineProperties.language)}</code></p>`);
+    for (const [name, text] of code) parts.push(`<h3>${name}</h3>`, `<pre class="block">${escapeXml(text)}</pre>`);
+    parts.push('</section>');
+  }
+
+  if (sections.length > 1) {
+    parts.push('<nav>', '<ul>');
+    for (const s of sections) parts.push(`<li><a href="#${s.anchor}">${escapeXml(s.title)}</a></li>`);
+    parts.push('</ul>', '</nav>');
+  }
+
+  for (const s of sections) {
+    parts.push(`<section id="${s.anchor}">`, `<h2>${escapeXml(s.title)}</h2>`);
+    for (const note of s.notes) parts.push(`<p>${escapeXml(note)}</p>`);
+    parts.push(`<div class="diagram">\n${s.svg.trim()}\n</div>`);
+    if (s.children.length > 0) {
+      parts.push('<h3>States</h3>', htmlTable(
+        ['State', 'Kind', 'Entry', 'Exit', 'Do', 'Annotation'],
+        s.children.map(c => [
+          c.anchor ? `<a href="#${c.anchor}">${escapeXml(c.name)}</a>` : escapeXml(c.name),
+          c.kind, htmlCode(c.entry), htmlCode(c.exit), htmlCode(c.do), escapeXml(c.annotation),
+        ]),
+      ));
+    }
+    if (s.transitions.length > 0) {
+      parts.push('<h3>Transitions</h3>', htmlTable(
+        transitionHeaders(s.transitions),
+        s.transitions.map(t => withEvent(s.transitions,
+          [escapeXml(t.from), htmlCode(t.guard), htmlCode(t.action), `<code>${escapeXml(t.target)}</code>`],
+          t.event ? `<code>${escapeXml(t.event)}</code>` : '')),
+      ));
+    }
+    parts.push('</section>');
+  }
+
+  parts.push('</body>', '</html>', '');
+  return parts.join('\n');
+}
+
+// --- Markdown ---
+
+// Table cells are single-line; code keeps its line breaks as <br>
+function markdownCell(text: string, asCode = false): string {
+  if (!text.trim()) return '';
+  const lines = text.trim().split('\n').map(l => escapeXml(l).replace(/\|/g, '&#124;'));
+  return asCode ? lines.map(l => `<code>${l}</code>`).join('<br>') : lines.join('<br>');
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `|${headers.map(() => ' --- ').join('|')}|`,
+    ...rows.map(r => `| ${r.join(' | ')} |`),
+  ].join('\n');
+}
+
+function renderMarkdown(title: string, sections: Section[], machineProperties: MachineProperties, diagramDir: string): DocsFile[] {
+  const diagrams: DocsFile[] = [];
+  const parts: string[] = [`# ${title}`, ''];
+
+  const code = machineCode(machineProperties);
+  if (machineProperties.language || code.length > 0) {
+    parts.push('## Machine properties', '');
+    if (machineProperties.language) parts.push(`Language: \`${machineProperties.language}\``, '');
+    for (const [name, text] of code) {
+      parts.push(`### ${name}`, '', '```' + (machineProperties.language || ''), text.replace(/\n+$/, ''), '```', '');
+    }
+  }
+
+  if (sections.length > 1) {
+    for (const s of sections) parts.push(`- [${s.title}](#${s.anchor})`);
+    parts.push('');
+  }
+
+  for (const s of sections) {
+    const svgPath = `${diagramDir}/${s.anchor}.svg`;
+    diagrams.push({ path: svgPath, content: s.svg });
+    parts.push(`<a id="${s.anchor}"></a>`, '', `## ${s.title}`, '');
+    for (const note of s.notes) parts.push(note, '');
+    parts.push(`![${s.title}](${encodeURI(svgPath)})`, '');
+    if (s.children.length > 0) {
+      parts.push('### States', '', markdownTable(
+        ['State', 'Kind', 'Entry', 'Exit', 'Do', 'Annotation'],
+        s.children.map(c => [
+          c.anchor ? `[${markdownCell(c.name)}](#${c.anchor})` : markdownCell(c.name),
+          c.kind, markdownCell(c.entry, true), markdownCell(c.exit, true), markdownCell(c.do, true), markdownCell(c.annotation),
+        ]),
+      ), '');
+    }
+    if (s.transitions.length > 0) {
+      parts.push('### Transitions', '', markdownTable(
+        transitionHeaders(s.transitions),
+        s.transitions.map(t => withEvent(s.transitions,
+          [markdownCell(t.from), markdownCell(t.guard, true), markdownCell(t.action, true), markdownCell(t.target, true)],
+          markdownCell(t.event, true))),
+      ), '');
+    }
+  }
+
+  return [{ path: '', content: parts.join('\n') }, ...diagrams];
+}
+
+/**
+ * Generate the documentation for a machine. The first file is the document
+ * itself; Markdown output adds one SVG file per section under `<title>-diagrams/`.
+ */
+export function generateDocs(
+  nodes: Node[],
+  edges: Edge[],
+  machineProperties: MachineProperties,
+  title: string,
+  format: DocsFormat,
+): DocsFile[] {
+  const sections = buildSections(nodes, edges, machineProperties);
+  if (format === 'html') return [{ path: '', content: renderHtml(title, sections, machineProperties) }];
+  return renderMarkdown(title, sections, machineProperties, `${slug(title)}-diagrams`);
+}
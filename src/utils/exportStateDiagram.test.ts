@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml } from '../yamlConverter';
+import { convertToPlantUml, convertToMermaid, transitionText } from './exportStateDiagram';
+
+const MACHINE = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    entry: lamp.off()
+    transitions:
+      - to: Busy
+        guard: ctx.go
+        action: ctx.count++
+  Busy:
+    initial: Work
+    history: true
+    states:
+      Work:
+        transitions:
+          - to: ../../Idle
+  Both:
+    orthogonal: true
+    states:
+      Left:
+        initial: L1
+        states:
+          L1: {}
+      Right:
+        initial: R1
+        states:
+          R1: {}
+  'Still Busy':
+    transitions:
+      - to: Busy
+`;
+
+function load() {
+  const { nodes, edges, rootHistory, machineProperties } = convertFromYaml(MACHINE);
+  return [nodes, edges, rootHistory, machineProperties] as const;
+}
+
+describe('transitionText', () => {
+  it('formats label, guard and action like the canvas', () => {
+    expect(transitionText({ label: 'go', guard: 'x > 0', action: 'a();\nb();' })).toBe('go [x > 0] / a();; b();');
+    expect(transitionText({ event: 'press', guard: 'ok' })).toBe('press [ok]');
+    expect(transitionText({})).toBe('');
+  });
+});
+
+describe('convertToPlantUml', () => {
+  it('preserves nesting, initial states, history and regions', () => {
+    const { text, warnings } = convertToPlantUml(...load());
+    const lines = text.split('\n').map(l => l.trim());
+    expect(lines[0]).toBe('@startuml');
+    expect(lines).toContain('[*] --> Idle');
+    expect(lines).toContain('Idle : entry / lamp.off()');
+    expect(lines).toContain('Idle --> Busy[H] : [ctx.go] / ctx.count++');
+    expect(lines).toContain('state Busy {');
+    expect(lines).toContain('[*] --> Busy_Work');
+    expect(lines).toContain('Busy_Work --> Idle');
+    expect(lines).toContain('state "Still Busy" as Still_Busy');
+    expect(lines).toContain('--');
+    expect(text.trim().endsWith('@enduml')).toBe(true);
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('convertToMermaid', () => {
+  it('writes stateDiagram-v2 and reports what Mermaid cannot show', () => {
+    const { text, warnings } = convertToMermaid(...load());
+    const lines = text.split('\n').map(l => l.trim());
+    expect(lines[0]).toBe('stateDiagram-v2');
+    expect(lines).toContain('Idle --> Busy : [ctx.go] / ctx.count++');
+    expect(lines).toContain('state "Still Busy" as Still_Busy');
+    expect(warnings).toContain('State "Idle" entry code is not shown in Mermaid');
+    expect(warnings.some(w => w.includes('no history'))).toBe(true);
+  });
+});
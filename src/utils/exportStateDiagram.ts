@@ -0,0 +1,193 @@
+import { Node, Edge } from 'reactflow';
+import type { MachineProperties } from '../yamlConverter';
+import { computeNodePath } from './nodeUtils';
+import { oneLine, triggerText, TriggerData } from './transitionLabel';
+
+// Text state diagrams for pasting into docs: PlantUML (@startuml) and
+// Mermaid (stateDiagram-v2). Both use the same structure; Mermaid lacks
+// history pseudo-states and state descriptions.
+
+export type StateDiagramFormat = 'plantuml' | 'mermaid';
+
+export interface StateDiagramResult {
+  text: string;
+  warnings: string[];
+}
+
+// Diagram identifiers are plain words; states are named after their path
+// with `_` between the levels, and show their label.
+function diagramId(path: string, used: Set<string>): string {
+  let id = path.split('/').map(p => p.replace(/[^A-Za-z0-9_]/g, '_')).join('_');
+  if (!/^[A-Za-z_]/.test(id)) id = `_${id}`;
+  let unique = id;
+  for (let i = 2; used.has(unique); i++) unique = `${id}_${i}`;
+  used.add(unique);
+  return unique;
+}
+
+function quote(label: string): string {
+  return `"${label.replace(/"/g, '\'')}"`;
+}
+
+/** `label event [guard] / action`; labels and descriptions are single-line in both formats. */
+export function transitionText(data: (TriggerData & { label?: string }) | undefined): string {
+  const trigger = triggerText(data);
+  const label = data?.label?.trim() ? oneLine(data.label) : '';
+  return [label, trigger].filter(Boolean).join(' ');
+}
+
+function convertToStateDiagram(
+  nodes: Node[],
+  edges: Edge[],
+  rootHistory: boolean,
+  machineProperties: MachineProperties,
+  format: StateDiagramFormat,
+): StateDiagramResult {
+  const isPlantUml = format === 'plantuml';
+  const warnings: string[] = [];
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const vertices = nodes.filter(n => n.type !== 'proxyNode');
+  const children = new Map<string | undefined, Node[]>();
+  for (const node of vertices) {
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  }
+
+  const used = new Set<string>();
+  const ids = new Map<string, string>();
+  const paths = new Map<string, string>();
+  for (const node of vertices) {
+    const path = computeNodePath(node.id, nodes);
+    paths.set(node.id, path);
+    ids.set(node.id, diagramId(path, used));
+  }
+
+  const resolve = (id: string): string => {
+    const node = nodeMap.get(id);
+    return node?.type === 'proxyNode' ? (node.data as { targetId: string }).targetId : id;
+  };
+
+  // Transitions are written in the innermost state containing both ends
+  const ancestors = (id: string | undefined): (string | undefined)[] => {
+    const chain: (string | undefined)[] = [];
+    for (let n = id ? nodeMap.get(id) : undefined; n; n = n.parentId ? nodeMap.get(n.parentId) : undefined) chain.push(n.parentId);
+    return chain;
+  };
+  const transitionsIn = new Map<string | undefined, Edge[]>();
+  for (const edge of edges) {
+    if (edge.id.startsWith('initial-edge')) continue;
+    const target = resolve(edge.target);
+    if (!ids.has(edge.source) || !ids.has(target)) {
+      warnings.push(`Transition from "${paths.get(edge.source) ?? edge.source}" to a missing state was skipped`);
+      continue;
+    }
+    const targetChain = ancestors(target);
+    const container = ancestors(edge.source).find(a => targetChain.includes(a));
+    const list = transitionsIn.get(container) || [];
+    list.push(edge);
+    transitionsIn.set(container, list);
+    if (!isPlantUml && nodeMap.get(edge.source)?.parentId !== nodeMap.get(target)?.parentId) {
+      warnings.push(`Mermaid may not draw the transition from "${paths.get(edge.source)}" to "${paths.get(target)}" across composite states correctly`);
+    }
+  }
+
+  if (rootHistory) warnings.push('Machine-level history was not exported');
+
+  const lines: string[] = [];
+
+  const targetRef = (targetId: string): string => {
+    const target = nodeMap.get(targetId) as Node;
+    const id = ids.get(targetId) as string;
+    // Entering a state with history resumes its last active child
+    if (target.data.history && children.has(targetId)) {
+      if (isPlantUml) return `${id}[H]`;
+      warnings.push(`Mermaid has no history states; the transition to "${paths.get(targetId)}" enters it normally`);
+    }
+    return id;
+  };
+
+  const emitTransitions = (container: string | undefined, indent: string) => {
+    for (const edge of transitionsIn.get(container) || []) {
+      const text = transitionText(edge.data);
+      lines.push(`${indent}${ids.get(edge.source)} --> ${targetRef(resolve(edge.target))}${text ? ` : ${text}` : ''}`);
+    }
+  };
+
+  const emitInitial = (initial: string | undefined, indent: string) => {
+    if (initial && ids.has(initial)) lines.push(`${indent}[*] --> ${ids.get(initial)}`);
+  };
+
+  const emitNote = (node: Node, id: string, indent: string) => {
+    const annotation = (node.data.annotation as string | undefined)?.trim();
+    if (!annotation) return;
+    lines.push(`${indent}note right of ${id}`);
+    for (const line of annotation.split('\n')) lines.push(`${indent}  ${line.trim()}`);
+    lines.push(`${indent}end note`);
+  };
+
+  const emit = (node: Node, indent: string) => {
+    const id = ids.get(node.id) as string;
+    const path = paths.get(node.id) as string;
+
+    if (node.type === 'decisionNode') {
+      let stereotype = 'choice';
+      if (node.data.isAnd) {
+        const incoming = edges.filter(e => resolve(e.target) === node.id).length;
+        stereotype = incoming > 1 ? 'join' : 'fork';
+      }
+      lines.push(`${indent}state ${id} <<${stereotype}>>`);
+      emitNote(node, id, indent);
+      return;
+    }
+
+    const kids = children.get(node.id) || [];
+    const label = node.data.label as string;
+    const declaration = label === id ? `state ${id}` : `state ${quote(label)} as ${id}`;
+    if (kids.length === 0) {
+      lines.push(`${indent}${declaration}`);
+    } else {
+      // Mermaid takes the label and the body in separate statements
+      if (!isPlantUml && label !== id) lines.push(`${indent}${declaration}`);
+      lines.push(`${indent}${isPlantUml ? declaration : `state ${id}`} {`);
+      if (node.data.orthogonal) {
+        // Each child is a concurrent region
+        kids.forEach((kid, i) => {
+          if (i > 0) lines.push(`${indent}  --`);
+          emit(kid, indent + '  ');
+        });
+      } else {
+        emitInitial(node.data.initial, indent + '  ');
+        for (const kid of kids) emit(kid, indent + '  ');
+      }
+      emitTransitions(node.id, indent + '  ');
+      lines.push(`${indent}}`);
+    }
+
+    const code: [string, string | undefined][] = [['entry', node.data.entry], ['exit', node.data.exit], ['do', node.data.do]];
+    for (const [field, text] of code) {
+      if (!text?.trim()) continue;
+      if (isPlantUml) lines.push(`${indent}${id} : ${field} / ${oneLine(text)}`);
+      else warnings.push(`State "${path}" ${field} code is not shown in Mermaid`);
+    }
+    emitNote(node, id, indent);
+  };
+
+  if (isPlantUml) lines.push('@startuml');
+  else lines.push('stateDiagram-v2');
+  const indent = isPlantUml ? '' : '  ';
+  emitInitial(machineProperties.initial, indent);
+  for (const node of children.get(undefined) || []) emit(node, indent);
+  emitTransitions(undefined, indent);
+  if (isPlantUml) lines.push('@enduml');
+
+  return { text: lines.join('\n') + '\n', warnings: [...new Set(warnings)] };
+}
+
+export function convertToPlantUml(nodes: Node[], edges: Edge[], rootHistory: boolean, machineProperties: MachineProperties): StateDiagramResult {
+  return convertToStateDiagram(nodes, edges, rootHistory, machineProperties, 'plantuml');
+}
+
+export function convertToMermaid(nodes: Node[], edges: Edge[], rootHistory: boolean, machineProperties: MachineProperties): StateDiagramResult {
+  return convertToStateDiagram(nodes, edges, rootHistory, machineProperties, 'mermaid');
+}
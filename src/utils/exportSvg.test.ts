@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from 'reactflow';
+import { convertFromYaml } from '../yamlConverter';
+import { renderSvg } from './exportSvg';
+
+const MACHINE = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    transitions:
+      - to: Both
+        guard: ctx.go
+  Both:
+    orthogonal: true
+    states:
+      Left:
+        initial: L1
+        states:
+          L1:
+            transitions:
+              - to: L2
+          L2: {}
+      Right: {}
+`;
+
+function load() {
+  return convertFromYaml(MACHINE);
+}
+
+function labelOf(nodes: Node[], label: string): Node {
+  return nodes.find(n => n.data.label === label) as Node;
+}
+
+describe('renderSvg', () => {
+  it('renders the whole machine on a white background', () => {
+    const { nodes, edges, machineProperties } = load();
+    const svg = renderSvg(nodes, edges, machineProperties);
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('fill="white"/>');
+    for (const label of ['Idle', 'Both', 'Left', 'L1', 'L2', 'Right']) expect(svg).toContain(`>${label}</text>`);
+    expect(svg).toContain('>[ctx.go]</text>');
+    // Regions of the orthogonal state are dashed
+    expect(svg.match(/stroke-dasharray="6 3"/g)?.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('renders only the selected subtree, cropped to it, with a transparent background', () => {
+    const { nodes, edges, machineProperties } = load();
+    const left = labelOf(nodes, 'Left');
+    const svg = renderSvg(nodes, edges, machineProperties, { rootId: left.id, transparent: true });
+    expect(svg).not.toContain('fill="white"/>');
+    expect(svg).toContain('>L1</text>');
+    expect(svg).not.toContain('>Idle</text>');
+    expect(svg).not.toContain('[ctx.go]');
+    // The L1 -> L2 transition is inside, the Idle -> Both one is not
+    expect(svg.match(/marker-end="url\(#arrow\)"/g)?.length).toBe(1);
+  });
+});
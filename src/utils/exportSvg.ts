@@ -0,0 +1,224 @@
+import { Node, Edge, Position } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { getAbsoluteNodeBounds } from '../semanticZoom';
+import { isAncestorOf } from './nodeUtils';
+import { calculateBestHandles } from './handleUtils';
+import { Point, PathResult, generateSplinePath, generateSelfLoopPath, evalPointOnPath } from './splineGeometry';
+import { escapeXml } from './xml';
+import { triggerText } from './transitionLabel';
+
+type Bounds = { x: number; y: number; width: number; height: number };
+
+export interface SvgOptions {
+  /** Render only this state and what is inside it. */
+  rootId?: string;
+  /** Leave out the white background. */
+  transparent?: boolean;
+}
+
+// Same fixed size as the canvas initial marker
+const INITIAL_MARKER_RADIUS = 7.5;
+const PADDING = 20;
+const MONO = 'Consolas, Monaco, \'Courier New\', monospace';
+
+function handlePosition(handle: string | null | undefined): Position {
+  switch (handle?.split('-')[0]) {
+    case 'top': return Position.Top;
+    case 'bottom': return Position.Bottom;
+    case 'left': return Position.Left;
+    default: return Position.Right;
+  }
+}
+
+// Handles sit at the middle of each side (also for the round pseudo-states)
+function handlePoint(b: Bounds, position: Position): Point {
+  switch (position) {
+    case Position.Top: return { x: b.x + b.width / 2, y: b.y };
+    case Position.Bottom: return { x: b.x + b.width / 2, y: b.y + b.height };
+    case Position.Left: return { x: b.x, y: b.y + b.height / 2 };
+    default: return { x: b.x + b.width, y: b.y + b.height / 2 };
+  }
+}
+
+// Marker-to-state handles, chosen the same way as for the canvas initial edges
+function markerHandles(marker: Point, target: Bounds): [Position, Position] {
+  const dx = target.x + target.width / 2 - marker.x;
+  const dy = target.y + target.height / 2 - marker.y;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? [Position.Right, Position.Left] : [Position.Left, Position.Right];
+  }
+  return dy > 0 ? [Position.Bottom, Position.Top] : [Position.Top, Position.Bottom];
+}
+
+function markerEdge(marker: Point, target: Bounds): string {
+  const [sourcePos, targetPos] = markerHandles(marker, target);
+  const markerBounds = {
+    x: marker.x - INITIAL_MARKER_RADIUS, y: marker.y - INITIAL_MARKER_RADIUS,
+    width: 2 * INITIAL_MARKER_RADIUS, height: 2 * INITIAL_MARKER_RADIUS,
+  };
+  const s = handlePoint(markerBounds, sourcePos);
+  const t = handlePoint(target, targetPos);
+  const path = generateSplinePath(s.x, s.y, t.x, t.y, [], sourcePos, targetPos).path;
+  return `<path d="${path}" fill="none" stroke="#333" stroke-width="1.5" marker-end="url(#arrow)"/>`;
+}
+
+function stateSvg(node: Node, b: Bounds, hasChildren: boolean, isRegion: boolean): string {
+  const isCompound = hasChildren || !!node.data.orthogonal;
+  const stroke = node.data.orthogonal ? '#0066cc' : (isCompound ? '#666' : '#1a192b');
+  let fill = 'rgba(255, 255, 255, 0.85)';
+  if (node.data.orthogonal) fill = 'rgba(240, 248, 255, 0.9)';
+  else if (isCompound) fill = 'rgba(249, 249, 249, 0.85)';
+  // Regions of an orthogonal state are outlined with dashes
+  const dash = isRegion ? ' stroke-dasharray="6 3"' : '';
+  const parts = [
+    `<rect x="${b.x}" y="${b.y}" width="${b.width}" height="${b.height}" rx="5" fill="${fill}" stroke="${stroke}" stroke-width="1"${dash}/>`,
+  ];
+  // Double border for composite states, like the canvas
+  if (isCompound && b.width > 6 && b.height > 6) {
+    parts.push(`<rect x="${b.x + 2}" y="${b.y + 2}" width="${b.width - 4}" height="${b.height - 4}" rx="4" fill="none" stroke="${stroke}" stroke-width="1"${dash}/>`);
+  }
+  parts.push(`<text x="${b.x + b.width / 2}" y="${b.y + 14}" text-anchor="middle" font-size="14">${escapeXml(node.data.label)}</text>`);
+  return parts.join('\n');
+}
+
+function pseudoStateSvg(node: Node, b: Bounds): string {
+  const r = Math.min(b.width, b.height) / 2;
+  const cx = b.x + b.width / 2;
+  const cy = b.y + b.height / 2;
+  const circle = `<circle cx="${cx}" cy="${cy}" r="${r}" fill="rgba(255, 255, 255, 0.9)" stroke="#1a192b" stroke-width="1.5"/>`;
+  if (!node.data.isAnd) return circle;
+  return `${circle}\n<text x="${cx}" y="${cy}" text-anchor="middle" dominant-baseline="central" font-size="${r * 1.5}" font-weight="700">&amp;</text>`;
+}
+
+function proxySvg(node: Node, b: Bounds): string {
+  const color = node.data.broken ? '#e53935' : '#888';
+  return [
+    `<rect x="${b.x}" y="${b.y}" width="${b.width}" height="${b.height}" rx="3" fill="rgba(238, 238, 238, 0.85)" stroke="${color}" stroke-width="2" stroke-dasharray="6 3"/>`,
+    `<text x="${b.x + b.width / 2}" y="${b.y + b.height / 2}" text-anchor="middle" dominant-baseline="central" font-size="12" fill="${node.data.broken ? color : '#555'}">${escapeXml(node.data.label ?? '')}</text>`,
+  ].join('\n');
+}
+
+function historySvg(node: Node, b: Bounds): string {
+  const pos = node.data.historyMarkerPos as Point;
+  const size = (node.data.historyMarkerSize as number) || Math.min(b.width, b.height) * 0.15;
+  const cx = b.x + pos.x;
+  const cy = b.y + pos.y;
+  return [
+    `<circle cx="${cx}" cy="${cy}" r="${size / 2}" fill="white" stroke="#333" stroke-width="1"/>`,
+    `<text x="${cx}" y="${cy}" text-anchor="middle" dominant-baseline="central" font-size="${size * 0.6}" font-weight="700">H</text>`,
+  ].join('\n');
+}
+
+function transitionSvg(edge: Edge, nodes: Node[], boundsById: Map<string, Bounds>): string {
+  const sb = boundsById.get(edge.source);
+  const tb = boundsById.get(edge.target);
+  if (!sb || !tb) return '';
+  const best = edge.sourceHandle && edge.targetHandle
+    ? { sourceHandle: edge.sourceHandle, targetHandle: edge.targetHandle }
+    : calculateBestHandles(edge.source, edge.target, nodes);
+  const sourcePos = handlePosition(best.sourceHandle);
+  const targetPos = handlePosition(best.targetHandle);
+  const s = handlePoint(sb, sourcePos);
+  const t = handlePoint(tb, targetPos);
+
+  let result: PathResult;
+  if (edge.source === edge.target) {
+    result = generateSelfLoopPath(s.x, s.y, t.x, t.y, sourcePos, targetPos);
+  } else {
+    result = generateSplinePath(
+      s.x, s.y, t.x, t.y, edge.data?.controlPoints || [], sourcePos, targetPos,
+      isAncestorOf(edge.source, edge.target, nodes), isAncestorOf(edge.target, edge.source, nodes),
+    );
+  }
+  const parts = [`<path d="${result.path}" fill="none" stroke="#333" stroke-width="1.5" marker-end="url(#arrow)"/>`];
+
+  const lines: { text: string; color: string }[] = [];
+  const trigger = triggerText(edge.data);
+  if (trigger) lines.push({ text: trigger, color: '#666' });
+  if (edge.data?.label) lines.push({ text: edge.data.label, color: '#333' });
+  if (lines.length > 0) {
+    // Labels sit above their anchor point on the curve, as on the canvas
+    const at = evalPointOnPath(result.segments, edge.data?.labelPosition ?? 0.33);
+    lines.forEach((line, i) => {
+      const y = at.y - (lines.length - 1 - i) * 14 - 3;
+      parts.push(`<text x="${at.x}" y="${y}" text-anchor="middle" font-size="12" font-family="${MONO}" fill="${line.color}">${escapeXml(line.text)}</text>`);
+    });
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Render the machine, or one state with its contents, as a standalone SVG
+ * document at world coordinates (one unit per model pixel), independent of
+ * the canvas zoom.
+ */
+export function renderSvg(nodes: Node[], edges: Edge[], machineProperties: MachineProperties, options: SvgOptions = {}): string {
+  const { rootId, transparent = false } = options;
+  const included = (id: string) => rootId === undefined || id === rootId || isAncestorOf(rootId, id, nodes);
+  const boundsById = new Map<string, Bounds>();
+  for (const node of nodes) {
+    if (!included(node.id)) continue;
+    const b = getAbsoluteNodeBounds(node.id, nodes);
+    if (b) boundsById.set(node.id, b);
+  }
+  const parentIds = new Set(nodes.map(n => n.parentId).filter(Boolean));
+  const orthogonalIds = new Set(nodes.filter(n => n.data.orthogonal).map(n => n.id));
+
+  const shapes: string[] = [];
+  const markers: string[] = [];
+  const extents: Bounds[] = [...boundsById.values()];
+
+  // Model order is parents-first, so children are painted over their parents
+  for (const node of nodes) {
+    const b = boundsById.get(node.id);
+    if (!b) continue;
+    if (node.type === 'decisionNode') shapes.push(pseudoStateSvg(node, b));
+    else if (node.type === 'proxyNode') shapes.push(proxySvg(node, b));
+    else shapes.push(stateSvg(node, b, parentIds.has(node.id), !!node.parentId && orthogonalIds.has(node.parentId)));
+
+    if (node.data.history && node.data.historyMarkerPos) markers.push(historySvg(node, b));
+    const target = node.data.initial ? boundsById.get(node.data.initial as string) : undefined;
+    if (target && node.data.initialMarkerPos) {
+      const pos = node.data.initialMarkerPos as Point;
+      const marker = { x: b.x + pos.x, y: b.y + pos.y };
+      markers.push(`<circle cx="${marker.x}" cy="${marker.y}" r="${INITIAL_MARKER_RADIUS}" fill="#333"/>`);
+      markers.push(markerEdge(marker, target));
+    }
+  }
+  const rootTarget = machineProperties.initial && rootId === undefined ? boundsById.get(machineProperties.initial) : undefined;
+  if (rootTarget && machineProperties.initialMarkerPos) {
+    const marker = machineProperties.initialMarkerPos;
+    markers.push(`<circle cx="${marker.x}" cy="${marker.y}" r="${INITIAL_MARKER_RADIUS}" fill="#333"/>`);
+    markers.push(markerEdge(marker, rootTarget));
+    extents.push({ x: marker.x - INITIAL_MARKER_RADIUS, y: marker.y - INITIAL_MARKER_RADIUS, width: 2 * INITIAL_MARKER_RADIUS, height: 2 * INITIAL_MARKER_RADIUS });
+  }
+
+  const transitions = edges
+    .filter(e => !e.id.startsWith('initial-edge') && included(e.source) && included(e.target))
+    .map(e => transitionSvg(e, nodes, boundsById))
+    .filter(Boolean);
+
+  // The whole machine keeps the world origin in view; a subtree is cropped to itself
+  if (rootId === undefined || extents.length === 0) extents.push({ x: 0, y: 0, width: 0, height: 0 });
+  const minX = Math.min(...extents.map(b => b.x)) - PADDING;
+  const minY = Math.min(...extents.map(b => b.y)) - PADDING;
+  const maxX = Math.max(...extents.map(b => b.x + b.width)) + PADDING;
+  const maxY = Math.max(...extents.map(b => b.y + b.height)) + PADDING;
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="sans-serif">`,
+    '<defs>',
+    '<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" markerUnits="userSpaceOnUse" orient="auto">',
+    '<path d="M 0 0 L 10 5 L 0 10 z" fill="#333"/>',
+    '</marker>',
+    '</defs>',
+    ...(transparent ? [] : [`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="white"/>`]),
+    ...shapes,
+    ...transitions,
+    ...markers,
+    '</svg>',
+    '',
+  ].join('\n');
+}
@@ -10,6 +10,9 @@ export type ConsistencyErrorKind =
 export interface ConsistencyError {
   kind: ConsistencyErrorKind;
   message: string;
+  /** The node or edge holding the broken reference. */
+  nodeId?: string;
+  edgeId?: string;
 }
 
 /**
@@ -30,12 +33,14 @@ export function checkModelConsistency(nodes: Node[], edges: Edge[]): Consistency
     if (!nodeIds.has(edge.source)) {
       errors.push({
         kind: 'dangling_edge_source',
+        edgeId: edge.id,
         message: `Edge "${edge.id}" has source "${edge.source}" which does not exist`,
       });
     }
     if (!nodeIds.has(edge.target)) {
       errors.push({
         kind: 'dangling_edge_target',
+        edgeId: edge.id,
         message: `Edge "${edge.id}" has target "${edge.target}" which does not exist`,
       });
     }
@@ -45,6 +50,7 @@ export function checkModelConsistency(nodes: Node[], edges: Edge[]): Consistency
     if (node.parentId !== undefined && !nodeIds.has(node.parentId)) {
       errors.push({
         kind: 'dangling_parent',
+        nodeId: node.id,
         message: `Node "${node.id}" ("${node.data?.label ?? node.id}") has parentId "${node.parentId}" which does not exist`,
       });
     }
@@ -54,6 +60,7 @@ export function checkModelConsistency(nodes: Node[], edges: Edge[]): Consistency
       if (data.targetId && !data.broken && !nodeIds.has(data.targetId)) {
         errors.push({
           kind: 'broken_proxy_target',
+          nodeId: node.id,
           message: `Proxy node "${node.id}" has targetId "${data.targetId}" which does not exist`,
         });
       }
@@ -63,6 +70,7 @@ export function checkModelConsistency(nodes: Node[], edges: Edge[]): Consistency
       if (!nodeIds.has(node.data.initial as string)) {
         errors.push({
           kind: 'dangling_initial',
+          nodeId: node.id,
           message: `Node "${node.id}" ("${node.data?.label}") has data.initial "${node.data.initial}" which does not exist`,
         });
       }
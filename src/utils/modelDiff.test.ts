@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml } from '../yamlConverter';
+import { diffModels, formatDiff, isEmptyDiff } from './modelDiff';
+
+const BASE = `SM-builder-version: 0.6.0
+initial: Idle
+context: |
+  count: int
+states:
+  Idle:
+    graphics: { x: 0, 'y': 0, width: 100, height: 50 }
+    transitions:
+      - to: Running
+        guard: ctx.go
+  Running:
+    graphics: { x: 200, 'y': 0, width: 300, height: 200 }
+    entry: start()
+    initial: Fast
+    states:
+      Fast:
+        transitions:
+          - to: Slow
+            after: 1s
+      Slow: {}
+    transitions:
+      - to: Idle
+        guard: ctx.stop
+`;
+
+function diff(before: string, after: string) {
+  return diffModels(convertFromYaml(before), convertFromYaml(after));
+}
+
+describe('diffModels', () => {
+  it('finds nothing between a file and itself', () => {
+    const result = diff(BASE, BASE);
+    expect(isEmptyDiff(result)).toBe(true);
+    expect(result.layoutChanges).toBe(0);
+  });
+
+  it('collapses moves and resizes into a count', () => {
+    const moved = BASE.replace("{ x: 0, 'y': 0", "{ x: 40, 'y': 10")
+      .replace('width: 300, height: 200', 'width: 320, height: 240');
+    const result = diff(BASE, moved);
+    expect(isEmptyDiff(result)).toBe(true);
+    expect(result.layoutChanges).toBe(2);
+    expect(formatDiff(result)).toBe('No structural changes\n2 layout-only changes\n');
+  });
+
+  it('reports added, removed and modified states and transitions', () => {
+    const after = BASE
+      .replace('entry: start()', 'entry: start(2)')
+      .replace('      Slow: {}\n', '      Turbo:\n        entry: boost()\n')
+      .replace('to: Slow', 'to: Turbo')
+      .replace('        guard: ctx.stop', '        guard: ctx.halt');
+    const result = diff(BASE, after);
+    expect(result.states.map(s => `${s.kind} ${s.path} ${s.fields.map(f => f.field)}`)).toEqual([
+      'modified Running entry',
+      'removed Running/Slow ',
+      'added Running/Turbo ',
+    ]);
+    expect(result.transitions.map(t => `${t.kind} ${t.path} ${t.fields.map(f => f.field)}`)).toEqual([
+      'modified Running → Idle guard',
+      'modified Running/Fast → Running/Turbo target',
+    ]);
+  });
+
+  it('recognizes renames and keeps the children of a renamed state matched', () => {
+    const after = BASE.replace(/Running/g, 'Busy');
+    const result = diff(BASE, after);
+    expect(result.states).toEqual([
+      expect.objectContaining({ kind: 'renamed', path: 'Busy', oldPath: 'Running', fields: [] }),
+    ]);
+    expect(result.transitions).toEqual([]);
+  });
+
+  it('treats a new target with the same trigger as a modified transition', () => {
+    const after = BASE.replace('      - to: Running\n        guard: ctx.go', '      - to: Running/Slow\n        guard: ctx.go');
+    const result = diff(BASE, after);
+    expect(result.transitions).toHaveLength(1);
+    expect(result.transitions[0].fields).toEqual([{ field: 'target', before: 'Running', after: 'Running/Slow' }]);
+  });
+
+  it('reports priority and machine property changes', () => {
+    const swapped = BASE.replace(
+      '      - to: Running\n        guard: ctx.go\n',
+      '      - to: Running\n        guard: ctx.go\n      - to: Running/Fast\n        guard: ctx.fast\n',
+    );
+    const reordered = BASE.replace(
+      '      - to: Running\n        guard: ctx.go\n',
+      '      - to: Running/Fast\n        guard: ctx.fast\n      - to: Running\n        guard: ctx.go\n',
+    ).replace('count: int', 'count: long');
+    const result = diff(swapped, reordered);
+    expect(result.transitions.map(t => t.fields.map(f => `${f.field} ${f.before}→${f.after}`))).toEqual([
+      ['priority 2→1'],
+      ['priority 1→2'],
+    ]);
+    expect(result.machine.map(f => f.field)).toEqual(['context']);
+    expect(formatDiff(result)).toContain('~ machine\n    context: "count: int" → "count: long"\n');
+  });
+});
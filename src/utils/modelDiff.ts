@@ -0,0 +1,384 @@
+import { Node, Edge } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { vertexPath } from './breakpoints';
+
+// Structural comparison of two versions of a machine. States, decisions and
+// ands are matched by path (renames are recognized by unchanged content), and
+// transitions by source and target. Positions, sizes, routing and the Show
+// checkboxes only count as layout changes; proxies are layout too, since a
+// transition through a proxy is the same transition as one to its target.
+
+export interface DiffModel {
+  nodes: Node[];
+  edges: Edge[];
+  rootHistory?: boolean;
+  machineProperties: MachineProperties;
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export type VertexKind = 'state' | 'decision' | 'and';
+
+export interface StateChange {
+  kind: 'added' | 'removed' | 'renamed' | 'modified';
+  vertex: VertexKind;
+  /** Path in the newer version, or in the older one for removed states. */
+  path: string;
+  /** Path in the older version, for renamed states. */
+  oldPath?: string;
+  fields: FieldChange[];
+  beforeId?: string;
+  afterId?: string;
+}
+
+export interface TransitionChange {
+  kind: 'added' | 'removed' | 'modified';
+  /** `source → target`, in the newer version or in the older one for removed transitions. */
+  path: string;
+  fields: FieldChange[];
+  beforeId?: string;
+  afterId?: string;
+}
+
+export interface ModelDiff {
+  states: StateChange[];
+  transitions: TransitionChange[];
+  machine: FieldChange[];
+  /** States, transitions and markers that only moved or were resized. */
+  layoutChanges: number;
+}
+
+export const STATE_FIELDS = ['entry', 'exit', 'do', 'annotation', 'submachine'] as const;
+export const STATE_FLAGS = ['history', 'orthogonal'] as const;
+export const TRANSITION_FIELDS = ['event', 'after', 'guard', 'action', 'label'] as const;
+export const MACHINE_FIELDS = ['language', 'includes', 'context', 'context_init', 'entry', 'exit', 'do'] as const;
+
+export const vertexKind = (n: Node): VertexKind =>
+  n.type === 'decisionNode' ? (n.data?.isAnd ? 'and' : 'decision') : 'state';
+
+export const fieldText = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+function depthOf(node: Node, byId: Map<string, Node>): number {
+  let depth = 0;
+  for (let p = node.parentId; p; p = byId.get(p)?.parentId) depth++;
+  return depth;
+}
+
+export function sameLayout(a: Node, b: Node): boolean {
+  const box = (n: Node) => [n.position.x, n.position.y, n.style?.width, n.style?.height];
+  const markers = (n: Node) => JSON.stringify([
+    n.data.initialMarkerPos, n.data.initialMarkerSize, n.data.historyMarkerPos, n.data.historyMarkerSize,
+    !!n.data.showEntry, !!n.data.showExit, !!n.data.showDo, !!n.data.showAnnotation,
+  ]);
+  return JSON.stringify(box(a)) === JSON.stringify(box(b)) && markers(a) === markers(b);
+}
+
+function changedFields<K extends string>(
+  fields: readonly K[],
+  a: Partial<Record<K, unknown>>,
+  b: Partial<Record<K, unknown>>,
+): FieldChange[] {
+  return fields
+    .filter(f => fieldText(a[f]) !== fieldText(b[f]))
+    .map(f => ({ field: f, before: fieldText(a[f]), after: fieldText(b[f]) }));
+}
+
+/**
+ * Match the vertices of two versions, top-down so that the children of a
+ * renamed state are still found under their new path.
+ * Returns a map from the newer node id to the older one.
+ */
+export function matchVertices(before: DiffModel, after: DiffModel): Map<string, string> {
+  const matches = new Map<string, string>();
+  const matched = new Set<string>();
+  const beforeVertices = before.nodes.filter(n => n.type !== 'proxyNode');
+  const afterVertices = after.nodes.filter(n => n.type !== 'proxyNode');
+  const afterById = new Map(after.nodes.map(n => [n.id, n]));
+
+  const key = (parentId: string | undefined, n: Node) => `${parentId ?? ''}\n${vertexKind(n)}\n${fieldText(n.data.label)}`;
+  const beforeByKey = new Map(beforeVertices.map(n => [key(n.parentId, n), n]));
+
+  // What a state keeps when it is renamed. Without any content there is
+  // nothing to recognize it by, so an empty leaf is never taken as renamed.
+  const signature = (n: Node, nodes: Node[], edges: Edge[]) => {
+    const content = [
+      ...STATE_FIELDS.map(f => fieldText(n.data[f])),
+      ...nodes.filter(c => c.parentId === n.id).map(c => fieldText(c.data.label)).sort(),
+      ...edges.filter(e => e.source === n.id).map(e => TRANSITION_FIELDS.map(f => fieldText(e.data?.[f])).join('\n')),
+    ];
+    return content.some(Boolean) ? JSON.stringify(content) : null;
+  };
+
+  const byDepth = new Map<number, Node[]>();
+  for (const n of afterVertices) {
+    const depth = depthOf(n, afterById);
+    byDepth.set(depth, [...(byDepth.get(depth) || []), n]);
+  }
+  for (const depth of [...byDepth.keys()].sort((a, b) => a - b)) {
+    const level = byDepth.get(depth)!;
+    const leftover: Node[] = [];
+    for (const n of level) {
+      // The parent must have a counterpart, otherwise the whole subtree is new
+      const parent = n.parentId ? matches.get(n.parentId) : undefined;
+      if (n.parentId && !parent) continue;
+      const counterpart = beforeByKey.get(key(parent, n));
+      if (counterpart && !matched.has(counterpart.id)) {
+        matches.set(n.id, counterpart.id);
+        matched.add(counterpart.id);
+      } else {
+        leftover.push(n);
+      }
+    }
+    for (const n of leftover) {
+      const parent = n.parentId ? matches.get(n.parentId) : undefined;
+      const sig = signature(n, after.nodes, after.edges);
+      const renamed = sig !== null && beforeVertices.find(b =>
+        !matched.has(b.id) && b.parentId === parent && vertexKind(b) === vertexKind(n) &&
+        signature(b, before.nodes, before.edges) === sig);
+      if (renamed) {
+        matches.set(n.id, renamed.id);
+        matched.add(renamed.id);
+      }
+    }
+  }
+  return matches;
+}
+
+/** The endpoint of a transition, with proxies standing for their target. */
+export function resolveProxy(id: string, byId: Map<string, Node>): string {
+  const node = byId.get(id);
+  return node?.type === 'proxyNode' ? (node.data as { targetId: string }).targetId : id;
+}
+
+function groupBy(edges: Edge[], source: (e: Edge) => string): Map<string, Edge[]> {
+  const groups = new Map<string, Edge[]>();
+  for (const e of edges) groups.set(source(e), [...(groups.get(source(e)) || []), e]);
+  return groups;
+}
+
+/** Control points, label position and handles: how a transition is drawn, not what it does. */
+export const edgeRouting = (e: Edge) => JSON.stringify([e.data?.controlPoints, e.data?.labelPosition, e.sourceHandle, e.targetHandle]);
+
+/**
+ * Match the transitions of two versions, given the vertex matches from
+ * matchVertices. Transitions are paired per source state: same target and
+ * trigger first, so that of two similar transitions the unchanged one is
+ * kept, then same target, then same trigger (a transition whose target moved).
+ * Returns a map from the newer edge id to the older one.
+ */
+export function matchTransitions(before: DiffModel, after: DiffModel, matches: Map<string, string>): Map<string, string> {
+  const beforeById = new Map(before.nodes.map(n => [n.id, n]));
+  const afterById = new Map(after.nodes.map(n => [n.id, n]));
+  const mapAfter = (id: string) => {
+    const resolved = resolveProxy(id, afterById);
+    return matches.get(resolved) ?? `new:${resolved}`;
+  };
+  const beforeGroups = groupBy(before.edges, e => resolveProxy(e.source, beforeById));
+  const afterGroups = groupBy(after.edges, e => mapAfter(e.source));
+  const result = new Map<string, string>();
+
+  for (const [source, news] of afterGroups) {
+    const olds = beforeGroups.get(source) || [];
+    const used = new Set<Edge>();
+    const pair = (fits: (o: Edge, n: Edge) => boolean) => {
+      for (const n of news) {
+        if (result.has(n.id)) continue;
+        const o = olds.find(o => !used.has(o) && fits(o, n));
+        if (o) {
+          result.set(n.id, o.id);
+          used.add(o);
+        }
+      }
+    };
+    const sameTarget = (o: Edge, n: Edge) => resolveProxy(o.target, beforeById) === mapAfter(n.target);
+    const sameTrigger = (o: Edge, n: Edge) => ['event', 'after', 'guard'].every(f => fieldText(o.data?.[f]) === fieldText(n.data?.[f]));
+    pair((o, n) => sameTarget(o, n) && sameTrigger(o, n));
+    pair(sameTarget);
+    pair(sameTrigger);
+  }
+  return result;
+}
+
+export function diffModels(before: DiffModel, after: DiffModel): ModelDiff {
+  const beforeById = new Map(before.nodes.map(n => [n.id, n]));
+  const afterById = new Map(after.nodes.map(n => [n.id, n]));
+  const matches = matchVertices(before, after);
+  const matchedBefore = new Set(matches.values());
+  const beforePath = (id: string) => vertexPath(id, before.nodes);
+  const afterPath = (id: string) => vertexPath(id, after.nodes);
+  const childLabel = (id: string | undefined, byId: Map<string, Node>) => (id ? fieldText(byId.get(id)?.data.label) : '');
+  const counterpartOf = (id: string | undefined) => (id ? matches.get(id) ?? `new:${id}` : undefined);
+
+  const states: StateChange[] = [];
+  let layoutChanges = 0;
+
+  for (const n of after.nodes) {
+    if (n.type === 'proxyNode') continue;
+    const vertex = vertexKind(n);
+    const oldId = matches.get(n.id);
+    if (!oldId) {
+      states.push({ kind: 'added', vertex, path: afterPath(n.id), fields: [], afterId: n.id });
+      continue;
+    }
+    const old = beforeById.get(oldId)!;
+    const fields = changedFields(STATE_FIELDS, old.data, n.data);
+    for (const flag of STATE_FLAGS) {
+      if (!!old.data[flag] !== !!n.data[flag]) {
+        fields.push({ field: flag, before: String(!!old.data[flag]), after: String(!!n.data[flag]) });
+      }
+    }
+    // The initial child is compared by its counterpart, so renaming it is not a change here
+    const initialBefore = old.data.initial as string | undefined;
+    const initialAfter = n.data.initial as string | undefined;
+    if (counterpartOf(initialAfter) !== initialBefore) {
+      fields.push({ field: 'initial', before: childLabel(initialBefore, beforeById), after: childLabel(initialAfter, afterById) });
+    }
+    const renamed = fieldText(old.data.label) !== fieldText(n.data.label);
+    if (renamed || fields.length > 0) {
+      states.push({
+        kind: renamed ? 'renamed' : 'modified',
+        vertex,
+        path: afterPath(n.id),
+        oldPath: renamed ? beforePath(old.id) : undefined,
+        fields,
+        beforeId: old.id,
+        afterId: n.id,
+      });
+    }
+    if (!sameLayout(old, n)) layoutChanges++;
+  }
+  for (const n of before.nodes) {
+    if (n.type === 'proxyNode' || matchedBefore.has(n.id)) continue;
+    states.push({ kind: 'removed', vertex: vertexKind(n), path: beforePath(n.id), fields: [], beforeId: n.id });
+  }
+  // Proxies are matched by what they point to, for the layout count only
+  const proxyKey = (n: Node, byId: Map<string, Node>, map: (id: string) => string | undefined) =>
+    `${n.parentId ? map(n.parentId) ?? '' : ''}\n${map(resolveProxy(n.id, byId)) ?? ''}`;
+  const beforeProxies = new Map(before.nodes.filter(n => n.type === 'proxyNode')
+    .map(n => [proxyKey(n, beforeById, id => id), n]));
+  for (const n of after.nodes) {
+    if (n.type !== 'proxyNode') continue;
+    const k = proxyKey(n, afterById, id => matches.get(id));
+    const old = beforeProxies.get(k);
+    if (!old || !sameLayout(old, n)) layoutChanges++;
+    beforeProxies.delete(k);
+  }
+  // Proxies that were removed
+  layoutChanges += beforeProxies.size;
+
+  // Transitions, grouped by their source in the older version's ids
+  const transitions: TransitionChange[] = [];
+  const edgeMatches = matchTransitions(before, after, matches);
+  const beforeEdgesById = new Map(before.edges.map(e => [e.id, e]));
+  const edgePath = (e: Edge, nodes: Node[]) => `${vertexPath(e.source, nodes)} → ${vertexPath(e.target, nodes)}`;
+  const mapAfter = (id: string) => {
+    const resolved = resolveProxy(id, afterById);
+    return matches.get(resolved) ?? `new:${resolved}`;
+  };
+  const beforeGroups = groupBy(before.edges, e => resolveProxy(e.source, beforeById));
+  const afterGroups = groupBy(after.edges, e => mapAfter(e.source));
+  const sources = new Set([...beforeGroups.keys(), ...afterGroups.keys()]);
+
+  for (const source of sources) {
+    const olds = beforeGroups.get(source) || [];
+    const news = afterGroups.get(source) || [];
+    const pairs = news.filter(n => edgeMatches.has(n.id)).map(n => [beforeEdgesById.get(edgeMatches.get(n.id)!)!, n] as const);
+    const pairedOld = new Set(pairs.map(([o]) => o));
+    const sameTarget = (o: Edge, n: Edge) => resolveProxy(o.target, beforeById) === mapAfter(n.target);
+
+    // Priority order among the transitions that exist in both versions
+    const rankOld = new Map([...pairs].sort((a, b) => olds.indexOf(a[0]) - olds.indexOf(b[0])).map(([o], i) => [o, i]));
+    const rankNew = new Map(pairs.map(([, n], i) => [n, i]));
+
+    for (const [o, n] of pairs) {
+      const fields = changedFields(TRANSITION_FIELDS, o.data || {}, n.data || {});
+      if (!sameTarget(o, n)) {
+        fields.unshift({ field: 'target', before: vertexPath(o.target, before.nodes), after: vertexPath(n.target, after.nodes) });
+      }
+      if (rankOld.get(o) !== rankNew.get(n)) {
+        fields.push({ field: 'priority', before: String(rankOld.get(o)! + 1), after: String(rankNew.get(n)! + 1) });
+      }
+      if (fields.length > 0) {
+        transitions.push({ kind: 'modified', path: edgePath(n, after.nodes), fields, beforeId: o.id, afterId: n.id });
+      }
+      if (edgeRouting(o) !== edgeRouting(n)) layoutChanges++;
+    }
+    for (const n of news) {
+      if (!edgeMatches.has(n.id)) transitions.push({ kind: 'added', path: edgePath(n, after.nodes), fields: [], afterId: n.id });
+    }
+    for (const o of olds) {
+      if (!pairedOld.has(o)) transitions.push({ kind: 'removed', path: edgePath(o, before.nodes), fields: [], beforeId: o.id });
+    }
+  }
+
+  // Machine-level properties
+  const mpBefore = before.machineProperties;
+  const mpAfter = after.machineProperties;
+  const machine = changedFields(MACHINE_FIELDS, mpBefore, mpAfter);
+  for (const hook of ['entry', 'exit', 'do', 'transition'] as const) {
+    if (fieldText(mpBefore.hooks?.[hook]) !== fieldText(mpAfter.hooks?.[hook])) {
+      machine.push({ field: `hooks.${hook}`, before: fieldText(mpBefore.hooks?.[hook]), after: fieldText(mpAfter.hooks?.[hook]) });
+    }
+  }
+  if (counterpartOf(mpAfter.initial) !== mpBefore.initial) {
+    machine.push({ field: 'initial', before: childLabel(mpBefore.initial, beforeById), after: childLabel(mpAfter.initial, afterById) });
+  }
+  if (!!before.rootHistory !== !!after.rootHistory) {
+    machine.push({ field: 'history', before: String(!!before.rootHistory), after: String(!!after.rootHistory) });
+  }
+  const plugin = (mp: MachineProperties) => (mp.viewPlugin?.name ? JSON.stringify(mp.viewPlugin) : '');
+  if (plugin(mpBefore) !== plugin(mpAfter)) {
+    machine.push({ field: 'viewPlugin', before: mpBefore.viewPlugin?.name ?? '', after: mpAfter.viewPlugin?.name ?? '' });
+  }
+  const markers = (mp: MachineProperties) =>
+    JSON.stringify([mp.initialMarkerPos, mp.initialMarkerSize, mp.historyMarkerPos, mp.historyMarkerSize]);
+  if (markers(mpBefore) !== markers(mpAfter)) layoutChanges++;
+
+  const order = (path: string) => path.replace(/ → .*/, '');
+  states.sort((a, b) => a.path.localeCompare(b.path));
+  transitions.sort((a, b) => order(a.path).localeCompare(order(b.path)));
+  return { states, transitions, machine, layoutChanges };
+}
+
+export function isEmptyDiff(diff: ModelDiff): boolean {
+  return diff.states.length === 0 && diff.transitions.length === 0 && diff.machine.length === 0;
+}
+
+const SIGN = { added: '+', removed: '-', renamed: '~', modified: '~' } as const;
+
+/** One line for a field change; code that does not fit on a line is only named. */
+export function describeField(change: FieldChange): string {
+  const multiLine = change.before.includes('\n') || change.after.includes('\n');
+  if (multiLine || change.before.length + change.after.length > 60) return `${change.field} changed`;
+  const show = (s: string) => (s ? JSON.stringify(s) : '(none)');
+  return `${change.field}: ${show(change.before)} → ${show(change.after)}`;
+}
+
+const fieldLine = (change: FieldChange) => `    ${describeField(change)}`;
+
+/** The diff as plain text, one change per line with its fields indented below. */
+export function formatDiff(diff: ModelDiff): string {
+  const lines: string[] = [];
+  for (const s of diff.states) {
+    const renamed = s.kind === 'renamed' ? ` (renamed from ${s.oldPath})` : '';
+    lines.push(`${SIGN[s.kind]} ${s.vertex} ${s.path}${renamed}`);
+    lines.push(...s.fields.map(fieldLine));
+  }
+  for (const t of diff.transitions) {
+    lines.push(`${SIGN[t.kind]} transition ${t.path}`);
+    lines.push(...t.fields.map(fieldLine));
+  }
+  if (diff.machine.length > 0) {
+    lines.push('~ machine');
+    lines.push(...diff.machine.map(fieldLine));
+  }
+  if (lines.length === 0) lines.push('No structural changes');
+  if (diff.layoutChanges > 0) {
+    lines.push(`${diff.layoutChanges} layout-only change${diff.layoutChanges === 1 ? '' : 's'}`);
+  }
+  return lines.join('\n') + '\n';
+}
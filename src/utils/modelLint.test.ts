@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from 'reactflow';
+import { convertFromYaml, defaultMachineProperties } from '../yamlConverter';
+import { lintModel, findShadowedEdges } from './modelLint';
+
+function lint(content: string) {
+  const { nodes, edges, machineProperties } = convertFromYaml(content);
+  return lintModel(nodes, edges, machineProperties).map(p => `${p.kind} ${p.path}`);
+}
+
+describe('lintModel', () => {
+  it('reports nothing for a clean machine', () => {
+    expect(lint(`initial: A
+states:
+  A:
+    initial: A1
+    history: true
+    states:
+      A1:
+        transitions:
+          - to: ../B
+  B:
+    transitions:
+      - to: A
+`)).toEqual([]);
+  });
+
+  it('finds composites without an initial and unreachable states', () => {
+    expect(lint(`initial: A
+states:
+  A:
+    transitions:
+      - to: B
+  B:
+    states:
+      B1: {}
+  C:
+    states:
+      C1: {}
+`)).toEqual([
+      'missing_initial B',
+      'missing_initial C',
+      'unreachable_state B/B1',
+      'unreachable_state C',
+    ]);
+  });
+
+  it('reports a missing root initial', () => {
+    expect(lint(`states:
+  A: {}
+`)).toEqual(['missing_initial /']);
+  });
+
+  it('checks decisions, shadowed transitions and leaf history', () => {
+    expect(lint(`SM-builder-version: 0.6.0
+initial: Idle
+decisions:
+  D1:
+    - to: A
+      guard: ctx.x > 0
+    - to: B
+      guard: ctx.x < 0
+states:
+  Idle:
+    history: true
+    transitions:
+      - to: '@D1'
+      - to: A
+        guard: ctx.y
+  A: {}
+  B: {}
+`)).toEqual([
+      'decision_without_else @D1',
+      'shadowed_transition Idle → A',
+      'history_on_leaf Idle',
+    ]);
+  });
+
+  it('checks orthogonal regions and AND inputs', () => {
+    expect(lint(`SM-builder-version: 0.6.0
+initial: O
+ands:
+  J:
+    - to: Done
+states:
+  O:
+    orthogonal: true
+    states:
+      R:
+        initial: x
+        states:
+          x:
+            transitions:
+              - to: /@J
+                guard: ctx.a
+          y:
+            transitions:
+              - to: /@J
+                guard: ctx.b
+  Done: {}
+`)).toEqual([
+      'unreachable_state O/R/y',
+      'single_region_orthogonal O',
+      'and_single_region @J',
+    ]);
+  });
+
+  it('reports duplicate sibling names', () => {
+    const nodes: Node[] = [
+      { id: 'a', type: 'stateNode', position: { x: 0, y: 0 }, data: { label: 'A' } },
+      { id: 'b', type: 'stateNode', position: { x: 0, y: 0 }, data: { label: 'A' } },
+      { id: 'd', type: 'decisionNode', position: { x: 0, y: 0 }, data: { label: 'A' } },
+    ];
+    const problems = lintModel(nodes, [], { ...defaultMachineProperties, initial: 'a' });
+    expect(problems.filter(p => p.kind === 'duplicate_sibling_label').map(p => p.nodeId)).toEqual(['b']);
+  });
+
+  it('rejects submachine states with children of their own', () => {
+    expect(lint(`initial: A
+states:
+  A:
+    submachine: retry.smb
+    initial: A1
+    states:
+      A1: {}
+`)).toEqual(['submachine_with_children A']);
+  });
+});
+
+describe('timeout transitions', () => {
+  it('warns about a timeout that a shorter one always beats and rejects bad delays', () => {
+    expect(lint(`SM-builder-version: 0.6.0
+initial: A
+states:
+  A:
+    transitions:
+      - to: B
+        after: 1s
+      - to: C
+        after: 500ms
+      - to: C
+        after: 2s
+        guard: ctx.x
+      - to: B
+        after: soon
+  B: {}
+  C: {}
+`)).toEqual([
+      'invalid_timeout A → B',
+      'shadowed_timeout A → B',
+    ]);
+  });
+
+  it('does not let an unguarded timeout shadow later transitions', () => {
+    const edges = [
+      { id: 'e1', source: 'a', target: 'b', data: { after: '1s' } },
+      { id: 'e2', source: 'a', target: 'c', data: { guard: 'x' } },
+    ];
+    expect([...findShadowedEdges(edges)]).toEqual([]);
+  });
+});
+
+describe('findShadowedEdges', () => {
+  it('flags every transition after the first guardless one from a source', () => {
+    const edges = [
+      { id: 'e1', source: 'a', target: 'b', data: { guard: 'x' } },
+      { id: 'e2', source: 'a', target: 'c', data: { guard: '' } },
+      { id: 'e3', source: 'a', target: 'd', data: { guard: 'y' } },
+      { id: 'e4', source: 'b', target: 'a' },
+    ];
+    expect([...findShadowedEdges(edges)]).toEqual(['e3']);
+  });
+
+  it('lets a guardless event transition shadow only the same event', () => {
+    const edges = [
+      { id: 'e1', source: 'a', target: 'b', data: { event: 'start' } },
+      { id: 'e2', source: 'a', target: 'c', data: { event: 'stop' } },
+      { id: 'e3', source: 'a', target: 'd', data: { event: 'start', guard: 'x' } },
+      { id: 'e4', source: 'a', target: 'b' },
+      { id: 'e5', source: 'a', target: 'c', data: { event: 'reset' } },
+    ];
+    expect([...findShadowedEdges(edges)]).toEqual(['e3', 'e5']);
+  });
+});
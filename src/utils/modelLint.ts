@@ -0,0 +1,312 @@
+import { Node, Edge } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { computeNodePath } from './nodeUtils';
+import { vertexPath } from './breakpoints';
+import { parseDelay } from './timeout';
+
+export type LintKind =
+  | 'missing_initial'
+  | 'unreachable_state'
+  | 'decision_without_else'
+  | 'duplicate_sibling_label'
+  | 'single_region_orthogonal'
+  | 'shadowed_transition'
+  | 'shadowed_timeout'
+  | 'invalid_timeout'
+  | 'and_single_region'
+  | 'history_on_leaf'
+  | 'submachine_with_children'
+  | 'broken_proxy';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintProblem {
+  kind: LintKind;
+  severity: LintSeverity;
+  message: string;
+  /** Path of the offending state/pseudo-state, or "source → target" for a transition. */
+  path: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+const isState = (n: Node) => n.type === 'stateNode';
+const isDecision = (n: Node) => n.type === 'decisionNode' && !n.data?.isAnd;
+const isAnd = (n: Node) => n.type === 'decisionNode' && !!n.data?.isAnd;
+
+function edgePath(edge: Edge, nodes: Node[]): string {
+  return `${vertexPath(edge.source, nodes)} → ${vertexPath(edge.target, nodes)}`;
+}
+
+function groupBySource(edges: Edge[]): Map<string, Edge[]> {
+  const edgesBySource = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    const list = edgesBySource.get(edge.source) || [];
+    list.push(edge);
+    edgesBySource.set(edge.source, list);
+  }
+  return edgesBySource;
+}
+
+/**
+ * Transitions that can never fire because an earlier transition from the same
+ * source has no guard. Edge order is transition priority order. An unguarded
+ * transition with an event only shadows later ones on the same event, and an
+ * unguarded timeout shadows nothing by itself (see `findShadowedTimeouts`).
+ */
+export function findShadowedEdges(edges: Edge[]): Set<string> {
+  const shadowed = findShadowedTimeouts(edges);
+  for (const siblings of groupBySource(edges).values()) {
+    let seenGuardless = false;
+    const guardlessEvents = new Set<string>();
+    for (const edge of siblings) {
+      const event = edge.data?.event?.trim() || '';
+      if (seenGuardless || (event && guardlessEvents.has(event))) {
+        shadowed.add(edge.id);
+      } else if (!edge.data?.guard && !edge.data?.after?.trim()) {
+        if (event) guardlessEvents.add(event);
+        else seenGuardless = true;
+      }
+    }
+  }
+  return shadowed;
+}
+
+/**
+ * Unguarded timeout transitions that never fire because another unguarded
+ * timeout from the same source expires first (or at the same time with a
+ * higher priority). Timeouts with an event or a guard may still fire.
+ */
+export function findShadowedTimeouts(edges: Edge[]): Set<string> {
+  const shadowed = new Set<string>();
+  for (const siblings of groupBySource(edges).values()) {
+    const timeouts = siblings.filter(e => !e.data?.guard && !e.data?.event?.trim() && parseDelay(e.data?.after) !== null);
+    if (timeouts.length < 2) continue;
+    let first = timeouts[0];
+    for (const edge of timeouts) {
+      if ((parseDelay(edge.data.after) as number) < (parseDelay(first.data.after) as number)) first = edge;
+    }
+    for (const edge of timeouts) if (edge !== first) shadowed.add(edge.id);
+  }
+  return shadowed;
+}
+
+// The region a node lives in: its nearest ancestor (or itself) whose parent
+// is an orthogonal state. Undefined outside orthogonal states.
+function regionOf(nodeId: string, byId: Map<string, Node>): string | undefined {
+  let current = byId.get(nodeId);
+  while (current?.parentId) {
+    const parent = byId.get(current.parentId);
+    if (parent?.data?.orthogonal) return current.id;
+    current = parent;
+  }
+  return undefined;
+}
+
+// States that can become active starting from the root initial state.
+// Entering a state enters its ancestors and its initial child (or all
+// regions when orthogonal); leaving through a transition enters its target.
+function reachableNodeIds(nodes: Node[], edges: Edge[], rootInitial: string, byId: Map<string, Node>): Set<string> {
+  const reached = new Set<string>();
+  const outgoing = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.source) || [];
+    list.push(edge);
+    outgoing.set(edge.source, list);
+  }
+  const children = new Map<string, Node[]>();
+  for (const node of nodes) {
+    if (!node.parentId) continue;
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  }
+
+  const queue = [rootInitial];
+  while (queue.length > 0) {
+    const id = queue.pop() as string;
+    const node = byId.get(id);
+    if (!node || reached.has(id)) continue;
+    if (node.type === 'proxyNode') {
+      queue.push((node.data as { targetId: string }).targetId);
+      continue;
+    }
+    reached.add(id);
+    if (node.parentId) queue.push(node.parentId);
+    if (isState(node)) {
+      if (node.data.orthogonal) {
+        for (const child of children.get(id) || []) if (isState(child)) queue.push(child.id);
+      } else if (node.data.initial) {
+        queue.push(node.data.initial as string);
+      }
+    }
+    for (const edge of outgoing.get(id) || []) queue.push(edge.target);
+  }
+  return reached;
+}
+
+/**
+ * Semantic checks on the model beyond ID consistency and code syntax.
+ * Returns problems in a stable order: by rule, then by model order.
+ */
+export function lintModel(nodes: Node[], edges: Edge[], machineProperties: MachineProperties): LintProblem[] {
+  const problems: LintProblem[] = [];
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const childStates = new Map<string | undefined, Node[]>();
+  for (const node of nodes) {
+    if (!isState(node)) continue;
+    const list = childStates.get(node.parentId) || [];
+    list.push(node);
+    childStates.set(node.parentId, list);
+  }
+  const regularEdges = edges.filter(e => !e.id.startsWith('initial-edge'));
+
+  // Composite states must say which child to enter
+  if ((childStates.get(undefined) || []).length > 0 && !machineProperties.initial) {
+    problems.push({
+      kind: 'missing_initial', severity: 'error', path: '/',
+      message: 'The machine has no initial state',
+    });
+  }
+  for (const node of nodes) {
+    if (!isState(node) || node.data.orthogonal || node.data.initial) continue;
+    if ((childStates.get(node.id) || []).length === 0) continue;
+    const path = computeNodePath(node.id, nodes);
+    problems.push({
+      kind: 'missing_initial', severity: 'error', path, nodeId: node.id,
+      message: `Composite state '${path}' has no initial state`,
+    });
+  }
+
+  // Unreachable states (only the outermost one of an unreachable subtree)
+  if (machineProperties.initial && byId.has(machineProperties.initial)) {
+    const reached = reachableNodeIds(nodes, regularEdges, machineProperties.initial, byId);
+    for (const node of nodes) {
+      if (!isState(node) || reached.has(node.id)) continue;
+      if (node.parentId && !reached.has(node.parentId)) continue;
+      const path = computeNodePath(node.id, nodes);
+      problems.push({
+        kind: 'unreachable_state', severity: 'warning', path, nodeId: node.id,
+        message: `State '${path}' can never be entered from the initial state`,
+      });
+    }
+  }
+
+  // Decisions that can get stuck because every branch is guarded
+  for (const node of nodes) {
+    if (!isDecision(node)) continue;
+    const branches = regularEdges.filter(e => e.source === node.id);
+    if (branches.length === 0 || branches.some(e => !e.data?.guard)) continue;
+    const path = vertexPath(node.id, nodes);
+    problems.push({
+      kind: 'decision_without_else', severity: 'warning', path, nodeId: node.id,
+      message: `Decision '${path}' has no guardless (else) branch`,
+    });
+  }
+
+  // Sibling names must be unique; states and pseudo-states have separate namespaces
+  const seen = new Map<string, Node>();
+  for (const node of nodes) {
+    if (!isState(node) && node.type !== 'decisionNode') continue;
+    const key = `${node.parentId ?? ''}\u0000${node.type}\u0000${node.data.label}`;
+    if (!seen.has(key)) {
+      seen.set(key, node);
+      continue;
+    }
+    const path = vertexPath(node.id, nodes);
+    problems.push({
+      kind: 'duplicate_sibling_label', severity: 'error', path, nodeId: node.id,
+      message: `'${path}' has the same name as a sibling`,
+    });
+  }
+
+  // Orthogonal states need at least two regions to be meaningful
+  for (const node of nodes) {
+    if (!isState(node) || !node.data.orthogonal) continue;
+    if ((childStates.get(node.id) || []).length >= 2) continue;
+    const path = computeNodePath(node.id, nodes);
+    problems.push({
+      kind: 'single_region_orthogonal', severity: 'warning', path, nodeId: node.id,
+      message: `Orthogonal state '${path}' has fewer than two regions`,
+    });
+  }
+
+  // Timeout delays must parse, e.g. `0.3s` or `300ms`
+  for (const edge of regularEdges) {
+    const after = edge.data?.after?.trim();
+    if (!after || parseDelay(after) !== null) continue;
+    const path = edgePath(edge, nodes);
+    problems.push({
+      kind: 'invalid_timeout', severity: 'error', path, edgeId: edge.id,
+      message: `Transition '${path}' has an invalid timeout '${after}'`,
+    });
+  }
+
+  // Transitions after a guardless one from the same source, and timeouts
+  // that a shorter one from the same source always beats
+  const shadowed = findShadowedEdges(regularEdges);
+  const shadowedTimeouts = findShadowedTimeouts(regularEdges);
+  for (const edge of regularEdges) {
+    if (!shadowed.has(edge.id)) continue;
+    const path = edgePath(edge, nodes);
+    if (shadowedTimeouts.has(edge.id)) {
+      problems.push({
+        kind: 'shadowed_timeout', severity: 'warning', path, edgeId: edge.id,
+        message: `Timeout transition '${path}' can never fire: another timeout from the same source expires first`,
+      });
+      continue;
+    }
+    problems.push({
+      kind: 'shadowed_transition', severity: 'warning', path, edgeId: edge.id,
+      message: `Transition '${path}' can never fire: an earlier transition from the same source has no guard`,
+    });
+  }
+
+  // An AND joins orthogonal regions, so it needs inputs from two or more
+  for (const node of nodes) {
+    if (!isAnd(node)) continue;
+    const regions = new Set(regularEdges
+      .filter(e => e.target === node.id)
+      .map(e => regionOf(e.source, byId) ?? ''));
+    if (regions.size >= 2) continue;
+    const path = vertexPath(node.id, nodes);
+    problems.push({
+      kind: 'and_single_region', severity: 'warning', path, nodeId: node.id,
+      message: `AND '${path}' is fed from fewer than two orthogonal regions`,
+    });
+  }
+
+  // History only matters for states that have children to remember
+  for (const node of nodes) {
+    if (!isState(node) || !node.data.history) continue;
+    if ((childStates.get(node.id) || []).length > 0) continue;
+    const path = computeNodePath(node.id, nodes);
+    problems.push({
+      kind: 'history_on_leaf', severity: 'warning', path, nodeId: node.id,
+      message: `Leaf state '${path}' has history enabled, which has no effect`,
+    });
+  }
+
+  // A submachine state's contents come from its file
+  for (const node of nodes) {
+    if (!isState(node) || !node.data.submachine?.trim()) continue;
+    if ((childStates.get(node.id) || []).length === 0) continue;
+    const path = computeNodePath(node.id, nodes);
+    problems.push({
+      kind: 'submachine_with_children', severity: 'error', path, nodeId: node.id,
+      message: `Submachine state '${path}' has child states of its own`,
+    });
+  }
+
+  // Proxies whose target state was deleted or renamed away
+  for (const node of nodes) {
+    if (node.type !== 'proxyNode' || !node.data?.broken) continue;
+    const path = (node.data.targetPath as string) || node.id;
+    problems.push({
+      kind: 'broken_proxy', severity: 'warning', path, nodeId: node.id,
+      message: `Proxy points to missing state '${path}'`,
+    });
+  }
+
+  return problems;
+}
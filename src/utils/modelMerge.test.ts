@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml, convertToYaml } from '../yamlConverter';
+import { diffModels, formatDiff } from './modelDiff';
+import { mergeModels, unresolvedConflicts, MergeResolution } from './modelMerge';
+
+const BASE = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    graphics: { x: 0, 'y': 0, width: 100, height: 50 }
+    entry: reset()
+    transitions:
+      - to: Running
+        guard: ctx.go
+      - to: Done
+        guard: ctx.quit
+  Running:
+    graphics: { x: 200, 'y': 0, width: 300, height: 200 }
+    exit: stop()
+    initial: Fast
+    states:
+      Fast:
+        graphics: { x: 20, 'y': 40, width: 80, height: 40 }
+      Slow:
+        graphics: { x: 150, 'y': 40, width: 80, height: 40 }
+  Done:
+    graphics: { x: 0, 'y': 300, width: 100, height: 50 }
+`;
+
+function merge(ours: string, theirs: string, resolutions: Record<string, MergeResolution> = {}) {
+  return mergeModels(convertFromYaml(BASE), convertFromYaml(ours), convertFromYaml(theirs), resolutions);
+}
+
+// What the merge changed compared with ours
+function changesFromOurs(ours: string, result: ReturnType<typeof merge>) {
+  return formatDiff(diffModels(convertFromYaml(ours), result.model));
+}
+
+describe('mergeModels', () => {
+  it('takes over changes made on one side only', () => {
+    const ours = BASE.replace('entry: reset()', 'entry: reset(true)');
+    const theirs = BASE
+      .replace('exit: stop()', 'exit: halt()')
+      .replace('  Done:\n', '  Error:\n    graphics: { x: 200, \'y\': 300, width: 100, height: 50 }\n    entry: report()\n  Done:\n')
+      .replace('        guard: ctx.quit\n', '        guard: ctx.quit\n      - to: Error\n        guard: ctx.failed\n');
+    const result = merge(ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(changesFromOurs(ours, result)).toBe([
+      '+ state Error',
+      '~ state Running',
+      '    exit: "stop()" → "halt()"',
+      '+ transition Idle → Error',
+      '',
+    ].join('\n'));
+    expect(result.merged).toBe(3);
+    expect(result.model.nodes.find(n => n.data.label === 'Idle')!.data.entry).toBe('reset(true)');
+  });
+
+  it('reports the same field changed differently as a conflict and applies its resolution', () => {
+    const ours = BASE.replace('exit: stop()', 'exit: stop(1)');
+    const theirs = BASE.replace('exit: stop()', 'exit: stop(2)');
+    const result = merge(ours, theirs);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ title: 'state Running', field: 'exit', base: 'stop()', ours: 'stop(1)', theirs: 'stop(2)', editable: true }),
+    ]);
+    const key = result.conflicts[0].key;
+    expect(unresolvedConflicts(result, {})).toHaveLength(1);
+    const exit = (resolution: MergeResolution) =>
+      merge(ours, theirs, { [key]: resolution }).model.nodes.find(n => n.data.label === 'Running')!.data.exit;
+    expect(exit('ours')).toBe('stop(1)');
+    expect(exit('theirs')).toBe('stop(2)');
+    expect(exit({ manual: 'stop(3)' })).toBe('stop(3)');
+  });
+
+  it('does not count the same change on both sides as a conflict', () => {
+    const both = BASE.replace('guard: ctx.go', 'guard: ctx.start');
+    const result = merge(both, both);
+    expect(result.conflicts).toEqual([]);
+    expect(changesFromOurs(both, result)).toBe('No structural changes\n');
+  });
+
+  it('removes what the other side left unchanged, and asks otherwise', () => {
+    const withoutSlow = BASE.replace(/ {6}Slow:\n.*\n/, '');
+    expect(changesFromOurs(BASE, merge(BASE, withoutSlow))).toBe('- state Running/Slow\n');
+
+    const slowChanged = BASE.replace("      Slow:\n", '      Slow:\n        entry: brake()\n');
+    const result = merge(slowChanged, withoutSlow);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ title: 'state Running/Slow', field: 'removed', ours: 'changed', theirs: 'removed', editable: false }),
+    ]);
+    expect(result.model.nodes.some(n => n.data.label === 'Slow')).toBe(true);
+    const removed = merge(slowChanged, withoutSlow, { [result.conflicts[0].key]: 'theirs' });
+    expect(removed.model.nodes.some(n => n.data.label === 'Slow')).toBe(false);
+  });
+
+  it('drops transitions into a state removed on the other side', () => {
+    const withoutDone = BASE.replace(/ {6}- to: Done\n.*\n/, '').replace(/ {2}Done:\n.*\n/, '');
+    const result = merge(BASE, withoutDone);
+    expect(result.conflicts).toEqual([]);
+    expect(changesFromOurs(BASE, result)).toBe('- state Done\n- transition Idle → Done\n');
+  });
+
+  it('merges a state added on both sides into one', () => {
+    const addError = (entry: string) => BASE.replace('  Done:\n', `  Error:\n    entry: ${entry}\n  Done:\n`);
+    expect(merge(addError('report()'), addError('report()')).conflicts).toEqual([]);
+    const result = merge(addError('report()'), addError('log()'));
+    expect(result.model.nodes.filter(n => n.data.label === 'Error')).toHaveLength(1);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ title: 'state Error', field: 'entry', base: '', ours: 'report()', theirs: 'log()' }),
+    ]);
+  });
+
+  it('takes layout from theirs only where ours kept it', () => {
+    const movedIdle = BASE.replace("{ x: 0, 'y': 0,", "{ x: 10, 'y': 0,");
+    const movedBoth = movedIdle.replace("{ x: 200, 'y': 0,", "{ x: 210, 'y': 0,");
+    const result = merge(movedIdle, BASE.replace("{ x: 0, 'y': 0,", "{ x: 30, 'y': 0,").replace("{ x: 200, 'y': 0,", "{ x: 250, 'y': 0,"));
+    const x = (label: string, r = result) => r.model.nodes.find(n => n.data.label === label)!.position.x;
+    expect(result.conflicts).toEqual([]);
+    expect(x('Idle')).toBe(10);
+    expect(x('Running')).toBe(250);
+    expect(x('Running', merge(movedBoth, BASE))).toBe(210);
+  });
+
+  it('takes over a reordering of transitions made on one side', () => {
+    const swapped = BASE.replace(
+      '      - to: Running\n        guard: ctx.go\n      - to: Done\n        guard: ctx.quit\n',
+      '      - to: Done\n        guard: ctx.quit\n      - to: Running\n        guard: ctx.go\n',
+    );
+    const result = merge(BASE, swapped);
+    expect(result.conflicts).toEqual([]);
+    expect(result.model.edges.map(e => e.data.guard)).toEqual(['ctx.quit', 'ctx.go']);
+
+    const reordered = merge(swapped.replace('guard: ctx.quit', 'guard: ctx.stop'), swapped);
+    expect(reordered.conflicts).toEqual([]);
+  });
+
+  it('writes a file that reads back as the merged machine', () => {
+    const ours = BASE.replace('entry: reset()', 'entry: reset(true)');
+    const theirs = BASE.replace("      Slow:\n", '      Slow:\n        entry: brake()\n').replace('initial: Fast', 'initial: Slow');
+    const { model } = merge(ours, theirs);
+    const yaml = convertToYaml(model.nodes, model.edges, !!model.rootHistory, true, model.machineProperties);
+    const reread = convertFromYaml(yaml);
+    expect(formatDiff(diffModels(model, reread))).toBe('No structural changes\n');
+    expect(yaml).toContain('initial: Slow');
+    expect(yaml).toContain('entry: reset(true)');
+  });
+});
@@ -0,0 +1,472 @@
+import { Node, Edge } from 'reactflow';
+import { MachineProperties } from '../yamlConverter';
+import { vertexPath } from './breakpoints';
+import {
+  DiffModel,
+  diffModels,
+  matchVertices,
+  matchTransitions,
+  resolveProxy,
+  vertexKind,
+  fieldText,
+  sameLayout,
+  edgeRouting,
+  STATE_FIELDS,
+  STATE_FLAGS,
+  TRANSITION_FIELDS,
+  MACHINE_FIELDS,
+} from './modelDiff';
+
+// Three-way merge of two versions of a machine that share a common ancestor.
+// Vertices and transitions are matched against the base the same way as in
+// the structural diff, so a change is a field of a matched state or
+// transition, or a whole state or transition added or removed. Changes made
+// on one side only are taken over; the same field changed differently on
+// both sides is a conflict. Layout never conflicts: when both sides moved
+// something, ours wins. The result starts from ours, so its ids and
+// everything unchanged in theirs are kept as they are.
+
+export type MergeSide = 'ours' | 'theirs';
+export type MergeResolution = MergeSide | { manual: string };
+
+export interface MergeConflict {
+  /** Identifies the conflict across merges of the same three files. */
+  key: string;
+  /** e.g. "state Running", "transition Idle → Running" or "machine". */
+  title: string;
+  field: string;
+  base: string;
+  ours: string;
+  theirs: string;
+  /** Text fields can be edited by hand; the rest can only be taken from a side. */
+  editable: boolean;
+}
+
+export interface MergeResult {
+  model: DiffModel;
+  conflicts: MergeConflict[];
+  /** Changes taken over from theirs without a conflict. */
+  merged: number;
+}
+
+const flagText = (value: unknown) => String(!!value);
+
+function subtree(id: string, nodes: Node[]): Set<string> {
+  const ids = new Set([id]);
+  for (const n of nodes) {
+    if (n.parentId && ids.has(n.parentId)) ids.add(n.id);
+  }
+  return ids;
+}
+
+/** Base vertices whose content, children or transitions one side changed. */
+function changedVertices(base: DiffModel, side: DiffModel, sideToBase: Map<string, string>): Set<string> {
+  const baseById = new Map(base.nodes.map(n => [n.id, n]));
+  const sideById = new Map(side.nodes.map(n => [n.id, n]));
+  // The closest vertex the base also has, for something that is new on this side
+  const inBase = (id: string | undefined, byId: Map<string, Node>): string | undefined => {
+    for (let v = id && resolveProxy(id, byId); v; v = byId.get(v)?.parentId) {
+      const match = sideToBase.get(v);
+      if (match) return match;
+    }
+    return undefined;
+  };
+  const changed = new Set<string>();
+  const add = (id: string | undefined) => { if (id) changed.add(id); };
+  const diff = diffModels(base, side);
+  for (const s of diff.states) {
+    if (s.kind === 'removed') add(baseById.get(s.beforeId!)?.parentId);
+    else if (s.kind === 'added') add(inBase(sideById.get(s.afterId!)?.parentId, sideById));
+    else add(s.beforeId);
+  }
+  const baseEdges = new Map(base.edges.map(e => [e.id, e]));
+  const sideEdges = new Map(side.edges.map(e => [e.id, e]));
+  for (const t of diff.transitions) {
+    const before = t.beforeId ? baseEdges.get(t.beforeId) : undefined;
+    const after = t.afterId ? sideEdges.get(t.afterId) : undefined;
+    if (before) {
+      add(resolveProxy(before.source, baseById));
+      add(resolveProxy(before.target, baseById));
+    }
+    if (after) {
+      add(inBase(after.source, sideById));
+      add(inBase(after.target, sideById));
+    }
+  }
+  return changed;
+}
+
+function nextNumber(ids: string[], pattern: RegExp): number {
+  return ids.reduce((max, id) => {
+    const match = id.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0) + 1;
+}
+
+export function mergeModels(
+  base: DiffModel,
+  ours: DiffModel,
+  theirs: DiffModel,
+  resolutions: Record<string, MergeResolution> = {},
+): MergeResult {
+  const baseById = new Map(base.nodes.map(n => [n.id, n]));
+  const oursById = new Map(ours.nodes.map(n => [n.id, n]));
+  const theirsById = new Map(theirs.nodes.map(n => [n.id, n]));
+  const oursToBase = matchVertices(base, ours);
+  const theirsToBase = matchVertices(base, theirs);
+  const baseToOurs = new Map([...oursToBase].map(([o, b]) => [b, o]));
+  const baseToTheirs = new Map([...theirsToBase].map(([t, b]) => [b, t]));
+  const baseEdgeToOurs = new Map([...matchTransitions(base, ours, oursToBase)].map(([o, b]) => [b, o]));
+  const baseEdgeToTheirs = new Map([...matchTransitions(base, theirs, theirsToBase)].map(([t, b]) => [b, t]));
+  const oursChanged = changedVertices(base, ours, oursToBase);
+  const theirsChanged = changedVertices(base, theirs, theirsToBase);
+
+  const conflicts: MergeConflict[] = [];
+  let merged = 0;
+  const conflict = (c: MergeConflict): MergeResolution => {
+    conflicts.push(c);
+    return resolutions[c.key] ?? 'ours';
+  };
+  // The merged value of one field. Values are compared as text unless `same`
+  // says otherwise; `show` is what the conflict displays.
+  const pick = <T>(
+    key: string, title: string, field: string, b: T, o: T, t: T,
+    { same = fieldText, show = same, editable = same === fieldText }: { same?: (v: T) => string; show?: (v: T) => string; editable?: boolean } = {},
+  ): T | string => {
+    if (same(o) === same(t) || same(t) === same(b)) return o;
+    if (same(o) === same(b)) {
+      merged++;
+      return t;
+    }
+    const choice = conflict({ key, title, field, base: show(b), ours: show(o), theirs: show(t), editable });
+    if (choice === 'theirs') return t;
+    return typeof choice === 'object' && editable ? choice.manual : o;
+  };
+
+  const nodes: Node[] = ours.nodes.map(n => ({ ...n, position: { ...n.position }, style: { ...n.style }, data: { ...n.data } }));
+  const resultById = new Map(nodes.map(n => [n.id, n]));
+  const removed = new Set<string>();
+  const theirsToResult = new Map<string, string>();
+  const added = new Set<string>();
+  let nodeCounter = nextNumber([...ours.nodes, ...theirs.nodes].map(n => n.id), /^node_(\d+)$/);
+  const newNodeId = () => `node_${nodeCounter++}`;
+
+  const titleOf = (n: Node, model: DiffModel) => `${vertexKind(n)} ${vertexPath(n.id, model.nodes)}`;
+  const copyLayout = (to: Node, from: Node) => {
+    to.position = { ...from.position };
+    to.style = { ...to.style, width: from.style?.width, height: from.style?.height };
+    for (const key of ['initialMarkerPos', 'initialMarkerSize', 'historyMarkerPos', 'historyMarkerSize', 'showEntry', 'showExit', 'showDo', 'showAnnotation']) {
+      to.data[key] = from.data[key];
+    }
+  };
+
+  // Fields of a vertex both sides have; without a base it was added on both
+  const initials: [Node | undefined, Node, Node][] = [];
+  const mergeVertex = (b: Node | undefined, r: Node, t: Node) => {
+    const title = titleOf(r, ours);
+    const key = `state:${b ? b.id : `+${r.id}`}`;
+    const baseData = b?.data ?? {};
+    r.data.label = pick(`${key}:label`, title, 'label', baseData.label, r.data.label, t.data.label);
+    for (const f of STATE_FIELDS) {
+      const value = pick(`${key}:${f}`, title, f, baseData[f], r.data[f], t.data[f]);
+      if (value !== r.data[f]) r.data[f] = value;
+    }
+    for (const f of STATE_FLAGS) {
+      r.data[f] = pick(`${key}:${f}`, title, f, baseData[f], r.data[f], t.data[f], { same: flagText });
+    }
+    if (b && sameLayout(b, oursById.get(r.id)!) && !sameLayout(b, t)) copyLayout(r, t);
+    initials.push([b, r, t]);
+    theirsToResult.set(t.id, r.id);
+  };
+
+  const childrenOf = (id: string, model: DiffModel) => model.nodes.filter(n => n.parentId === id && n.type !== 'proxyNode');
+  const sameVertex = (a: Node, b: Node) => vertexKind(a) === vertexKind(b) && fieldText(a.data.label) === fieldText(b.data.label);
+
+  // Copy a state of theirs with everything in it, or merge it into the same state added by ours
+  const addTheirs = (t: Node, parentId: string | undefined) => {
+    const twin = nodes.find(n => n.parentId === parentId && n.type !== 'proxyNode' && !removed.has(n.id) &&
+      !oursToBase.has(n.id) && !added.has(n.id) && sameVertex(n, t));
+    if (twin) {
+      mergeVertex(undefined, twin, t);
+      for (const child of childrenOf(t.id, theirs)) addTheirs(child, twin.id);
+      return;
+    }
+    const id = newNodeId();
+    const node: Node = { ...t, id, parentId, selected: false, position: { ...t.position }, style: { ...t.style }, data: { ...t.data } };
+    if (!parentId) delete node.parentId;
+    nodes.push(node);
+    resultById.set(id, node);
+    added.add(id);
+    theirsToResult.set(t.id, id);
+    for (const child of childrenOf(t.id, theirs)) addTheirs(child, id);
+  };
+
+  const removeSubtree = (id: string) => {
+    for (const r of subtree(id, nodes)) removed.add(r);
+  };
+
+  // States the base has: merged, removed, or (on request) restored from theirs
+  const restore = new Set<string>();
+  for (const b of base.nodes) {
+    if (b.type === 'proxyNode') continue;
+    const o = baseToOurs.get(b.id);
+    const t = baseToTheirs.get(b.id);
+    const changedIn = (changed: Set<string>) => [...subtree(b.id, base.nodes)].some(id => changed.has(id));
+    if (o && t) {
+      mergeVertex(b, resultById.get(o)!, theirsById.get(t)!);
+    } else if (o && (!b.parentId || baseToTheirs.has(b.parentId))) {
+      // Removed in theirs (only the outermost removed state is looked at)
+      if (!changedIn(oursChanged)) {
+        removeSubtree(o);
+        merged++;
+      } else if (conflict({
+        key: `state:${b.id}:removed`, title: titleOf(b, base), field: 'removed', base: '', ours: 'changed', theirs: 'removed', editable: false,
+      }) === 'theirs') {
+        removeSubtree(o);
+      }
+    } else if (t && (!b.parentId || baseToOurs.has(b.parentId)) && changedIn(theirsChanged)) {
+      // Removed in ours, but theirs changed it
+      if (conflict({
+        key: `state:${b.id}:removed`, title: titleOf(b, base), field: 'removed', base: '', ours: 'removed', theirs: 'changed', editable: false,
+      }) === 'theirs') {
+        restore.add(t);
+      }
+    }
+  }
+
+  // States only theirs has, or that are restored, in parent-first order
+  for (const t of theirs.nodes) {
+    if (t.type === 'proxyNode' || theirsToResult.has(t.id)) continue;
+    const parent = t.parentId ? theirsToResult.get(t.parentId) : undefined;
+    if (t.parentId && (!parent || removed.has(parent))) continue;
+    if (restore.has(t.id) || !theirsToBase.has(t.id)) {
+      if (!restore.has(t.id)) merged++;
+      addTheirs(t, parent);
+    }
+  }
+
+  // Vertex ids on either side stand for the same vertex when both match the
+  // same base vertex, or when theirs was merged into the one ours added
+  const oursIdentity = (id: string | undefined) => (id ? (oursToBase.has(id) ? `b:${oursToBase.get(id)}` : `r:${id}`) : '');
+  const theirsIdentity = (id: string | undefined) => {
+    if (!id) return '';
+    if (theirsToBase.has(id)) return `b:${theirsToBase.get(id)}`;
+    return `r:${theirsToResult.get(id) ?? `t:${id}`}`;
+  };
+  const baseIdentity = (id: string | undefined) => (id ? `b:${id}` : '');
+  const toResult = (identity: string): string | undefined => {
+    let id: string | undefined;
+    if (identity.startsWith('b:')) {
+      const b = identity.slice(2);
+      id = baseToOurs.get(b) ?? theirsToResult.get(baseToTheirs.get(b) ?? '');
+    } else if (identity.startsWith('r:')) {
+      id = identity.slice(2);
+    }
+    return id && resultById.has(id) && !removed.has(id) ? id : undefined;
+  };
+  const labelOf = (identity: string) => {
+    if (identity.startsWith('b:')) return fieldText(baseById.get(identity.slice(2))?.data.label);
+    const id = identity.slice(2);
+    return fieldText((resultById.get(id) ?? theirsById.get(id.replace(/^t:/, '')))?.data.label);
+  };
+
+  // Initial states, once every vertex has its place in the result
+  for (const [b, r, t] of initials) {
+    const chosen = pick(`state:${b ? b.id : `+${r.id}`}:initial`, titleOf(r, ours), 'initial',
+      baseIdentity(b?.data.initial), oursIdentity(oursById.get(r.id)?.data.initial), theirsIdentity(t.data.initial),
+      { same: String, show: labelOf });
+    r.data.initial = toResult(chosen) ?? toResult(oursIdentity(oursById.get(r.id)?.data.initial));
+  }
+  for (const id of added) {
+    const node = resultById.get(id)!;
+    node.data.initial = node.data.initial ? theirsToResult.get(node.data.initial) : undefined;
+  }
+
+  // Proxies are kept as long as their target is; theirs are copied when a transition needs them
+  const proxyNames = new Set(ours.nodes.filter(n => n.type === 'proxyNode').map(n => (n.data as { name?: string }).name));
+  let proxyCounter = nextNumber([...proxyNames].map(name => name ?? ''), /^P(\d+)$/);
+  for (const n of nodes) {
+    if (n.type !== 'proxyNode') continue;
+    const target = (n.data as { targetId: string }).targetId;
+    if (removed.has(target) || (n.parentId && removed.has(n.parentId))) removed.add(n.id);
+  }
+  const theirsEndpoint = (id: string): string | undefined => {
+    const t = theirsById.get(id);
+    if (t?.type !== 'proxyNode') return toResult(theirsIdentity(id));
+    const target = toResult(theirsIdentity((t.data as { targetId: string }).targetId));
+    const parentId = t.parentId ? toResult(theirsIdentity(t.parentId)) : undefined;
+    if (!target || (t.parentId && !parentId)) return undefined;
+    const existing = nodes.find(n => n.type === 'proxyNode' && !removed.has(n.id) && n.parentId === parentId &&
+      (n.data as { targetId: string }).targetId === target);
+    if (existing) return existing.id;
+    let name = (t.data as { name?: string }).name;
+    if (!name || proxyNames.has(name)) name = `P${proxyCounter++}`;
+    proxyNames.add(name);
+    const proxy: Node = { ...t, id: newNodeId(), parentId, selected: false, data: { ...t.data, name, targetId: target } };
+    if (!parentId) delete proxy.parentId;
+    nodes.push(proxy);
+    resultById.set(proxy.id, proxy);
+    return proxy.id;
+  };
+
+  // Transitions
+  const edges: Edge[] = ours.edges.map(e => ({ ...e, data: { ...e.data } }));
+  const edgeById = new Map(edges.map(e => [e.id, e]));
+  const removedEdges = new Set<string>();
+  const theirsEdgeToResult = new Map<string, string>();
+  const theirsEdgesById = new Map(theirs.edges.map(e => [e.id, e]));
+  const edgeTitle = (e: Edge, model: DiffModel) => `transition ${vertexPath(e.source, model.nodes)} → ${vertexPath(e.target, model.nodes)}`;
+  const oursTarget = (e: Edge) => oursIdentity(resolveProxy(e.target, oursById));
+  const theirsTarget = (e: Edge) => theirsIdentity(resolveProxy(e.target, theirsById));
+  const baseTarget = (e: Edge) => baseIdentity(resolveProxy(e.target, baseById));
+  const retarget = (r: Edge, t: Edge) => {
+    const target = theirsEndpoint(t.target);
+    if (!target) return;
+    r.target = target;
+    r.sourceHandle = t.sourceHandle;
+    r.targetHandle = t.targetHandle;
+    r.data = { ...r.data, controlPoints: t.data?.controlPoints, labelPosition: t.data?.labelPosition };
+  };
+  const mergeTransition = (key: string, title: string, b: Edge | undefined, r: Edge, t: Edge) => {
+    for (const f of TRANSITION_FIELDS) {
+      const value = pick(`${key}:${f}`, title, f, b?.data?.[f], r.data?.[f], t.data?.[f]);
+      if (value !== r.data?.[f]) r.data = { ...r.data, [f]: value };
+    }
+    theirsEdgeToResult.set(t.id, r.id);
+  };
+
+  const oursEdgesChanged = new Set(diffModels(base, ours).transitions.filter(c => c.kind === 'modified').map(c => c.beforeId));
+  const theirsEdgesChanged = new Set(diffModels(base, theirs).transitions.filter(c => c.kind === 'modified').map(c => c.beforeId));
+  const restoreEdges = new Set<string>();
+  for (const be of base.edges) {
+    const o = baseEdgeToOurs.get(be.id);
+    const t = baseEdgeToTheirs.get(be.id);
+    const title = edgeTitle(be, base);
+    if (o && t) {
+      const r = edgeById.get(o)!;
+      const te = theirsEdgesById.get(t)!;
+      mergeTransition(`transition:${be.id}`, title, be, r, te);
+      const target = pick(`transition:${be.id}:target`, title, 'target', baseTarget(be), oursTarget(r), theirsTarget(te),
+        { same: String, show: labelOf });
+      if (target !== oursTarget(r)) {
+        retarget(r, te);
+      } else if (target === theirsTarget(te) && edgeRouting(be) === edgeRouting(r) && edgeRouting(be) !== edgeRouting(te)) {
+        // Rerouted in theirs only
+        retarget(r, te);
+      }
+    } else if (o) {
+      if (!oursEdgesChanged.has(be.id)) {
+        removedEdges.add(o);
+        merged++;
+      } else if (conflict({
+        key: `transition:${be.id}:removed`, title, field: 'removed', base: '', ours: 'changed', theirs: 'removed', editable: false,
+      }) === 'theirs') {
+        removedEdges.add(o);
+      }
+    } else if (t && theirsEdgesChanged.has(be.id)) {
+      if (conflict({
+        key: `transition:${be.id}:removed`, title, field: 'removed', base: '', ours: 'removed', theirs: 'changed', editable: false,
+      }) === 'theirs') {
+        restoreEdges.add(t);
+      }
+    }
+  }
+
+  // Priority: theirs order is taken over when ours kept the base order
+  for (const b of base.nodes) {
+    const baseGroup = base.edges.filter(e => resolveProxy(e.source, baseById) === b.id &&
+      baseEdgeToOurs.has(e.id) && baseEdgeToTheirs.has(e.id) && !removedEdges.has(baseEdgeToOurs.get(e.id)!));
+    if (baseGroup.length < 2) continue;
+    const order = (ids: string[]) => ids.map(id => labelOf(baseTarget(base.edges.find(e => e.id === id)!))).join(', ');
+    const baseOrder = baseGroup.map(e => e.id);
+    const oursOrder = [...baseOrder].sort((x, y) =>
+      edges.findIndex(e => e.id === baseEdgeToOurs.get(x)) - edges.findIndex(e => e.id === baseEdgeToOurs.get(y)));
+    const theirsOrder = [...baseOrder].sort((x, y) =>
+      theirs.edges.findIndex(e => e.id === baseEdgeToTheirs.get(x)) - theirs.edges.findIndex(e => e.id === baseEdgeToTheirs.get(y)));
+    const chosen = pick(`priority:${b.id}`, titleOf(b, base), 'transition order', baseOrder, oursOrder, theirsOrder,
+      { same: ids => ids.join('\n'), show: order });
+    if (chosen !== theirsOrder) continue;
+    const slots = oursOrder.map(id => edges.findIndex(e => e.id === baseEdgeToOurs.get(id))).sort((x, y) => x - y);
+    const moved = theirsOrder.map(id => edgeById.get(baseEdgeToOurs.get(id)!)!);
+    slots.forEach((slot, i) => { edges[slot] = moved[i]; });
+  }
+
+  // Transitions only theirs has, placed after the one before them in theirs
+  const theirsMatchedEdges = new Set(baseEdgeToTheirs.values());
+  const oursMatchedEdges = new Set(baseEdgeToOurs.values());
+  for (const [index, te] of theirs.edges.entries()) {
+    if (theirsMatchedEdges.has(te.id) && !restoreEdges.has(te.id)) continue;
+    const theirsSource = resolveProxy(te.source, theirsById);
+    const source = toResult(theirsIdentity(theirsSource));
+    if (!source) continue;
+    const taken = new Set(theirsEdgeToResult.values());
+    const twin = edges.find(e => !removedEdges.has(e.id) && !oursMatchedEdges.has(e.id) && !taken.has(e.id) &&
+      e.source === source && oursTarget(e) === theirsTarget(te) &&
+      ['event', 'after', 'guard'].every(f => fieldText(e.data?.[f]) === fieldText(te.data?.[f])));
+    if (twin) {
+      mergeTransition(`transition:+${twin.id}`, edgeTitle(twin, ours), undefined, twin, te);
+      continue;
+    }
+    const target = theirsEndpoint(te.target);
+    if (!target) continue;
+    let id = `e${source}-${target}-${edges.length}`;
+    for (let n = edges.length + 1; edgeById.has(id); n++) id = `e${source}-${target}-${n}`;
+    const edge: Edge = { ...te, id, source, target, selected: false, data: { ...te.data } };
+    const previous = theirs.edges.slice(0, index).reverse().map(e => theirsEdgeToResult.get(e.id))
+      .find(r => r && !removedEdges.has(r) && edgeById.get(r)?.source === source);
+    const firstOfSource = edges.findIndex(e => e.source === source);
+    const at = previous ? edges.findIndex(e => e.id === previous) + 1 : firstOfSource === -1 ? edges.length : firstOfSource;
+    edges.splice(at, 0, edge);
+    edgeById.set(id, edge);
+    theirsEdgeToResult.set(te.id, id);
+    if (!restoreEdges.has(te.id)) merged++;
+  }
+
+  // Machine properties
+  const mpBase = base.machineProperties;
+  const mpOurs = ours.machineProperties;
+  const mpTheirs = theirs.machineProperties;
+  const machineProperties: MachineProperties = { ...mpOurs, hooks: { ...mpOurs.hooks } };
+  for (const f of MACHINE_FIELDS) {
+    machineProperties[f] = pick(`machine:${f}`, 'machine', f, mpBase[f], mpOurs[f], mpTheirs[f]) as string;
+  }
+  for (const hook of ['entry', 'exit', 'do', 'transition'] as const) {
+    machineProperties.hooks[hook] = pick(`machine:hooks.${hook}`, 'machine', `hooks.${hook}`,
+      mpBase.hooks?.[hook], mpOurs.hooks?.[hook], mpTheirs.hooks?.[hook]) ?? '';
+  }
+  const plugin = (mp: MachineProperties) => (mp.viewPlugin?.name ? JSON.stringify(mp.viewPlugin) : '');
+  if (pick('machine:viewPlugin', 'machine', 'viewPlugin', mpBase, mpOurs, mpTheirs, { same: plugin, show: mp => mp.viewPlugin?.name ?? '' }) === mpTheirs) {
+    machineProperties.viewPlugin = mpTheirs.viewPlugin;
+  }
+  const markers = (mp: MachineProperties) =>
+    JSON.stringify([mp.initialMarkerPos, mp.initialMarkerSize, mp.historyMarkerPos, mp.historyMarkerSize]);
+  if (markers(mpOurs) === markers(mpBase) && markers(mpTheirs) !== markers(mpBase)) {
+    Object.assign(machineProperties, {
+      initialMarkerPos: mpTheirs.initialMarkerPos, initialMarkerSize: mpTheirs.initialMarkerSize,
+      historyMarkerPos: mpTheirs.historyMarkerPos, historyMarkerSize: mpTheirs.historyMarkerSize,
+    });
+  }
+  const initial = pick('machine:initial', 'machine', 'initial',
+    baseIdentity(mpBase.initial), oursIdentity(mpOurs.initial), theirsIdentity(mpTheirs.initial), { same: String, show: labelOf });
+  machineProperties.initial = toResult(initial) ?? toResult(oursIdentity(mpOurs.initial));
+  const rootHistory = pick('machine:history', 'machine', 'history', base.rootHistory, ours.rootHistory, theirs.rootHistory, { same: flagText }) === true;
+
+  // Anything left pointing into removed states goes too
+  const resultNodes = nodes.filter(n => !removed.has(n.id));
+  const present = new Set(resultNodes.map(n => n.id));
+  const resultEdges = edges.filter(e => !removedEdges.has(e.id) && present.has(e.source) && present.has(e.target));
+  for (const n of resultNodes) {
+    if (n.data.initial && !present.has(n.data.initial)) n.data.initial = undefined;
+  }
+
+  return {
+    model: { nodes: resultNodes, edges: resultEdges, rootHistory, machineProperties },
+    conflicts,
+    merged,
+  };
+}
+
+/** Conflicts that have no resolution yet. */
+export function unresolvedConflicts(result: MergeResult, resolutions: Record<string, MergeResolution>): MergeConflict[] {
+  return result.conflicts.filter(c => !(c.key in resolutions));
+}
@@ -7,6 +7,7 @@ import {
   generateUniqueNodeLabel,
   generateUniqueDecisionLabel,
   computeNodePath,
+  buildNodeIndex,
 } from './nodeUtils';
 
 // ---------------------------------------------------------------------------
@@ -199,3 +200,25 @@ describe('generateUniqueDecisionLabel', () => {
     expect(generateUniqueDecisionLabel('A1', nodes, undefined)).toBe('A1'); // root container
   });
 });
+
+// ---------------------------------------------------------------------------
+// buildNodeIndex
+// ---------------------------------------------------------------------------
+
+describe('buildNodeIndex', () => {
+  const index = buildNodeIndex(flat);
+
+  it('looks nodes up by id and by parent', () => {
+    expect(index.byId.get('gc')).toBe(grandchild);
+    expect(index.children.get(undefined)).toEqual([root]);
+    expect(index.children.get('root')).toEqual([child, sibling]);
+  });
+
+  it('answers the same as the node list', () => {
+    expect(computeNodePath('gc', index)).toBe(computeNodePath('gc', flat));
+    expect(calculateNodeDepth('gc', index)).toBe(2);
+    expect(isAncestorOf('root', 'gc', index)).toBe(true);
+    expect(isAncestorOf('sib', 'gc', index)).toBe(false);
+    expect(getAllDescendants('root', index).map(n => n.id)).toEqual(['child', 'sib', 'gc']);
+  });
+});
@@ -1,11 +1,38 @@
 import { Node } from 'reactflow';
 
-export function calculateNodeDepth(nodeId: string, nodesArray: Node[], cache: Map<string, number> = new Map()): number {
+// Lookups by ID and by parent, so that code walking the hierarchy inside a loop
+// does not search the whole node list at every step. Build it once per change
+// of the nodes (a useMemo on `nodes`) and pass it where a node list is accepted.
+export interface NodeIndex {
+  byId: Map<string, Node>;
+  // Top-level nodes are under `undefined`
+  children: Map<string | undefined, Node[]>;
+}
+
+export type NodeLookup = Node[] | NodeIndex;
+
+export function buildNodeIndex(nodes: Node[]): NodeIndex {
+  const byId = new Map<string, Node>();
+  const children = new Map<string | undefined, Node[]>();
+  for (const node of nodes) {
+    byId.set(node.id, node);
+    const siblings = children.get(node.parentId);
+    if (siblings) siblings.push(node);
+    else children.set(node.parentId, [node]);
+  }
+  return { byId, children };
+}
+
+export function findNode(nodes: NodeLookup, nodeId: string): Node | undefined {
+  return Array.isArray(nodes) ? nodes.find(n => n.id === nodeId) : nodes.byId.get(nodeId);
+}
+
+export function calculateNodeDepth(nodeId: string, nodesArray: NodeLookup, cache: Map<string, number> = new Map()): number {
   if (cache.has(nodeId)) {
     return cache.get(nodeId)!;
   }
 
-  const node = nodesArray.find(n => n.id === nodeId);
+  const node = findNode(nodesArray, nodeId);
   if (!node || !node.parentId) {
     cache.set(nodeId, 0);
     return 0;
@@ -17,16 +44,16 @@ export function calculateNodeDepth(nodeId: string, nodesArray: Node[], cache: Ma
   return depth;
 }
 
-export function isAncestorOf(ancestorId: string, descendantId: string, nodes: Node[]): boolean {
-  let current = nodes.find(n => n.id === descendantId);
+export function isAncestorOf(ancestorId: string, descendantId: string, nodes: NodeLookup): boolean {
+  let current = findNode(nodes, descendantId);
   while (current?.parentId) {
     if (current.parentId === ancestorId) return true;
-    current = nodes.find(n => n.id === current!.parentId);
+    current = findNode(nodes, current.parentId);
   }
   return false;
 }
 
-export function getAllDescendants(parentNodeId: string, allNodes: Node[]): Node[] {
+export function getAllDescendants(parentNodeId: string, allNodes: NodeLookup): Node[] {
   const descendants: Node[] = [];
   const queue = [parentNodeId];
   const visited = new Set<string>();
@@ -36,7 +63,9 @@ export function getAllDescendants(parentNodeId: string, allNodes: Node[]): Node[
     if (visited.has(currentId)) continue;
     visited.add(currentId);
 
-    const children = allNodes.filter(n => n.parentId === currentId);
+    const children = Array.isArray(allNodes)
+      ? allNodes.filter(n => n.parentId === currentId)
+      : allNodes.children.get(currentId) ?? [];
     for (const child of children) {
       descendants.push(child);
       queue.push(child.id);
@@ -81,13 +110,13 @@ export function generateUniqueNodeLabel(baseLabel: string, parentId: string | un
   return newLabel;
 }
 
-export function computeNodePath(nodeId: string, nodes: Node[]): string {
-  const node = nodes.find(n => n.id === nodeId);
+export function computeNodePath(nodeId: string, nodes: NodeLookup): string {
+  const node = findNode(nodes, nodeId);
   if (!node) return '';
   const parts: string[] = [node.data.label];
   let current = node;
   while (current.parentId) {
-    const parent = nodes.find(n => n.id === current.parentId);
+    const parent = findNode(nodes, current.parentId);
     if (!parent) break;
     parts.unshift(parent.data.label);
     current = parent;
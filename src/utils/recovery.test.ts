@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isProcessAlive, orphanedRecoveryFiles, RECOVERY_HEARTBEAT_MS } from './recovery';
+
+const NOW = 1_000_000_000;
+const fresh = (name: string) => ({ name, modifiedAt: NOW - RECOVERY_HEARTBEAT_MS });
+
+describe('orphanedRecoveryFiles', () => {
+  it('skips files of this process and of other running instances', () => {
+    const running = new Set([200]);
+    const files = ['100-1.json', '100-2.json', '200-1.json', '300-4.json'].map(fresh);
+    expect(orphanedRecoveryFiles(files, 300, NOW, pid => running.has(pid))).toEqual(['100-1.json', '100-2.json']);
+  });
+
+  it('treats files without a recent heartbeat as left behind even if their pid is in use', () => {
+    const files = [fresh('200-1.json'), { name: '200-2.json', modifiedAt: NOW - 4 * RECOVERY_HEARTBEAT_MS }];
+    expect(orphanedRecoveryFiles(files, 300, NOW, () => true)).toEqual(['200-2.json']);
+  });
+
+  it('ignores files that are not recovery files', () => {
+    const files = ['notes.txt', 'backup.json', '100-1.json.tmp'].map(fresh);
+    expect(orphanedRecoveryFiles(files, 300, NOW, () => false)).toEqual([]);
+  });
+});
+
+describe('isProcessAlive', () => {
+  it('finds the current process', () => {
+    expect(isProcessAlive(process.pid)).toBe(true);
+  });
+
+  it('treats a process that does not exist as dead', () => {
+    // Above the largest pid Linux and macOS hand out
+    expect(isProcessAlive(2 ** 22 + 1)).toBe(false);
+  });
+});
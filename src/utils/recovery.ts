@@ -0,0 +1,43 @@
+// Recovery files are named `<pid>-<window id>.json` after the process that
+// autosaved them. A file whose process has exited was lost in a crash; one
+// from a process that is still running belongs to another open instance.
+// Running instances touch their files every RECOVERY_HEARTBEAT_MS, since
+// after a reboot an unrelated process may have been given the same pid.
+
+export const RECOVERY_HEARTBEAT_MS = 30_000;
+
+// Missed heartbeats before a file counts as left behind
+const STALE_AFTER_MS = 3 * RECOVERY_HEARTBEAT_MS;
+
+export interface RecoveryFileInfo {
+  name: string;
+  modifiedAt: number;
+}
+
+/** Whether a process with this id is running. */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code !== 'ESRCH';
+  }
+}
+
+/** The recovery files left behind by processes that are no longer running. */
+export function orphanedRecoveryFiles(
+  files: RecoveryFileInfo[],
+  ownPid: number,
+  now: number,
+  isAlive: (pid: number) => boolean = isProcessAlive,
+): string[] {
+  return files
+    .filter(f => {
+      const match = /^(\d+)-\d+\.json$/.exec(f.name);
+      if (!match) return false;
+      const pid = Number(match[1]);
+      return pid !== ownPid && (now - f.modifiedAt > STALE_AFTER_MS || !isAlive(pid));
+    })
+    .map(f => f.name);
+}
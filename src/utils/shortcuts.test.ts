@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHORTCUT_COMMANDS,
+  resolveBindings,
+  bindingFromEvent,
+  findConflicts,
+  isReservedBinding,
+  toAccelerator,
+  formatBinding,
+} from './shortcuts';
+
+const key = (key: string, code: string, mods: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+  ({ key, code, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...mods });
+
+describe('resolveBindings', () => {
+  it('uses the defaults for commands the user has not rebound', () => {
+    const bindings = resolveBindings({ addState: 'N', redo: '' });
+    expect(bindings.addState).toBe('N');
+    expect(bindings.redo).toBe('');
+    expect(bindings.undo).toBe('Mod+Z');
+    expect(Object.keys(bindings)).toHaveLength(Object.keys(SHORTCUT_COMMANDS).length);
+  });
+
+  it('has no conflicts between the defaults', () => {
+    expect(findConflicts(resolveBindings()).size).toBe(0);
+  });
+});
+
+describe('bindingFromEvent', () => {
+  it('names letters in upper case with the modifiers first', () => {
+    expect(bindingFromEvent(key('t', 'KeyT'), false)).toBe('T');
+    expect(bindingFromEvent(key('T', 'KeyT', { shiftKey: true }), false)).toBe('Shift+T');
+    expect(bindingFromEvent(key('Z', 'KeyZ', { ctrlKey: true, shiftKey: true }), false)).toBe('Mod+Shift+Z');
+  });
+
+  it('treats Cmd as the main modifier on macOS', () => {
+    expect(bindingFromEvent(key('z', 'KeyZ', { metaKey: true }), true)).toBe('Mod+Z');
+    expect(bindingFromEvent(key('z', 'KeyZ', { ctrlKey: true }), true)).toBe('Ctrl+Z');
+  });
+
+  it('uses the key rather than the character typed with Alt or Shift', () => {
+    expect(bindingFromEvent(key('†', 'KeyT', { altKey: true }), true)).toBe('Alt+T');
+    expect(bindingFromEvent(key('!', 'Digit1', { shiftKey: true }), false)).toBe('Shift+1');
+    expect(bindingFromEvent(key('ArrowUp', 'ArrowUp', { ctrlKey: true }), false)).toBe('Mod+Up');
+  });
+
+  it('waits while only modifiers are held', () => {
+    expect(bindingFromEvent(key('Shift', 'ShiftLeft', { shiftKey: true }), false)).toBeNull();
+  });
+});
+
+describe('findConflicts', () => {
+  it('reports every command sharing a binding', () => {
+    const conflicts = findConflicts(resolveBindings({ addState: 'D', group: 'D' }));
+    expect(conflicts.get('addState')).toEqual(['addDecision', 'group']);
+    expect(conflicts.get('addDecision')).toEqual(['addState', 'group']);
+    expect(conflicts.has('addAnd')).toBe(false);
+  });
+
+  it('ignores unbound commands', () => {
+    expect(findConflicts(resolveBindings({ addState: '', addDecision: '' })).size).toBe(0);
+  });
+});
+
+describe('accelerators and display', () => {
+  it('converts to Electron accelerators', () => {
+    expect(toAccelerator('Mod+Shift+S')).toBe('CmdOrCtrl+Shift+S');
+    expect(toAccelerator('Alt+Up')).toBe('Alt+Up');
+    expect(toAccelerator('')).toBeUndefined();
+  });
+
+  it('formats for the platform', () => {
+    expect(formatBinding('Mod+Shift+Z', false)).toBe('Ctrl+Shift+Z');
+    expect(formatBinding('Mod+Alt+Z', true)).toBe('Cmd+Option+Z');
+  });
+
+  it('reserves the keys with a fixed meaning', () => {
+    expect(isReservedBinding('Escape')).toBe(true);
+    expect(isReservedBinding('Delete')).toBe(true);
+    expect(isReservedBinding('Shift+Escape')).toBe(false);
+  });
+
+  it('reserves the Quit and Close window accelerators', () => {
+    expect(isReservedBinding('Mod+Q')).toBe(true);
+    expect(isReservedBinding('Mod+W')).toBe(true);
+    expect(isReservedBinding('Mod+Shift+Q')).toBe(false);
+  });
+});
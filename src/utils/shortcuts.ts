@@ -0,0 +1,139 @@
+// The commands that have a keyboard shortcut and their default bindings. The
+// user's own bindings are kept in the settings file as overrides of these.
+//
+// A binding is written like an Electron accelerator, modifiers first:
+// "Mod+Shift+Z", "Shift+T", "H". Mod is Cmd on macOS and Ctrl elsewhere, and
+// Ctrl on its own only exists on macOS. An empty binding means unbound.
+
+export type ShortcutCommand =
+  | 'newWindow' | 'open' | 'save' | 'saveAs' | 'exportPhoenix' | 'exportPdf'
+  | 'undo' | 'redo' | 'copy' | 'copyImage' | 'paste' | 'duplicate' | 'duplicateWithEdges' | 'search'
+  | 'addState' | 'addDecision' | 'addAnd' | 'addTransition' | 'retargetTransition' | 'resourceTransition'
+  | 'addProxy' | 'setInitial' | 'addHistory' | 'group' | 'ungroup'
+  | 'zoomToSelected' | 'toggleLabels';
+
+export type ShortcutBindings = Partial<Record<ShortcutCommand, string>>;
+
+export interface ShortcutDefinition {
+  label: string;
+  category: 'File' | 'Edit' | 'Create' | 'View';
+  defaultBinding: string;
+  // Run by its application menu item, whose accelerator the main process
+  // registers, rather than by the canvas
+  menuOnly?: boolean;
+  // Still available while a view plugin is running
+  inViewMode?: boolean;
+}
+
+export const SHORTCUT_COMMANDS: Record<ShortcutCommand, ShortcutDefinition> = {
+  newWindow: { label: 'New window', category: 'File', defaultBinding: 'Mod+N', menuOnly: true },
+  open: { label: 'Open', category: 'File', defaultBinding: 'Mod+O', menuOnly: true },
+  save: { label: 'Save', category: 'File', defaultBinding: 'Mod+S', inViewMode: true },
+  saveAs: { label: 'Save as', category: 'File', defaultBinding: 'Mod+Shift+S', menuOnly: true },
+  exportPhoenix: { label: 'Export to Phoenix', category: 'File', defaultBinding: 'Mod+E', menuOnly: true },
+  exportPdf: { label: 'Export as PDF', category: 'File', defaultBinding: 'Mod+P', inViewMode: true },
+  undo: { label: 'Undo', category: 'Edit', defaultBinding: 'Mod+Z', menuOnly: true },
+  redo: { label: 'Redo', category: 'Edit', defaultBinding: 'Mod+Shift+Z', menuOnly: true },
+  copy: { label: 'Copy', category: 'Edit', defaultBinding: 'Mod+C', inViewMode: true },
+  copyImage: { label: 'Copy as image', category: 'Edit', defaultBinding: 'Mod+Shift+C', inViewMode: true },
+  paste: { label: 'Paste', category: 'Edit', defaultBinding: 'Mod+V', inViewMode: true },
+  duplicate: { label: 'Duplicate', category: 'Edit', defaultBinding: 'Mod+D', menuOnly: true },
+  duplicateWithEdges: { label: 'Duplicate with external transitions', category: 'Edit', defaultBinding: 'Mod+Shift+D', inViewMode: true },
+  search: { label: 'Find and replace', category: 'Edit', defaultBinding: 'Mod+F', inViewMode: true },
+  addState: { label: 'Add state', category: 'Create', defaultBinding: 'S' },
+  addDecision: { label: 'Add decision', category: 'Create', defaultBinding: 'D' },
+  addAnd: { label: 'Add and', category: 'Create', defaultBinding: 'A' },
+  addTransition: { label: 'Add transition (straighten the selected one)', category: 'Create', defaultBinding: 'T' },
+  retargetTransition: { label: 'Change transition target', category: 'Create', defaultBinding: 'Shift+T' },
+  resourceTransition: { label: 'Change transition source', category: 'Create', defaultBinding: 'Shift+S' },
+  addProxy: { label: 'Add proxy', category: 'Create', defaultBinding: 'P' },
+  setInitial: { label: 'Set initial state', category: 'Create', defaultBinding: 'I' },
+  addHistory: { label: 'Add history', category: 'Create', defaultBinding: 'H' },
+  group: { label: 'Group selected states', category: 'Create', defaultBinding: 'G' },
+  ungroup: { label: 'Ungroup', category: 'Create', defaultBinding: 'Shift+G' },
+  zoomToSelected: { label: 'Zoom to selected', category: 'View', defaultBinding: 'Z', inViewMode: true },
+  toggleLabels: { label: 'Show or hide transition labels', category: 'View', defaultBinding: 'V', inViewMode: true },
+};
+
+// Keys with a fixed meaning on the canvas (cancel, delete) or taken by the
+// Quit and Close window menu roles, which can't be bound
+const RESERVED_BINDINGS = new Set(['Escape', 'Delete', 'Backspace', 'Enter', 'Tab', 'Mod+Q', 'Mod+W']);
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+// Keys whose accelerator name differs from KeyboardEvent.key
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  '+': 'Plus',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+};
+
+/** The user's bindings over the defaults, ignoring unknown commands. */
+export function resolveBindings(overrides: ShortcutBindings = {}): Record<ShortcutCommand, string> {
+  const result = {} as Record<ShortcutCommand, string>;
+  for (const [command, def] of Object.entries(SHORTCUT_COMMANDS) as [ShortcutCommand, ShortcutDefinition][]) {
+    const override = overrides[command];
+    result[command] = typeof override === 'string' ? override : def.defaultBinding;
+  }
+  return result;
+}
+
+/** The binding a key press stands for, or null while only modifiers are held. */
+export function bindingFromEvent(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>,
+  isMac: boolean,
+): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  let key: string;
+  if (/^[a-z0-9]$/i.test(event.key)) {
+    key = event.key.toUpperCase();
+  } else {
+    // Alt (Option on macOS) and Shift change the character; use the key's name
+    const physical = /^(?:Key|Digit)([A-Z0-9])$/.exec(event.code);
+    key = physical ? physical[1] : (KEY_NAMES[event.key] ?? event.key);
+  }
+  const parts: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push('Mod');
+  if (isMac && event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  return [...parts, key].join('+');
+}
+
+export function isReservedBinding(binding: string): boolean {
+  return RESERVED_BINDINGS.has(binding);
+}
+
+/** Commands that share their binding with another command. */
+export function findConflicts(bindings: Record<ShortcutCommand, string>): Map<ShortcutCommand, ShortcutCommand[]> {
+  const byBinding = new Map<string, ShortcutCommand[]>();
+  for (const [command, binding] of Object.entries(bindings) as [ShortcutCommand, string][]) {
+    if (!binding) continue;
+    byBinding.set(binding, [...(byBinding.get(binding) ?? []), command]);
+  }
+  const conflicts = new Map<ShortcutCommand, ShortcutCommand[]>();
+  for (const commands of byBinding.values()) {
+    if (commands.length < 2) continue;
+    for (const command of commands) conflicts.set(command, commands.filter(c => c !== command));
+  }
+  return conflicts;
+}
+
+/** Electron accelerator for a binding, e.g. "CmdOrCtrl+Shift+Z". */
+export function toAccelerator(binding: string): string | undefined {
+  if (!binding) return undefined;
+  return binding.split('+').map(part => (part === 'Mod' ? 'CmdOrCtrl' : part)).join('+');
+}
+
+/** A binding as shown to the user: "Ctrl+Shift+Z", or "Cmd+Shift+Z" on macOS. */
+export function formatBinding(binding: string, isMac: boolean): string {
+  if (!binding) return '';
+  return binding.split('+').map(part => {
+    if (part === 'Mod') return isMac ? 'Cmd' : 'Ctrl';
+    if (part === 'Alt' && isMac) return 'Option';
+    return part;
+  }).join('+');
+}
@@ -0,0 +1,395 @@
+import { Position } from 'reactflow';
+
+// Coordinate system transformation utilities
+// Local coords: (0,0) = source, (1,0) = target
+// y-axis is perpendicular to the source-target line
+
+export interface ControlPoint {
+  x: number; // 0 = source, 1 = target (along the edge)
+  y: number; // perpendicular offset (positive = left of direction)
+}
+
+// Transform from local (normalized) coordinates to absolute canvas coordinates
+export function localToAbsolute(
+  point: ControlPoint,
+  sourceX: number,
+  sourceY: number,
+  targetX: number,
+  targetY: number
+): { x: number; y: number } {
+  const dx = targetX - sourceX;
+  const dy = targetY - sourceY;
+
+  return {
+    x: sourceX + point.x * dx - point.y * dy,
+    y: sourceY + point.x * dy + point.y * dx,
+  };
+}
+
+// Transform from absolute canvas coordinates to local (normalized) coordinates
+export function absoluteToLocal(
+  absX: number,
+  absY: number,
+  sourceX: number,
+  sourceY: number,
+  targetX: number,
+  targetY: number
+): ControlPoint {
+  const dx = targetX - sourceX;
+  const dy = targetY - sourceY;
+  const lengthSq = dx * dx + dy * dy;
+
+  if (lengthSq === 0) {
+    return { x: 0, y: 0 };
+  }
+
+  const relX = absX - sourceX;
+  const relY = absY - sourceY;
+
+  return {
+    x: (relX * dx + relY * dy) / lengthSq,
+    y: (-relX * dy + relY * dx) / lengthSq,
+  };
+}
+
+// Get direction vector for a handle position (orthogonal to node edge)
+export function getPositionDirection(position: Position): { x: number; y: number } {
+  switch (position) {
+    case Position.Top:
+      return { x: 0, y: -1 };
+    case Position.Bottom:
+      return { x: 0, y: 1 };
+    case Position.Left:
+      return { x: -1, y: 0 };
+    case Position.Right:
+      return { x: 1, y: 0 };
+    default:
+      return { x: 0, y: 1 };
+  }
+}
+
+export interface Point { x: number; y: number }
+
+export interface BezierSegment {
+  p0: Point; p1: Point; p2: Point; p3: Point;
+}
+
+export interface PathResult {
+  path: string;
+  // Full control points of the last cubic bezier segment (for exact truncation)
+  lastSegment: { p0: Point; p1: Point; p2: Point; p3: Point };
+  // All bezier segments for evaluating points along the path
+  segments: BezierSegment[];
+}
+
+// De Casteljau split: returns both sub-curves when splitting at parameter t
+// First sub-curve: q0,q1,q2,q3 (start → split point)
+// Second sub-curve: r0,r1,r2,r3 (split point → end)
+function splitBezierAt(p0: Point, p1: Point, p2: Point, p3: Point, t: number) {
+  const a = { x: p0.x + (p1.x - p0.x) * t, y: p0.y + (p1.y - p0.y) * t };
+  const b = { x: p1.x + (p2.x - p1.x) * t, y: p1.y + (p2.y - p1.y) * t };
+  const c = { x: p2.x + (p3.x - p2.x) * t, y: p2.y + (p3.y - p2.y) * t };
+  const d = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  const e = { x: b.x + (c.x - b.x) * t, y: b.y + (c.y - b.y) * t };
+  const f = { x: d.x + (e.x - d.x) * t, y: d.y + (e.y - d.y) * t };
+  return {
+    q0: p0, q1: a, q2: d, q3: f,   // first sub-curve
+    r0: f, r1: e, r2: c, r3: p3,    // second sub-curve
+  };
+}
+
+// Find t parameter such that the arc length from t to 1 equals the given distance.
+// Uses binary search on arc length for robustness (unlike speed-based linear approximation).
+function findTForDistanceFromEnd(p0: Point, p1: Point, p2: Point, p3: Point, distance: number): number {
+  const totalLength = approxBezierLength(p0, p1, p2, p3);
+  if (distance >= totalLength) return 0;
+  if (distance <= 0) return 1;
+
+  const targetFromStart = totalLength - distance;
+  let lo = 0, hi = 1;
+  for (let iter = 0; iter < 20; iter++) {
+    const mid = (lo + hi) / 2;
+    const split = splitBezierAt(p0, p1, p2, p3, mid);
+    const lengthToMid = approxBezierLength(split.q0, split.q1, split.q2, split.q3);
+    if (lengthToMid < targetFromStart) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+// Split a multi-segment bezier path at a given distance from the end.
+// Returns the portion before the split and after the split as separate segment arrays.
+export function splitMultiSegFromEnd(segments: BezierSegment[], distance: number): {
+  before: BezierSegment[];
+  after: BezierSegment[];
+} {
+  if (segments.length === 0) return { before: [], after: [] };
+
+  let remaining = distance;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const seg = segments[i];
+    const segLen = approxBezierLength(seg.p0, seg.p1, seg.p2, seg.p3);
+    if (remaining <= segLen) {
+      const t = findTForDistanceFromEnd(seg.p0, seg.p1, seg.p2, seg.p3, remaining);
+      const split = splitBezierAt(seg.p0, seg.p1, seg.p2, seg.p3, t);
+      return {
+        before: [
+          ...segments.slice(0, i),
+          { p0: split.q0, p1: split.q1, p2: split.q2, p3: split.q3 },
+        ],
+        after: [
+          { p0: split.r0, p1: split.r1, p2: split.r2, p3: split.r3 },
+          ...segments.slice(i + 1),
+        ],
+      };
+    }
+    remaining -= segLen;
+  }
+  // Distance exceeds total path length
+  return { before: [], after: [...segments] };
+}
+
+// Rotate a point around a center by angle (radians)
+export function rotatePoint(pt: Point, center: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = pt.x - center.x;
+  const dy = pt.y - center.y;
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+}
+
+// Generate a self-loop path from source handle to target handle on the same node
+export function generateSelfLoopPath(
+  sourceX: number,
+  sourceY: number,
+  targetX: number,
+  targetY: number,
+  sourcePosition: Position,
+  targetPosition: Position,
+  loopSize = 50
+): PathResult {
+  const sourceDir = getPositionDirection(sourcePosition);
+  const targetDir = getPositionDirection(targetPosition);
+
+  // Perpendicular vector to spread control points for a visible bow
+  const sourcePerpX = -sourceDir.y;
+  const sourcePerpY = sourceDir.x;
+  const targetPerpX = -targetDir.y;
+  const targetPerpY = targetDir.x;
+
+  // Control points extend outward AND spread perpendicular to form a loop
+  const spread = loopSize * 0.6;
+  const cp1x = sourceX + sourceDir.x * loopSize + sourcePerpX * spread;
+  const cp1y = sourceY + sourceDir.y * loopSize + sourcePerpY * spread;
+  const cp2x = targetX + targetDir.x * loopSize - targetPerpX * spread;
+  const cp2y = targetY + targetDir.y * loopSize - targetPerpY * spread;
+
+  const seg = {
+    p0: { x: sourceX, y: sourceY },
+    p1: { x: cp1x, y: cp1y },
+    p2: { x: cp2x, y: cp2y },
+    p3: { x: targetX, y: targetY },
+  };
+  return {
+    path: `M ${sourceX} ${sourceY} C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${targetX} ${targetY}`,
+    lastSegment: seg,
+    segments: [seg],
+  };
+}
+
+// Evaluate a point on a cubic bezier curve at parameter t
+function evalBezier(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+}
+
+// Approximate the length of a cubic bezier segment by sampling
+export function approxBezierLength(p0: Point, p1: Point, p2: Point, p3: Point, steps = 20): number {
+  let length = 0;
+  let prev = p0;
+  for (let i = 1; i <= steps; i++) {
+    const pt = evalBezier(p0, p1, p2, p3, i / steps);
+    length += Math.hypot(pt.x - prev.x, pt.y - prev.y);
+    prev = pt;
+  }
+  return length;
+}
+
+// Evaluate a point at fractional distance t along a multi-segment bezier path
+export function evalPointOnPath(segments: BezierSegment[], t: number): Point {
+  if (segments.length === 0) return { x: 0, y: 0 };
+  if (segments.length === 1) return evalBezier(segments[0].p0, segments[0].p1, segments[0].p2, segments[0].p3, t);
+
+  // Compute lengths of each segment
+  const lengths = segments.map(s => approxBezierLength(s.p0, s.p1, s.p2, s.p3));
+  const totalLength = lengths.reduce((a, b) => a + b, 0);
+  if (totalLength === 0) return segments[0].p0;
+
+  const targetDist = t * totalLength;
+  let accumulated = 0;
+  for (let i = 0; i < segments.length; i++) {
+    if (accumulated + lengths[i] >= targetDist || i === segments.length - 1) {
+      const localT = lengths[i] > 0 ? (targetDist - accumulated) / lengths[i] : 0;
+      const s = segments[i];
+      return evalBezier(s.p0, s.p1, s.p2, s.p3, Math.max(0, Math.min(1, localT)));
+    }
+    accumulated += lengths[i];
+  }
+  const last = segments[segments.length - 1];
+  return last.p3;
+}
+
+// Find the t value (0-1) on the path closest to a given point
+export function closestTOnPath(segments: BezierSegment[], px: number, py: number, samples = 100): number {
+  if (segments.length === 0) return 0;
+  let bestT = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const pt = evalPointOnPath(segments, t);
+    const dist = (pt.x - px) * (pt.x - px) + (pt.y - py) * (pt.y - py);
+    if (dist < bestDist) {
+      bestDist = dist;
+      bestT = t;
+    }
+  }
+  return bestT;
+}
+
+// Generate a Catmull-Rom spline path that passes THROUGH all control points
+// with orthogonal exit/entry at source/target
+export function generateSplinePath(
+  sourceX: number,
+  sourceY: number,
+  targetX: number,
+  targetY: number,
+  controlPoints: ControlPoint[],
+  sourcePosition: Position,
+  targetPosition: Position,
+  sourceIsAncestor = false,
+  targetIsAncestor = false
+): PathResult {
+  const absPoints = controlPoints.map(cp =>
+    localToAbsolute(cp, sourceX, sourceY, targetX, targetY)
+  );
+
+  // Calculate tangent offset distance based on edge length
+  const edgeLength = Math.hypot(targetX - sourceX, targetY - sourceY);
+  const tangentOffset = Math.min(50, edgeLength * 0.25);
+
+  // Get orthogonal directions
+  const sourceDir = getPositionDirection(sourcePosition);
+  const targetDir = getPositionDirection(targetPosition);
+
+  // For ancestor endpoints, INVERT the direction (curve goes inward)
+  // For descendant/normal endpoints, use normal direction (curve goes outward)
+  const effectiveSourceDir = sourceIsAncestor
+    ? { x: -sourceDir.x, y: -sourceDir.y }
+    : sourceDir;
+  const effectiveTargetDir = targetIsAncestor
+    ? { x: -targetDir.x, y: -targetDir.y }
+    : targetDir;
+
+  const phantomSource = {
+    x: sourceX - effectiveSourceDir.x * tangentOffset,
+    y: sourceY - effectiveSourceDir.y * tangentOffset,
+  };
+  const phantomTarget = {
+    x: targetX - effectiveTargetDir.x * tangentOffset,
+    y: targetY - effectiveTargetDir.y * tangentOffset,
+  };
+  const cp1Dir = effectiveSourceDir;
+  const cp2Dir = effectiveTargetDir;
+
+  const allPoints = [
+    { x: sourceX, y: sourceY },
+    ...absPoints,
+    { x: targetX, y: targetY },
+  ];
+
+  if (allPoints.length === 2) {
+    // No control points - use cubic bezier with tangents
+    const cp1x = sourceX + cp1Dir.x * tangentOffset;
+    const cp1y = sourceY + cp1Dir.y * tangentOffset;
+    const cp2x = targetX + cp2Dir.x * tangentOffset;
+    const cp2y = targetY + cp2Dir.y * tangentOffset;
+    const seg = {
+      p0: { x: sourceX, y: sourceY },
+      p1: { x: cp1x, y: cp1y },
+      p2: { x: cp2x, y: cp2y },
+      p3: { x: targetX, y: targetY },
+    };
+    return {
+      path: `M ${sourceX} ${sourceY} C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${targetX} ${targetY}`,
+      lastSegment: seg,
+      segments: [seg],
+    };
+  }
+
+  // Catmull-Rom spline with phantom points for tangents
+  let path = `M ${allPoints[0].x} ${allPoints[0].y}`;
+  const allSegments: BezierSegment[] = [];
+  let lastSegP0 = allPoints[0];
+  let lastSegCP1 = { x: 0, y: 0 };
+  let lastSegCP2 = { x: 0, y: 0 };
+  let lastSegEnd = allPoints[0];
+
+  for (let i = 0; i < allPoints.length - 1; i++) {
+    let p0, p3;
+    const p1 = allPoints[i];
+    const p2 = allPoints[i + 1];
+
+    if (i === 0) {
+      p0 = phantomSource;
+    } else {
+      p0 = allPoints[i - 1];
+    }
+
+    if (i === allPoints.length - 2) {
+      p3 = phantomTarget;
+    } else {
+      p3 = allPoints[i + 2];
+    }
+
+    const tension = 1 / 6;
+
+    let cp1x = p1.x + (p2.x - p0.x) * tension;
+    let cp1y = p1.y + (p2.y - p0.y) * tension;
+    let cp2x = p2.x - (p3.x - p1.x) * tension;
+    let cp2y = p2.y - (p3.y - p1.y) * tension;
+
+    // Force endpoint tangents to be normal to node surface (same as no-control-point case)
+    if (i === 0) {
+      cp1x = sourceX + cp1Dir.x * tangentOffset;
+      cp1y = sourceY + cp1Dir.y * tangentOffset;
+    }
+    if (i === allPoints.length - 2) {
+      cp2x = targetX + cp2Dir.x * tangentOffset;
+      cp2y = targetY + cp2Dir.y * tangentOffset;
+    }
+
+    lastSegP0 = p1;
+    lastSegCP1 = { x: cp1x, y: cp1y };
+    lastSegCP2 = { x: cp2x, y: cp2y };
+    lastSegEnd = p2;
+
+    allSegments.push({ p0: p1, p1: { x: cp1x, y: cp1y }, p2: { x: cp2x, y: cp2y }, p3: p2 });
+
+    path += ` C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${p2.x} ${p2.y}`;
+  }
+
+  return {
+    path,
+    lastSegment: { p0: lastSegP0, p1: lastSegCP1, p2: lastSegCP2, p3: lastSegEnd },
+    segments: allSegments,
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { convertFromYaml, convertToYaml } from '../yamlConverter';
+import {
+  resolveSubmachinePath,
+  relativeSubmachinePath,
+  submachinePreview,
+  inlineSubmachines,
+  loadSubmachineFiles,
+} from './submachine';
+
+const RETRY = `SM-builder-version: 0.6.0
+initial: Trying
+context: |
+  attempts: int
+states:
+  Trying:
+    transitions:
+      - to: Waiting
+        guard: ctx.failed
+  Waiting:
+    transitions:
+      - to: Trying
+        after: 1s
+`;
+
+const MAIN = `SM-builder-version: 0.6.0
+initial: Idle
+states:
+  Idle:
+    transitions:
+      - to: Connect
+        guard: ctx.go
+  Connect:
+    submachine: lib/retry.smb
+    transitions:
+      - to: Idle
+        guard: ctx.done
+`;
+
+const files: Record<string, string> = {
+  '/work/lib/retry.smb': RETRY,
+  '/work/main.smb': MAIN,
+};
+const read = (filePath: string) => files[filePath] ?? null;
+
+describe('submachine paths', () => {
+  it('resolves references relative to the referencing file', () => {
+    expect(resolveSubmachinePath('/work/main.smb', 'lib/retry.smb')).toBe('/work/lib/retry.smb');
+    expect(resolveSubmachinePath('/work/lib/retry.smb', '../main.smb')).toBe('/work/main.smb');
+    expect(resolveSubmachinePath('C:\\work\\main.smb', 'lib\\retry.smb')).toBe('C:/work/lib/retry.smb');
+    expect(resolveSubmachinePath(null, 'retry.smb')).toBe('retry.smb');
+  });
+
+  it('writes references relative to the referencing file', () => {
+    expect(relativeSubmachinePath('/work/main.smb', '/work/lib/retry.smb')).toBe('lib/retry.smb');
+    expect(relativeSubmachinePath('/work/app/main.smb', '/work/lib/retry.smb')).toBe('../lib/retry.smb');
+    expect(relativeSubmachinePath('C:/work/main.smb', 'D:/lib/retry.smb')).toBe('D:/lib/retry.smb');
+  });
+});
+
+describe('submachinePreview', () => {
+  it('lists the top-level states and marks the initial one', () => {
+    const preview = submachinePreview('lib/retry.smb', RETRY);
+    expect(preview.fileName).toBe('retry.smb');
+    expect(preview.states.map(s => [s.label, s.initial])).toEqual([['Trying', true], ['Waiting', false]]);
+    expect(submachinePreview('gone.smb', null).error).toBe('File not found');
+  });
+});
+
+describe('inlineSubmachines', () => {
+  it('copies the referenced states in as children and keeps transitions working', () => {
+    const model = convertFromYaml(MAIN);
+    const { nodes, edges, machineProperties, warnings } = inlineSubmachines(
+      model.nodes, model.edges, model.machineProperties, '/work/main.smb', read);
+    expect(warnings).toEqual(['Machine context code of submachine "lib/retry.smb" was not inlined']);
+    const yaml = convertToYaml(nodes, edges, false, false, machineProperties);
+    expect(yaml).not.toContain('submachine');
+    const out = convertFromYaml(yaml);
+    const connect = out.nodes.find(n => n.data.label === 'Connect');
+    const trying = out.nodes.find(n => n.data.label === 'Trying');
+    expect(trying?.parentId).toBe(connect?.id);
+    expect(connect?.data.initial).toBe(trying?.id);
+    expect(out.edges.map(e => e.data?.after || e.data?.guard)).toEqual(['ctx.go', 'ctx.done', 'ctx.failed', '1s']);
+  });
+
+  it('keeps references it cannot follow', () => {
+    const model = convertFromYaml(MAIN.replace('lib/retry.smb', 'main.smb'));
+    const { nodes, warnings } = inlineSubmachines(model.nodes, model.edges, model.machineProperties, '/work/main.smb', read);
+    expect(nodes.find(n => n.data.label === 'Connect')?.data.submachine).toBe('main.smb');
+    expect(warnings[0]).toContain('refers back to a file that contains it');
+
+    const missing = convertFromYaml(MAIN.replace('lib/retry.smb', 'nope.smb'));
+    expect(inlineSubmachines(missing.nodes, missing.edges, missing.machineProperties, '/work/main.smb', read).warnings)
+      .toEqual(['Submachine "nope.smb" of state "Connect" could not be read and was kept as a reference']);
+  });
+
+  it('loads nested references ahead of time', async () => {
+    const nested: Record<string, string> = { ...files, '/work/lib/retry.smb': RETRY.replace('  Waiting:\n', '  Waiting:\n    submachine: backoff.smb\n') };
+    const loaded = await loadSubmachineFiles(convertFromYaml(MAIN).nodes, '/work/main.smb', async p => nested[p] ?? null);
+    expect([...loaded.keys()]).toEqual(['/work/lib/retry.smb', '/work/lib/backoff.smb']);
+    expect(loaded.get('/work/lib/backoff.smb')).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+import { Node, Edge } from 'reactflow';
+import { convertFromYaml, MachineProperties } from '../yamlConverter';
+import { autoLayout } from './autoLayout';
+
+// Submachine states stand for the machine in another .smb file, referenced by
+// a path relative to the referencing file. The editor shows the referenced
+// top-level states read-only inside the state; inlining copies them in as
+// children so the result no longer depends on the other file.
+//
+// Paths are handled as strings so the same code runs in the renderer, the
+// main process and the CLI. Both separators are accepted; results use `/`.
+
+const isAbsolute = (p: string) => /^([\\/]|[A-Za-z]:[\\/])/.test(p);
+
+function normalize(p: string): string {
+  const absolute = isAbsolute(p);
+  const parts: string[] = [];
+  for (const part of p.split(/[\\/]+/)) {
+    if (part === '' || part === '.') continue;
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') parts.pop();
+    else parts.push(part);
+  }
+  const joined = parts.join('/');
+  return absolute && !/^[A-Za-z]:$/.test(parts[0] ?? '') ? `/${joined}` : joined;
+}
+
+function dirname(p: string): string {
+  const i = Math.max(p.lastIndexOf('/'), p.lastIndexOf('\\'));
+  return i === -1 ? '.' : p.slice(0, i) || '/';
+}
+
+/** The file a reference points to. Without a referencing file (unsaved), the reference is used as is. */
+export function resolveSubmachinePath(fromFile: string | null, ref: string): string {
+  if (isAbsolute(ref) || !fromFile) return normalize(ref);
+  return normalize(`${dirname(fromFile)}/${ref}`);
+}
+
+/** How `fromFile` refers to `target`: relative when both are on the same root, otherwise absolute. */
+export function relativeSubmachinePath(fromFile: string | null, target: string): string {
+  const to = normalize(target);
+  if (!fromFile) return to;
+  const from = normalize(dirname(fromFile)).split('/');
+  const parts = to.split('/');
+  if (from[0] !== parts[0]) return to;
+  let common = 0;
+  while (common < from.length && common < parts.length - 1 && from[common] === parts[common]) common++;
+  return [...from.slice(common).map(() => '..'), ...parts.slice(common)].join('/');
+}
+
+export function submachineRef(node: Node): string | undefined {
+  return node.type === 'stateNode' ? (node.data.submachine as string | undefined)?.trim() || undefined : undefined;
+}
+
+/** What a submachine state shows of the referenced machine. */
+export interface SubmachinePreview {
+  fileName: string;
+  /** Top-level states, with bounds as fractions of the machine's bounding box. */
+  states: { label: string; x: number; y: number; width: number; height: number; initial: boolean }[];
+  error?: string;
+}
+
+export function submachinePreview(ref: string, content: string | null): SubmachinePreview {
+  const fileName = ref.replace(/^.*[\\/]/, '');
+  if (content === null) return { fileName, states: [], error: 'File not found' };
+  let model;
+  try {
+    model = convertFromYaml(content);
+  } catch (error) {
+    return { fileName, states: [], error: (error as Error).message };
+  }
+  const top = model.nodes.filter(n => n.type === 'stateNode' && !n.parentId);
+  const sizeOf = (n: Node) => ({ width: (n.style?.width as number) || 150, height: (n.style?.height as number) || 50 });
+  const minX = Math.min(...top.map(n => n.position.x));
+  const minY = Math.min(...top.map(n => n.position.y));
+  const maxX = Math.max(...top.map(n => n.position.x + sizeOf(n).width));
+  const maxY = Math.max(...top.map(n => n.position.y + sizeOf(n).height));
+  const w = Math.max(maxX - minX, 1);
+  const h = Math.max(maxY - minY, 1);
+  return {
+    fileName,
+    states: top.map(n => ({
+      label: n.data.label as string,
+      x: (n.position.x - minX) / w,
+      y: (n.position.y - minY) / h,
+      width: sizeOf(n).width / w,
+      height: sizeOf(n).height / h,
+      initial: n.id === model.machineProperties.initial,
+    })),
+  };
+}
+
+/**
+ * Read every file the submachine states refer to, nested references
+ * included, for use with `inlineSubmachines` where reading is asynchronous.
+ * Files that cannot be read map to null.
+ */
+export async function loadSubmachineFiles(
+  nodes: Node[],
+  filePath: string | null,
+  read: (filePath: string) => Promise<string | null>,
+): Promise<Map<string, string | null>> {
+  const files = new Map<string, string | null>();
+  const queue: { nodes: Node[]; file: string | null }[] = [{ nodes, file: filePath }];
+  for (let item = queue.shift(); item; item = queue.shift()) {
+    for (const node of item.nodes) {
+      const ref = submachineRef(node);
+      if (!ref) continue;
+      const target = resolveSubmachinePath(item.file, ref);
+      if (files.has(target)) continue;
+      const content = await read(target);
+      files.set(target, content);
+      if (content === null) continue;
+      try {
+        queue.push({ nodes: convertFromYaml(content).nodes, file: target });
+      } catch {
+        // Reported when inlining
+      }
+    }
+  }
+  return files;
+}
+
+export interface InlineResult {
+  nodes: Node[];
+  edges: Edge[];
+  machineProperties: MachineProperties;
+  warnings: string[];
+}
+
+const MACHINE_CODE_FIELDS = ['includes', 'context', 'context_init', 'entry', 'exit', 'do'] as const;
+
+/**
+ * Replace every submachine reference by a copy of the referenced machine's
+ * states, nested references included. `readFile` returns the content of a
+ * resolved path, or null when it cannot be read; such references are kept
+ * and reported. Machine-level code of the referenced files is not copied.
+ */
+export function inlineSubmachines(
+  nodes: Node[],
+  edges: Edge[],
+  machineProperties: MachineProperties,
+  filePath: string | null,
+  readFile: (filePath: string) => string | null,
+): InlineResult {
+  const warnings: string[] = [];
+  // Outermost inlined states; laying them out also lays out what is nested inside
+  const inlined: string[] = [];
+
+  const expand = (model: { nodes: Node[]; edges: Edge[] }, file: string | null, stack: string[], outermost: boolean) => {
+    const outNodes: Node[] = [];
+    const outEdges: Edge[] = [...model.edges];
+    for (const node of model.nodes) {
+      const ref = submachineRef(node);
+      if (!ref) {
+        outNodes.push(node);
+        continue;
+      }
+      const target = resolveSubmachinePath(file, ref);
+      const label = node.data.label as string;
+      const keep = (reason: string) => {
+        warnings.push(`Submachine "${ref}" of state "${label}" ${reason} and was kept as a reference`);
+        outNodes.push(node);
+      };
+      if (stack.includes(target)) {
+        keep('refers back to a file that contains it');
+        continue;
+      }
+      const content = readFile(target);
+      if (content === null) {
+        keep('could not be read');
+        continue;
+      }
+      let sub;
+      try {
+        sub = convertFromYaml(content);
+      } catch (error) {
+        keep(`could not be parsed (${(error as Error).message})`);
+        continue;
+      }
+
+      for (const field of MACHINE_CODE_FIELDS) {
+        if (sub.machineProperties[field]?.trim()) warnings.push(`Machine ${field} code of submachine "${ref}" was not inlined`);
+      }
+      if (Object.values(sub.machineProperties.hooks).some(code => code?.trim())) {
+        warnings.push(`Hooks of submachine "${ref}" were not inlined`);
+      }
+      const inner = expand(sub, target, [...stack, target], false);
+
+      // Ids are prefixed with the submachine state's id, so the same file can be used twice
+      const mapId = (id: string) => `${node.id}/${id}`;
+      outNodes.push({
+        ...node,
+        data: {
+          ...node.data,
+          submachine: undefined,
+          initial: sub.machineProperties.initial ? mapId(sub.machineProperties.initial) : undefined,
+          initialMarkerPos: undefined,
+          history: node.data.history || sub.rootHistory,
+        },
+      });
+      for (const n of inner.nodes) {
+        const data = { ...n.data };
+        if (data.initial) data.initial = mapId(data.initial);
+        if (n.type === 'proxyNode' && data.targetId) data.targetId = mapId(data.targetId);
+        outNodes.push({ ...n, id: mapId(n.id), parentId: n.parentId ? mapId(n.parentId) : node.id, data });
+      }
+      for (const e of inner.edges) {
+        outEdges.push({ ...e, id: mapId(e.id), source: mapId(e.source), target: mapId(e.target) });
+      }
+      if (outermost) inlined.push(node.id);
+    }
+    return { nodes: outNodes, edges: outEdges };
+  };
+
+  const base = filePath ? resolveSubmachinePath(null, filePath) : null;
+  const expanded = expand({ nodes, edges }, filePath, base ? [base] : [], true);
+
+  // Give each inlined state room for its new children
+  let result = { nodes: expanded.nodes, edges: expanded.edges, machineProperties };
+  for (const id of inlined) result = autoLayout(result.nodes, result.edges, result.machineProperties, id);
+  return { ...result, warnings };
+}
@@ -4,6 +4,7 @@ import { rust } from '@codemirror/lang-rust';
 import { javascript } from '@codemirror/lang-javascript';
 import { Node, Edge } from 'reactflow';
 import { MachineProperties } from '../yamlConverter';
+import { NodeIndex, buildNodeIndex } from './nodeUtils';
 
 // Lazy-cached parsers — created once on first use
 type LezerParser = ReturnType<typeof python>['language']['parser'];
@@ -38,14 +39,14 @@ function hasSyntaxErrors(code: string, language: string): boolean {
   return found;
 }
 
-function nodeAbsPath(nodeId: string, nodes: Node[]): string {
-  const node = nodes.find(n => n.id === nodeId);
+function nodeAbsPath(nodeId: string, index: NodeIndex): string {
+  const node = index.byId.get(nodeId);
   if (!node) return nodeId;
   const d = node.data as Record<string, unknown>;
   const parts: string[] = [(d.label as string) || nodeId];
   let cur = node;
   while (cur.parentId) {
-    const parent = nodes.find(n => n.id === cur.parentId);
+    const parent = index.byId.get(cur.parentId);
     if (!parent || parent.id === '/') break;
     const pd = parent.data as Record<string, unknown>;
     parts.unshift((pd.label as string) || parent.id);
@@ -54,49 +55,55 @@ function nodeAbsPath(nodeId: string, nodes: Node[]): string {
   return parts.join('/');
 }
 
+/** A code field with a syntax error, and the node or edge that owns it. */
+export interface SyntaxErrorLocation {
+  owner: string;   // "State 'Root/Idle'", "Transition 'Idle → Running'" or "Machine"
+  field: string;   // "entry", "guard", "hooks.entry", ...
+  nodeId?: string;
+  edgeId?: string;
+}
+
 /**
- * Returns a list of human-readable descriptions for every code field that
- * contains at least one syntax error, e.g.:
- *   "State 'Root/Idle': entry"
- *   "Transition 'Idle → Running': guard"
- *   "Machine: hooks.entry"
+ * Returns the location of every code field that contains at least one
+ * syntax error.
  */
-export function findSyntaxErrors(
+export function findSyntaxErrorLocations(
   nodes: Node[],
   edges: Edge[],
   machineProperties: MachineProperties,
-): string[] {
+): SyntaxErrorLocation[] {
   const lang = machineProperties.language;
   if (!lang) return [];
 
-  const errors: string[] = [];
+  const errors: SyntaxErrorLocation[] = [];
+  const index = buildNodeIndex(nodes);
 
   // State nodes (skip root, decisions, proxies)
   for (const node of nodes) {
     if (node.id === '/') continue;
     if (node.type && node.type !== 'stateNode') continue;
     const d = node.data as Record<string, unknown>;
-    const label = `State '${nodeAbsPath(node.id, nodes)}'`;
+    const label = `State '${nodeAbsPath(node.id, index)}'`;
     for (const field of ['entry', 'exit', 'do'] as const) {
       if (hasSyntaxErrors((d[field] as string) || '', lang)) {
-        errors.push(`${label}: ${field}`);
+        errors.push({ owner: label, field, nodeId: node.id });
       }
     }
   }
 
   // Edges
   for (const edge of edges) {
-    const srcPath = nodeAbsPath(edge.source, nodes);
-    const tgtNode = nodes.find(n => n.id === edge.target);
+    const srcPath = nodeAbsPath(edge.source, index);
+    const tgtNode = index.byId.get(edge.target);
     const tgtPath = tgtNode?.type === 'proxyNode'
       ? ((tgtNode.data as Record<string, unknown>).targetPath as string) || edge.target
-      : nodeAbsPath(edge.target, nodes);
+      : nodeAbsPath(edge.target, index);
     const label = `Transition '${srcPath} → ${tgtPath}'`;
     if (hasSyntaxErrors((edge.data?.guard as string) || '', lang)) {
-      errors.push(`${label}: guard`);
+      errors.push({ owner: label, field: 'guard', edgeId: edge.id });
     }
     if (hasSyntaxErrors((edge.data?.action as string) || '', lang)) {
-      errors.push(`${label}: action`);
+      errors.push({ owner: label, field: 'action', edgeId: edge.id });
     }
   }
 
@@ -115,9 +122,24 @@ export function findSyntaxErrors(
   ];
   for (const [fieldName, value] of machineFields) {
     if (hasSyntaxErrors(value, lang)) {
-      errors.push(`Machine: ${fieldName}`);
+      errors.push({ owner: 'Machine', field: fieldName });
     }
   }
 
   return errors;
 }
+
+/**
+ * Returns a list of human-readable descriptions for every code field that
+ * contains at least one syntax error, e.g.:
+ *   "State 'Root/Idle': entry"
+ *   "Transition 'Idle → Running': guard"
+ *   "Machine: hooks.entry"
+ */
+export function findSyntaxErrors(
+  nodes: Node[],
+  edges: Edge[],
+  machineProperties: MachineProperties,
+): string[] {
+  return findSyntaxErrorLocations(nodes, edges, machineProperties).map(l => `${l.owner}: ${l.field}`);
+}
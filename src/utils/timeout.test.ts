@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelay, formatDelay } from './timeout';
+
+describe('parseDelay', () => {
+  it('reads seconds, milliseconds and bare numbers', () => {
+    expect(parseDelay('0.3s')).toBe(0.3);
+    expect(parseDelay('300ms')).toBe(0.3);
+    expect(parseDelay(' 2 ')).toBe(2);
+    expect(parseDelay(1.5)).toBe(1.5);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDelay('')).toBeNull();
+    expect(parseDelay(undefined)).toBeNull();
+    expect(parseDelay('soon')).toBeNull();
+    expect(parseDelay('-1s')).toBeNull();
+    expect(parseDelay('1h')).toBeNull();
+  });
+});
+
+describe('formatDelay', () => {
+  it('writes the unit, defaulting to seconds', () => {
+    expect(formatDelay('0.3')).toBe('0.3s');
+    expect(formatDelay('300 ms')).toBe('300ms');
+    expect(formatDelay(2)).toBe('2s');
+  });
+});
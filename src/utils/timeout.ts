@@ -0,0 +1,19 @@
+// Timeout ("after") transitions fire once their source state has been active
+// for the given delay. Delays are written as in the .smb file: `0.3s`,
+// `300ms`, or a bare number of seconds.
+
+/** The delay in seconds, or null when the text is not a valid delay. */
+export function parseDelay(text: string | number | undefined): number | null {
+  if (typeof text === 'number') return Number.isFinite(text) && text >= 0 ? text : null;
+  const match = /^\s*(\d+(?:\.\d*)?|\.\d+)\s*(ms|s)?\s*$/.exec(text ?? '');
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] === 'ms' ? value / 1000 : value;
+}
+
+/** Normalize a delay as typed (`0.3`, `300 ms`) to its stored form (`0.3s`, `300ms`). */
+export function formatDelay(text: string | number): string {
+  if (typeof text === 'number') return `${text}s`;
+  const match = /^\s*(\d+(?:\.\d*)?|\.\d+)\s*(ms|s)?\s*$/.exec(text);
+  return match ? `${match[1]}${match[2] ?? 's'}` : text.trim();
+}
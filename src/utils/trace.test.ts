@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { serializeTrace, parseTrace, edgeIdsForTransitions, activeSinceAt, Trace } from './trace';
+
+function makeNode(id: string, label: string, type = 'stateNode', parentId?: string): Node {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label },
+    ...(parentId ? { parentId } : {}),
+  };
+}
+
+const trace: Trace = {
+  version: 1,
+  smbFile: 'blink.smb',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  plugin: 'Interpreter',
+  entries: [
+    { t: 0, activeStates: ['S1'] },
+    { t: 312, activeStates: ['S2'], transitions: [{ source: 'S1', target: 'S2' }] },
+  ],
+};
+
+describe('parseTrace', () => {
+  it('round-trips a serialized trace', () => {
+    expect(parseTrace(serializeTrace(trace))).toEqual(trace);
+  });
+
+  it('rejects unknown versions and malformed entries', () => {
+    expect(() => parseTrace('{')).toThrow(/not valid JSON/);
+    expect(() => parseTrace('{"version":2,"entries":[]}')).toThrow(/version 1/);
+    expect(() => parseTrace('{"version":1,"entries":[{"t":0,"activeStates":"S1"}]}')).toThrow(/entry 0/);
+    expect(() => parseTrace('{"version":1,"entries":[{"t":0,"activeStates":[],"transitions":[{}]}]}'))
+      .toThrow(/transitions in trace entry 0/);
+  });
+});
+
+describe('edgeIdsForTransitions', () => {
+  const nodes: Node[] = [
+    makeNode('p', 'P'),
+    makeNode('a', 'A', 'stateNode', 'p'),
+    makeNode('b', 'B', 'stateNode', 'p'),
+    makeNode('d', 'D1', 'decisionNode', 'p'),
+  ];
+  const edges: Edge[] = [
+    { id: 'initial-edge-p', source: 'p', target: 'a' },
+    { id: 'e1', source: 'a', target: 'd' },
+    { id: 'e2', source: 'd', target: 'b' },
+    { id: 'e3', source: 'b', target: 'a' },
+  ];
+
+  it('matches transitions through pseudo-states by path', () => {
+    const ids = edgeIdsForTransitions([
+      { source: 'P/A', target: 'P/@D1' },
+      { source: 'P/@D1', target: 'P/B' },
+      { source: 'P/X', target: 'P/B' },
+    ], nodes, edges);
+    expect([...ids].sort()).toEqual(['e1', 'e2']);
+  });
+
+  it('returns an empty set when no transitions are known', () => {
+    expect(edgeIdsForTransitions(undefined, nodes, edges).size).toBe(0);
+  });
+});
+
+describe('activeSinceAt', () => {
+  it('reports when each active state and its ancestors were entered', () => {
+    const entries = [
+      { t: 0, activeStates: ['A'] },
+      { t: 100, activeStates: ['P/X'] },
+      { t: 250, activeStates: ['P/Y'] },
+      { t: 400, activeStates: ['P/Y'] },
+    ];
+    expect(activeSinceAt(entries, 3)).toEqual(new Map([['P', 100], ['P/Y', 250]]));
+    expect(activeSinceAt(entries, 0)).toEqual(new Map([['A', 0]]));
+  });
+});
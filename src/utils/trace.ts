@@ -0,0 +1,115 @@
+import { Node, Edge } from 'reactflow';
+import type { TransitionRef } from '../preload';
+import { vertexPath } from './breakpoints';
+
+// One recorded View Mode update: the active-state set reported by the plugin
+// and, when the plugin knows it, the transitions that led there.
+export interface TraceEntry {
+  /** Milliseconds since recording started. */
+  t: number;
+  activeStates: string[];
+  transitions?: TransitionRef[];
+}
+
+export interface Trace {
+  version: 1;
+  /** Name of the .smb file the trace was recorded against, if saved. */
+  smbFile?: string;
+  /** ISO timestamp of the first entry. */
+  startedAt: string;
+  /** Name of the plugin that produced the updates. */
+  plugin?: string;
+  entries: TraceEntry[];
+}
+
+export function serializeTrace(trace: Trace): string {
+  return JSON.stringify(trace, null, 2) + '\n';
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(s => typeof s === 'string');
+}
+
+function isTransitionRef(v: unknown): v is TransitionRef {
+  const r = v as TransitionRef;
+  return !!r && typeof r.source === 'string' && typeof r.target === 'string';
+}
+
+// Parse and validate a saved trace. Throws with a message naming the first
+// offending entry so a hand-edited or truncated file is easy to fix.
+export function parseTrace(content: string): Trace {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Trace is not valid JSON: ${(err as Error).message}`);
+  }
+  const obj = raw as Partial<Trace>;
+  if (!obj || typeof obj !== 'object' || obj.version !== 1) {
+    throw new Error('Unsupported trace format (expected version 1)');
+  }
+  if (!Array.isArray(obj.entries)) {
+    throw new Error('Trace has no entries array');
+  }
+  const entries: TraceEntry[] = obj.entries.map((e: unknown, i: number) => {
+    const entry = e as TraceEntry;
+    if (!entry || typeof entry.t !== 'number' || !isStringArray(entry.activeStates)) {
+      throw new Error(`Invalid trace entry ${i}`);
+    }
+    if (entry.transitions !== undefined
+      && !(Array.isArray(entry.transitions) && entry.transitions.every(isTransitionRef))) {
+      throw new Error(`Invalid transitions in trace entry ${i}`);
+    }
+    return entry.transitions
+      ? { t: entry.t, activeStates: entry.activeStates, transitions: entry.transitions }
+      : { t: entry.t, activeStates: entry.activeStates };
+  });
+  return {
+    version: 1,
+    smbFile: typeof obj.smbFile === 'string' ? obj.smbFile : undefined,
+    startedAt: typeof obj.startedAt === 'string' ? obj.startedAt : '',
+    plugin: typeof obj.plugin === 'string' ? obj.plugin : undefined,
+    entries,
+  };
+}
+
+// Ids of the edges matching the given transitions, so a replayed step can
+// highlight the arrows that were taken. Transitions that no longer exist in
+// the edited model are ignored.
+export function edgeIdsForTransitions(transitions: TransitionRef[] | undefined, nodes: Node[], edges: Edge[]): Set<string> {
+  const ids = new Set<string>();
+  if (!transitions || transitions.length === 0) return ids;
+  const wanted = new Set(transitions.map(t => `${t.source}\u0000${t.target}`));
+  for (const edge of edges) {
+    if (edge.id.startsWith('initial-edge')) continue;
+    const key = `${vertexPath(edge.source, nodes)}\u0000${vertexPath(edge.target, nodes)}`;
+    if (wanted.has(key)) ids.add(edge.id);
+  }
+  return ids;
+}
+
+// For the entry at `index`, the time each active state (leaves and their
+// ancestors, by path) became active, so replay can show dwell timers.
+export function activeSinceAt(entries: TraceEntry[], index: number): Map<string, number> {
+  const since = new Map<string, number>();
+  const entry = entries[index];
+  if (!entry) return since;
+  const isActiveIn = (e: TraceEntry, p: string) =>
+    e.activeStates.some(s => s === p || s.startsWith(p + '/'));
+  for (const leaf of entry.activeStates) {
+    const parts = leaf.split('/');
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const p = parts.slice(0, depth).join('/');
+      if (since.has(p)) continue;
+      let first = index;
+      while (first > 0 && isActiveIn(entries[first - 1], p)) first--;
+      since.set(p, entries[first].t);
+    }
+  }
+  return since;
+}
+
+// Format a trace time (ms) as seconds with millisecond precision.
+export function formatTraceTime(ms: number): string {
+  return `${(ms / 1000).toFixed(3)} s`;
+}
@@ -0,0 +1,24 @@
+// How a transition's trigger reads on the canvas and in the exports:
+// `after 0.3s event [guard] / action` on one line, each part only when present.
+// The canvas shows the timeout with a clock icon instead of `after`.
+
+export interface TriggerData {
+  after?: string;
+  event?: string;
+  guard?: string;
+  action?: string;
+}
+
+/** Collapse multi-line code to one line, statements separated by `; `. */
+export function oneLine(text: string): string {
+  return text.trim().replace(/\s*\n\s*/g, '; ');
+}
+
+export function triggerText(data: TriggerData | undefined): string {
+  const parts: string[] = [];
+  if (data?.after?.trim()) parts.push(`after ${data.after.trim()}`);
+  if (data?.event?.trim()) parts.push(oneLine(data.event));
+  if (data?.guard?.trim()) parts.push(`[${oneLine(data.guard)}]`);
+  if (data?.action?.trim()) parts.push(`/ ${oneLine(data.action)}`);
+  return parts.join(' ');
+}
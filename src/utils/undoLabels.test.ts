@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { countOf, nodeName, describeNodes, describeEdge } from './undoLabels';
+
+const node = (id: string, type: string, data: Record<string, unknown>): Node =>
+  ({ id, type, position: { x: 0, y: 0 }, data }) as Node;
+
+const S1 = node('node_1', 'stateNode', { label: 'S1' });
+const Idle = node('node_2', 'stateNode', { label: 'Idle' });
+const D1 = node('node_3', 'decisionNode', { label: 'D1' });
+const P1 = node('node_4', 'proxyNode', { name: 'P1', label: '../Idle', targetId: 'node_2' });
+
+describe('undoLabels', () => {
+  it('counts in singular and plural', () => {
+    expect(countOf(1, 'state')).toBe('1 state');
+    expect(countOf(4, 'state')).toBe('4 states');
+    expect(countOf(2, 'proxy', 'proxies')).toBe('2 proxies');
+  });
+
+  it('names proxies by their own name rather than their target', () => {
+    expect(nodeName(S1)).toBe('S1');
+    expect(nodeName(P1)).toBe('P1');
+  });
+
+  it('names a single node and counts several', () => {
+    expect(describeNodes([Idle])).toBe('Idle');
+    expect(describeNodes([S1, Idle])).toBe('2 states');
+    expect(describeNodes([P1, P1])).toBe('2 proxies');
+    expect(describeNodes([S1, D1, P1])).toBe('3 items');
+  });
+
+  it('describes a transition by its ends', () => {
+    const edge = { id: 'enode_1-node_4-1', source: 'node_1', target: 'node_4' } as Edge;
+    expect(describeEdge(edge, [S1, Idle, P1])).toBe('S1 → P1');
+  });
+});
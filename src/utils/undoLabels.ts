@@ -0,0 +1,38 @@
+import { Node, Edge } from 'reactflow';
+
+// Labels for the operations listed in the undo history, such as
+// "Rename S3 → Idle" or "Delete 4 states".
+
+const KIND_NOUNS: Record<string, [string, string]> = {
+  stateNode: ['state', 'states'],
+  decisionNode: ['decision', 'decisions'],
+  proxyNode: ['proxy', 'proxies'],
+};
+
+/** "1 state", "4 states". */
+export function countOf(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/** The name shown for a state, decision or proxy. */
+export function nodeName(node: Node): string {
+  if (node.type === 'proxyNode') return (node.data as { name?: string }).name || 'proxy';
+  return node.data?.label || node.id;
+}
+
+/** The name of a single node, otherwise how many there are: "S1", "4 states", "3 items". */
+export function describeNodes(nodes: Node[]): string {
+  if (nodes.length === 1) return nodeName(nodes[0]);
+  const kinds = new Set(nodes.map(n => n.type ?? ''));
+  const nouns = kinds.size === 1 ? KIND_NOUNS[[...kinds][0]] : undefined;
+  return nouns ? countOf(nodes.length, ...nouns) : countOf(nodes.length, 'item');
+}
+
+/** "S1 → S2" */
+export function describeEdge(edge: Edge, nodes: Node[]): string {
+  const name = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    return node ? nodeName(node) : id;
+  };
+  return `${name(edge.source)} → ${name(edge.target)}`;
+}
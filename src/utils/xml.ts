@@ -0,0 +1,153 @@
+// Minimal XML reading and writing for the interchange formats (SCXML, SVG).
+// Handles elements, attributes, text, CDATA, comments and the predefined and
+// numeric entities; DTDs are skipped, not interpreted.
+
+export interface XmlElement {
+  /** Qualified name as written, e.g. "state" or "smb:pseudo". */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/** Element name without its namespace prefix. */
+export function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/** Child elements, optionally only those with the given local name. */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((c): c is XmlElement =>
+    typeof c !== 'string' && (name === undefined || localName(c.name) === name));
+}
+
+/** Attribute by local name, ignoring any namespace prefix. */
+export function attribute(element: XmlElement, name: string): string | undefined {
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (localName(key) === name) return value;
+  }
+  return undefined;
+}
+
+export function textContent(node: XmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+/** Parse a document and return its root element. Throws on malformed input. */
+export function parseXml(text: string): XmlElement {
+  let pos = 0;
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid XML at line ${line}: ${message}`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end === -1) fail(`missing '${terminator}'`);
+    pos = end + terminator.length;
+  };
+
+  const readName = (): string => {
+    const match = /^[^\s/>=]+/.exec(text.slice(pos, pos + 256));
+    if (!match) return fail('expected a name');
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  // Skips prolog material (declaration, comments, doctype) between elements
+  const skipMisc = () => {
+    for (;;) {
+      skipSpace();
+      if (text.startsWith('<?', pos)) skipPast('?>');
+      else if (text.startsWith('<!--', pos)) skipPast('-->');
+      else if (text.startsWith('<!DOCTYPE', pos)) skipPast('>');
+      else return;
+    }
+  };
+
+  const readElement = (): XmlElement => {
+    if (text[pos] !== '<') fail('expected an element');
+    pos++;
+    const element: XmlElement = { name: readName(), attributes: {}, children: [] };
+    for (;;) {
+      skipSpace();
+      if (text.startsWith('/>', pos)) {
+        pos += 2;
+        return element;
+      }
+      if (text[pos] === '>') {
+        pos++;
+        break;
+      }
+      const attrName = readName();
+      skipSpace();
+      if (text[pos] !== '=') fail(`expected '=' after ${attrName}`);
+      pos++;
+      skipSpace();
+      const quote = text[pos];
+      if (quote !== '"' && quote !== '\'') fail(`expected a quoted value for ${attrName}`);
+      const end = text.indexOf(quote, pos + 1);
+      if (end === -1) fail(`unterminated value for ${attrName}`);
+      element.attributes[attrName] = decodeEntities(text.slice(pos + 1, end));
+      pos = end + 1;
+    }
+
+    for (;;) {
+      if (pos >= text.length) fail(`unclosed <${element.name}>`);
+      if (text.startsWith('</', pos)) {
+        pos += 2;
+        const closing = readName();
+        if (closing !== element.name) fail(`expected </${element.name}>, found </${closing}>`);
+        skipSpace();
+        if (text[pos] !== '>') fail(`malformed </${closing}>`);
+        pos++;
+        return element;
+      }
+      if (text.startsWith('<!--', pos)) {
+        skipPast('-->');
+      } else if (text.startsWith('<![CDATA[', pos)) {
+        const start = pos + 9;
+        skipPast(']]>');
+        element.children.push(text.slice(start, pos - 3));
+      } else if (text.startsWith('<?', pos)) {
+        skipPast('?>');
+      } else if (text[pos] === '<') {
+        element.children.push(readElement());
+      } else {
+        const end = text.indexOf('<', pos);
+        const raw = text.slice(pos, end === -1 ? text.length : end);
+        pos += raw.length;
+        element.children.push(decodeEntities(raw));
+      }
+    }
+  };
+
+  skipMisc();
+  const root = readElement();
+  skipMisc();
+  if (pos < text.length) fail('content after the root element');
+  return root;
+}
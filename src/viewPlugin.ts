@@ -10,8 +10,29 @@ export interface PluginCallbacks {
    *  Each entry is a slash-separated path, e.g. "Parent/Child".
    *  Orthogonal regions use bracket notation:
    *    "Parent/[RegionA/ChildA,RegionB/ChildB]"
+   *  Plugins that know which transitions produced the update pass them in
+   *  `transitions`, in the order they were taken.
    */
-  onStateUpdate(activeStates: string[]): void;
+  onStateUpdate(activeStates: string[], transitions?: TransitionRef[]): void;
+
+  /** Called when the plugin pauses on its own, e.g. because a breakpoint
+   *  was hit or the machine threw. `reason` is shown to the user. */
+  onPaused?(reason: string): void;
+}
+
+/** A transition identified by its source and target paths. Pseudo-states
+ *  use the `@` sigil on their last segment, e.g. "Parent/@D1". */
+export interface TransitionRef {
+  source: string;
+  target: string;
+}
+
+/** Breakpoints sent to a debuggable plugin. */
+export interface Breakpoints {
+  /** State paths that pause the machine when entered. */
+  states: string[];
+  /** Transitions that pause the machine when taken. */
+  transitions: TransitionRef[];
 }
 
 /** Describes a single configuration field for a plugin. */
@@ -27,6 +48,8 @@ export interface PluginConfigField {
 export interface PluginInfo {
   name: string;
   configFields: PluginConfigField[];
+  /** True if the plugin implements pause/step/resume. */
+  supportsDebug: boolean;
 }
 
 export interface ViewPlugin {
@@ -42,4 +65,13 @@ export interface ViewPlugin {
 
   /** Stop the plugin and release resources. */
   stop(): Promise<void>;
+
+  /** Optional debugger support. `step` runs exactly one tick and leaves the
+   *  plugin paused; `resume` continues free-running. */
+  pause?(): Promise<void>;
+  step?(): Promise<void>;
+  resume?(): Promise<void>;
+
+  /** Replace the full set of breakpoints. */
+  setBreakpoints?(breakpoints: Breakpoints): Promise<void>;
 }
@@ -12,6 +12,9 @@ import {
   SMB_FORMAT_VERSION,
   sigilizePseudoRef,
   stripPseudoSigil,
+  convertToScxml,
+  convertFromScxml,
+  convertToPhoenixYaml,
 } from './yamlConverter';
 
 // ---------------------------------------------------------------------------
@@ -271,6 +274,35 @@ describe('YAML round-trip', () => {
     expect(outEdges[0].data?.guard).toBe('start');
   });
 
+  it('transition and decision-branch events round-trip', () => {
+    const nodes = [stateNode('n1', 'Idle'), stateNode('n2', 'Running'), decisionNode('d', 'D1')];
+    const edges = [
+      { ...edge('e1', 'n1', 'd'), data: { event: 'press', guard: '', action: '' } },
+      { ...edge('e2', 'd', 'n2', 'ok'), data: { event: 'tick', guard: 'ok', action: '' } },
+    ];
+    const yaml = convertToYaml(nodes, edges, false, false, defaultMachineProperties);
+    expect(parseYaml(yaml).states.Idle.transitions[0]).toEqual({ to: '@D1', event: 'press' });
+    const { edges: outEdges } = convertFromYaml(yaml);
+    expect(outEdges.map(e => e.data?.event)).toEqual(['press', 'tick']);
+  });
+
+  it('timeouts round-trip under their own key', () => {
+    const nodes = [stateNode('n1', 'Idle'), stateNode('n2', 'Running')];
+    const edges = [{ ...edge('e1', 'n1', 'n2'), data: { after: '0.3s', event: '', guard: '', action: '' } }];
+    const yaml = convertToYaml(nodes, edges, false, false, defaultMachineProperties);
+    expect(parseYaml(yaml).states.Idle.transitions[0]).toEqual({ to: 'Running', after: '0.3s' });
+    expect(convertFromYaml(yaml).edges[0].data?.after).toBe('0.3s');
+    // A bare number in the file means seconds
+    expect(convertFromYaml(yaml.replace('after: 0.3s', 'after: 2')).edges[0].data?.after).toBe('2s');
+  });
+
+  it('a transition without an event loads with an empty one', () => {
+    const nodes = [stateNode('n1', 'Idle'), stateNode('n2', 'Running')];
+    const yaml = convertToYaml(nodes, [edge('e1', 'n1', 'n2')], false, false, defaultMachineProperties);
+    expect(yaml).not.toContain('event');
+    expect(convertFromYaml(yaml).edges[0].data?.event).toBe('');
+  });
+
   it('state entry/exit/do actions are preserved', () => {
     const n = stateNode('n1', 'Active');
     n.data.entry = 'enter_action()';
@@ -665,3 +697,133 @@ describe('AND nodes (ands: block)', () => {
     expect(outEdges.some(e => e.source === a1.id && e.target === t.id)).toBe(true);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Phoenix
+// ---------------------------------------------------------------------------
+
+describe('Phoenix export', () => {
+  it('reports transition events as ignored', () => {
+    const nodes = [stateNode('p', 'P'), stateNode('a', 'A', 'p'), stateNode('b', 'B', 'p')];
+    const edges = [{ ...edge('e1', 'a', 'b', 'ok'), data: { event: 'press', guard: 'ok', action: '' } }];
+    const { warnings } = convertToPhoenixYaml(nodes, edges);
+    expect(warnings).toContain('Transition from "P/A" has event "press" that was ignored');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SCXML
+// ---------------------------------------------------------------------------
+
+describe('SCXML export', () => {
+  it('maps compound, parallel, history, initial, code and guards', () => {
+    const p = { ...stateNode('p', 'P'), data: { ...stateNode('p', 'P').data, history: true, initial: 'a', entry: 'x = 1' } };
+    const o = { ...stateNode('o', 'O'), data: { ...stateNode('o', 'O').data, orthogonal: true } };
+    const nodes = [
+      p, stateNode('a', 'A', 'p'), stateNode('b', 'B', 'p'),
+      o, stateNode('r1', 'R1', 'o'), stateNode('r2', 'R2', 'o'),
+    ];
+    const edges = [
+      { ...edge('e1', 'a', 'b', 'ctx.x < 2'), data: { guard: 'ctx.x < 2', action: 'go()' } },
+      { ...edge('e2', 'o', 'p'), data: { event: 'reset' } },
+    ];
+    const { scxml, warnings } = convertToScxml(nodes, edges, false, { ...defaultMachineProperties, initial: 'p' });
+    expect(scxml).toContain('<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="P">');
+    expect(scxml).toContain('<state id="P" initial="P.A">');
+    expect(scxml).toContain('<script>x = 1</script>');
+    expect(scxml).toContain('<transition target="P.B" cond="ctx.x &lt; 2">');
+    expect(scxml).toContain('<script>go()</script>');
+    expect(scxml).toContain('<history id="P.H" type="shallow">');
+    // Entering P from outside resumes through its history
+    expect(scxml).toContain('<transition event="reset" target="P.H"/>');
+    expect(scxml).toContain('<parallel id="O">');
+    expect(warnings).toEqual([]);
+  });
+
+  it('exports decisions as transient states and warns about lossy parts', () => {
+    const s = { ...stateNode('s', 'S'), data: { ...stateNode('s', 'S').data, do: 'tick()' } };
+    const nodes = [s, stateNode('t', 'T'), decisionNode('d', 'D1'), andNode('n', 'A1')];
+    const edges = [edge('e1', 's', 'd'), edge('e2', 'd', 't', 'ok')];
+    const { scxml, warnings } = convertToScxml(nodes, edges, true, { ...defaultMachineProperties, context: 'int x;' });
+    expect(scxml).toContain('xmlns:smb="urn:sm-builder"');
+    expect(scxml).toContain('<state id="D1" smb:pseudo="decision">');
+    expect(warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('Machine-level history'),
+      expect.stringContaining('Machine context'),
+      expect.stringContaining('\'do\' code'),
+      expect.stringContaining('AND "A1"'),
+      expect.stringContaining('Decision "D1" has no else branch'),
+    ]));
+  });
+});
+
+describe('SCXML import', () => {
+  it('round-trips structure, code, guards and decisions', () => {
+    const p = { ...stateNode('p', 'P'), data: { ...stateNode('p', 'P').data, history: true, initial: 'a', exit: 'if x:\n    y()' } };
+    const nodes = [p, stateNode('a', 'A', 'p'), stateNode('b', 'B', 'p'), decisionNode('d', 'D1', 'p')];
+    const edges = [
+      { ...edge('e1', 'a', 'd'), data: { guard: '', action: 'log()' } },
+      edge('e2', 'd', 'b', 'x > 1'),
+      edge('e3', 'd', 'a'),
+    ];
+    const { scxml } = convertToScxml(nodes, edges, false, { ...defaultMachineProperties, initial: 'p' });
+    const result = convertFromScxml(scxml);
+    expect(result.warnings).toEqual([]);
+
+    const byLabel = (label: string) => result.nodes.find(n => n.data.label === label) as Node;
+    const [P, A, B, D1] = ['P', 'A', 'B', 'D1'].map(byLabel);
+    expect(P.data).toMatchObject({ history: true, initial: A.id, exit: 'if x:\n    y()' });
+    expect(A.parentId).toBe(P.id);
+    expect(D1.type).toBe('decisionNode');
+    expect(result.machineProperties.initial).toBe(P.id);
+    expect(result.edges.map(e => [e.source, e.target, e.data.guard, e.data.action])).toEqual([
+      [A.id, D1.id, '', 'log()'],
+      [D1.id, B.id, 'x > 1', ''],
+      [D1.id, A.id, '', ''],
+    ]);
+  });
+
+  it('lays out the imported states inside their parents', () => {
+    const { nodes, machineProperties } = convertFromScxml(`<scxml xmlns="http://www.w3.org/2005/07/scxml" initial="top">
+  <state id="top">
+    <state id="a"><transition target="b"/></state>
+    <state id="b"/>
+  </state>
+</scxml>`);
+    const top = nodes.find(n => n.data.label === 'top') as Node;
+    const [a, b] = ['a', 'b'].map(l => nodes.find(n => n.data.label === l) as Node);
+    expect(top.data.initial).toBe(a.id);
+    expect(b.position.x).toBeGreaterThan(a.position.x);
+    expect((top.style?.width as number)).toBeGreaterThan(b.position.x + (b.style?.width as number));
+    expect(machineProperties.initialMarkerPos).toBeDefined();
+  });
+
+  it('warns about SCXML features without an equivalent', () => {
+    const { nodes, edges, warnings } = convertFromScxml(`<?xml version="1.0"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml">
+  <datamodel><data id="n" expr="0"/></datamodel>
+  <state id="s">
+    <onentry><assign location="n" expr="1"/></onentry>
+    <history id="h" type="deep"/>
+    <transition event="go" target="f"/>
+    <transition event="stay"/>
+  </state>
+  <final id="f"/>
+</scxml>`);
+    expect(nodes.map(n => n.data.label)).toEqual(['s', 'f']);
+    expect(edges).toHaveLength(1);
+    expect(edges[0].data.event).toBe('go');
+    expect(warnings).toEqual([
+      'Top-level <datamodel> was not imported',
+      '<assign> in onentry of "s" was not imported (only <script> is supported)',
+      'Deep history in "s" was imported as shallow history',
+      'Targetless transition in "s" was not imported',
+      'Final state "f" was imported as a plain state',
+    ]);
+  });
+
+  it('rejects documents that are not SCXML', () => {
+    expect(() => convertFromScxml('<svg/>')).toThrow('Not an SCXML document');
+    expect(() => convertFromScxml('<scxml><state></scxml>')).toThrow('Invalid XML');
+  });
+});
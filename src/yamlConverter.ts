@@ -2,6 +2,9 @@ import yaml from 'js-yaml';
 import { Node, Edge, MarkerType } from 'reactflow';
 import dagre from '@dagrejs/dagre';
 import pkg from '../package.json';
+import { parseXml, escapeXml, localName, childElements, attribute, textContent, XmlElement } from './utils/xml';
+import { autoLayout } from './utils/autoLayout';
+import { formatDelay } from './utils/timeout';
 
 export const SMB_FORMAT_VERSION = pkg.version;
 
@@ -52,6 +55,7 @@ interface StateData {
   exit: string;
   do: string;
   annotation?: string;
+  submachine?: string;
   showAnnotation?: boolean;
   showEntry?: boolean;
   showDo?: boolean;
@@ -108,6 +112,7 @@ export const defaultMachineProperties: MachineProperties = {
 
 interface YamlDecisionTransition {
   to: string;
+  event?: string;
   guard?: string;
   action?: string;
   graphics?: {
@@ -129,6 +134,7 @@ interface YamlState {
   exit?: string;
   do?: string;
   annotation?: string;
+  submachine?: string;  // .smb file, relative to this one, whose states this state contains
   history?: boolean;
   orthogonal?: boolean;
   initial?: string;
@@ -156,6 +162,8 @@ interface YamlState {
 
 interface YamlTransition {
   to: string;
+  after?: string | number;
+  event?: string;
   guard?: string;
   action?: string;
   graphics?: {
@@ -419,6 +427,9 @@ export function convertToYaml(
       const pseudoEdges = edgesBySource.get(pseudo.id) || [];
       const transitions: YamlDecisionTransition[] = pseudoEdges.map(edge => {
         const t: YamlDecisionTransition = { to: resolveEdgeTarget(edge) };
+        if ((edge.data as { event?: string })?.event) {
+          t.event = (edge.data as { event: string }).event;
+        }
         if ((edge.data as { guard?: string })?.guard) {
           t.guard = (edge.data as { guard: string }).guard;
         }
@@ -479,6 +490,9 @@ export function convertToYaml(
     if (node.data.orthogonal) {
       stateObj.orthogonal = true;
     }
+    if (node.data.submachine?.trim()) {
+      stateObj.submachine = node.data.submachine.trim();
+    }
 
     // Add graphics if requested
     if (includeGraphics) {
@@ -560,6 +574,12 @@ export function convertToYaml(
           to: resolveEdgeTarget(edge),
         };
         // Include edge data if present
+        if ((edge.data as { after?: string })?.after) {
+          transition.after = (edge.data as { after: string }).after;
+        }
+        if ((edge.data as { event?: string })?.event) {
+          transition.event = (edge.data as { event: string }).event;
+        }
         if ((edge.data as { guard?: string })?.guard) {
           transition.guard = (edge.data as { guard: string }).guard;
         }
@@ -771,6 +791,13 @@ export function convertToPhoenixYaml(
     if (n.data.do?.trim()) warnings.push(`Top-level state "${n.data.label}" has 'do' code that was ignored`);
   });
 
+  // Submachine references are not followed
+  stateOnlyNodes.forEach(n => {
+    if (n.data.submachine?.trim()) {
+      warnings.push(`State "${buildPathForNode(n, nodeMap)}" references submachine "${n.data.submachine.trim()}" that was not included`);
+    }
+  });
+
   // Warn about second-level states with do code
   secondLevelStates.forEach(n => {
     const parentLabel = nodeMap.get(n.parentId!)?.data.label || '?';
@@ -792,6 +819,21 @@ export function convertToPhoenixYaml(
     }
   });
 
+  // Phoenix transitions are guard-driven only
+  edges.forEach(e => {
+    const data = e.data as { after?: string; event?: string } | undefined;
+    const source = nodeMap.get(e.source);
+    if (!source) return;
+    const event = data?.event?.trim();
+    if (event) {
+      warnings.push(`Transition from "${buildPathForNode(source, nodeMap)}" has event "${event}" that was ignored`);
+    }
+    const after = data?.after?.trim();
+    if (after) {
+      warnings.push(`Transition from "${buildPathForNode(source, nodeMap)}" has a timeout (after ${after}) that was ignored`);
+    }
+  });
+
   // Helper: resolve target to "TopLevel secondLevel" format
   function resolvePhoenixTarget(targetId: string): string | null {
     let resolvedId = targetId;
@@ -1059,6 +1101,7 @@ export function convertFromYaml(
         exit: safeStateData.exit || '',
         do: safeStateData.do || '',
         annotation: safeStateData.annotation || '',
+        ...(safeStateData.submachine ? { submachine: String(safeStateData.submachine) } : {}),
         showAnnotation: safeStateData.graphics?.showAnnotation || false,
         showEntry: safeStateData.graphics?.showEntry || false,
         showDo: safeStateData.graphics?.showDo || false,
@@ -1355,7 +1398,7 @@ export function convertFromYaml(
   function createEdgeFromTransition(
     sourceId: string,
     targetId: string,
-    transition: { to: string; guard?: string; action?: string; graphics?: { sourceHandle?: string; targetHandle?: string; controlPoints?: { x: number; y: number }[]; labelPosition?: number }; geometry?: { sourceHandle?: string; targetHandle?: string; controlPoints?: { x: number; y: number }[]; labelPosition?: number } }
+    transition: { to: string; after?: string | number; event?: string; guard?: string; action?: string; graphics?: { sourceHandle?: string; targetHandle?: string; controlPoints?: { x: number; y: number }[]; labelPosition?: number }; geometry?: { sourceHandle?: string; targetHandle?: string; controlPoints?: { x: number; y: number }[]; labelPosition?: number } }
   ) {
     const edgeGraphics = transition.graphics || transition.geometry;
     const edge: Edge = {
@@ -1367,6 +1410,8 @@ export function convertFromYaml(
         controlPoints: edgeGraphics?.controlPoints || [],
         labelPosition: edgeGraphics?.labelPosition,
         label: '',
+        after: transition.after != null ? formatDelay(transition.after) : '',
+        event: transition.event || '',
         guard: transition.guard || '',
         action: transition.action || '',
       },
@@ -1856,3 +1901,406 @@ function phoenixTargetToKey(target: string): string {
   }
   return parts[0];
 }
+
+// --- SCXML ---
+
+const SCXML_NS = 'http://www.w3.org/2005/07/scxml';
+// Namespace for our own attributes; marks the transient states that stand in
+// for decisions and ANDs so they can be recognized again on import
+const SMB_NS = 'urn:sm-builder';
+
+// SCXML ids are XML names and must be unique in the document; states are
+// named after their path with `.` between the levels.
+function scxmlId(path: string, used: Set<string>): string {
+  let id = path.split('/').map(p => p.replace(/[^A-Za-z0-9_-]/g, '_')).join('.');
+  if (!/^[A-Za-z_]/.test(id)) id = `_${id}`;
+  let unique = id;
+  for (let i = 2; used.has(unique); i++) unique = `${id}_${i}`;
+  used.add(unique);
+  return unique;
+}
+
+// Code goes into <script> as is; indentation may matter to the language
+function scriptElement(code: string, indent: string): string {
+  return `${indent}<script>${escapeXml(code)}</script>`;
+}
+
+export function convertToScxml(
+  nodes: Node<StateData>[],
+  edges: Edge[],
+  rootHistory: boolean,
+  machineProperties: MachineProperties,
+): { scxml: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const vertices = nodes.filter(n => n.type !== 'proxyNode');
+  const children = new Map<string | undefined, Node<StateData>[]>();
+  for (const node of vertices) {
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  }
+
+  const used = new Set<string>();
+  const ids = new Map<string, string>();
+  for (const node of vertices) ids.set(node.id, scxmlId(buildPathForNode(node, nodeMap), used));
+
+  // History is a pseudo-state in SCXML: transitions that should resume the
+  // last active child target it instead of the state itself
+  const historyIds = new Map<string, string>();
+  for (const node of vertices) {
+    if (node.data.history && children.has(node.id)) {
+      historyIds.set(node.id, scxmlId(`${buildPathForNode(node, nodeMap)}/H`, used));
+    }
+  }
+
+  const targetRef = (targetId: string): string | undefined => {
+    const target = nodeMap.get(targetId);
+    const resolved = target?.type === 'proxyNode'
+      ? (target.data as unknown as { targetId: string }).targetId
+      : targetId;
+    return historyIds.get(resolved) ?? ids.get(resolved);
+  };
+
+  if (rootHistory) warnings.push('Machine-level history has no SCXML equivalent and was not exported');
+  const machineCode: [string, string][] = [
+    ['includes', machineProperties.includes], ['context', machineProperties.context],
+    ['context_init', machineProperties.context_init], ['entry', machineProperties.entry],
+    ['exit', machineProperties.exit], ['do', machineProperties.do],
+    ['hooks.entry', machineProperties.hooks.entry], ['hooks.exit', machineProperties.hooks.exit],
+    ['hooks.do', machineProperties.hooks.do], ['hooks.transition', machineProperties.hooks.transition],
+  ];
+  for (const [field, code] of machineCode) {
+    if (code?.trim()) warnings.push(`Machine ${field} code was not exported`);
+  }
+
+  const lines: string[] = [];
+  const pseudoStates = vertices.filter(n => n.type === 'decisionNode');
+
+  const emitTransitions = (node: Node<StateData>, indent: string) => {
+    const path = buildPathForNode(node, nodeMap);
+    for (const edge of edges.filter(e => e.source === node.id)) {
+      const target = targetRef(edge.target);
+      if (!target) {
+        warnings.push(`Transition from "${path}" to a missing state was skipped`);
+        continue;
+      }
+      const data = edge.data as { after?: string; event?: string; guard?: string; action?: string } | undefined;
+      if (data?.after?.trim()) warnings.push(`Transition from "${path}" has a timeout (after ${data.after.trim()}) that was not exported`);
+      const event = data?.event?.trim() ? ` event="${escapeXml(data.event.trim())}"` : '';
+      const cond = data?.guard?.trim() ? ` cond="${escapeXml(data.guard.trim())}"` : '';
+      if (data?.action?.trim()) {
+        lines.push(`${indent}<transition${event} target="${target}"${cond}>`);
+        lines.push(scriptElement(data.action, indent + '  '));
+        lines.push(`${indent}</transition>`);
+      } else {
+        lines.push(`${indent}<transition${event} target="${target}"${cond}/>`);
+      }
+    }
+  };
+
+  const emit = (node: Node<StateData>, indent: string) => {
+    const id = ids.get(node.id) as string;
+    const path = buildPathForNode(node, nodeMap);
+    if (node.data.annotation?.trim()) {
+      lines.push(`${indent}<!-- ${node.data.annotation.trim().replace(/--/g, '- -')} -->`);
+    }
+
+    if (node.type === 'decisionNode') {
+      const kind = node.data.isAnd ? 'and' : 'decision';
+      if (node.data.isAnd) {
+        warnings.push(`AND "${path}" was exported as a transient state; SCXML has no join, so it no longer waits for all inputs`);
+      }
+      const branches = edges.filter(e => e.source === node.id);
+      if (!node.data.isAnd && branches.every(e => (e.data as { guard?: string } | undefined)?.guard?.trim())) {
+        warnings.push(`Decision "${path}" has no else branch; in SCXML the machine stays in its transient state when no guard holds`);
+      }
+      lines.push(`${indent}<state id="${id}" smb:pseudo="${kind}">`);
+      emitTransitions(node, indent + '  ');
+      lines.push(`${indent}</state>`);
+      return;
+    }
+
+    const kids = children.get(node.id) || [];
+    const tag = node.data.orthogonal ? 'parallel' : 'state';
+    const initial = !node.data.orthogonal && node.data.initial ? ids.get(node.data.initial) : undefined;
+    if (node.data.do?.trim()) warnings.push(`State "${path}" has 'do' code that was not exported`);
+    if (node.data.submachine?.trim()) warnings.push(`State "${path}" references submachine "${node.data.submachine.trim()}" that was not exported`);
+
+    const body: (() => void)[] = [];
+    if (node.data.entry?.trim()) {
+      body.push(() => {
+        lines.push(`${indent}  <onentry>`);
+        lines.push(scriptElement(node.data.entry, indent + '    '));
+        lines.push(`${indent}  </onentry>`);
+      });
+    }
+    if (node.data.exit?.trim()) {
+      body.push(() => {
+        lines.push(`${indent}  <onexit>`);
+        lines.push(scriptElement(node.data.exit, indent + '    '));
+        lines.push(`${indent}  </onexit>`);
+      });
+    }
+    if (edges.some(e => e.source === node.id)) body.push(() => emitTransitions(node, indent + '  '));
+    const historyId = historyIds.get(node.id);
+    if (historyId) {
+      body.push(() => {
+        if (initial) {
+          lines.push(`${indent}  <history id="${historyId}" type="shallow">`);
+          lines.push(`${indent}    <transition target="${initial}"/>`);
+          lines.push(`${indent}  </history>`);
+        } else {
+          lines.push(`${indent}  <history id="${historyId}" type="shallow"/>`);
+        }
+      });
+    }
+    for (const kid of kids) body.push(() => emit(kid, indent + '  '));
+
+    const initialAttr = initial ? ` initial="${initial}"` : '';
+    if (body.length === 0) {
+      lines.push(`${indent}<${tag} id="${id}"${initialAttr}/>`);
+    } else {
+      lines.push(`${indent}<${tag} id="${id}"${initialAttr}>`);
+      body.forEach(write => write());
+      lines.push(`${indent}</${tag}>`);
+    }
+  };
+
+  const rootInitial = machineProperties.initial ? ids.get(machineProperties.initial) : undefined;
+  const smbNs = pseudoStates.length > 0 ? ` xmlns:smb="${SMB_NS}"` : '';
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<scxml xmlns="${SCXML_NS}"${smbNs} version="1.0"${rootInitial ? ` initial="${rootInitial}"` : ''}>`);
+  for (const node of children.get(undefined) || []) emit(node, '  ');
+  lines.push('</scxml>');
+
+  return { scxml: lines.join('\n') + '\n', warnings };
+}
+
+// Remove the indentation shared by all lines, and leading/trailing blank
+// lines, from code taken out of an indented XML element.
+function dedent(code: string): string {
+  const lines = code.replace(/^\s*\n/, '').replace(/\n\s*$/, '').split('\n');
+  const indents = lines.filter(l => l.trim()).map(l => (/^[ \t]*/.exec(l) as RegExpExecArray)[0].length);
+  const common = indents.length ? Math.min(...indents) : 0;
+  const result = lines.map(l => l.slice(common)).join('\n');
+  return result.trim() ? result : '';
+}
+
+export function convertFromScxml(xmlContent: string): ConvertFromYamlResult & { warnings: string[] } {
+  const root = parseXml(xmlContent);
+  if (localName(root.name) !== 'scxml') {
+    throw new Error(`Not an SCXML document (root element is <${root.name}>)`);
+  }
+  const warnings: string[] = [];
+
+  interface ParsedVertex {
+    key: string;
+    label: string;
+    kind: 'state' | 'decision' | 'and';
+    parentKey?: string;
+    orthogonal: boolean;
+    history: boolean;
+    entry: string;
+    exit: string;
+    initialRef?: string;
+    children: string[];
+  }
+  interface ParsedTransition {
+    sourceKey: string;
+    targetRef: string;
+    event: string;
+    guard: string;
+    action: string;
+  }
+
+  const vertices = new Map<string, ParsedVertex>(); // keyed by SCXML id, in document order
+  const historyOwners = new Map<string, string>();  // history id -> owning state id
+  const transitions: ParsedTransition[] = [];
+  let generatedIds = 0;
+
+  // Only <script> maps onto our code fields; other executable content is reported
+  const readCode = (element: XmlElement, where: string): string => {
+    const parts: string[] = [];
+    for (const child of childElements(element)) {
+      if (localName(child.name) === 'script') {
+        parts.push(dedent(textContent(child)));
+      } else {
+        warnings.push(`<${localName(child.name)}> in ${where} was not imported (only <script> is supported)`);
+      }
+    }
+    return parts.filter(Boolean).join('\n');
+  };
+
+  const firstRef = (refs: string | undefined, where: string): string | undefined => {
+    const list = (refs ?? '').trim().split(/\s+/).filter(Boolean);
+    if (list.length > 1) warnings.push(`${where} has several targets; only "${list[0]}" was used`);
+    return list[0];
+  };
+
+  const readVertex = (element: XmlElement, parentKey: string | undefined) => {
+    const tag = localName(element.name);
+    const key = attribute(element, 'id') || `state_${++generatedIds}`;
+    const parentPrefix = parentKey ? `${parentKey}.` : '';
+    const pseudo = attribute(element, 'pseudo');
+    const vertex: ParsedVertex = {
+      key,
+      label: key.startsWith(parentPrefix) && key.length > parentPrefix.length ? key.slice(parentPrefix.length) : key,
+      kind: pseudo === 'decision' || pseudo === 'and' ? pseudo : 'state',
+      parentKey,
+      orthogonal: tag === 'parallel',
+      history: false,
+      entry: '',
+      exit: '',
+      initialRef: firstRef(attribute(element, 'initial'), `Initial of "${key}"`),
+      children: [],
+    };
+    if (tag === 'final') warnings.push(`Final state "${key}" was imported as a plain state`);
+    vertices.set(key, vertex);
+    if (parentKey) vertices.get(parentKey)?.children.push(key);
+
+    for (const child of childElements(element)) {
+      switch (localName(child.name)) {
+        case 'state':
+        case 'parallel':
+        case 'final':
+          readVertex(child, key);
+          break;
+        case 'onentry':
+          vertex.entry = [vertex.entry, readCode(child, `onentry of "${key}"`)].filter(Boolean).join('\n');
+          break;
+        case 'onexit':
+          vertex.exit = [vertex.exit, readCode(child, `onexit of "${key}"`)].filter(Boolean).join('\n');
+          break;
+        case 'initial': {
+          const transition = childElements(child, 'transition')[0];
+          vertex.initialRef = transition ? firstRef(attribute(transition, 'target'), `Initial of "${key}"`) : undefined;
+          break;
+        }
+        case 'history': {
+          const historyId = attribute(child, 'id');
+          if (historyId) historyOwners.set(historyId, key);
+          vertex.history = true;
+          if (attribute(child, 'type') === 'deep') {
+            warnings.push(`Deep history in "${key}" was imported as shallow history`);
+          }
+          break;
+        }
+        case 'transition': {
+          const target = firstRef(attribute(child, 'target'), `Transition from "${key}"`);
+          if (!target) {
+            warnings.push(`Targetless transition in "${key}" was not imported`);
+            break;
+          }
+          transitions.push({
+            sourceKey: key,
+            targetRef: target,
+            event: attribute(child, 'event')?.trim() ?? '',
+            guard: attribute(child, 'cond')?.trim() ?? '',
+            action: readCode(child, `a transition from "${key}"`),
+          });
+          break;
+        }
+        default:
+          warnings.push(`<${localName(child.name)}> in "${key}" was not imported`);
+      }
+    }
+  };
+
+  for (const child of childElements(root)) {
+    const tag = localName(child.name);
+    if (tag === 'state' || tag === 'parallel' || tag === 'final') readVertex(child, undefined);
+    else warnings.push(`Top-level <${tag}> was not imported`);
+  }
+
+  // Targets may name a history pseudo-state; ours lives on the owning state
+  const resolveRef = (ref: string | undefined): string | undefined => {
+    if (!ref) return undefined;
+    const key = historyOwners.get(ref) ?? ref;
+    return vertices.has(key) ? key : undefined;
+  };
+
+  // SCXML may start deeper than the direct child; we can only mark the child
+  const initialChild = (parentKey: string | undefined, ref: string | undefined): string | undefined => {
+    const siblings = parentKey
+      ? (vertices.get(parentKey) as ParsedVertex).children
+      : [...vertices.values()].filter(v => !v.parentKey).map(v => v.key);
+    const states = siblings.filter(k => (vertices.get(k) as ParsedVertex).kind === 'state');
+    let key = resolveRef(ref);
+    if (!key) return states[0]; // SCXML default: the first child in document order
+    while (key && !siblings.includes(key)) key = vertices.get(key)?.parentKey;
+    if (key && key !== resolveRef(ref)) {
+      warnings.push(`Initial target "${ref}" is not a direct child of "${parentKey ?? 'scxml'}"; "${key}" is used instead`);
+    }
+    return key ?? states[0];
+  };
+
+  // Nodes (document order keeps parents before children) with estimated sizes
+  const keyToNodeId = new Map<string, string>();
+  let nodeIdCounter = 1;
+  for (const key of vertices.keys()) keyToNodeId.set(key, `node_${nodeIdCounter++}`);
+
+  const nodes: Node<StateData>[] = [...vertices.values()].map(v => {
+    const isPseudo = v.kind !== 'state';
+    const contentLines = (v.entry ? v.entry.split('\n').length : 0) + (v.exit ? v.exit.split('\n').length : 0);
+    const width = isPseudo ? 30 : Math.min(400, Math.max(150, v.label.length * 10 + 40));
+    const height = isPseudo ? 30 : Math.min(300, Math.max(75, 40 + contentLines * 20));
+    const initial = v.kind === 'state' && !v.orthogonal && v.children.length > 0
+      ? initialChild(v.key, v.initialRef)
+      : undefined;
+    const node: Node<StateData> = {
+      id: keyToNodeId.get(v.key) as string,
+      type: isPseudo ? 'decisionNode' : 'stateNode',
+      position: { x: 0, y: 0 },
+      data: {
+        label: v.label,
+        ...(v.kind === 'and' ? { isAnd: true } : {}),
+        history: v.history,
+        orthogonal: v.orthogonal,
+        entry: v.entry,
+        exit: v.exit,
+        do: '',
+        ...(initial ? { initial: keyToNodeId.get(initial) } : {}),
+      },
+      style: { width, height },
+    };
+    if (v.parentKey) {
+      node.parentId = keyToNodeId.get(v.parentKey);
+      node.extent = 'parent';
+    }
+    return node;
+  });
+
+  const edges: Edge[] = [];
+  for (const t of transitions) {
+    const targetKey = resolveRef(t.targetRef);
+    if (!targetKey) {
+      warnings.push(`Transition from "${t.sourceKey}" to unknown target "${t.targetRef}" was skipped`);
+      continue;
+    }
+    const sourceId = keyToNodeId.get(t.sourceKey) as string;
+    const targetId = keyToNodeId.get(targetKey) as string;
+    edges.push({
+      id: `e${sourceId}-${targetId}-${edges.length}`,
+      source: sourceId,
+      target: targetId,
+      type: 'spline',
+      data: { controlPoints: [], label: '', event: t.event, guard: t.guard, action: t.action },
+      markerEnd: { type: MarkerType.ArrowClosed },
+    });
+  }
+
+  const rootInitial = initialChild(undefined, firstRef(attribute(root, 'initial'), 'Initial of scxml'));
+  const layout = autoLayout(nodes, edges, {
+    ...defaultMachineProperties,
+    ...(rootInitial ? { initial: keyToNodeId.get(rootInitial) } : {}),
+  });
+
+  return {
+    nodes: layout.nodes as Node<StateData>[],
+    edges: layout.edges,
+    rootHistory: false,
+    machineProperties: layout.machineProperties,
+    warnings,
+  };
+}
@@ -11,7 +11,7 @@ export default defineConfig({
       provider: 'v8',
       reporter: ['text', 'lcov'],
       include: ['src/**/*.{ts,tsx}'],
-      exclude: ['src/test/**', 'src/main.ts', 'src/preload.ts'],
+      exclude: ['src/test/**', 'src/**/*.bench.ts', 'src/main.ts', 'src/preload.ts'],
     },
   },
 });